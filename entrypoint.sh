@@ -1,6 +1,11 @@
 #!/bin/sh
-# Replace placeholder with actual value from environment variable
+# Replace placeholders with actual values from environment variables
 sed -i "s|__BACKEND_URL_PLACEHOLDER__|${BACKEND_URL}|g" /usr/share/nginx/html/config.js
+sed -i "s|__EXECUTION_TIMEOUT_MS_PLACEHOLDER__|${EXECUTION_TIMEOUT_MS:-10000}|g" /usr/share/nginx/html/config.js
+# Comma-separated Pyodide mirrors; defaults to the copy bundled into the image
+sed -i "s|__PYODIDE_URLS_PLACEHOLDER__|${PYODIDE_URLS:-/pyodide/}|g" /usr/share/nginx/html/config.js
+# Comma-separated packages students may import; empty means standard library only
+sed -i "s|__ALLOWED_PACKAGES_PLACEHOLDER__|${ALLOWED_PACKAGES:-}|g" /usr/share/nginx/html/config.js
 
 # Start nginx
 exec nginx -g 'daemon off;'
@@ -1,3 +1,6 @@
 window.PLAYDO_CONFIG = {
-  backendUrl: '__BACKEND_URL_PLACEHOLDER__'
+  backendUrl: '__BACKEND_URL_PLACEHOLDER__',
+  executionTimeoutMs: '__EXECUTION_TIMEOUT_MS_PLACEHOLDER__',
+  pyodideUrls: '__PYODIDE_URLS_PLACEHOLDER__',
+  allowedPackages: '__ALLOWED_PACKAGES_PLACEHOLDER__'
 }
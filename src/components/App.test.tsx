@@ -1,9 +1,28 @@
 import { render, screen, waitFor } from '@testing-library/react'
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { MockInstance } from 'vitest'
 import userEvent from '@testing-library/user-event'
 import App from './App'
 import usePythonExecution from '../hooks/usePythonExecution'
-import { PyodideStatus } from '../services/pyodide'
+import useLint from '../hooks/useLint'
+import useCodeAssistant from '../hooks/useCodeAssistant'
+import {
+  PyodideStatus,
+  type OutputChunk,
+  type PythonError,
+  type TurtleCommand
+} from '../services/pyodide'
+import type { Conversation, MessageSearchHit, Project } from '../types'
+
+// The real pyodide service module is imported for PyodideStatus, and it reads config
+vi.mock('../config', () => ({
+  config: {
+    backendUrl: 'http://test-backend',
+    executionTimeoutMs: 1000,
+    pyodideUrls: ['/pyodide/'],
+    allowedPackages: []
+  }
+}))
 
 // Set up the mock for AuthContext
 const mockLogout = vi.fn()
@@ -27,10 +46,16 @@ vi.mock('../context/AuthContext', () => ({
 vi.mock('./ConversationSelector', () => ({
   default: ({
     onSelectConversation,
-    selectedConversationId
+    selectedConversationId,
+    updated,
+    onUpdate,
+    onOpenMessage
   }: {
     onSelectConversation: (id: number | null) => void
     selectedConversationId: number | null
+    updated?: { id: number; title?: string | null } | null
+    onUpdate?: (update: { id: number; title: string }) => void
+    onOpenMessage?: (hit: MessageSearchHit) => void
   }) => (
     <div data-testid="mock-conversation-selector">
       {/**
@@ -54,35 +79,208 @@ vi.mock('./ConversationSelector', () => ({
       >
         Select Conversation 1
       </button>
+      <button
+        onClick={() => onSelectConversation(2)}
+        data-testid="select-conversation-2-button"
+      >
+        Select Conversation 2
+      </button>
+      <button
+        onClick={() => onUpdate?.({ id: 1, title: 'Loops' })}
+        data-testid="mock-rename-conversation"
+      >
+        Rename
+      </button>
+      <button
+        onClick={() =>
+          onOpenMessage?.({
+            conversation_id: 2,
+            conversation_title: null,
+            message_index: 3,
+            role: 'assistant',
+            field: 'text',
+            snippet: 'A dict maps keys to values'
+          })
+        }
+        data-testid="mock-open-message"
+      >
+        Open message
+      </button>
       <div data-testid="selected-id">{selectedConversationId}</div>
+      <div data-testid="selector-updated">{updated?.title}</div>
     </div>
   )
 }))
 
 vi.mock('./ConversationManager', () => ({
-  default: ({ conversationId }: { conversationId: number | null }) => (
-    <div data-testid="mock-conversation-view">
+  default: ({
+    conversationId,
+    exerciseCheck,
+    messageDraft,
+    focusMessage,
+    onLoad,
+    updated,
+    onRestoreProject,
+    onInsertCode,
+    onRunCode
+  }: {
+    conversationId: number | null
+    exerciseCheck?: { results: { passed: boolean }[] } | null
+    messageDraft?: { text: string } | null
+    focusMessage?: { conversationId: number; messageIndex: number } | null
+    onLoad?: (conversation: Conversation) => void
+    updated?: { id: number; title?: string | null } | null
+    onRestoreProject?: (project: Project) => void
+    onInsertCode?: (code: string) => void
+    onRunCode?: (code: string) => Promise<unknown>
+  }) => (
+    <div
+      data-testid="mock-conversation-view"
+      data-exercise-check={exerciseCheck ? JSON.stringify(exerciseCheck) : ''}
+      data-message-draft={messageDraft?.text ?? ''}
+      data-updated={updated?.title ?? ''}
+      data-focus-message={
+        focusMessage
+          ? `${focusMessage.conversationId}:${focusMessage.messageIndex}`
+          : ''
+      }
+    >
       {conversationId
         ? `Viewing conversation ${conversationId}`
         : 'No conversation selected'}
+      {conversationId !== null && (
+        <button
+          onClick={() =>
+            onLoad?.({
+              id: conversationId,
+              created_at: '2025-01-01T00:00:00Z',
+              updated_at: '2025-01-01T00:00:00Z',
+              messages: [
+                {
+                  role: 'user',
+                  content: [{ type: 'text', text: 'Help' }],
+                  files: [
+                    {
+                      name: 'main.py',
+                      content: `print("sent in ${conversationId}")`
+                    }
+                  ],
+                  entry_point: 'main.py'
+                }
+              ]
+            })
+          }
+          data-testid="mock-conversation-loaded"
+        >
+          Finish loading
+        </button>
+      )}
+      <button
+        onClick={() =>
+          onRestoreProject?.({
+            files: [
+              { name: 'game.py', content: 'print("snapshot")' },
+              { name: 'helpers.py', content: '' }
+            ],
+            entryPoint: 'game.py'
+          })
+        }
+        data-testid="mock-restore-snapshot"
+      >
+        Restore to editor
+      </button>
+      <button
+        onClick={() => onInsertCode?.('print("example")')}
+        data-testid="mock-insert-code"
+      >
+        Insert into editor
+      </button>
+      <button
+        onClick={() => onRunCode?.('print("example")').catch(() => {})}
+        data-testid="mock-run-code"
+      >
+        Run in scratchpad
+      </button>
     </div>
   )
 }))
 
 vi.mock('./CodeEditor', () => ({
   default: ({
-    initialCode,
-    onChange
+    value,
+    onChange,
+    error,
+    cursorTarget,
+    insertion,
+    debugLine,
+    problems,
+    assistant,
+    onRunFragment
   }: {
-    initialCode: string
+    value: string
     onChange: (code: string) => void
+    error?: { line: number | null } | null
+    problems?: unknown[]
+    assistant?: object | null
+    onRunFragment?: (fragment: {
+      code: string
+      fromLine: number
+      toLine: number
+    }) => void
+    cursorTarget?: { line: number; column?: number | null } | null
+    insertion?: { code: string } | null
+    debugLine?: number | null
   }) => (
-    <div data-testid="mock-code-editor">
+    <div
+      data-testid="mock-code-editor"
+      data-error-line={error?.line ?? ''}
+      data-cursor={cursorTarget ? JSON.stringify(cursorTarget) : ''}
+      data-insertion={insertion?.code ?? ''}
+      data-debug-line={debugLine ?? ''}
+      data-problem-count={problems?.length ?? 0}
+      data-has-assistant={Boolean(assistant)}
+    >
       <textarea
         data-testid="mock-code-input"
-        value={initialCode}
+        value={value}
         onChange={(e) => onChange && onChange(e.target.value)}
       />
+      {onRunFragment && (
+        <button
+          onClick={() =>
+            onRunFragment({
+              code: "\nprint('Hello, Playdo!')",
+              fromLine: 2,
+              toLine: 2
+            })
+          }
+        >
+          Shift+Enter
+        </button>
+      )}
+    </div>
+  )
+}))
+
+vi.mock('./FileTree', () => ({
+  default: ({
+    files,
+    activeFile,
+    onSelect,
+    onAdd
+  }: {
+    files: { name: string }[]
+    activeFile: string
+    onSelect: (name: string) => void
+    onAdd: (name: string) => string | null
+  }) => (
+    <div data-testid="mock-file-tree" data-active={activeFile}>
+      {files.map((file) => (
+        <button key={file.name} onClick={() => onSelect(file.name)}>
+          {file.name}
+        </button>
+      ))}
+      <button onClick={() => onAdd('helpers.py')}>Add helpers.py</button>
     </div>
   )
 }))
@@ -93,25 +291,188 @@ vi.mock('./Login', () => ({
 }))
 
 // Mock the OutputDisplay component
+vi.mock('./ReplConsole', () => ({
+  default: ({
+    onEvaluate,
+    disabled
+  }: {
+    onEvaluate: (code: string) => Promise<unknown>
+    disabled?: boolean
+  }) => (
+    <div data-testid="mock-repl-console" data-disabled={Boolean(disabled)}>
+      <button onClick={() => onEvaluate('answer')}>Evaluate answer</button>
+    </div>
+  )
+}))
+
 vi.mock('./OutputDisplay', () => ({
   default: ({
-    stdout,
-    stderr,
-    error
+    output,
+    loadError,
+    onJumpToLine,
+    onAskAboutError
   }: {
-    stdout: string
-    stderr: string
-    error: string | null
-    isLoading?: boolean
+    output: OutputChunk[]
+    loadError?: string | null
+    onAskAboutError?: (error: PythonError) => void
+    onJumpToLine?: (
+      line: number,
+      column: number | null,
+      file: string | null
+    ) => void
   }) => (
     <div data-testid="mock-output-display">
-      {stdout && <pre data-testid="mock-stdout">{stdout}</pre>}
-      {stderr && <pre data-testid="mock-stderr">{stderr}</pre>}
-      {error && <pre data-testid="mock-error">{error}</pre>}
+      {loadError && <div data-testid="mock-load-error">{loadError}</div>}
+      <button
+        data-testid="mock-jump"
+        onClick={() => onJumpToLine?.(2, 5, 'main.py')}
+      />
+      <button
+        data-testid="mock-ask-about-error"
+        onClick={() =>
+          onAskAboutError?.({
+            type: 'NameError',
+            message: "name 'x' is not defined",
+            file: 'main.py',
+            line: 2,
+            column: 7,
+            frames: []
+          })
+        }
+      />
+      <button
+        data-testid="mock-jump-helpers"
+        onClick={() => onJumpToLine?.(1, null, 'helpers.py')}
+      />
+      {output.map((chunk, index) => (
+        <pre key={index} data-testid={`mock-${chunk.stream}`}>
+          {chunk.stream === 'display' ? chunk.data : chunk.text}
+        </pre>
+      ))}
     </div>
   )
 }))
 
+vi.mock('./DebugPanel', () => ({
+  default: ({
+    step,
+    onStep,
+    onContinue,
+    onStop
+  }: {
+    step: { line: number } | null
+    onStep: () => void
+    onContinue: () => void
+    onStop: () => void
+  }) => (
+    <div data-testid="mock-debug-panel">
+      {step ? `Paused at line ${step.line}` : 'Running'}
+      <button onClick={onStep}>Step</button>
+      <button onClick={onContinue}>Continue</button>
+      <button onClick={onStop}>Stop</button>
+    </div>
+  )
+}))
+
+vi.mock('./LintPanel', () => ({
+  default: ({
+    problems,
+    onJumpToLine
+  }: {
+    problems: { line: number; column: number; message: string }[]
+    onJumpToLine: (line: number, column: number) => void
+  }) => (
+    <div data-testid="mock-lint-panel">
+      {problems.map((problem) => (
+        <button
+          key={problem.message}
+          onClick={() => onJumpToLine(problem.line, problem.column)}
+        >
+          {problem.message}
+        </button>
+      ))}
+    </div>
+  )
+}))
+
+vi.mock('./ExerciseSelector', () => ({
+  default: ({
+    selectedExerciseId,
+    onSelectExercise
+  }: {
+    selectedExerciseId: string | null
+    onSelectExercise: (id: string | null) => void
+  }) => (
+    <div
+      data-testid="mock-exercise-selector"
+      data-selected={selectedExerciseId ?? ''}
+    >
+      <button onClick={() => onSelectExercise('add-numbers')}>
+        Pick add-numbers
+      </button>
+      <button onClick={() => onSelectExercise(null)}>Pick no exercise</button>
+    </div>
+  )
+}))
+
+vi.mock('./ExercisePanel', () => ({
+  default: ({
+    exercise,
+    results,
+    resultsAreStale,
+    onCheck
+  }: {
+    exercise: { title: string }
+    results: { passed: boolean }[] | null
+    resultsAreStale: boolean
+    onCheck: () => void
+  }) => (
+    <div data-testid="mock-exercise-panel" data-stale={resultsAreStale}>
+      {exercise.title}
+      {results &&
+        ` ${results.filter((result) => result.passed).length} of ${
+          results.length
+        } passed`}
+      <button onClick={onCheck}>Check my code</button>
+    </div>
+  )
+}))
+
+// Each mount gets a new number, to check that every run starts a fresh canvas
+let turtleCanvasMounts = 0
+vi.mock('./TurtleCanvas', async () => {
+  const { useState } = await vi.importActual<typeof import('react')>('react')
+  return {
+    default: function MockTurtleCanvas({
+      commands
+    }: {
+      commands: TurtleCommand[]
+    }) {
+      const [mount] = useState(() => ++turtleCanvasMounts)
+      return (
+        <div data-testid="mock-turtle-canvas" data-mount={mount}>
+          {commands.length} steps
+        </div>
+      )
+    }
+  }
+})
+
+// Linting needs the Python worker, so the hook is mocked; by default it finds nothing
+vi.mock('../hooks/useLint', () => ({
+  default: vi.fn(() => [])
+}))
+
+// Code intelligence needs the Python worker too
+const mockAssistant = {
+  complete: vi.fn(),
+  describeName: vi.fn(),
+  signatureAt: vi.fn()
+}
+vi.mock('../hooks/useCodeAssistant', () => ({
+  default: vi.fn(() => null)
+}))
+
 // Mock the usePythonExecution hook
 vi.mock('../hooks/usePythonExecution', () => ({
   default: vi.fn(() => ({
@@ -146,14 +507,58 @@ describe('<App />', () => {
     result: null
   })
 
+  const mockRestart = vi.fn().mockResolvedValue(undefined)
+
+  const mockEvaluate = vi.fn().mockResolvedValue({
+    stdout: '',
+    stderr: '',
+    stdin: [],
+    output: [],
+    turtle: [],
+    error: null,
+    result: '42'
+  })
+
+  const mockRunSnippet = vi.fn().mockResolvedValue({
+    stdout: 'from the tutor\n',
+    stderr: '',
+    stdin: [],
+    output: [{ stream: 'stdout', text: 'from the tutor\n' }],
+    turtle: [],
+    error: null,
+    result: null
+  })
+
+  const mockCheckExercise = vi.fn().mockResolvedValue([
+    { name: 'add(2, 3) is 5', passed: true, message: null },
+    { name: 'works with negative numbers', passed: false, message: 'boom' }
+  ])
+
   beforeEach(() => {
     vi.clearAllMocks()
+    vi.mocked(useLint).mockReturnValue([])
+    vi.mocked(useCodeAssistant).mockReturnValue(null)
     vi.mocked(usePythonExecution).mockReturnValue({
       executeCode: mockExecuteCode,
+      checkExercise: mockCheckExercise,
       initialize: vi.fn().mockResolvedValue(undefined),
+      cancel: vi.fn(),
+      restart: mockRestart,
+      evaluate: mockEvaluate,
+      runSnippet: mockRunSnippet,
+      submitInput: vi.fn(),
+      resumeDebugging: vi.fn(),
+      inputPrompt: null,
+      installMessage: null,
+      debugStep: null,
+      drawingCount: 0,
       result: {
         stdout: 'Execution output',
         stderr: '',
+        stdin: [],
+        output: [{ stream: 'stdout', text: 'Execution output' }],
+        turtle: [],
+        error: null,
         result: null
       },
       isCodeRunning: false,
@@ -252,8 +657,89 @@ describe('<App />', () => {
     // Assert
     expect(mockExecuteCode).toHaveBeenCalledTimes(1)
     expect(mockExecuteCode).toHaveBeenCalledWith(
+      "# Write your Python code here\nprint('Hello, Playdo!')",
+      {
+        files: [
+          {
+            name: 'main.py',
+            content: "# Write your Python code here\nprint('Hello, Playdo!')"
+          }
+        ],
+        entryPoint: 'main.py'
+      },
+      { debug: false }
+    )
+  })
+
+  it('should edit the file picked in the file tree and still run the entry point', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByText('Add helpers.py'))
+    await user.type(screen.getByTestId('mock-code-input'), 'x = 1')
+    await user.click(screen.getByText('main.py'))
+    const mainCode = screen.getByTestId('mock-code-input')
+    await user.click(screen.getByTestId('run-code-button'))
+
+    // Assert
+    expect(mainCode).toHaveValue(
       "# Write your Python code here\nprint('Hello, Playdo!')"
     )
+    expect(mockExecuteCode).toHaveBeenCalledWith(
+      "# Write your Python code here\nprint('Hello, Playdo!')",
+      expect.objectContaining({
+        files: [
+          expect.objectContaining({ name: 'main.py' }),
+          { name: 'helpers.py', content: 'x = 1' }
+        ],
+        entryPoint: 'main.py'
+      }),
+      { debug: false }
+    )
+  })
+
+  it('should not render the stop button when no code is running', () => {
+    // Arrange & Act
+    render(<App />)
+
+    // Assert
+    expect(screen.queryByTestId('stop-code-button')).not.toBeInTheDocument()
+  })
+
+  it('should cancel execution when the stop button is clicked', async () => {
+    // Arrange
+    const mockCancel = vi.fn().mockResolvedValue(undefined)
+    vi.mocked(usePythonExecution).mockReturnValue({
+      executeCode: mockExecuteCode,
+      checkExercise: mockCheckExercise,
+      initialize: vi.fn().mockResolvedValue(undefined),
+      cancel: mockCancel,
+      restart: mockRestart,
+      evaluate: mockEvaluate,
+      runSnippet: mockRunSnippet,
+      submitInput: vi.fn(),
+      resumeDebugging: vi.fn(),
+      inputPrompt: null,
+      installMessage: null,
+      debugStep: null,
+      drawingCount: 0,
+      result: null,
+      isCodeRunning: true,
+      status: PyodideStatus.READY,
+      isPyodideInitializing: false,
+      error: null
+    })
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('stop-code-button'))
+
+    // Assert
+    expect(mockCancel).toHaveBeenCalledTimes(1)
+    expect(screen.getByTestId('run-code-button')).toBeDisabled()
   })
 
   it('should initialize Pyodide on component mount when authenticated', async () => {
@@ -269,7 +755,18 @@ describe('<App />', () => {
     const mockInitialize = vi.fn().mockResolvedValue(undefined)
     vi.mocked(usePythonExecution).mockReturnValue({
       executeCode: mockExecuteCode,
+      checkExercise: mockCheckExercise,
       initialize: mockInitialize,
+      cancel: vi.fn(),
+      restart: mockRestart,
+      evaluate: mockEvaluate,
+      runSnippet: mockRunSnippet,
+      submitInput: vi.fn(),
+      resumeDebugging: vi.fn(),
+      inputPrompt: null,
+      installMessage: null,
+      debugStep: null,
+      drawingCount: 0,
       result: null,
       isCodeRunning: false,
       status: PyodideStatus.UNINITIALIZED,
@@ -286,6 +783,620 @@ describe('<App />', () => {
     })
   })
 
+  it('should tell OutputDisplay why Python failed to load', () => {
+    // Arrange
+    vi.mocked(usePythonExecution).mockReturnValue({
+      executeCode: mockExecuteCode,
+      checkExercise: mockCheckExercise,
+      initialize: vi.fn().mockResolvedValue(undefined),
+      cancel: vi.fn(),
+      restart: mockRestart,
+      evaluate: mockEvaluate,
+      runSnippet: mockRunSnippet,
+      submitInput: vi.fn(),
+      resumeDebugging: vi.fn(),
+      inputPrompt: null,
+      installMessage: null,
+      debugStep: null,
+      drawingCount: 0,
+      result: null,
+      isCodeRunning: false,
+      status: PyodideStatus.ERROR,
+      isPyodideInitializing: false,
+      error: new Error('Python could not be loaded from any location')
+    })
+
+    // Act
+    render(<App />)
+
+    // Assert
+    expect(screen.getByTestId('mock-load-error')).toHaveTextContent(
+      'Python could not be loaded from any location'
+    )
+  })
+
+  it('should mark errors in the editor and jump to lines picked in the output', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    vi.mocked(usePythonExecution).mockReturnValue({
+      executeCode: mockExecuteCode,
+      checkExercise: mockCheckExercise,
+      initialize: vi.fn().mockResolvedValue(undefined),
+      cancel: vi.fn(),
+      restart: mockRestart,
+      evaluate: mockEvaluate,
+      runSnippet: mockRunSnippet,
+      submitInput: vi.fn(),
+      resumeDebugging: vi.fn(),
+      inputPrompt: null,
+      installMessage: null,
+      debugStep: null,
+      drawingCount: 0,
+      result: {
+        stdout: '',
+        stderr: 'NameError',
+        stdin: [],
+        output: [{ stream: 'stderr', text: 'NameError' }],
+        turtle: [],
+        error: {
+          type: 'NameError',
+          message: "name 'x' is not defined",
+          file: 'main.py',
+          line: 2,
+          column: null,
+          frames: [{ file: 'main.py', line: 2, name: '<module>' }]
+        },
+        result: null
+      },
+      isCodeRunning: false,
+      status: PyodideStatus.READY,
+      isPyodideInitializing: false,
+      error: null
+    })
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('mock-jump'))
+
+    // Assert
+    const editor = screen.getByTestId('mock-code-editor')
+    expect(editor).toHaveAttribute('data-error-line', '2')
+    expect(editor).toHaveAttribute(
+      'data-cursor',
+      JSON.stringify({ line: 2, column: 5 })
+    )
+  })
+
+  it('should open the file of a frame picked in the output, and mark errors only in their file', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    vi.mocked(usePythonExecution).mockReturnValue({
+      ...vi.mocked(usePythonExecution)(),
+      result: {
+        stdout: '',
+        stderr: 'NameError',
+        stdin: [],
+        output: [],
+        turtle: [],
+        error: {
+          type: 'NameError',
+          message: "name 'nme' is not defined",
+          file: 'helpers.py',
+          line: 1,
+          column: null,
+          frames: [{ file: 'helpers.py', line: 1, name: '<module>' }]
+        },
+        result: null
+      }
+    })
+    render(<App />)
+    await user.click(screen.getByText('Add helpers.py'))
+    await user.click(screen.getByText('main.py'))
+    expect(screen.getByTestId('mock-code-editor')).toHaveAttribute(
+      'data-error-line',
+      ''
+    )
+
+    // Act
+    await user.click(screen.getByTestId('mock-jump-helpers'))
+
+    // Assert
+    expect(screen.getByTestId('mock-file-tree')).toHaveAttribute(
+      'data-active',
+      'helpers.py'
+    )
+    const editor = screen.getByTestId('mock-code-editor')
+    expect(editor).toHaveAttribute('data-error-line', '1')
+    expect(editor).toHaveAttribute(
+      'data-cursor',
+      JSON.stringify({ line: 1, column: null })
+    )
+  })
+
+  it('should show the turtle canvas only when the code draws, fresh for each run', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const { rerender } = render(<App />)
+    expect(screen.queryByTestId('mock-turtle-canvas')).not.toBeInTheDocument()
+    vi.mocked(usePythonExecution).mockReturnValue({
+      ...vi.mocked(usePythonExecution)(),
+      result: {
+        stdout: '',
+        stderr: '',
+        stdin: [],
+        output: [],
+        turtle: [{ type: 'show', turtle: 0, visible: true }],
+        error: null,
+        result: null
+      }
+    })
+    rerender(<App />)
+    const firstMount = screen
+      .getByTestId('mock-turtle-canvas')
+      .getAttribute('data-mount')
+
+    // Act
+    await user.click(screen.getByTestId('run-code-button'))
+
+    // Assert
+    const canvas = screen.getByTestId('mock-turtle-canvas')
+    expect(canvas).toHaveTextContent('1 steps')
+    expect(canvas.getAttribute('data-mount')).not.toBe(firstMount)
+    const secondMount = canvas.getAttribute('data-mount')
+
+    // A snippet that draws starts a drawing of its own too
+    vi.mocked(usePythonExecution).mockReturnValue({
+      ...vi.mocked(usePythonExecution)(),
+      drawingCount: 1
+    })
+    rerender(<App />)
+    expect(
+      screen.getByTestId('mock-turtle-canvas').getAttribute('data-mount')
+    ).not.toBe(secondMount)
+  })
+
+  it('should debug the code, following the paused line and passing on the controls', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const mockResumeDebugging = vi.fn()
+    const mockCancel = vi.fn()
+    // The debug run stays paused for the whole test
+    mockExecuteCode.mockReturnValueOnce(new Promise(() => {}))
+    const { rerender } = render(<App />)
+    await user.click(screen.getByText('Add helpers.py'))
+    await user.click(screen.getByText('main.py'))
+
+    // Act
+    await user.click(screen.getByTestId('debug-code-button'))
+    vi.mocked(usePythonExecution).mockReturnValue({
+      ...vi.mocked(usePythonExecution)(),
+      isCodeRunning: true,
+      cancel: mockCancel,
+      restart: mockRestart,
+      evaluate: mockEvaluate,
+      runSnippet: mockRunSnippet,
+      resumeDebugging: mockResumeDebugging,
+      debugStep: {
+        file: 'helpers.py',
+        line: 2,
+        function: 'greet',
+        locals: [],
+        globals: []
+      }
+    })
+    rerender(<App />)
+    await user.click(screen.getByRole('button', { name: 'Step' }))
+    await user.click(screen.getByRole('button', { name: 'Continue' }))
+    await user.click(screen.getByRole('button', { name: 'Stop' }))
+
+    // Assert
+    expect(mockExecuteCode).toHaveBeenCalledWith(
+      "# Write your Python code here\nprint('Hello, Playdo!')",
+      expect.objectContaining({ entryPoint: 'main.py' }),
+      { debug: true }
+    )
+    expect(screen.getByTestId('mock-debug-panel')).toHaveTextContent(
+      'Paused at line 2'
+    )
+    expect(screen.getByTestId('mock-file-tree')).toHaveAttribute(
+      'data-active',
+      'helpers.py'
+    )
+    expect(screen.getByTestId('mock-code-editor')).toHaveAttribute(
+      'data-debug-line',
+      '2'
+    )
+    expect(mockResumeDebugging).toHaveBeenNthCalledWith(1, 'step')
+    expect(mockResumeDebugging).toHaveBeenNthCalledWith(2, 'continue')
+    expect(mockCancel).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not show the debugger for a normal run', () => {
+    // Arrange
+    vi.mocked(usePythonExecution).mockReturnValue({
+      ...vi.mocked(usePythonExecution)(),
+      isCodeRunning: true
+    })
+
+    // Act
+    render(<App />)
+
+    // Assert
+    expect(screen.queryByTestId('mock-debug-panel')).not.toBeInTheDocument()
+    expect(screen.getByTestId('debug-code-button')).toBeDisabled()
+  })
+
+  it('should lint the open Python file and show the problems found', async () => {
+    // Arrange
+    vi.mocked(useLint).mockReturnValue([
+      {
+        line: 2,
+        column: 1,
+        endLine: 2,
+        endColumn: 6,
+        severity: 'error',
+        message: "'pritn' is not defined. Did you mean 'print'?"
+      }
+    ])
+    const user = userEvent.setup()
+
+    // Act
+    render(<App />)
+    await user.click(
+      screen.getByText("'pritn' is not defined. Did you mean 'print'?")
+    )
+
+    // Assert
+    expect(useLint).toHaveBeenCalledWith(
+      'main.py',
+      "# Write your Python code here\nprint('Hello, Playdo!')",
+      true
+    )
+    expect(screen.getByTestId('mock-code-editor')).toHaveAttribute(
+      'data-problem-count',
+      '1'
+    )
+    expect(screen.getByTestId('mock-code-editor')).toHaveAttribute(
+      'data-cursor',
+      JSON.stringify({ line: 2, column: 1 })
+    )
+  })
+
+  it('should give the editor code intelligence for the open Python file', () => {
+    // Arrange
+    vi.mocked(useCodeAssistant).mockReturnValue(mockAssistant)
+
+    // Act
+    render(<App />)
+
+    // Assert
+    expect(useCodeAssistant).toHaveBeenCalledWith(
+      'main.py',
+      expect.objectContaining({ entryPoint: 'main.py' }),
+      true
+    )
+    expect(screen.getByTestId('mock-code-editor')).toHaveAttribute(
+      'data-has-assistant',
+      'true'
+    )
+  })
+
+  it('should run a fragment of the open file with the file as the entry point', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByText('Shift+Enter'))
+
+    // Assert
+    expect(mockExecuteCode).toHaveBeenCalledWith(
+      "\nprint('Hello, Playdo!')",
+      expect.objectContaining({ entryPoint: 'main.py' }),
+      { debug: false }
+    )
+  })
+
+  it('should restart the interpreter from its button', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('restart-interpreter-button'))
+
+    // Assert
+    expect(mockRestart).toHaveBeenCalledTimes(1)
+  })
+
+  it('should switch to the console, which evaluates against the last run', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+    const consoleTab = screen.getByTestId('console-tab')
+    expect(consoleTab).toHaveAttribute('aria-selected', 'false')
+    expect(screen.getByTestId('mock-repl-console').parentElement).toHaveClass(
+      'hidden'
+    )
+
+    // Act
+    await user.click(consoleTab)
+    await user.click(screen.getByText('Evaluate answer'))
+
+    // Assert
+    expect(consoleTab).toHaveAttribute('aria-selected', 'true')
+    expect(
+      screen.getByTestId('mock-repl-console').parentElement
+    ).not.toHaveClass('hidden')
+    expect(mockEvaluate).toHaveBeenCalledWith('answer')
+    expect(mockExecuteCode).not.toHaveBeenCalled()
+  })
+
+  it('should go back to the output when the code is run', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+    await user.click(screen.getByTestId('console-tab'))
+
+    // Act
+    await user.click(screen.getByTestId('run-code-button'))
+
+    // Assert
+    expect(screen.getByTestId('output-tab')).toHaveAttribute(
+      'aria-selected',
+      'true'
+    )
+  })
+
+  it('should put a question about an error in the chat when asked', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('mock-ask-about-error'))
+
+    // Assert
+    expect(screen.getByTestId('mock-conversation-view')).toHaveAttribute(
+      'data-message-draft',
+      "I got this error on line 2 of main.py: NameError: name 'x' is not defined\nCan you help me understand what it means?"
+    )
+  })
+
+  it('should restore the code last sent in a conversation once it has loaded', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('select-conversation-button'))
+    await user.click(screen.getByTestId('mock-conversation-loaded'))
+
+    // Assert
+    expect(screen.getByTestId('mock-code-input')).toHaveValue(
+      'print("sent in 1")'
+    )
+  })
+
+  it('should give each conversation back the code it was left with', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+    await user.click(screen.getByTestId('select-conversation-button'))
+    await user.click(screen.getByTestId('mock-conversation-loaded'))
+    await user.type(screen.getByTestId('mock-code-input'), ' # edited')
+    await user.click(screen.getByTestId('select-conversation-2-button'))
+    await user.click(screen.getByTestId('mock-conversation-loaded'))
+
+    // Act
+    await user.click(screen.getByTestId('select-conversation-button'))
+    await user.click(screen.getByTestId('mock-conversation-loaded'))
+
+    // Assert
+    expect(screen.getByTestId('mock-code-input')).toHaveValue(
+      'print("sent in 1") # edited'
+    )
+  })
+
+  it('should put the code sent with a message back in the editor', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('mock-restore-snapshot'))
+
+    // Assert
+    expect(screen.getByTestId('mock-code-input')).toHaveValue(
+      'print("snapshot")'
+    )
+    expect(screen.getByText('helpers.py')).toBeInTheDocument()
+  })
+
+  it('should pass a conversation renamed in the selector on to the chat', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('mock-rename-conversation'))
+
+    // Assert
+    expect(screen.getByTestId('mock-conversation-view')).toHaveAttribute(
+      'data-updated',
+      'Loops'
+    )
+    expect(screen.getByTestId('selector-updated')).toHaveTextContent('Loops')
+  })
+
+  it('should open the conversation of a message found by searching, at the message', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('mock-open-message'))
+
+    // Assert
+    expect(screen.getByTestId('selected-id')).toHaveTextContent('2')
+    expect(screen.getByTestId('mock-conversation-view')).toHaveAttribute(
+      'data-focus-message',
+      '2:3'
+    )
+  })
+
+  it('should insert a code block from the tutor into the editor', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('mock-insert-code'))
+
+    // Assert
+    expect(screen.getByTestId('mock-code-editor')).toHaveAttribute(
+      'data-insertion',
+      'print("example")'
+    )
+  })
+
+  it('should run a code block from the tutor in the scratchpad', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('mock-run-code'))
+
+    // Assert
+    expect(mockRunSnippet).toHaveBeenCalledWith('print("example")')
+    expect(mockExecuteCode).not.toHaveBeenCalled()
+  })
+
+  it("should not run a code block while the student's code is running", async () => {
+    // Arrange
+    vi.mocked(usePythonExecution).mockReturnValue({
+      ...vi.mocked(usePythonExecution)(),
+      isCodeRunning: true
+    })
+    const user = userEvent.setup()
+    render(<App />)
+
+    // Act
+    await user.click(screen.getByTestId('mock-run-code'))
+
+    // Assert
+    expect(mockRunSnippet).not.toHaveBeenCalled()
+  })
+
+  it('should not show the problems panel when there are none', () => {
+    // Act
+    render(<App />)
+
+    // Assert
+    expect(screen.queryByTestId('mock-lint-panel')).not.toBeInTheDocument()
+  })
+
+  describe('exercises', () => {
+    let confirmSpy: MockInstance<typeof window.confirm>
+
+    beforeEach(() => {
+      confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true)
+    })
+
+    afterEach(() => {
+      confirmSpy.mockRestore()
+    })
+
+    it('should start an exercise with its starter code', async () => {
+      // Arrange
+      const user = userEvent.setup()
+      render(<App />)
+      expect(
+        screen.queryByTestId('mock-exercise-panel')
+      ).not.toBeInTheDocument()
+
+      // Act
+      await user.click(screen.getByText('Pick add-numbers'))
+
+      // Assert
+      expect(confirmSpy).toHaveBeenCalled()
+      expect(screen.getByTestId('mock-code-input')).toHaveValue(
+        'def add(a, b):\n    pass\n'
+      )
+      expect(screen.getByTestId('mock-exercise-panel')).toHaveTextContent(
+        'Add two numbers'
+      )
+      expect(screen.getByTestId('mock-exercise-selector')).toHaveAttribute(
+        'data-selected',
+        'add-numbers'
+      )
+    })
+
+    it('should keep the code when the student cancels starting an exercise', async () => {
+      // Arrange
+      const user = userEvent.setup()
+      confirmSpy.mockReturnValue(false)
+      render(<App />)
+
+      // Act
+      await user.click(screen.getByText('Pick add-numbers'))
+
+      // Assert
+      expect(screen.getByTestId('mock-code-input')).toHaveValue(
+        "# Write your Python code here\nprint('Hello, Playdo!')"
+      )
+      expect(
+        screen.queryByTestId('mock-exercise-panel')
+      ).not.toBeInTheDocument()
+    })
+
+    it('should check the code and pass the results on to the tutor until the code changes', async () => {
+      // Arrange
+      const user = userEvent.setup()
+      render(<App />)
+      await user.click(screen.getByText('Pick add-numbers'))
+
+      // Act
+      await user.click(screen.getByText('Check my code'))
+
+      // Assert
+      expect(mockCheckExercise).toHaveBeenCalledWith(
+        'def add(a, b):\n    pass\n',
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'add(2, 3) is 5' })
+        ]),
+        {
+          files: [{ name: 'main.py', content: 'def add(a, b):\n    pass\n' }],
+          entryPoint: 'main.py'
+        }
+      )
+      const panel = screen.getByTestId('mock-exercise-panel')
+      expect(panel).toHaveTextContent('1 of 2 passed')
+      expect(panel).toHaveAttribute('data-stale', 'false')
+      const sent = JSON.parse(
+        screen
+          .getByTestId('mock-conversation-view')
+          .getAttribute('data-exercise-check')!
+      )
+      expect(sent).toMatchObject({
+        exercise_id: 'add-numbers',
+        results: [{ passed: true }, { passed: false }]
+      })
+
+      // Editing the code makes the results stale
+      await user.type(screen.getByTestId('mock-code-input'), '    return 1')
+      expect(screen.getByTestId('mock-exercise-panel')).toHaveAttribute(
+        'data-stale',
+        'true'
+      )
+      expect(screen.getByTestId('mock-conversation-view')).toHaveAttribute(
+        'data-exercise-check',
+        ''
+      )
+    })
+  })
+
   it('should handle Python execution errors gracefully', async () => {
     // Mock authenticated state
     mockUseAuth.mockReturnValueOnce({
@@ -301,7 +1412,18 @@ describe('<App />', () => {
       .mockRejectedValue(new Error('Execution failed'))
     vi.mocked(usePythonExecution).mockReturnValue({
       executeCode: mockExecuteWithError,
+      checkExercise: mockCheckExercise,
       initialize: vi.fn().mockResolvedValue(undefined),
+      cancel: vi.fn(),
+      restart: mockRestart,
+      evaluate: mockEvaluate,
+      runSnippet: mockRunSnippet,
+      submitInput: vi.fn(),
+      resumeDebugging: vi.fn(),
+      inputPrompt: null,
+      installMessage: null,
+      debugStep: null,
+      drawingCount: 0,
       result: null,
       isCodeRunning: false,
       status: PyodideStatus.READY,
@@ -346,13 +1468,30 @@ describe('<App />', () => {
     const executionResult = {
       stdout: 'Test output',
       stderr: 'Test error',
+      stdin: [],
+      output: [
+        { stream: 'stdout', text: 'Test output' },
+        { stream: 'stderr', text: 'Test error' }
+      ] as OutputChunk[],
+      turtle: [],
       error: null,
       result: 'Test result'
     }
 
     vi.mocked(usePythonExecution).mockReturnValue({
       executeCode: mockExecuteCode,
+      checkExercise: mockCheckExercise,
       initialize: vi.fn(),
+      cancel: vi.fn(),
+      restart: mockRestart,
+      evaluate: mockEvaluate,
+      runSnippet: mockRunSnippet,
+      submitInput: vi.fn(),
+      resumeDebugging: vi.fn(),
+      inputPrompt: null,
+      installMessage: null,
+      debugStep: null,
+      drawingCount: 0,
       result: executionResult,
       isCodeRunning: false,
       status: PyodideStatus.READY,
@@ -1,32 +1,110 @@
 // src/components/App.tsx
-import { useState, useEffect } from 'react'
-import ConversationManager from './ConversationManager'
+import { useState, useEffect, useRef } from 'react'
+import ConversationManager, {
+  type MessageDraft,
+  type MessageFocus
+} from './ConversationManager'
 import ConversationSelector from './ConversationSelector'
 import CodeEditor from './CodeEditor'
+import FileTree from './FileTree'
 import OutputDisplay from './OutputDisplay'
+import ReplConsole from './ReplConsole'
+import TurtleCanvas from './TurtleCanvas'
+import DebugPanel from './DebugPanel'
+import LintPanel from './LintPanel'
+import ExercisePanel from './ExercisePanel'
+import ExerciseSelector from './ExerciseSelector'
 import Login from './Login'
 import { useAuth } from '../context/AuthContext'
 import usePythonExecution from '../hooks/usePythonExecution'
+import useLint from '../hooks/useLint'
+import useCodeAssistant from '../hooks/useCodeAssistant'
+import useProject, {
+  DEFAULT_FILE_NAME,
+  projectSentIn
+} from '../hooks/useProject'
+import { exercises, findExercise } from '../exercises'
+import { questionAbout } from '../errorExplanations'
+import { PyodideStatus } from '../services/pyodide'
+import { displayedImages } from '../services/outputStream'
+import { classNames } from 'utils'
+import type { CursorTarget } from './editorMarkers'
+import type { CodeInsertion } from './editorText'
+import type { CodeFragment } from './editorCells'
+import type { ConversationUpdate } from './conversationList'
+import type {
+  Conversation,
+  ExerciseCheck,
+  MessageSearchHit,
+  Project
+} from '../types'
 
 function App() {
   const { isAuthenticated, logout } = useAuth()
   const [selectedConversationId, setSelectedConversationId] = useState<
     number | null
   >(null)
-  const [code, setCode] = useState(
-    "# Write your Python code here\nprint('Hello, Playdo!')"
-  )
+  const {
+    project,
+    activeFile,
+    selectFile,
+    updateFile,
+    addFile,
+    renameFile,
+    deleteFile,
+    setEntryPoint,
+    load: loadProject,
+    reset: resetProject
+  } = useProject()
   const [outputIsStale, setOutputIsStale] = useState(true)
+  const [cursorTarget, setCursorTarget] = useState<CursorTarget | null>(null)
+  // A code block from the tutor, put in the open file at the cursor
+  const [insertion, setInsertion] = useState<CodeInsertion | null>(null)
+  // Counts runs, so that each run gets a fresh turtle canvas
+  const [runCount, setRunCount] = useState(0)
+  // Whether the running code was started in the debugger
+  const [isDebugging, setIsDebugging] = useState(false)
+  const [exerciseId, setExerciseId] = useState<string | null>(null)
+  // Results of the last time the code was checked against the exercise
+  const [exerciseCheck, setExerciseCheck] = useState<ExerciseCheck | null>(null)
+  const [checkIsStale, setCheckIsStale] = useState(true)
+  // A question for the tutor, put in the chat's message box for the student to send
+  const [messageDraft, setMessageDraft] = useState<MessageDraft | null>(null)
+  // The last change to a conversation, passed to both the selector and the chat
+  const [conversationUpdate, setConversationUpdate] =
+    useState<ConversationUpdate | null>(null)
+  // A message found by searching, for the chat to scroll to
+  const [messageFocus, setMessageFocus] = useState<MessageFocus | null>(null)
+  // Which of the program's output and the console is shown under the editor
+  const [outputTab, setOutputTab] = useState<'output' | 'console'>('output')
+  // The code each conversation was left with, so switching back to it brings the
+  // code back; null holds the code written with no conversation selected
+  const conversationProjects = useRef(new Map<number | null, Project>())
+  // A conversation whose code is restored from its messages once it has loaded
+  const restoringConversation = useRef<number | null>(null)
 
   // below function does code execution and populates outputs into result. Happens
   // on every component re-render. That way the OutputElement below can display
   // it all.
   const {
     executeCode,
+    checkExercise,
+    evaluate,
+    runSnippet,
     initialize,
+    cancel,
+    restart,
+    submitInput,
+    resumeDebugging,
     result,
     isCodeRunning,
-    isPyodideInitializing
+    inputPrompt,
+    installMessage,
+    debugStep,
+    drawingCount,
+    isPyodideInitializing,
+    status,
+    error
   } = usePythonExecution()
 
   // Initialize Pyodide on component mount
@@ -40,25 +118,216 @@ function App() {
   useEffect(() => {
     if (!isAuthenticated) {
       setSelectedConversationId(null)
-      setCode("# Write your Python code here\nprint('Hello, Playdo!')")
+      conversationProjects.current.clear()
+      restoringConversation.current = null
+      resetProject()
       setOutputIsStale(true)
+      setExerciseId(null)
+      setExerciseCheck(null)
+      setMessageDraft(null)
+      setInsertion(null)
+      setConversationUpdate(null)
+      setMessageFocus(null)
     }
-  }, [isAuthenticated])
+  }, [isAuthenticated, resetProject])
 
-  // Mark output as stale when code changes
+  // Mark output and exercise results as stale when any file changes
   useEffect(() => {
     setOutputIsStale(true)
-  }, [code])
+    setCheckIsStale(true)
+  }, [project])
+
+  // Open the file the debugger has paused in
+  useEffect(() => {
+    if (debugStep?.file) {
+      selectFile(debugStep.file)
+    }
+  }, [debugStep, selectFile])
+
+  const exercise = exerciseId === null ? undefined : findExercise(exerciseId)
+
+  const entryContent =
+    project.files.find((file) => file.name === project.entryPoint)?.content ??
+    ''
+
+  const activeContent =
+    project.files.find((file) => file.name === activeFile)?.content ?? ''
+
+  // Data files aren't Python, so only .py files are linted and completed
+  const canAnalyzeFile =
+    status === PyodideStatus.READY && activeFile.endsWith('.py')
+  const lintProblems = useLint(activeFile, activeContent, canAnalyzeFile)
+  const assistant = useCodeAssistant(activeFile, project, canAnalyzeFile)
 
-  const handleRunCode = async () => {
+  // The cursor target belongs to the file it was set for
+  const handleSelectFile = (name: string) => {
+    setCursorTarget(null)
+    selectFile(name)
+  }
+
+  // Each conversation has its own code: the code is kept when leaving a conversation
+  // and put back in the editor, where it can be undone, when coming back to it
+  const handleSelectConversation = (id: number | null) => {
+    if (id === selectedConversationId) {
+      return
+    }
+    conversationProjects.current.set(selectedConversationId, project)
+    setSelectedConversationId(id)
+    const saved = conversationProjects.current.get(id)
+    restoringConversation.current = saved ? null : id
+    if (saved) {
+      setCursorTarget(null)
+      loadProject(saved)
+    }
+  }
+
+  // A conversation not opened since the page loaded gets the code last sent in it
+  const handleConversationLoaded = (conversation: Conversation) => {
+    if (restoringConversation.current !== conversation.id) {
+      return
+    }
+    restoringConversation.current = null
+    const sent = projectSentIn(conversation)
+    if (sent) {
+      setCursorTarget(null)
+      loadProject(sent)
+    }
+  }
+
+  // A message found by searching opens its conversation, scrolled to the message
+  const handleOpenMessage = (hit: MessageSearchHit) => {
+    handleSelectConversation(hit.conversation_id)
+    setMessageFocus({
+      conversationId: hit.conversation_id,
+      messageIndex: hit.message_index
+    })
+  }
+
+  // Putting back the code sent with a message replaces the project. The editor of
+  // the file that runs keeps its undo history, so the change can be undone there.
+  const handleRestoreProject = (snapshot: Project) => {
+    setCursorTarget(null)
+    loadProject(snapshot)
+  }
+
+  // The tutor's examples run on their own, but not alongside the student's code
+  const handleRunCodeBlock = (code: string) => {
+    if (isCodeRunning) {
+      return Promise.reject(
+        new Error('Wait for the code that is running to finish first.')
+      )
+    }
+    return runSnippet(code)
+  }
+
+  const handleJumpToLine = (
+    line: number,
+    column: number | null,
+    file: string | null
+  ) => {
+    if (file !== null && file !== activeFile) {
+      selectFile(file)
+    }
+    setCursorTarget({ line, column })
+  }
+
+  // Only mark the error in the editor when it was raised in the open file
+  const editorError =
+    result?.error &&
+    (result.error.file === null || result.error.file === activeFile)
+      ? result.error
+      : null
+
+  // Likewise the line the debugger has paused on
+  const debugLine =
+    debugStep && (debugStep.file === null || debugStep.file === activeFile)
+      ? debugStep.line
+      : null
+
+  const runProject = async (debug: boolean) => {
+    setRunCount((count) => count + 1)
+    setIsDebugging(debug)
+    setOutputTab('output')
     try {
-      await executeCode(code)
+      await executeCode(entryContent, project, { debug })
       setOutputIsStale(false) // Mark output as fresh after running code
     } catch (error) {
       console.error('Failed to execute code:', error)
+    } finally {
+      setIsDebugging(false)
     }
   }
 
+  const handleRunCode = () => runProject(false)
+
+  const handleDebugCode = () => runProject(true)
+
+  // Run part of the open file in the namespace earlier runs left behind. The open
+  // file stands in as the entry point, so tracebacks point into it. Its output
+  // isn't the whole program's, so the tutor doesn't see it as such.
+  const handleRunFragment = async (fragment: CodeFragment) => {
+    if (isCodeRunning || isPyodideInitializing) {
+      return
+    }
+    setRunCount((count) => count + 1)
+    setIsDebugging(false)
+    setOutputIsStale(true)
+    setOutputTab('output')
+    try {
+      await executeCode(
+        fragment.code,
+        { ...project, entryPoint: activeFile },
+        { debug: false }
+      )
+    } catch (error) {
+      console.error('Failed to execute code:', error)
+    }
+  }
+
+  // Starting an exercise replaces the student's code with its starter code
+  const handleSelectExercise = (id: string | null) => {
+    const next = id === null ? undefined : findExercise(id)
+    if (next) {
+      if (
+        !window.confirm(
+          `Start "${next.title}"? Your code will be replaced with the exercise's starter code.`
+        )
+      ) {
+        return
+      }
+      setCursorTarget(null)
+      loadProject({
+        files: [{ name: DEFAULT_FILE_NAME, content: next.starterCode }],
+        entryPoint: DEFAULT_FILE_NAME
+      })
+    }
+    setExerciseId(id)
+    setExerciseCheck(null)
+  }
+
+  const handleCheckExercise = async () => {
+    if (!exercise) {
+      return
+    }
+    try {
+      const results = await checkExercise(entryContent, exercise.tests, project)
+      setExerciseCheck({
+        exercise_id: exercise.id,
+        prompt: exercise.prompt,
+        results
+      })
+      setCheckIsStale(false)
+    } catch (error) {
+      console.error('Failed to check code:', error)
+    }
+  }
+
+  // The check belongs to the exercise it was made for
+  const currentCheck =
+    exercise && exerciseCheck?.exercise_id === exercise.id
+      ? exerciseCheck
+      : null
+
   // If not authenticated, show login page
   if (!isAuthenticated) {
     return <Login />
@@ -70,22 +339,14 @@ function App() {
       {/* Fixed header */}
       <header className="z-10 bg-white shadow">
         <div className="container mx-auto px-4 py-3">
-          <div className="relative flex items-center">
+          <div className="flex items-center justify-between px-4">
             {/* Left - App Title */}
-            <div className="absolute left-4">
+            <div>
               <h1 className="text-xl font-bold text-green-600">Playdo</h1>
             </div>
 
-            {/* Center - Conversation Selector */}
-            <div className="mx-auto">
-              <ConversationSelector
-                onSelectConversation={setSelectedConversationId}
-                selectedConversationId={selectedConversationId}
-              />
-            </div>
-
             {/* Right - Logout button */}
-            <div className="absolute right-4">
+            <div>
               <button
                 onClick={logout}
                 className="text-sm text-gray-600 hover:text-gray-900"
@@ -102,50 +363,258 @@ function App() {
         <div className="grid h-full grid-cols-1 gap-6 lg:grid-cols-2">
           {/* Code editor column - left side */}
           <div className="flex h-full flex-col overflow-hidden">
+            <div className="mb-2">
+              <ExerciseSelector
+                exercises={exercises}
+                selectedExerciseId={exerciseId}
+                onSelectExercise={handleSelectExercise}
+                disabled={isCodeRunning}
+              />
+            </div>
+
             {/* Code editor - take 2/3 height */}
-            <div className="mb-4 grow overflow-hidden">
-              <div className="relative h-full">
-                <CodeEditor initialCode={code} onChange={setCode} />
-                <button
-                  onClick={handleRunCode}
-                  disabled={isCodeRunning || isPyodideInitializing}
-                  className="absolute bottom-4 right-4 rounded-full bg-green-500 p-3 text-white shadow-lg transition hover:bg-green-600 disabled:bg-green-300"
-                  data-testid="run-code-button"
-                  aria-label="Run code"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    viewBox="0 0 24 24"
-                    fill="currentColor"
-                    className="size-6"
+            <div className="mb-4 flex grow gap-4 overflow-hidden">
+              <div className="w-40 shrink-0">
+                <FileTree
+                  files={project.files}
+                  activeFile={activeFile}
+                  entryPoint={project.entryPoint}
+                  onSelect={handleSelectFile}
+                  onAdd={addFile}
+                  onRename={renameFile}
+                  onDelete={deleteFile}
+                  onSetEntryPoint={setEntryPoint}
+                />
+              </div>
+              <div className="relative h-full min-w-0 flex-1">
+                {/* Remounted for each file, so each file has its own undo history */}
+                <CodeEditor
+                  key={activeFile}
+                  value={activeContent}
+                  onChange={(content) => updateFile(activeFile, content)}
+                  error={editorError}
+                  problems={lintProblems}
+                  cursorTarget={cursorTarget}
+                  insertion={insertion}
+                  debugLine={debugLine}
+                  assistant={assistant}
+                  onRunFragment={
+                    activeFile.endsWith('.py') ? handleRunFragment : undefined
+                  }
+                />
+                <div className="absolute bottom-4 right-4 flex items-center gap-2">
+                  {isCodeRunning && (
+                    <button
+                      onClick={cancel}
+                      className="rounded-full bg-red-500 p-3 text-white shadow-lg transition hover:bg-red-600"
+                      data-testid="stop-code-button"
+                      aria-label="Stop code"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        viewBox="0 0 24 24"
+                        fill="currentColor"
+                        className="size-6"
+                      >
+                        {/*The below is a stop button in SVG*/}
+                        <path d="M6.75 5.25h10.5a1.5 1.5 0 0 1 1.5 1.5v10.5a1.5 1.5 0 0 1-1.5 1.5H6.75a1.5 1.5 0 0 1-1.5-1.5V6.75a1.5 1.5 0 0 1 1.5-1.5Z" />
+                      </svg>
+                    </button>
+                  )}
+                  <button
+                    onClick={restart}
+                    disabled={isPyodideInitializing}
+                    className="rounded-full bg-gray-500 p-3 text-white shadow-lg transition hover:bg-gray-600 disabled:bg-gray-300"
+                    data-testid="restart-interpreter-button"
+                    aria-label="Restart interpreter"
+                    title="Restart interpreter: forget everything earlier runs defined"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="currentColor"
+                      className="size-6"
+                    >
+                      {/*The below is a circular arrow in SVG*/}
+                      <path
+                        fillRule="evenodd"
+                        d="M4.755 10.059a7.5 7.5 0 0 1 12.548-3.364l1.903 1.903h-3.183a.75.75 0 1 0 0 1.5h4.992a.75.75 0 0 0 .75-.75V4.356a.75.75 0 0 0-1.5 0v3.18l-1.9-1.9A9 9 0 0 0 3.306 9.67a.75.75 0 1 0 1.45.388Zm15.408 3.352a.75.75 0 0 0-.919.53 7.5 7.5 0 0 1-12.548 3.364l-1.902-1.903h3.183a.75.75 0 0 0 0-1.5H2.984a.75.75 0 0 0-.75.75v4.992a.75.75 0 0 0 1.5 0v-3.18l1.9 1.9a9 9 0 0 0 15.059-4.035.75.75 0 0 0-.53-.918Z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={handleDebugCode}
+                    disabled={isCodeRunning || isPyodideInitializing}
+                    className="rounded-full bg-yellow-500 p-3 text-white shadow-lg transition hover:bg-yellow-600 disabled:bg-yellow-300"
+                    data-testid="debug-code-button"
+                    aria-label="Debug code"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="currentColor"
+                      className="size-6"
+                    >
+                      {/*The below is a step-forward button in SVG*/}
+                      <path d="M3.75 5.653c0-.856.917-1.398 1.667-.986l9.04 4.972V5.25a.75.75 0 0 1 1.5 0v13.5a.75.75 0 0 1-1.5 0v-4.389l-9.04 4.972c-.75.412-1.667-.13-1.667-.986V5.653ZM18.75 5.25a.75.75 0 0 1 .75.75v12a.75.75 0 0 1-1.5 0V6a.75.75 0 0 1 .75-.75Z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={handleRunCode}
+                    disabled={isCodeRunning || isPyodideInitializing}
+                    className="rounded-full bg-green-500 p-3 text-white shadow-lg transition hover:bg-green-600 disabled:bg-green-300"
+                    data-testid="run-code-button"
+                    aria-label="Run code"
                   >
-                    {/*The below is a play button in SVG*/}
-                    <path d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347c-.75.412-1.667-.13-1.667-.986V5.653Z" />
-                  </svg>
-                </button>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="currentColor"
+                      className="size-6"
+                    >
+                      {/*The below is a play button in SVG*/}
+                      <path d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347c-.75.412-1.667-.13-1.667-.986V5.653Z" />
+                    </svg>
+                  </button>
+                </div>
               </div>
             </div>
 
-            {/* Output display - take 1/3 height */}
-            <div className="h-1/3 overflow-y-auto">
-              <OutputDisplay
-                stdout={result?.stdout || ''}
-                stderr={result?.stderr || ''}
-                isCodeRunning={isCodeRunning}
-                isPyodideInitializing={isPyodideInitializing}
-              />
+            {lintProblems.length > 0 && (
+              <div className="mb-4 shrink-0">
+                <LintPanel
+                  problems={lintProblems}
+                  onJumpToLine={(line, column) =>
+                    setCursorTarget({ line, column })
+                  }
+                />
+              </div>
+            )}
+
+            {/* Output display - take 1/3 height, shared with the exercise, the debugger and the turtle canvas while they are in use */}
+            <div className="flex h-1/3 gap-4 overflow-y-auto">
+              <div className="flex min-w-0 flex-1 flex-col">
+                <div className="mb-1 flex gap-1" role="tablist">
+                  {(['output', 'console'] as const).map((tab) => (
+                    <button
+                      key={tab}
+                      role="tab"
+                      aria-selected={outputTab === tab}
+                      onClick={() => setOutputTab(tab)}
+                      className={classNames(
+                        'rounded px-3 py-1 text-xs font-medium',
+                        outputTab === tab
+                          ? 'bg-blue-100 text-blue-700'
+                          : 'text-gray-500 hover:bg-gray-100'
+                      )}
+                      data-testid={`${tab}-tab`}
+                    >
+                      {tab === 'output' ? 'Output' : 'Console'}
+                    </button>
+                  ))}
+                </div>
+                {/* Both stay mounted, so the console keeps its entries while hidden */}
+                <div
+                  className={classNames(
+                    'min-h-0 flex-1',
+                    outputTab !== 'output' && 'hidden'
+                  )}
+                >
+                  <OutputDisplay
+                    output={result?.output || []}
+                    isCodeRunning={isCodeRunning}
+                    isPyodideInitializing={isPyodideInitializing}
+                    inputPrompt={inputPrompt}
+                    onSubmitInput={submitInput}
+                    installMessage={installMessage}
+                    error={result?.error ?? null}
+                    onJumpToLine={handleJumpToLine}
+                    onAskAboutError={(error) =>
+                      setMessageDraft({ text: questionAbout(error) })
+                    }
+                    loadError={
+                      status === PyodideStatus.ERROR
+                        ? error?.message || 'Unknown error'
+                        : null
+                    }
+                  />
+                </div>
+                <div
+                  className={classNames(
+                    'min-h-0 flex-1',
+                    outputTab !== 'console' && 'hidden'
+                  )}
+                >
+                  <ReplConsole
+                    onEvaluate={evaluate}
+                    disabled={isCodeRunning || isPyodideInitializing}
+                    inputPrompt={inputPrompt}
+                    onSubmitInput={submitInput}
+                  />
+                </div>
+              </div>
+              {exercise && (
+                <div className="w-1/2 shrink-0">
+                  <ExercisePanel
+                    exercise={exercise}
+                    results={currentCheck?.results ?? null}
+                    resultsAreStale={checkIsStale}
+                    isBusy={isCodeRunning || isPyodideInitializing}
+                    onCheck={handleCheckExercise}
+                  />
+                </div>
+              )}
+              {isDebugging && isCodeRunning && (
+                <div className="w-1/2 shrink-0">
+                  <DebugPanel
+                    step={debugStep}
+                    onStep={() => resumeDebugging('step')}
+                    onContinue={() => resumeDebugging('continue')}
+                    onStop={cancel}
+                  />
+                </div>
+              )}
+              {result && result.turtle.length > 0 && (
+                <div className="w-1/2 shrink-0">
+                  <TurtleCanvas
+                    key={`${runCount}:${drawingCount}`}
+                    commands={result.turtle}
+                  />
+                </div>
+              )}
             </div>
           </div>
 
-          {/* Conversation column - right side */}
-          <div className="h-full overflow-hidden">
-            <ConversationManager
-              conversationId={selectedConversationId}
-              currentCode={code}
-              stdout={result?.stdout || null}
-              stderr={result?.stderr || null}
-              outputIsStale={outputIsStale}
+          {/* Conversation column - right side, with the conversations beside the chat */}
+          <div className="flex h-full gap-4 overflow-hidden">
+            <ConversationSelector
+              onSelectConversation={handleSelectConversation}
+              selectedConversationId={selectedConversationId}
+              updated={conversationUpdate}
+              onUpdate={setConversationUpdate}
+              onOpenMessage={handleOpenMessage}
             />
+            <div className="h-full min-w-0 flex-1">
+              <ConversationManager
+                conversationId={selectedConversationId}
+                project={project}
+                stdout={result?.stdout || null}
+                stderr={result?.stderr || null}
+                stdin={result?.stdin || null}
+                images={result ? displayedImages(result.output) : null}
+                outputIsStale={outputIsStale}
+                exerciseCheck={checkIsStale ? null : currentCheck}
+                messageDraft={messageDraft}
+                focusMessage={messageFocus}
+                onLoad={handleConversationLoaded}
+                updated={conversationUpdate}
+                onUpdate={setConversationUpdate}
+                onRestoreProject={handleRestoreProject}
+                onInsertCode={(code) => setInsertion({ code })}
+                onRunCode={handleRunCodeBlock}
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import CodeBlock from './CodeBlock'
+import type { ExecutionResult } from '../services/pyodide'
+
+const ranResult: ExecutionResult = {
+  stdout: 'hi\n',
+  stderr: '',
+  stdin: [],
+  output: [{ stream: 'stdout', text: 'hi\n' }],
+  turtle: [],
+  error: null,
+  result: null
+}
+
+describe('<CodeBlock />', () => {
+  it('should highlight Python and offer to insert and run it', () => {
+    // Arrange & Act
+    render(
+      <CodeBlock
+        code={'if x:\n    print("hi")'}
+        language="python"
+        onInsert={vi.fn()}
+        onRun={vi.fn()}
+      />
+    )
+
+    // Assert
+    expect(screen.getByText('if')).toHaveClass('text-purple-700')
+    expect(screen.getByTestId('insert-code')).toBeInTheDocument()
+    expect(screen.getByTestId('run-code-block')).toBeInTheDocument()
+  })
+
+  it('should only offer to copy code in other languages', () => {
+    // Arrange & Act
+    render(
+      <CodeBlock
+        code="$ pip install requests"
+        language="bash"
+        onInsert={vi.fn()}
+        onRun={vi.fn()}
+      />
+    )
+
+    // Assert
+    expect(screen.getByText('Copy')).toBeInTheDocument()
+    expect(screen.queryByTestId('insert-code')).not.toBeInTheDocument()
+    expect(screen.queryByTestId('run-code-block')).not.toBeInTheDocument()
+  })
+
+  it('should copy the code to the clipboard', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<CodeBlock code="print(1)" language="python" />)
+
+    // Act
+    await user.click(screen.getByText('Copy'))
+
+    // Assert
+    expect(await navigator.clipboard.readText()).toBe('print(1)')
+    expect(screen.getByText('Copied')).toBeInTheDocument()
+  })
+
+  it('should hand the code over to be put in the editor', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onInsert = vi.fn()
+    render(<CodeBlock code="print(1)" language="py" onInsert={onInsert} />)
+
+    // Act
+    await user.click(screen.getByText('Insert into editor'))
+
+    // Assert
+    expect(onInsert).toHaveBeenCalledWith('print(1)')
+  })
+
+  it('should show what the code printed in the scratchpad', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onRun = vi.fn().mockResolvedValue(ranResult)
+    render(<CodeBlock code="print('hi')" language="python" onRun={onRun} />)
+
+    // Act
+    await user.click(screen.getByText('Run in scratchpad'))
+
+    // Assert
+    expect(onRun).toHaveBeenCalledWith("print('hi')")
+    expect(await screen.findByTestId('scratchpad-output')).toHaveTextContent(
+      'hi'
+    )
+  })
+
+  it('should say why the code could not be run', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onRun = vi.fn().mockRejectedValue(new Error('Python is busy'))
+    render(<CodeBlock code="print(1)" language="python" onRun={onRun} />)
+
+    // Act
+    await user.click(screen.getByText('Run in scratchpad'))
+
+    // Assert
+    expect(await screen.findByText('Python is busy')).toHaveClass(
+      'text-red-500'
+    )
+  })
+})
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react'
+import type { ExecutionResult } from '../services/pyodide'
+import { classNames } from 'utils'
+import DisplayOutput from './DisplayOutput'
+import { highlightPython } from './codeHighlight'
+
+export interface CodeBlockProps {
+  code: string
+  // The language named after the opening fence, e.g. python; empty when there is none
+  language: string
+  // Puts the code in the editor at the cursor; without it there is no button
+  onInsert?: (code: string) => void
+  // Runs the code on its own and returns the result; without it there is no button
+  onRun?: (code: string) => Promise<ExecutionResult>
+}
+
+// How long the copy button says the code was copied
+const COPIED_MS = 2000
+
+const PYTHON_LANGUAGES = ['python', 'py', 'python3']
+
+/**
+ * A fenced code block from a message. Python code is highlighted and can be put in
+ * the editor or run in a scratchpad, whose output shows under the block; any code
+ * can be copied.
+ */
+function CodeBlock({ code, language, onInsert, onRun }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [result, setResult] = useState<ExecutionResult | null>(null)
+  // Why the code couldn't be run
+  const [failure, setFailure] = useState<string | null>(null)
+
+  const isPython = PYTHON_LANGUAGES.includes(language.toLowerCase())
+
+  useEffect(() => {
+    if (!copied) {
+      return
+    }
+    const timeoutId = setTimeout(() => setCopied(false), COPIED_MS)
+    return () => clearTimeout(timeoutId)
+  }, [copied])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+    } catch (error) {
+      console.error('Failed to copy code:', error)
+    }
+  }
+
+  const handleRun = async () => {
+    if (!onRun) {
+      return
+    }
+    setIsRunning(true)
+    setResult(null)
+    setFailure(null)
+    try {
+      setResult(await onRun(code))
+    } catch (error) {
+      setFailure(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <div
+      className="not-prose my-2 overflow-hidden rounded border border-gray-300 bg-white font-sans text-gray-800"
+      data-testid="code-block"
+    >
+      <div className="flex items-center justify-between gap-2 border-b border-gray-200 bg-gray-50 px-3 py-1 text-xs">
+        <span className="text-gray-500">{language}</span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="rounded px-2 py-0.5 hover:bg-gray-200"
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          {isPython && onInsert && (
+            <button
+              type="button"
+              onClick={() => onInsert(code)}
+              className="rounded px-2 py-0.5 hover:bg-gray-200"
+              data-testid="insert-code"
+            >
+              Insert into editor
+            </button>
+          )}
+          {isPython && onRun && (
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={isRunning}
+              className="rounded bg-green-500 px-2 py-0.5 text-white hover:bg-green-600 disabled:opacity-50"
+              data-testid="run-code-block"
+            >
+              {isRunning ? 'Running...' : 'Run in scratchpad'}
+            </button>
+          )}
+        </div>
+      </div>
+      <pre className="overflow-auto p-3 font-mono text-sm">
+        <code>
+          {isPython
+            ? highlightPython(code).map((piece, index) => (
+                <span key={index} className={piece.className}>
+                  {piece.text}
+                </span>
+              ))
+            : code}
+        </code>
+      </pre>
+
+      {(result || failure) && (
+        <div
+          className="border-t border-gray-200 p-3 font-mono text-sm"
+          data-testid="scratchpad-output"
+        >
+          <div className="mb-1 font-sans text-xs text-gray-500">
+            Scratchpad output (your code and variables weren&apos;t touched)
+          </div>
+          {result?.output.map((chunk, index) =>
+            chunk.stream === 'display' ? (
+              <DisplayOutput key={index} chunk={chunk} />
+            ) : (
+              <pre
+                key={index}
+                className={classNames(
+                  'whitespace-pre-wrap break-words',
+                  chunk.stream === 'stderr' && 'text-red-500'
+                )}
+              >
+                {chunk.text}
+              </pre>
+            )
+          )}
+          {result?.output.length === 0 && (
+            <div className="font-sans text-xs text-gray-500">
+              The code ran without printing anything.
+            </div>
+          )}
+          {failure && (
+            <pre className="whitespace-pre-wrap break-words text-red-500">
+              {failure}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CodeBlock
@@ -1,34 +1,56 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { act } from 'react'
+import { act, useEffect } from 'react'
+import type { EditorState } from '@uiw/react-codemirror'
 import CodeEditor from './CodeEditor'
+import type { LintProblem, PythonError } from '../services/pyodide'
+import { setDebugLine } from './editorMarkers'
+
+// Stands in for the EditorView the real component creates
+const mockView = {
+  state: null as EditorState | null,
+  dispatch: vi.fn(),
+  focus: vi.fn()
+}
 
 // Mock the CodeMirror component since it's complex and not
 // necessary to test fully in our component tests
-vi.mock('@uiw/react-codemirror', () => {
-  return {
-    default: ({
-      value,
-      onChange
-    }: {
-      value: string
-      onChange: (value: string) => void
-    }) => {
-      return (
-        <div data-testid="code-mirror-mock">
-          <textarea
-            data-testid="code-editor-textarea"
-            value={value}
-            onChange={(e) => onChange && onChange(e.target.value)}
-          />
-        </div>
-      )
-    }
+vi.mock('@uiw/react-codemirror', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@uiw/react-codemirror')>()
+  const MockCodeMirror = ({
+    value,
+    onChange,
+    onCreateEditor
+  }: {
+    value: string
+    onChange: (value: string) => void
+    onCreateEditor?: (view: typeof mockView) => void
+  }) => {
+    // Hand over the view once, like CodeMirror does when it mounts
+    useEffect(() => {
+      mockView.state = actual.EditorState.create({ doc: value })
+      onCreateEditor?.(mockView)
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [])
+    return (
+      <div data-testid="code-mirror-mock">
+        <textarea
+          data-testid="code-editor-textarea"
+          value={value}
+          onChange={(e) => onChange && onChange(e.target.value)}
+        />
+      </div>
+    )
   }
+  return { ...actual, default: MockCodeMirror }
 })
 
 describe('CodeEditor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
   it('renders with the correct title', async () => {
     await act(async () => {
       render(<CodeEditor />)
@@ -68,4 +90,180 @@ describe('CodeEditor', () => {
       expect(handleChange).toHaveBeenCalled()
     })
   })
+
+  it('replaces its text in place when the value changes', async () => {
+    // Arrange
+    const handleChange = vi.fn()
+    let rerender: ReturnType<typeof render>['rerender'] = () => {}
+    await act(async () => {
+      ;({ rerender } = render(
+        <CodeEditor value={'x = 1\nprint(x)'} onChange={handleChange} />
+      ))
+    })
+
+    // Act
+    await act(async () => {
+      rerender(<CodeEditor value={'x = 2\nprint(x)'} onChange={handleChange} />)
+    })
+
+    // Assert
+    const spec = mockView.dispatch.mock.calls.at(-1)?.[0]
+    expect(spec.changes).toEqual({ from: 4, to: 5, insert: '2' })
+    expect(handleChange).not.toHaveBeenCalled()
+  })
+
+  it('leaves the text alone when the value is what it already shows', async () => {
+    // Arrange & Act
+    await act(async () => {
+      render(<CodeEditor value="print(1)" />)
+    })
+
+    // Assert
+    const changes = mockView.dispatch.mock.calls.filter(
+      ([spec]) => spec.changes !== undefined
+    )
+    expect(changes).toEqual([])
+  })
+
+  it('puts a snippet in at the cursor whenever a new one is passed', async () => {
+    // Arrange
+    let rerender: ReturnType<typeof render>['rerender'] = () => {}
+    await act(async () => {
+      ;({ rerender } = render(
+        <CodeEditor initialCode="a = 1" insertion={{ code: 'old' }} />
+      ))
+    })
+    // Snippets passed before the editor was created were meant for an earlier one
+    expect(mockView.dispatch).not.toHaveBeenCalledWith(
+      expect.objectContaining({ userEvent: 'input.paste' })
+    )
+
+    // Act
+    await act(async () => {
+      rerender(
+        <CodeEditor initialCode="a = 1" insertion={{ code: 'print(a)' }} />
+      )
+    })
+
+    // Assert
+    expect(mockView.dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        changes: { from: 0, to: 0, insert: 'print(a)\n' },
+        userEvent: 'input.paste'
+      })
+    )
+    expect(mockView.focus).toHaveBeenCalled()
+  })
+
+  it('marks the line an error was raised on', async () => {
+    // Arrange
+    const error: PythonError = {
+      type: 'NameError',
+      message: "name 'x' is not defined",
+      file: null,
+      line: 2,
+      column: null,
+      frames: [{ file: null, line: 2, name: '<module>' }]
+    }
+
+    // Act
+    await act(async () => {
+      render(<CodeEditor initialCode={'a = 1\nprint(x)'} error={error} />)
+    })
+
+    // Assert
+    // setDiagnostics also installs the lint state, so find the effect holding the list
+    const spec = mockView.dispatch.mock.calls.at(-1)?.[0]
+    const diagnostics = [spec.effects]
+      .flat()
+      .map((effect: { value: unknown }) => effect.value)
+      .find(Array.isArray)
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        from: 6,
+        to: 14,
+        message: "NameError: name 'x' is not defined"
+      })
+    ])
+  })
+
+  it('marks the problems the linter found', async () => {
+    // Arrange
+    const problems: LintProblem[] = [
+      {
+        line: 2,
+        column: 1,
+        endLine: 2,
+        endColumn: 6,
+        severity: 'error',
+        message: "'pritn' is not defined. Did you mean 'print'?"
+      }
+    ]
+
+    // Act
+    await act(async () => {
+      render(<CodeEditor initialCode={'a = 1\npritn(a)'} problems={problems} />)
+    })
+
+    // Assert
+    const spec = mockView.dispatch.mock.calls.at(-1)?.[0]
+    const diagnostics = [spec.effects]
+      .flat()
+      .map((effect: { value: unknown }) => effect.value)
+      .find(Array.isArray)
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        from: 6,
+        to: 11,
+        severity: 'error',
+        message: "'pritn' is not defined. Did you mean 'print'?"
+      })
+    ])
+  })
+
+  it('mentions the Shift+Enter shortcut only when fragments can be run', async () => {
+    // Arrange & Act
+    let rerender: ReturnType<typeof render>['rerender'] = () => {}
+    await act(async () => {
+      rerender = render(<CodeEditor />).rerender
+    })
+
+    // Assert
+    expect(screen.queryByText(/Shift\+Enter/)).not.toBeInTheDocument()
+    rerender(<CodeEditor onRunFragment={vi.fn()} />)
+    expect(
+      screen.getByText('Shift+Enter runs the selection or the # %% cell')
+    ).toBeInTheDocument()
+  })
+
+  it('moves the cursor to a requested line', async () => {
+    // Arrange & Act
+    await act(async () => {
+      render(
+        <CodeEditor
+          initialCode={'a = 1\nprint(x)'}
+          cursorTarget={{ line: 2, column: 7 }}
+        />
+      )
+    })
+
+    // Assert
+    expect(mockView.dispatch).toHaveBeenCalledWith({
+      selection: { anchor: 12 },
+      scrollIntoView: true
+    })
+    expect(mockView.focus).toHaveBeenCalled()
+  })
+  it('highlights the line the debugger is paused on', async () => {
+    // Arrange & Act
+    await act(async () => {
+      render(<CodeEditor initialCode={'a = 1\nprint(a)'} debugLine={2} />)
+    })
+
+    // Assert
+    const spec = mockView.dispatch.mock.calls.at(-1)?.[0]
+    expect(spec.effects.is(setDebugLine)).toBe(true)
+    expect(spec.effects.value).toBe(2)
+    expect(spec.selection).toEqual({ anchor: 6 })
+  })
 })
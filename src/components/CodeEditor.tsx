@@ -1,36 +1,189 @@
-import { useState } from 'react'
-import CodeMirror from '@uiw/react-codemirror'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import CodeMirror, {
+  type EditorView,
+  type ViewUpdate
+} from '@uiw/react-codemirror'
 import { python } from '@codemirror/lang-python'
 import { oneDark } from '@codemirror/theme-one-dark'
+import { lintGutter, setDiagnostics } from '@codemirror/lint'
+import type { LintProblem, PythonError } from '../services/pyodide'
+import {
+  debugLineField,
+  debugLineTheme,
+  errorDiagnostics,
+  lintDiagnostics,
+  positionAt,
+  setDebugLine,
+  type CursorTarget
+} from './editorMarkers'
+import { assistExtensions, type CodeAssistant } from './editorAssist'
+import {
+  cellMarkers,
+  runFragmentKeymap,
+  type CodeFragment
+} from './editorCells'
+import {
+  insertCode,
+  isExternalChange,
+  replaceCode,
+  type CodeInsertion
+} from './editorText'
 
 export type CodeEditorProps = {
+  // The code to show. When it changes, the editor's text is replaced in a step the
+  // student can undo; without it, the editor keeps its own text, starting with initialCode.
+  value?: string
   initialCode?: string
+  // Called when the student edits the code, not when value changes it
   onChange?: (code: string) => void
+  // Exception from the last run, marked on the line it was raised on
+  error?: PythonError | null
+  // Problems the linter found in the code, marked alongside the error
+  problems?: LintProblem[]
+  // Moves the cursor whenever a new target is passed
+  cursorTarget?: CursorTarget | null
+  // Puts a snippet in at the cursor whenever a new one is passed
+  insertion?: CodeInsertion | null
+  // Line the debugger is paused on (1-based), highlighted and scrolled into view
+  debugLine?: number | null
+  // Completions, hover documentation and signature help; without it, lang-python's own completions
+  assistant?: CodeAssistant | null
+  // Called with the selected lines, or the cell the cursor is in, on Shift+Enter
+  onRunFragment?: (fragment: CodeFragment) => void
 }
 
-function CodeEditor({ initialCode = '', onChange }: CodeEditorProps) {
-  const [code, setCode] = useState(initialCode)
+// Created once, so CodeMirror doesn't reconfigure the editor on every render
+const extensions = [
+  python(),
+  lintGutter(),
+  debugLineField,
+  debugLineTheme,
+  cellMarkers
+]
 
-  const handleChange = (value: string) => {
-    setCode(value)
-    if (onChange) {
-      onChange(value)
+// The default for problems, shared so the markers effect doesn't rerun on every render
+const NO_PROBLEMS: LintProblem[] = []
+
+function CodeEditor({
+  value,
+  initialCode = '',
+  onChange,
+  error = null,
+  problems = NO_PROBLEMS,
+  cursorTarget = null,
+  insertion = null,
+  debugLine = null,
+  assistant = null,
+  onRunFragment
+}: CodeEditorProps) {
+  // CodeMirror only reads its value when it creates the editor; the effect below
+  // makes later changes, keeping the undo history
+  const [startCode] = useState(value ?? initialCode)
+  const [view, setView] = useState<EditorView | null>(null)
+  // Read when Shift+Enter is pressed, so a new callback doesn't reconfigure the editor
+  const onRunFragmentRef = useRef(onRunFragment)
+  useEffect(() => {
+    onRunFragmentRef.current = onRunFragment
+  }, [onRunFragment])
+  const allExtensions = useMemo(
+    () => [
+      ...extensions,
+      runFragmentKeymap((fragment) => onRunFragmentRef.current?.(fragment)),
+      ...(assistant ? assistExtensions(assistant) : [])
+    ],
+    [assistant]
+  )
+
+  useEffect(() => {
+    if (view && value !== undefined && value !== view.state.doc.toString()) {
+      view.dispatch(replaceCode(view.state, value))
+    }
+  }, [view, value])
+
+  // Replace the markers whenever a run finishes (or a new one starts), or the code is linted
+  useEffect(() => {
+    if (view) {
+      view.dispatch(
+        setDiagnostics(view.state, [
+          ...errorDiagnostics(view.state.doc, error),
+          ...lintDiagnostics(view.state.doc, problems)
+        ])
+      )
+    }
+  }, [view, error, problems])
+
+  useEffect(() => {
+    if (view && cursorTarget) {
+      view.dispatch({
+        selection: {
+          anchor: positionAt(
+            view.state.doc,
+            cursorTarget.line,
+            cursorTarget.column
+          )
+        },
+        scrollIntoView: true
+      })
+      view.focus()
+    }
+  }, [view, cursorTarget])
+
+  // The snippet last put in. Starts as the one passed when the editor is created, so
+  // that remounting the editor, e.g. when switching files, doesn't insert it again.
+  const insertedRef = useRef(insertion)
+  useEffect(() => {
+    if (view && insertion && insertion !== insertedRef.current) {
+      insertedRef.current = insertion
+      view.dispatch(insertCode(view.state, insertion.code))
+      view.focus()
+    }
+  }, [view, insertion])
+
+  useEffect(() => {
+    if (!view) {
+      return
+    }
+    if (debugLine === null) {
+      // Only clear the highlight if there is one
+      if (view.state.field(debugLineField, false)?.size) {
+        view.dispatch({ effects: setDebugLine.of(null) })
+      }
+      return
+    }
+    view.dispatch({
+      effects: setDebugLine.of(debugLine),
+      selection: { anchor: positionAt(view.state.doc, debugLine) },
+      scrollIntoView: true
+    })
+  }, [view, debugLine])
+
+  const handleChange = (code: string, update?: ViewUpdate) => {
+    if (onChange && !(update && isExternalChange(update))) {
+      onChange(code)
     }
   }
 
   return (
     <div className="flex size-full flex-col rounded-lg border border-gray-200 bg-white shadow-sm">
       <div className="border-b border-gray-200 px-4 py-2">
-        <div className="text-sm font-medium text-gray-700">Python Editor</div>
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium text-gray-700">Python Editor</div>
+          {onRunFragment && (
+            <div className="text-xs text-gray-400">
+              Shift+Enter runs the selection or the # %% cell
+            </div>
+          )}
+        </div>
       </div>
       <div className="size-full overflow-auto">
         {/* TOODO: use light theme */}
         <CodeMirror
-          value={code}
+          value={startCode}
           height="100%"
           theme={oneDark}
-          extensions={[python()]}
+          extensions={allExtensions}
           onChange={handleChange}
+          onCreateEditor={setView}
           basicSetup={{
             lineNumbers: true,
             highlightActiveLineGutter: true,
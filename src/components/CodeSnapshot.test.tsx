@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import CodeSnapshot from './CodeSnapshot'
+import type { Project } from '../types'
+
+const snapshot: Project = {
+  files: [
+    { name: 'main.py', content: 'import helpers\nprint(helpers.x)' },
+    { name: 'helpers.py', content: 'x = 1' }
+  ],
+  entryPoint: 'main.py'
+}
+
+describe('<CodeSnapshot />', () => {
+  it('should stay folded until opened', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<CodeSnapshot project={snapshot} stdout="1\n" />)
+    expect(screen.queryByTestId('snapshot-code')).not.toBeInTheDocument()
+
+    // Act
+    await user.click(screen.getByText('2 files sent with this message'))
+
+    // Assert
+    const code = screen.getAllByTestId('snapshot-code')
+    expect(code).toHaveLength(2)
+    expect(code[0].textContent).toBe('import helpers\nprint(helpers.x)')
+    expect(screen.getByText('main.py (runs)')).toBeInTheDocument()
+    expect(screen.getByText('Output')).toBeInTheDocument()
+  })
+
+  it('should show the output alone when no code was sent', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<CodeSnapshot project={null} stderr="Traceback" />)
+
+    // Act
+    await user.click(screen.getByText('Output sent with this message'))
+
+    // Assert
+    expect(screen.getByText('Traceback')).toHaveClass('text-red-600')
+    expect(screen.queryByTestId('restore-snapshot')).not.toBeInTheDocument()
+  })
+
+  it('should put the snapshot back in the editor', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onRestore = vi.fn()
+    render(<CodeSnapshot project={snapshot} onRestore={onRestore} />)
+    await user.click(screen.getByRole('button', { expanded: false }))
+
+    // Act
+    await user.click(screen.getByTestId('restore-snapshot'))
+
+    // Assert
+    expect(onRestore).toHaveBeenCalledWith(snapshot)
+  })
+
+  it('should compare the snapshot with the code in the editor', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const current: Project = {
+      files: [
+        { name: 'main.py', content: 'import helpers\nprint(helpers.x)' },
+        { name: 'helpers.py', content: 'x = 2' },
+        { name: 'data.csv', content: 'a,b' }
+      ],
+      entryPoint: 'main.py'
+    }
+    render(<CodeSnapshot project={snapshot} currentProject={current} />)
+    await user.click(screen.getByRole('button', { expanded: false }))
+
+    // Act
+    await user.click(screen.getByText('Compare with editor'))
+
+    // Assert
+    const diffs = screen.getAllByTestId('snapshot-diff')
+    expect(diffs).toHaveLength(2)
+    expect(diffs[0].textContent).toBe('- x = 1+ x = 2')
+    expect(diffs[1].textContent).toBe('+ a,b')
+    expect(screen.queryByTestId('snapshot-code')).not.toBeInTheDocument()
+  })
+
+  it('should say when the editor has the same code', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<CodeSnapshot project={snapshot} currentProject={snapshot} />)
+    await user.click(screen.getByRole('button', { expanded: false }))
+
+    // Act
+    await user.click(screen.getByTestId('compare-snapshot'))
+
+    // Assert
+    expect(
+      screen.getByText('The editor has the same code as this snapshot.')
+    ).toBeInTheDocument()
+  })
+})
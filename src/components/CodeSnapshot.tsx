@@ -0,0 +1,189 @@
+import { useState } from 'react'
+import type { Project } from '../types'
+import { classNames } from 'utils'
+import { highlightPython } from './codeHighlight'
+import { diffLines, type DiffLine } from './lineDiff'
+
+export interface CodeSnapshotProps {
+  // The code sent with a message; null when only output was sent
+  project: Project | null
+  stdout?: string | null
+  stderr?: string | null
+  // The project in the editor now; without it the snapshot can't be compared
+  currentProject?: Project | null
+  // Puts the snapshot back in the editor; without it there is no button
+  onRestore?: (project: Project) => void
+}
+
+interface FileChanges {
+  name: string
+  lines: DiffLine[]
+}
+
+// The files that changed since the snapshot, with the lines removed and added
+function changesSince(snapshot: Project, current: Project): FileChanges[] {
+  const names = [
+    ...snapshot.files.map((file) => file.name),
+    ...current.files
+      .map((file) => file.name)
+      .filter((name) => !snapshot.files.some((file) => file.name === name))
+  ]
+  const contentOf = (project: Project, name: string) =>
+    project.files.find((file) => file.name === name)?.content ?? ''
+  return names
+    .map((name) => ({
+      name,
+      lines: diffLines(contentOf(snapshot, name), contentOf(current, name))
+    }))
+    .filter((file) => file.lines.some((line) => line.kind !== 'same'))
+}
+
+const DIFF_MARKS = { same: '  ', added: '+ ', removed: '- ' }
+
+/**
+ * The code and output a student sent with a message, folded away under a one-line
+ * summary. Opened, it shows each file with syntax highlighting, and can compare
+ * the snapshot with the editor or put it back there.
+ */
+function CodeSnapshot({
+  project,
+  stdout = null,
+  stderr = null,
+  currentProject = null,
+  onRestore
+}: CodeSnapshotProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isComparing, setIsComparing] = useState(false)
+
+  const summary = !project
+    ? 'Output sent with this message'
+    : project.files.length === 1
+      ? 'Code sent with this message'
+      : `${project.files.length} files sent with this message`
+
+  const changes =
+    isOpen && isComparing && project && currentProject
+      ? changesSince(project, currentProject)
+      : []
+
+  return (
+    <div
+      className="mt-2 rounded border border-blue-200 bg-white font-sans text-sm text-gray-800"
+      data-testid="code-snapshot"
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between px-3 py-1 text-left text-xs font-medium text-blue-700 hover:bg-blue-50"
+      >
+        <span>{summary}</span>
+        <span aria-hidden="true">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-2 border-t border-blue-200 p-3">
+          {project && (
+            <div className="flex items-center gap-2">
+              {currentProject && (
+                <button
+                  type="button"
+                  onClick={() => setIsComparing((prev) => !prev)}
+                  className="rounded border border-gray-300 px-2 py-1 text-xs hover:bg-gray-100"
+                  data-testid="compare-snapshot"
+                >
+                  {isComparing ? 'Show code' : 'Compare with editor'}
+                </button>
+              )}
+              {onRestore && (
+                <button
+                  type="button"
+                  onClick={() => onRestore(project)}
+                  className="rounded bg-blue-500 px-2 py-1 text-xs text-white hover:bg-blue-600"
+                  data-testid="restore-snapshot"
+                >
+                  Restore to editor
+                </button>
+              )}
+            </div>
+          )}
+
+          {project &&
+            !isComparing &&
+            project.files.map((file) => (
+              <div key={file.name}>
+                <div className="mb-1 font-mono text-xs text-gray-500">
+                  {file.name}
+                  {project.files.length > 1 &&
+                    file.name === project.entryPoint &&
+                    ' (runs)'}
+                </div>
+                <pre
+                  className="overflow-auto rounded bg-gray-50 p-2 font-mono text-xs"
+                  data-testid="snapshot-code"
+                >
+                  {file.name.endsWith('.py')
+                    ? highlightPython(file.content).map((piece, index) => (
+                        <span key={index} className={piece.className}>
+                          {piece.text}
+                        </span>
+                      ))
+                    : file.content}
+                </pre>
+              </div>
+            ))}
+
+          {isComparing && changes.length === 0 && (
+            <div className="text-xs text-gray-500">
+              The editor has the same code as this snapshot.
+            </div>
+          )}
+          {isComparing &&
+            changes.map((file) => (
+              <div key={file.name}>
+                <div className="mb-1 font-mono text-xs text-gray-500">
+                  {file.name}
+                </div>
+                <pre
+                  className="overflow-auto rounded bg-gray-50 py-2 font-mono text-xs"
+                  data-testid="snapshot-diff"
+                >
+                  {file.lines.map((line, index) => (
+                    <div
+                      key={index}
+                      className={classNames(
+                        'px-2',
+                        line.kind === 'added' && 'bg-green-100 text-green-800',
+                        line.kind === 'removed' && 'bg-red-100 text-red-800'
+                      )}
+                    >
+                      {DIFF_MARKS[line.kind] + line.text}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            ))}
+
+          {stdout && (
+            <div>
+              <div className="mb-1 text-xs text-gray-500">Output</div>
+              <pre className="overflow-auto rounded bg-gray-50 p-2 font-mono text-xs">
+                {stdout}
+              </pre>
+            </div>
+          )}
+          {stderr && (
+            <div>
+              <div className="mb-1 text-xs text-gray-500">Errors</div>
+              <pre className="overflow-auto rounded bg-gray-50 p-2 font-mono text-xs text-red-600">
+                {stderr}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CodeSnapshot
@@ -1,10 +1,29 @@
-import { render, screen, waitFor } from '@testing-library/react'
+import {
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within
+} from '@testing-library/react'
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import userEvent from '@testing-library/user-event'
 import { act } from 'react'
-import ConversationManager from './ConversationManager'
-import { fetchConversation, sendMessage } from '../services/api'
-import { Conversation } from '../types'
+import ConversationManager, {
+  MAX_ATTACHED_IMAGES,
+  REPLY_IDLE_TIMEOUT_MS
+} from './ConversationManager'
+import {
+  fetchConversation,
+  renameConversation,
+  streamMessage
+} from '../services/api'
+import { downloadFile, printHtml } from './conversationExport'
+import { Conversation, Project } from '../types'
+
+// A project with just one file, the way a student starts out
+function singleFileProject(code: string): Project {
+  return { files: [{ name: 'main.py', content: code }], entryPoint: 'main.py' }
+}
 
 /**
  * Mock the API module
@@ -14,7 +33,8 @@ import { Conversation } from '../types'
  */
 vi.mock('../services/api', () => ({
   fetchConversation: vi.fn(),
-  sendMessage: vi.fn()
+  renameConversation: vi.fn(),
+  streamMessage: vi.fn()
 }))
 
 /**
@@ -34,14 +54,50 @@ const mockFetchConversation = fetchConversation as unknown as ReturnType<
 >
 
 /**
- * Mock implementation of sendMessage
+ * Mock implementation of streamMessage; resolves with the updated conversation
  */
-const mockSendMessage = sendMessage as unknown as ReturnType<typeof vi.fn>
+const mockStreamMessage = streamMessage as unknown as ReturnType<typeof vi.fn>
+
+const mockRenameConversation = renameConversation as unknown as ReturnType<
+  typeof vi.fn
+>
+
+// Exporting makes the files for real, but doesn't save or print them
+vi.mock('./conversationExport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./conversationExport')>()),
+  downloadFile: vi.fn(),
+  printHtml: vi.fn()
+}))
+
+const mockDownloadFile = downloadFile as unknown as ReturnType<typeof vi.fn>
+const mockPrintHtml = printHtml as unknown as ReturnType<typeof vi.fn>
+
+/**
+ * Makes streamMessage send the given pieces of a reply and then wait, the way fetch
+ * does, until the request is aborted
+ */
+function streamUntilAborted(...tokens: string[]) {
+  mockStreamMessage.mockImplementationOnce(
+    (...args: unknown[]) =>
+      new Promise((_, reject) => {
+        const handlers = args[8] as {
+          onToken: (text: string) => void
+          signal: AbortSignal
+        }
+        tokens.forEach((token) => handlers.onToken(token))
+        handlers.signal.addEventListener('abort', () =>
+          reject(handlers.signal.reason)
+        )
+      })
+  )
+}
 
 describe('<ConversationView />', () => {
   // Reset mocks before each test
   beforeEach(() => {
     vi.clearAllMocks()
+    // New conversations are named after their first message
+    mockRenameConversation.mockResolvedValue(undefined)
   })
 
   // Test case for null conversationId
@@ -135,7 +191,7 @@ describe('<ConversationView />', () => {
 
     // Note: different from mockReturnValue - it cuts through the async/Promise layer, mocking what the promise returns
     mockFetchConversation.mockResolvedValue(emptyConversation)
-    mockSendMessage.mockResolvedValue(updatedConversation)
+    mockStreamMessage.mockResolvedValue(updatedConversation)
     const conversationId = 1
 
     // Act
@@ -173,8 +229,9 @@ describe('<ConversationView />', () => {
 
     // Assert - Step 3: Verify the new message is shown
     await waitFor(() => {
-      // Check that both the user message and assistant response are displayed
-      expect(screen.getByText(user_msg)).toBeInTheDocument()
+      // Check that both the user message and assistant response are displayed;
+      // the conversation is named after the first message too
+      expect(screen.getAllByText(user_msg)).toHaveLength(2)
       expect(screen.getByText(assistant_msg)).toBeInTheDocument()
       expect(screen.getAllByText('You').length).toBe(1)
       expect(screen.getByText('Playdo')).toBeInTheDocument()
@@ -182,16 +239,50 @@ describe('<ConversationView />', () => {
     })
 
     // Verify the API was called correctly
-    expect(mockSendMessage).toHaveBeenCalledWith(
+    expect(mockStreamMessage).toHaveBeenCalledWith(
       conversationId,
       user_msg,
-      '',
-      '',
-      ''
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      expect.any(Object)
     )
   })
 
   // Test case for conversation with a single message
+  it('puts a prepared message in the box without sending it', async () => {
+    // Arrange
+    mockFetchConversation.mockResolvedValue({
+      id: 1,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: []
+    })
+    let rerender: ReturnType<typeof render>['rerender'] = () => {}
+    await act(async () => {
+      rerender = render(<ConversationManager conversationId={1} />).rerender
+    })
+
+    // Act
+    await act(async () => {
+      rerender(
+        <ConversationManager
+          conversationId={1}
+          messageDraft={{ text: 'What does this error mean?' }}
+        />
+      )
+    })
+
+    // Assert
+    const messageInput = screen.getByPlaceholderText('Type your message...')
+    expect(messageInput).toHaveValue('What does this error mean?')
+    expect(messageInput).toHaveFocus()
+    expect(mockStreamMessage).not.toHaveBeenCalled()
+  })
+
   it('renders a conversation with a single message correctly', async () => {
     // Arrange
     const singleMessageConversation: Conversation = {
@@ -222,6 +313,29 @@ describe('<ConversationView />', () => {
     expect(mockFetchConversation).toHaveBeenCalledWith(conversationId)
   })
 
+  it('hands the conversation over once it has loaded', async () => {
+    // Arrange
+    const conversation: Conversation = {
+      id: 3,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: []
+    }
+    mockFetchConversation.mockResolvedValue(conversation)
+    const handleLoad = vi.fn()
+
+    // Act
+    await act(async () => {
+      render(<ConversationManager conversationId={3} onLoad={handleLoad} />)
+    })
+
+    // Assert
+    await waitFor(() => {
+      expect(handleLoad).toHaveBeenCalledWith(conversation)
+    })
+    expect(handleLoad).toHaveBeenCalledTimes(1)
+  })
+
   // Test case for conversation with multiple messages
   it('renders a conversation with multiple messages correctly', async () => {
     // Arrange
@@ -298,7 +412,7 @@ describe('<ConversationView />', () => {
     }
 
     mockFetchConversation.mockResolvedValue(initialConversation)
-    mockSendMessage.mockResolvedValue(updatedConversation)
+    mockStreamMessage.mockResolvedValue(updatedConversation)
 
     const conversationId = 3
 
@@ -329,12 +443,16 @@ describe('<ConversationView />', () => {
       expect(screen.getByText('Response to new message')).toBeInTheDocument()
     })
 
-    expect(mockSendMessage).toHaveBeenCalledWith(
+    expect(mockStreamMessage).toHaveBeenCalledWith(
       conversationId,
       'New message',
-      '',
-      '',
-      ''
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      expect.any(Object)
     )
   })
 
@@ -355,7 +473,7 @@ describe('<ConversationView />', () => {
     }
 
     mockFetchConversation.mockResolvedValue(testConversation)
-    mockSendMessage.mockRejectedValue(new Error('Failed to send message'))
+    mockStreamMessage.mockRejectedValue(new Error('Failed to send message'))
 
     const conversationId = 4
 
@@ -382,17 +500,24 @@ describe('<ConversationView />', () => {
 
     // Assert
     await waitFor(() => {
-      expect(
-        screen.getByText('Failed to send message. Please try again.')
-      ).toBeInTheDocument()
+      expect(screen.getByText('Failed to send message.')).toBeInTheDocument()
     })
+    // The message stays, marked as failed, and so does the rest of the conversation
+    expect(screen.getByText('This will fail')).toBeInTheDocument()
+    expect(screen.getByText('Initial message')).toBeInTheDocument()
+    expect(screen.getByText('Retry')).toBeInTheDocument()
+    expect(screen.getByText('Discard')).toBeInTheDocument()
 
-    expect(mockSendMessage).toHaveBeenCalledWith(
+    expect(mockStreamMessage).toHaveBeenCalledWith(
       conversationId,
       'This will fail',
-      '',
-      '',
-      ''
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      expect.any(Object)
     )
   })
 
@@ -424,7 +549,7 @@ describe('<ConversationView />', () => {
     })
 
     // Mock response for the first message
-    mockSendMessage.mockResolvedValueOnce({
+    mockStreamMessage.mockResolvedValueOnce({
       id: conversationId,
       messages: [
         {
@@ -440,7 +565,7 @@ describe('<ConversationView />', () => {
     })
 
     // Mock response for the second message
-    mockSendMessage.mockResolvedValueOnce({
+    mockStreamMessage.mockResolvedValueOnce({
       id: conversationId,
       messages: [
         {
@@ -468,7 +593,7 @@ describe('<ConversationView />', () => {
       render(
         <ConversationManager
           conversationId={conversationId}
-          currentCode={currentCode}
+          project={singleFileProject(currentCode)}
           stdout={stdout}
           stderr={stderr}
           outputIsStale={outputIsStale}
@@ -488,16 +613,20 @@ describe('<ConversationView />', () => {
     })
 
     // First call should send the code and output (since it's the first time)
-    expect(mockSendMessage).toHaveBeenCalledWith(
+    expect(mockStreamMessage).toHaveBeenCalledWith(
       conversationId,
       'First message',
-      currentCode, // Code should be sent with first message
+      singleFileProject(currentCode), // Code should be sent with first message
       stdout, // The actual stdout value, not empty string
-      '' // Empty string instead of null for stderr
+      '', // Empty string instead of null for stderr
+      null, // No input() lines were typed
+      null,
+      null,
+      expect.any(Object)
     )
 
     // Clear mock to prepare for second message
-    mockSendMessage.mockClear()
+    mockStreamMessage.mockClear()
 
     // Send second message without changing the code
     await waitFor(() => {
@@ -516,12 +645,16 @@ describe('<ConversationView />', () => {
     })
 
     // Second call should not send code, stdout, or stderr since code hasn't changed
-    expect(mockSendMessage).toHaveBeenCalledWith(
+    expect(mockStreamMessage).toHaveBeenCalledWith(
       conversationId,
       'Second message',
       null, // Code should not be sent with second message since it hasn't changed
       null, // Stdout not sent because code is null (unchanged)
-      null // Stderr not sent because code is null (unchanged)
+      null, // Stderr not sent because code is null (unchanged)
+      null, // Stdin not sent because code is null (unchanged)
+      null,
+      null,
+      expect.any(Object)
     )
   })
 
@@ -547,7 +680,7 @@ describe('<ConversationView />', () => {
       messages: []
     })
 
-    mockSendMessage.mockResolvedValue({
+    mockStreamMessage.mockResolvedValue({
       id: conversationId,
       messages: [
         {
@@ -562,7 +695,7 @@ describe('<ConversationView />', () => {
       render(
         <ConversationManager
           conversationId={conversationId}
-          currentCode={currentCode}
+          project={singleFileProject(currentCode)}
           stdout={stdout}
           stderr={stderr}
           outputIsStale={outputIsStale}
@@ -582,12 +715,732 @@ describe('<ConversationView />', () => {
     })
 
     // Assert - should send message and code, but not stdout or stderr because output is stale
-    expect(mockSendMessage).toHaveBeenCalledWith(
+    expect(mockStreamMessage).toHaveBeenCalledWith(
       conversationId,
       'Test message',
-      currentCode, // Should send code
+      singleFileProject(currentCode), // Should send code
       null, // Should not send stdout
-      null // Should not send stderr
+      null, // Should not send stderr
+      null, // Should not send stdin
+      null, // Should not send images
+      null, // Should not send an exercise check
+      expect.any(Object)
+    )
+  })
+  it('should send the lines typed into input() along with fresh output', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const conversationId = 1
+    const currentCode = 'name = input("Name? ")\nprint("Hi", name)'
+
+    mockFetchConversation.mockResolvedValue({
+      id: conversationId,
+      messages: []
+    })
+    mockStreamMessage.mockResolvedValue({
+      id: conversationId,
+      messages: []
+    })
+
+    // Act
+    await act(async () => {
+      render(
+        <ConversationManager
+          conversationId={conversationId}
+          project={singleFileProject(currentCode)}
+          stdout={'Name? Ada\nHi Ada'}
+          stderr=""
+          stdin={['Ada', 'second line']}
+          outputIsStale={false}
+        />
+      )
+    })
+
+    await act(async () => {
+      await user.type(
+        screen.getByPlaceholderText('Type your message...'),
+        'Look at this'
+      )
+    })
+    await act(async () => {
+      await user.click(screen.getByText('Send'))
+    })
+
+    // Assert
+    expect(mockStreamMessage).toHaveBeenCalledWith(
+      conversationId,
+      'Look at this',
+      singleFileProject(currentCode),
+      'Name? Ada\nHi Ada',
+      '',
+      'Ada\nsecond line',
+      null,
+      null,
+      expect.any(Object)
+    )
+  })
+
+  it('should attach the figures from fresh output, up to the limit', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const conversationId = 1
+    const currentCode = 'plt.plot([1, 2])\nplt.show()'
+    const images = Array.from(
+      { length: MAX_ATTACHED_IMAGES + 2 },
+      (_, index) => `png${index}`
+    )
+    mockFetchConversation.mockResolvedValue({
+      id: conversationId,
+      messages: []
+    })
+    mockStreamMessage.mockResolvedValue({
+      id: conversationId,
+      messages: []
+    })
+
+    // Act
+    await act(async () => {
+      render(
+        <ConversationManager
+          conversationId={conversationId}
+          project={singleFileProject(currentCode)}
+          stdout=""
+          stderr=""
+          images={images}
+          outputIsStale={false}
+        />
+      )
+    })
+    await act(async () => {
+      await user.type(
+        screen.getByPlaceholderText('Type your message...'),
+        'Is my plot right?'
+      )
+    })
+    await act(async () => {
+      await user.click(screen.getByText('Send'))
+    })
+
+    // Assert
+    expect(mockStreamMessage).toHaveBeenCalledWith(
+      conversationId,
+      'Is my plot right?',
+      singleFileProject(currentCode),
+      '',
+      '',
+      null,
+      images
+        .slice(0, MAX_ATTACHED_IMAGES)
+        .map((data) => ({ media_type: 'image/png', data })),
+      null,
+      expect.any(Object)
+    )
+  })
+
+  it('should send the project again when a file other than the one that runs changes', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const conversationId = 1
+    const project: Project = {
+      files: [
+        { name: 'main.py', content: 'import helpers' },
+        { name: 'helpers.py', content: 'x = 1' }
+      ],
+      entryPoint: 'main.py'
+    }
+    mockFetchConversation.mockResolvedValue({
+      id: conversationId,
+      messages: []
+    })
+    mockStreamMessage.mockResolvedValue({
+      id: conversationId,
+      messages: []
+    })
+    let rerender: ReturnType<typeof render>['rerender'] = () => {}
+    await act(async () => {
+      rerender = render(
+        <ConversationManager
+          conversationId={conversationId}
+          project={project}
+          outputIsStale={true}
+        />
+      ).rerender
+    })
+    await act(async () => {
+      await user.type(
+        screen.getByPlaceholderText('Type your message...'),
+        'First'
+      )
+    })
+    await act(async () => {
+      await user.click(screen.getByText('Send'))
+    })
+
+    // Act
+    const edited: Project = {
+      ...project,
+      files: [project.files[0], { name: 'helpers.py', content: 'x = 2' }]
+    }
+    rerender(
+      <ConversationManager
+        conversationId={conversationId}
+        project={edited}
+        outputIsStale={true}
+      />
     )
+    await act(async () => {
+      await user.type(
+        screen.getByPlaceholderText('Type your message...'),
+        'Second'
+      )
+    })
+    await act(async () => {
+      await user.click(screen.getByText('Send'))
+    })
+
+    // Assert
+    expect(mockStreamMessage).toHaveBeenLastCalledWith(
+      conversationId,
+      'Second',
+      edited,
+      null,
+      null,
+      null,
+      null,
+      null,
+      expect.any(Object)
+    )
+  })
+  it('should send the results of an exercise check with the next message only', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const conversationId = 1
+    const exerciseCheck = {
+      exercise_id: 'add-numbers',
+      prompt: 'Write add(a, b).',
+      results: [{ name: 'add(2, 3) is 5', passed: false, message: 'boom' }]
+    }
+    mockFetchConversation.mockResolvedValue({
+      id: conversationId,
+      messages: []
+    })
+    mockStreamMessage.mockResolvedValue({
+      id: conversationId,
+      messages: []
+    })
+    await act(async () => {
+      render(
+        <ConversationManager
+          conversationId={conversationId}
+          exerciseCheck={exerciseCheck}
+        />
+      )
+    })
+
+    // Act
+    for (const message of ['Why does it fail?', 'And now?']) {
+      await act(async () => {
+        await user.type(
+          screen.getByPlaceholderText('Type your message...'),
+          message
+        )
+      })
+      await act(async () => {
+        await user.click(screen.getByText('Send'))
+      })
+    }
+
+    // Assert
+    expect(mockStreamMessage).toHaveBeenNthCalledWith(
+      1,
+      conversationId,
+      'Why does it fail?',
+      null,
+      null,
+      null,
+      null,
+      null,
+      exerciseCheck,
+      expect.any(Object)
+    )
+    expect(mockStreamMessage).toHaveBeenNthCalledWith(
+      2,
+      conversationId,
+      'And now?',
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      expect.any(Object)
+    )
+  })
+
+  it('shows the reply as it arrives and lets the student stop it', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const conversation: Conversation = {
+      id: 7,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: []
+    }
+    const savedConversation: Conversation = {
+      ...conversation,
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'Explain loops' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'A loop' }] }
+      ]
+    }
+    mockFetchConversation
+      .mockResolvedValueOnce(conversation)
+      .mockResolvedValueOnce(savedConversation)
+    streamUntilAborted('A loop ', 'repeats')
+
+    await act(async () => {
+      render(<ConversationManager conversationId={7} />)
+    })
+    await waitFor(() => {
+      expect(screen.getByText(/No messages found/)).toBeInTheDocument()
+    })
+
+    // Act
+    await user.type(
+      screen.getByPlaceholderText('Type your message...'),
+      'Explain loops'
+    )
+    await user.click(screen.getByText('Send'))
+
+    // Assert
+    expect(screen.getByText('Explain loops')).toBeInTheDocument()
+    expect(screen.getByText('A loop repeats')).toBeInTheDocument()
+    expect(screen.getByTestId('streaming-indicator')).toBeInTheDocument()
+    expect(screen.queryByText('Send')).not.toBeInTheDocument()
+
+    // Act
+    await user.click(screen.getByTestId('stop-generating'))
+
+    // Assert
+    await waitFor(() => {
+      expect(screen.getByText('A loop')).toBeInTheDocument()
+    })
+    expect(screen.queryByTestId('streaming-indicator')).not.toBeInTheDocument()
+    expect(screen.getByText('Send')).toBeInTheDocument()
+    expect(mockFetchConversation).toHaveBeenCalledTimes(2)
+    expect(
+      screen.queryByText('Failed to send message.')
+    ).not.toBeInTheDocument()
+  })
+
+  it('gives up on a reply that stops arriving', async () => {
+    // Arrange
+    const conversation: Conversation = {
+      id: 8,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: []
+    }
+    mockFetchConversation.mockResolvedValue(conversation)
+    streamUntilAborted('Let me')
+
+    await act(async () => {
+      render(<ConversationManager conversationId={8} />)
+    })
+    await waitFor(() => {
+      expect(screen.getByText(/No messages found/)).toBeInTheDocument()
+    })
+
+    vi.useFakeTimers()
+    try {
+      // Act
+      fireEvent.change(screen.getByPlaceholderText('Type your message...'), {
+        target: { value: 'Hello?' }
+      })
+      fireEvent.click(screen.getByText('Send'))
+      expect(screen.getByText('Let me')).toBeInTheDocument()
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(REPLY_IDLE_TIMEOUT_MS)
+      })
+    } finally {
+      vi.useRealTimers()
+    }
+
+    // Assert
+    await waitFor(() => {
+      expect(
+        screen.getByText('The tutor stopped responding.')
+      ).toBeInTheDocument()
+    })
+  })
+
+  it('shows the message as being sent until the reply is done', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const conversation: Conversation = {
+      id: 9,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: []
+    }
+    mockFetchConversation.mockResolvedValue(conversation)
+    let finish: (conversation: Conversation) => void = () => {}
+    mockStreamMessage.mockReturnValueOnce(
+      new Promise<Conversation>((resolve) => {
+        finish = resolve
+      })
+    )
+
+    await act(async () => {
+      render(<ConversationManager conversationId={9} />)
+    })
+    await waitFor(() => {
+      expect(screen.getByText(/No messages found/)).toBeInTheDocument()
+    })
+
+    // Act
+    await user.type(
+      screen.getByPlaceholderText('Type your message...'),
+      'Is this on?'
+    )
+    await user.click(screen.getByText('Send'))
+
+    // Assert
+    expect(screen.getByText('Is this on?')).toBeInTheDocument()
+    expect(screen.getByTestId('message-pending')).toBeInTheDocument()
+
+    // Act
+    await act(async () => {
+      finish({
+        ...conversation,
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'Is this on?' }] },
+          { role: 'assistant', content: [{ type: 'text', text: 'It is.' }] }
+        ]
+      })
+    })
+
+    // Assert
+    expect(screen.getByText('It is.')).toBeInTheDocument()
+    expect(screen.queryByTestId('message-pending')).not.toBeInTheDocument()
+  })
+
+  it('sends a failed message again as it was, or discards it', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const conversation: Conversation = {
+      id: 10,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: []
+    }
+    const project = singleFileProject('print("hi")')
+    mockFetchConversation.mockResolvedValue(conversation)
+    mockStreamMessage
+      .mockRejectedValueOnce(new Error('Network down'))
+      .mockRejectedValueOnce(new Error('Still down'))
+
+    const { rerender } = render(
+      <ConversationManager
+        conversationId={10}
+        project={project}
+        stdout="hi"
+        stderr=""
+      />
+    )
+    await waitFor(() => {
+      expect(screen.getByText(/No messages found/)).toBeInTheDocument()
+    })
+    await user.type(screen.getByPlaceholderText('Type your message...'), 'Why?')
+    await user.click(screen.getByText('Send'))
+    await waitFor(() => {
+      expect(screen.getByText('Failed to send message.')).toBeInTheDocument()
+    })
+
+    // Act: retry after the code has changed
+    rerender(
+      <ConversationManager
+        conversationId={10}
+        project={singleFileProject('print("bye")')}
+        stdout="hi"
+        stderr=""
+      />
+    )
+    await user.click(screen.getByText('Retry'))
+
+    // Assert: the message goes again with the code it was first sent with
+    await waitFor(() => {
+      expect(mockStreamMessage).toHaveBeenCalledTimes(2)
+    })
+    expect(mockStreamMessage.mock.calls[1].slice(0, 8)).toEqual(
+      mockStreamMessage.mock.calls[0].slice(0, 8)
+    )
+    expect(mockStreamMessage.mock.calls[1][2]).toEqual(project)
+    await waitFor(() => {
+      expect(screen.getByText('Failed to send message.')).toBeInTheDocument()
+    })
+
+    // Act
+    await user.click(screen.getByText('Discard'))
+
+    // Assert
+    expect(screen.queryByText('Why?')).not.toBeInTheDocument()
+    expect(screen.getByText(/No messages found/)).toBeInTheDocument()
+  })
+
+  it('names a new conversation after its first message', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onUpdate = vi.fn()
+    const conversation: Conversation = {
+      id: 11,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: []
+    }
+    mockFetchConversation.mockResolvedValue(conversation)
+    mockStreamMessage.mockResolvedValueOnce({
+      ...conversation,
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'What is a list?' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'A list...' }] }
+      ]
+    })
+    mockRenameConversation.mockResolvedValueOnce({
+      id: 11,
+      title: 'What is a list?',
+      archived: false
+    })
+
+    await act(async () => {
+      render(<ConversationManager conversationId={11} onUpdate={onUpdate} />)
+    })
+    expect(screen.getByText('Conversation #11')).toBeInTheDocument()
+
+    // Act
+    await user.type(
+      screen.getByPlaceholderText('Type your message...'),
+      'What is a list?'
+    )
+    await user.click(screen.getByText('Send'))
+
+    // Assert
+    await waitFor(() => {
+      expect(onUpdate).toHaveBeenCalledWith({
+        id: 11,
+        title: 'What is a list?'
+      })
+    })
+    expect(onUpdate).toHaveBeenCalledWith({
+      id: 11,
+      preview: 'A list...',
+      updated_at: '2023-01-01T00:00:00Z',
+      message_count: 2
+    })
+    expect(mockRenameConversation).toHaveBeenCalledWith(11, 'What is a list?')
+    expect(
+      screen.getByRole('heading', { name: 'What is a list?' })
+    ).toBeInTheDocument()
+  })
+
+  it('keeps the title of a conversation that has one, and shows new ones', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const conversation: Conversation = {
+      id: 12,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: [],
+      title: 'Homework'
+    }
+    mockFetchConversation.mockResolvedValue(conversation)
+    mockStreamMessage.mockResolvedValueOnce({
+      ...conversation,
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'Hello' }] }
+      ]
+    })
+
+    const { rerender } = render(<ConversationManager conversationId={12} />)
+    expect(
+      await screen.findByRole('heading', { name: 'Homework' })
+    ).toBeInTheDocument()
+    await user.type(screen.getByPlaceholderText('Type your message...'), 'Hi')
+    await user.click(screen.getByText('Send'))
+    await screen.findByText('Hello')
+
+    // Act
+    rerender(
+      <ConversationManager
+        conversationId={12}
+        updated={{ id: 12, title: 'Revision' }}
+      />
+    )
+
+    // Assert
+    expect(mockRenameConversation).not.toHaveBeenCalled()
+    expect(
+      screen.getByRole('heading', { name: 'Revision' })
+    ).toBeInTheDocument()
+  })
+
+  it('scrolls to the message asked for and marks it, until a message is sent', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const scrollIntoView = vi.fn()
+    Element.prototype.scrollIntoView = scrollIntoView
+    const conversation: Conversation = {
+      id: 5,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'What is a dict?' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'A mapping.' }] },
+        { role: 'user', content: [{ type: 'text', text: 'Thanks' }] }
+      ]
+    }
+    mockFetchConversation.mockResolvedValue(conversation)
+    mockStreamMessage.mockResolvedValueOnce(conversation)
+
+    // Act
+    await act(async () => {
+      render(
+        <ConversationManager
+          conversationId={5}
+          focusMessage={{ conversationId: 5, messageIndex: 1 }}
+        />
+      )
+    })
+
+    // Assert
+    const marked = screen.getByText('A mapping.').closest('[aria-current]')
+    expect(marked).toHaveAttribute('data-message-index', '1')
+    await waitFor(() => {
+      expect(scrollIntoView).toHaveBeenCalledWith({ block: 'center' })
+    })
+    expect(scrollIntoView.mock.contexts[0]).toBe(marked)
+
+    // Act
+    await user.type(
+      screen.getByPlaceholderText('Type your message...'),
+      'One more'
+    )
+    await user.click(screen.getByText('Send'))
+
+    // Assert
+    await waitFor(() => {
+      expect(
+        screen.getByText('A mapping.').closest('[aria-current]')
+      ).toBeNull()
+    })
+  })
+
+  it('scrolls to a message in the conversation already open', async () => {
+    // Arrange
+    const scrollIntoView = vi.fn()
+    Element.prototype.scrollIntoView = scrollIntoView
+    mockFetchConversation.mockResolvedValue({
+      id: 6,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'Loops?' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'Use for.' }] }
+      ]
+    })
+    const { rerender } = render(<ConversationManager conversationId={6} />)
+    await screen.findByText('Use for.')
+    // A message for another conversation is left for when it opens
+    rerender(
+      <ConversationManager
+        conversationId={6}
+        focusMessage={{ conversationId: 9, messageIndex: 0 }}
+      />
+    )
+    expect(document.querySelector('[aria-current]')).toBeNull()
+
+    // Act
+    rerender(
+      <ConversationManager
+        conversationId={6}
+        focusMessage={{ conversationId: 6, messageIndex: 0 }}
+      />
+    )
+
+    // Assert
+    await waitFor(() => {
+      expect(scrollIntoView).toHaveBeenCalled()
+    })
+    expect(
+      screen.getByText('Loops?').closest('[aria-current]')
+    ).toHaveAttribute('data-message-index', '0')
+  })
+
+  it('exports the conversation as Markdown or HTML, or prints it', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    mockFetchConversation.mockResolvedValue({
+      id: 8,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      title: 'Loops',
+      messages: [
+        {
+          role: 'user',
+          content: [{ type: 'text', text: 'Why?' }],
+          editor_code: 'print(1)',
+          stdout: '1\n'
+        },
+        { role: 'assistant', content: [{ type: 'text', text: 'Because.' }] }
+      ]
+    })
+    await act(async () => {
+      render(<ConversationManager conversationId={8} />)
+    })
+    const exportGroup = screen.getByRole('group', {
+      name: 'Export conversation'
+    })
+
+    // Act
+    await user.click(within(exportGroup).getByText('Markdown'))
+    await user.click(within(exportGroup).getByText('HTML'))
+    await user.click(within(exportGroup).getByText('Print'))
+
+    // Assert
+    expect(mockDownloadFile).toHaveBeenCalledWith(
+      'loops.md',
+      expect.stringContaining('**main.py**\n\n```python\nprint(1)\n```'),
+      'text/markdown'
+    )
+    expect(mockDownloadFile).toHaveBeenCalledWith(
+      'loops.html',
+      expect.stringContaining('<pre><code>1\n</code></pre>'),
+      'text/html'
+    )
+    expect(mockPrintHtml).toHaveBeenCalledWith(
+      mockDownloadFile.mock.calls[1][1]
+    )
+  })
+
+  it('has nothing to export until the conversation has messages', async () => {
+    // Arrange
+    mockFetchConversation.mockResolvedValue({
+      id: 9,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: []
+    })
+
+    // Act
+    await act(async () => {
+      render(<ConversationManager conversationId={9} />)
+    })
+
+    // Assert
+    expect(
+      screen.queryByRole('group', { name: 'Export conversation' })
+    ).not.toBeInTheDocument()
   })
 })
@@ -1,24 +1,134 @@
 // src/components/Conversation.tsx
 
 import { useEffect, useState, FormEvent, ChangeEvent, useRef } from 'react'
-import { Conversation } from '../types'
-import { fetchConversation, sendMessage } from '../services/api'
+import {
+  Conversation,
+  ExerciseCheck,
+  Message as MessageType,
+  MessageImage,
+  Project
+} from '../types'
+import {
+  fetchConversation,
+  renameConversation,
+  streamMessage
+} from '../services/api'
+import type { ExecutionResult } from '../services/pyodide'
 import Message from './Message'
+import { classNames } from 'utils'
+import { conversationName, titleFromMessage } from './conversationTitle'
+import { previewOf, type ConversationUpdate } from './conversationList'
+import {
+  conversationHtml,
+  conversationMarkdown,
+  downloadFile,
+  exportFileName,
+  printHtml
+} from './conversationExport'
 
 export type ConversationManagerProps = {
   conversationId: number | null
-  currentCode?: string
+  // The student's files; sent again whenever any of them has changed
+  project?: Project | null
   stdout?: string | null
   stderr?: string | null
+  stdin?: string[] | null
+  // Figures from the latest execution, as base64 PNG
+  images?: string[] | null
   outputIsStale?: boolean
+  // Results of checking the code against an exercise; each check is sent once
+  exerciseCheck?: ExerciseCheck | null
+  // Text to put in the message box, ready for the student to edit and send
+  messageDraft?: MessageDraft | null
+  // A message to scroll to and mark, e.g. one found by searching
+  focusMessage?: MessageFocus | null
+  // Called with the conversation once it has been fetched
+  onLoad?: (conversation: Conversation) => void
+  // A conversation changed elsewhere, e.g. renamed in the selector
+  updated?: ConversationUpdate | null
+  // Called when the conversation gets a reply, or is named after its first message
+  onUpdate?: (update: ConversationUpdate) => void
+  // Puts the code sent with one of the messages back in the editor
+  onRestoreProject?: (project: Project) => void
+  // Puts a code block from the tutor in the editor at the cursor
+  onInsertCode?: (code: string) => void
+  // Runs a code block from the tutor on its own, leaving the student's code alone
+  onRunCode?: (code: string) => Promise<ExecutionResult>
+}
+
+/**
+ * A message prepared for the student, e.g. a question about an error. A new object
+ * is passed for every request, so asking about the same thing twice works.
+ */
+export interface MessageDraft {
+  text: string
+}
+
+/**
+ * A message to show, by its position in its conversation. A new object is passed
+ * for every request, so showing the same message twice works.
+ */
+export interface MessageFocus {
+  conversationId: number
+  messageIndex: number
+}
+
+// Keeps messages to a reasonable size when the code draws lots of figures
+export const MAX_ATTACHED_IMAGES = 5
+
+// How long the tutor's reply may go without a new piece before it is given up on
+export const REPLY_IDLE_TIMEOUT_MS = 30000
+
+// A message and what goes with it, kept so that a message that failed can be sent
+// again exactly as it was
+interface OutgoingMessage {
+  question: string
+  project: Project | null
+  stdout: string | null
+  stderr: string | null
+  stdin: string | null
+  images: MessageImage[] | null
+  exerciseCheck: ExerciseCheck | null
+}
+
+// A message that isn't in the conversation yet, and as much of the tutor's reply
+// as has arrived
+interface PendingReply {
+  message: OutgoingMessage
+  reply: string
+  // Why the message couldn't be sent; null while it is being sent
+  failure: string | null
+}
+
+// The outgoing message as it will appear in the conversation, code and output included
+function asMessage(outgoing: OutgoingMessage): MessageType {
+  return {
+    role: 'user',
+    content: [{ type: 'text', text: outgoing.question }],
+    files: outgoing.project?.files ?? null,
+    entry_point: outgoing.project?.entryPoint ?? null,
+    stdout: outgoing.stdout,
+    stderr: outgoing.stderr
+  }
 }
 
 function ConversationManager({
   conversationId,
-  currentCode = '',
+  project = null,
   stdout = null,
   stderr = null,
-  outputIsStale = false
+  stdin = null,
+  images = null,
+  outputIsStale = false,
+  exerciseCheck = null,
+  messageDraft = null,
+  focusMessage = null,
+  onLoad,
+  updated = null,
+  onUpdate,
+  onRestoreProject,
+  onInsertCode,
+  onRunCode
 }: ConversationManagerProps) {
   // State to store the conversation data
   const [conversation, setConversation] = useState<Conversation | null>(null)
@@ -30,14 +140,40 @@ function ConversationManager({
   const [messageInput, setMessageInput] = useState('')
   // State to track if a message is being sent
   const [sending, setSending] = useState(false)
-  // State to track the last sent code and output
-  const [lastSentCode, setLastSentCode] = useState<string | null>(null)
+  // The message being sent and the reply so far, shown until the conversation comes
+  // back; a message that failed stays until it is sent again or discarded
+  const [pendingReply, setPendingReply] = useState<PendingReply | null>(null)
+  // The message asked to be shown; it is marked, and scrolled to instead of the end,
+  // until the student sends a message
+  const [focus, setFocus] = useState<MessageFocus | null>(null)
+  // State to track the last sent project, serialized so edits to any file count as a change
+  const [lastSentProject, setLastSentProject] = useState<string | null>(null)
+  // State to track the last sent exercise check, so the tutor hears about each check once
+  const [lastSentExerciseCheck, setLastSentExerciseCheck] =
+    useState<ExerciseCheck | null>(null)
   // Timeout reference - using useRef instead of useState for reliable cleanup
   const timeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // Stops the reply that is arriving. The reason is 'stopped' when the student stops
+  // it, 'idle' when it times out and 'left' when they leave the conversation.
+  const abortRef = useRef<AbortController | null>(null)
   // Reference to the message container for scrolling
   const messageContainerRef = useRef<HTMLDivElement>(null)
   // Reference to the end of messages for scrolling
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Reference to the message box, to focus it when a draft is put in
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  // The latest onLoad, so that a new callback doesn't fetch the conversation again
+  const onLoadRef = useRef(onLoad)
+  useEffect(() => {
+    onLoadRef.current = onLoad
+  }, [onLoad])
+
+  // Scrolls the message container so the message is in the middle of it
+  const scrollToMessage = (index: number) => {
+    messageContainerRef.current
+      ?.querySelector(`[data-message-index="${index}"]`)
+      ?.scrollIntoView({ block: 'center' })
+  }
 
   // Function to scroll only the message container to the bottom
   const scrollToBottom = () => {
@@ -50,9 +186,14 @@ function ConversationManager({
 
   // Effect to fetch the conversation when the component mounts
   useEffect(() => {
+    // A reply still arriving belongs to the conversation being left
+    abortRef.current?.abort('left')
     // reset error/conversation state before reloading
     setError(null)
     setConversation(null)
+    setPendingReply(null)
+    // A message to show in the conversation being opened is kept
+    setFocus((prev) => (prev?.conversationId === conversationId ? prev : null))
 
     async function loadConversation() {
       if (conversationId == null) {
@@ -63,6 +204,7 @@ function ConversationManager({
         setLoading(true)
         const data = await fetchConversation(conversationId)
         setConversation(data)
+        onLoadRef.current?.(data)
         console.log(`conversation: ${JSON.stringify(data)}`)
         setError(null)
       } catch (err) {
@@ -76,12 +218,34 @@ function ConversationManager({
     loadConversation()
   }, [conversationId]) // Update component every time passed in conversationID changes
 
-  // Scroll when conversation changes (either initially loaded or updated with new messages)
   useEffect(() => {
+    if (focusMessage) {
+      setFocus(focusMessage)
+    }
+  }, [focusMessage])
+
+  // The message being shown, once its conversation is on screen
+  const focusedIndex =
+    focus && conversation?.id === focus.conversationId
+      ? focus.messageIndex
+      : null
+
+  // Scroll when conversation changes (either initially loaded or updated with new
+  // messages), and as the reply arrives; to the message being shown if there is one,
+  // again each time it is asked to be shown
+  useEffect(() => {
+    if (focusedIndex !== null) {
+      const timeoutId = setTimeout(() => {
+        scrollToMessage(focusedIndex)
+      }, 100)
+
+      return () => clearTimeout(timeoutId)
+    }
     if (
-      conversation &&
-      conversation.messages &&
-      conversation.messages.length > 0
+      pendingReply ||
+      (conversation &&
+        conversation.messages &&
+        conversation.messages.length > 0)
     ) {
       // Add a small delay to ensure content is rendered before scrolling
       const timeoutId = setTimeout(() => {
@@ -90,62 +254,121 @@ function ConversationManager({
 
       return () => clearTimeout(timeoutId)
     }
-  }, [conversation])
+  }, [conversation, pendingReply, focus, focusedIndex])
 
-  // Function to handle sending a message
-  const handleSendMessage = async (e: FormEvent) => {
-    e.preventDefault()
+  const applyTitle = (id: number, title: string | null) => {
+    setConversation((prev) =>
+      prev && prev.id === id ? { ...prev, title } : prev
+    )
+  }
 
-    if (!conversationId || !messageInput.trim() || sending) {
-      return
+  useEffect(() => {
+    if (updated && updated.title !== undefined) {
+      applyTitle(updated.id, updated.title)
     }
+  }, [updated])
 
-    // Clear any existing timeout
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current)
-      timeoutRef.current = null
+  // Sends a message and shows the reply as it arrives. If it fails, the message
+  // stays in the conversation, marked as failed, for the student to retry or discard.
+  const deliver = async (outgoing: OutgoingMessage) => {
+    if (!conversationId) {
+      return
     }
 
-    // Set a timeout to release the UI if no response
-    timeoutRef.current = setTimeout(() => {
-      setSending(false)
-      setError('The request is taking longer than expected. Please try again.')
-    }, 10000) // 10 seconds timeout
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    // Give up on the reply if no piece of it arrives for a while
+    const restartIdleTimeout = () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current)
+      }
+      timeoutRef.current = setTimeout(
+        () => controller.abort('idle'),
+        REPLY_IDLE_TIMEOUT_MS
+      )
+    }
+    restartIdleTimeout()
 
     try {
       setSending(true)
+      setFocus(null)
+      setPendingReply({ message: outgoing, reply: '', failure: null })
 
-      // Determine what code and output to send
-      const codeToSend = currentCode !== lastSentCode ? currentCode : null
-
-      // Only send output if it matches the current code (not stale) and is different from last sent, and if code is being sent
-      let stdoutToSend: string | null = null
-      let stderrToSend: string | null = null
-      if (codeToSend !== null && !outputIsStale) {
-        stdoutToSend = stdout === null ? '' : stdout
-        stderrToSend = stderr === null ? '' : stderr
-      }
-
-      const updatedConversation = await sendMessage(
+      const updatedConversation = await streamMessage(
         conversationId,
-        messageInput,
-        codeToSend,
-        stdoutToSend,
-        stderrToSend
+        outgoing.question,
+        outgoing.project,
+        outgoing.stdout,
+        outgoing.stderr,
+        outgoing.stdin,
+        outgoing.images,
+        outgoing.exerciseCheck,
+        {
+          signal: controller.signal,
+          onToken: (text) => {
+            restartIdleTimeout()
+            setPendingReply((prev) =>
+              prev ? { ...prev, reply: prev.reply + text } : prev
+            )
+          }
+        }
       )
 
       // Update last sent code and output if we sent them
-      if (codeToSend !== null) {
-        setLastSentCode(currentCode)
+      if (outgoing.project !== null) {
+        setLastSentProject(JSON.stringify(outgoing.project))
+      }
+      if (outgoing.exerciseCheck !== null) {
+        setLastSentExerciseCheck(outgoing.exerciseCheck)
       }
 
       setConversation(updatedConversation)
-      setMessageInput('') // Clear the input after sending
+      setPendingReply(null)
+      const lastMessage = updatedConversation.messages.at(-1)
+      onUpdate?.({
+        id: conversationId,
+        preview: lastMessage ? previewOf(lastMessage) : null,
+        updated_at: updatedConversation.updated_at,
+        message_count: updatedConversation.messages.length
+      })
+
+      // Name a new conversation after its first message, unless it has a name already
+      const title = titleFromMessage(outgoing.question)
+      if (
+        conversation?.messages.length === 0 &&
+        !updatedConversation.title &&
+        title !== ''
+      ) {
+        renameConversation(conversationId, title)
+          .then(() => {
+            applyTitle(conversationId, title)
+            onUpdate?.({ id: conversationId, title })
+          })
+          .catch(console.error)
+      }
     } catch (err) {
-      setError('Failed to send message. Please try again.')
-      console.error(err)
+      const reason: unknown = controller.signal.reason
+      if (controller.signal.aborted && reason !== 'idle') {
+        setPendingReply(null)
+        if (reason !== 'left') {
+          // The server may have kept the message and part of the reply
+          await fetchConversation(conversationId)
+            .then(setConversation)
+            .catch(console.error)
+        }
+      } else {
+        const failure = controller.signal.aborted
+          ? 'The tutor stopped responding.'
+          : 'Failed to send message.'
+        setPendingReply((prev) =>
+          prev ? { ...prev, reply: '', failure } : prev
+        )
+        console.error(err)
+      }
     } finally {
       setSending(false)
+      abortRef.current = null
       // Clear the timeout if it exists
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current)
@@ -154,18 +377,95 @@ function ConversationManager({
     }
   }
 
-  // Function to handle textarea input and auto-resize
+  // Function to handle sending a message
+  const handleSendMessage = async (e: FormEvent) => {
+    e.preventDefault()
+
+    if (!conversationId || !messageInput.trim() || sending) {
+      return
+    }
+
+    // Determine what code and output to send
+    const serializedProject = project ? JSON.stringify(project) : null
+    const projectToSend = serializedProject !== lastSentProject ? project : null
+
+    // Only send output if it matches the current code (not stale) and is different from last sent, and if code is being sent
+    let stdoutToSend: string | null = null
+    let stderrToSend: string | null = null
+    // Lines the student typed into input(), so the tutor can make sense of the output
+    let stdinToSend: string | null = null
+    // Plots the code drew, so the tutor can see them too
+    let imagesToSend: MessageImage[] | null = null
+    if (projectToSend !== null && !outputIsStale) {
+      stdoutToSend = stdout === null ? '' : stdout
+      stderrToSend = stderr === null ? '' : stderr
+      if (stdin && stdin.length > 0) {
+        stdinToSend = stdin.join('\n')
+      }
+      if (images && images.length > 0) {
+        imagesToSend = images
+          .slice(0, MAX_ATTACHED_IMAGES)
+          .map((data) => ({ media_type: 'image/png', data }))
+      }
+    }
+
+    // Which of the exercise's hidden tests failed, so the tutor doesn't have to guess
+    const exerciseCheckToSend =
+      exerciseCheck !== lastSentExerciseCheck ? exerciseCheck : null
+
+    setMessageInput('')
+    // A message that failed before is replaced by the new one
+    await deliver({
+      question: messageInput,
+      project: projectToSend,
+      stdout: stdoutToSend,
+      stderr: stderrToSend,
+      stdin: stdinToSend,
+      images: imagesToSend,
+      exerciseCheck: exerciseCheckToSend
+    })
+  }
+
+  const handleRetry = () => {
+    if (pendingReply && !sending) {
+      deliver(pendingReply.message)
+    }
+  }
+
+  const handleDiscard = () => {
+    setPendingReply(null)
+  }
+
+  const handleStopGenerating = () => {
+    abortRef.current?.abort('stopped')
+  }
+
+  // Function to handle textarea input
   const handleTextareaChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
     setMessageInput(e.target.value)
-
-    // Auto-resize the textarea
-    e.target.style.height = 'auto'
-    e.target.style.height = `${Math.min(e.target.scrollHeight, 150)}px`
   }
 
-  // Cleanup timeout on unmount
+  // Auto-resize the textarea to its text, whether typed or put in as a draft
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (textarea) {
+      textarea.style.height = 'auto'
+      textarea.style.height = `${Math.min(textarea.scrollHeight, 150)}px`
+    }
+  }, [messageInput])
+
+  // Put a prepared message in the box; the student decides whether to send it
+  useEffect(() => {
+    if (messageDraft) {
+      setMessageInput(messageDraft.text)
+      textareaRef.current?.focus()
+    }
+  }, [messageDraft])
+
+  // Cleanup timeout and the reply that is arriving on unmount
   useEffect(() => {
     return () => {
+      abortRef.current?.abort('left')
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current)
         timeoutRef.current = null
@@ -186,30 +486,109 @@ function ConversationManager({
     )
   }
 
-  // Show error state
+  // Show error state; only when the conversation couldn't be loaded
   if (error) {
     return <div className="py-8 text-red-500">{error}</div>
   }
 
   return (
     <div className="flex h-full flex-col">
-      {/* Fixed conversation title */}
-      <div className="shrink-0 pb-2">
-        <h1 className="text-2xl font-bold">
-          Conversation #{conversation?.id || conversationId}
+      {/* Fixed conversation title, and the ways to take the conversation out of the app */}
+      <div className="flex shrink-0 items-center justify-between gap-2 pb-2">
+        <h1 className="min-w-0 truncate text-2xl font-bold">
+          {conversationName(conversation ?? { id: conversationId })}
         </h1>
+        {conversation && conversation.messages.length > 0 && (
+          <div
+            className="flex shrink-0 items-center gap-1 text-xs"
+            role="group"
+            aria-label="Export conversation"
+          >
+            <span className="text-gray-500">Export:</span>
+            <button
+              type="button"
+              onClick={() =>
+                downloadFile(
+                  exportFileName(conversation, 'md'),
+                  conversationMarkdown(conversation),
+                  'text/markdown'
+                )
+              }
+              className="rounded border border-gray-300 px-2 py-0.5 text-gray-700 hover:bg-gray-100"
+            >
+              Markdown
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                downloadFile(
+                  exportFileName(conversation, 'html'),
+                  conversationHtml(conversation),
+                  'text/html'
+                )
+              }
+              className="rounded border border-gray-300 px-2 py-0.5 text-gray-700 hover:bg-gray-100"
+            >
+              HTML
+            </button>
+            <button
+              type="button"
+              onClick={() => printHtml(conversationHtml(conversation))}
+              className="rounded border border-gray-300 px-2 py-0.5 text-gray-700 hover:bg-gray-100"
+            >
+              Print
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Scrollable message container - flex grow to fill available space */}
       <div ref={messageContainerRef} className="mb-2 grow overflow-y-auto pr-1">
         <div className="space-y-4">
-          {conversation &&
-          conversation.messages &&
-          conversation.messages.length > 0 ? (
+          {pendingReply ||
+          (conversation &&
+            conversation.messages &&
+            conversation.messages.length > 0) ? (
             <>
-              {conversation.messages.map((message, index) => (
-                <Message key={index} message={message} />
+              {conversation?.messages.map((message, index) => (
+                <div
+                  key={index}
+                  data-message-index={index}
+                  className={classNames(
+                    index === focusedIndex &&
+                      'rounded-lg ring-2 ring-yellow-400 ring-offset-2'
+                  )}
+                  aria-current={index === focusedIndex ? 'true' : undefined}
+                >
+                  <Message
+                    message={message}
+                    currentProject={project}
+                    onRestoreProject={onRestoreProject}
+                    onInsertCode={onInsertCode}
+                    onRunCode={onRunCode}
+                  />
+                </div>
               ))}
+              {pendingReply && (
+                <Message
+                  message={asMessage(pendingReply.message)}
+                  currentProject={project}
+                  onRestoreProject={onRestoreProject}
+                  status={pendingReply.failure === null ? 'pending' : 'failed'}
+                  failure={pendingReply.failure}
+                  onRetry={handleRetry}
+                  onDiscard={handleDiscard}
+                />
+              )}
+              {pendingReply && pendingReply.failure === null && (
+                <Message
+                  message={{
+                    role: 'assistant',
+                    content: [{ type: 'text', text: pendingReply.reply }]
+                  }}
+                  isStreaming
+                />
+              )}
               {/* Invisible element at the end to scroll to */}
               <div ref={messagesEndRef} />
             </>
@@ -226,6 +605,7 @@ function ConversationManager({
       <div className="shrink-0 border-t border-gray-200 pt-2">
         <form onSubmit={handleSendMessage} className="flex items-start">
           <textarea
+            ref={textareaRef}
             value={messageInput}
             onChange={handleTextareaChange}
             placeholder="Type your message..."
@@ -242,13 +622,24 @@ function ConversationManager({
               }
             }}
           />
-          <button
-            type="submit"
-            className="h-[42px] rounded-r-md bg-blue-500 px-4 py-2 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-blue-300"
-            disabled={sending || !messageInput.trim()}
-          >
-            {sending ? 'Sending...' : 'Send'}
-          </button>
+          {sending ? (
+            <button
+              type="button"
+              onClick={handleStopGenerating}
+              className="h-[42px] whitespace-nowrap rounded-r-md bg-gray-500 px-4 py-2 text-white hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
+              data-testid="stop-generating"
+            >
+              Stop generating
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="h-[42px] rounded-r-md bg-blue-500 px-4 py-2 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-blue-300"
+              disabled={!messageInput.trim()}
+            >
+              Send
+            </button>
+          )}
         </form>
       </div>
     </div>
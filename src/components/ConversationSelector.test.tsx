@@ -1,24 +1,70 @@
-import { render, screen, waitFor } from '@testing-library/react'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import userEvent from '@testing-library/user-event'
 import { act } from 'react'
 import ConversationSelector from './ConversationSelector'
-import { fetchConversationIds, createConversation } from '../services/api'
-import { ConversationListResponse } from '../types'
+import {
+  fetchConversationPage,
+  createConversation,
+  renameConversation,
+  archiveConversation,
+  deleteConversation,
+  searchMessages
+} from '../services/api'
+import {
+  ConversationListResponse,
+  ConversationPage,
+  ConversationSummary,
+  MessageSearchHit
+} from '../types'
 
 // Mock the API functions
 vi.mock('../services/api', () => ({
-  fetchConversationIds: vi.fn(),
-  createConversation: vi.fn()
+  fetchConversationPage: vi.fn(),
+  createConversation: vi.fn(),
+  renameConversation: vi.fn(),
+  archiveConversation: vi.fn(),
+  deleteConversation: vi.fn(),
+  searchMessages: vi.fn()
 }))
 
 // Setup mock implementations with proper types
-const mockFetchConversationIds = fetchConversationIds as unknown as ReturnType<
+const mockFetchConversationPage =
+  fetchConversationPage as unknown as ReturnType<typeof vi.fn>
+const mockCreateConversation = createConversation as unknown as ReturnType<
   typeof vi.fn
 >
-const mockCreateConversation = createConversation as unknown as ReturnType<
+const mockRenameConversation = renameConversation as unknown as ReturnType<
+  typeof vi.fn
+>
+const mockArchiveConversation = archiveConversation as unknown as ReturnType<
+  typeof vi.fn
+>
+const mockDeleteConversation = deleteConversation as unknown as ReturnType<
   typeof vi.fn
 >
+const mockSearchMessages = searchMessages as unknown as ReturnType<typeof vi.fn>
+
+// A listed conversation with two messages, changed as given
+function summary(
+  id: number,
+  changes: Partial<ConversationSummary> = {}
+): ConversationSummary {
+  return {
+    id,
+    title: null,
+    archived: false,
+    preview: null,
+    updated_at: null,
+    message_count: 2,
+    ...changes
+  }
+}
+
+// A single page listing the given conversations
+function onePage(...conversations: ConversationSummary[]): ConversationPage {
+  return { conversations, nextCursor: null }
+}
 
 describe('<ConversationSelector />', () => {
   // Mock props
@@ -27,70 +73,59 @@ describe('<ConversationSelector />', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     // Default mock implementation for API calls
-    mockFetchConversationIds.mockResolvedValue([1, 2, 3])
+    mockFetchConversationPage.mockResolvedValue(
+      onePage(summary(3), summary(2), summary(1))
+    )
   })
 
-  it('renders the component with a dropdown and fetches conversation IDs', async () => {
-    // For this test, make the promise not resolve immediately
-    // so we can see the loading state
-    const fetchPromise = new Promise<number[]>((resolve) => {
-      // Resolve after a short delay
-      setTimeout(() => resolve([1, 2, 3]), 100)
-    })
-    mockFetchConversationIds.mockReturnValue(fetchPromise)
+  it('renders the sidebar and lists the conversations with their last message', async () => {
+    // Arrange
+    mockFetchConversationPage.mockResolvedValue(
+      onePage(
+        summary(2, {
+          title: 'Loops',
+          preview: 'A for loop repeats its block',
+          updated_at: new Date().toISOString(),
+          message_count: 4
+        }),
+        summary(1, { message_count: 1 })
+      )
+    )
 
     // Act
-    await act(async () => {
-      render(
-        <ConversationSelector
-          selectedConversationId={null}
-          onSelectConversation={mockOnSelectConversation}
-        />
-      )
-    })
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
 
     // Assert
-    expect(screen.getByText('Select conversation:')).toBeInTheDocument()
     expect(screen.getByText('New Conversation')).toBeInTheDocument()
-
-    // Check that the select dropdown has the placeholder option
-    expect(screen.getByText('-- Select --')).toBeInTheDocument()
-
-    // Wait for data to load
-    await waitFor(() => {
-      expect(screen.getByText('Conversation #1')).toBeInTheDocument()
-      expect(screen.getByText('Conversation #2')).toBeInTheDocument()
-      expect(screen.getByText('Conversation #3')).toBeInTheDocument()
+    expect(screen.getByText('Loading...')).toBeInTheDocument()
+    expect(await screen.findByText('Loops')).toBeInTheDocument()
+    expect(screen.getByText('A for loop repeats its block')).toBeInTheDocument()
+    expect(screen.getByText('just now · 4 messages')).toBeInTheDocument()
+    expect(screen.getByText('Conversation #1')).toBeInTheDocument()
+    expect(screen.getByText('1 message')).toBeInTheDocument()
+    expect(mockFetchConversationPage).toHaveBeenCalledExactlyOnceWith({
+      archived: false,
+      search: ''
     })
-
-    // Verify API was called
-    expect(mockFetchConversationIds).toHaveBeenCalledTimes(1)
   })
 
   it('calls onSelectConversation when a conversation is selected', async () => {
     // Arrange
     const user = userEvent.setup()
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
 
     // Act
-    await act(async () => {
-      render(
-        <ConversationSelector
-          selectedConversationId={null}
-          onSelectConversation={mockOnSelectConversation}
-        />
-      )
-    })
-
-    // Wait for data to load
-    await waitFor(() => {
-      expect(screen.getByText('Conversation #1')).toBeInTheDocument()
-    })
-
-    // Select a conversation
-    const selectElement = screen.getByRole('combobox')
-    await act(async () => {
-      await user.selectOptions(selectElement, '2')
-    })
+    await user.click(await screen.findByText('Conversation #2'))
 
     // Assert
     expect(mockOnSelectConversation).toHaveBeenCalledWith(2)
@@ -98,57 +133,43 @@ describe('<ConversationSelector />', () => {
 
   it('shows currently selected conversation', async () => {
     // Act
-    await act(async () => {
-      render(
-        <ConversationSelector
-          selectedConversationId={2}
-          onSelectConversation={mockOnSelectConversation}
-        />
-      )
-    })
-
-    // Wait for data to load
-    await waitFor(() => {
-      expect(screen.getByText('Conversation #1')).toBeInTheDocument()
-    })
+    render(
+      <ConversationSelector
+        selectedConversationId={2}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
 
-    // Assert that the select element has the correct value
-    const selectElement = screen.getByRole('combobox') as HTMLSelectElement
-    expect(selectElement.value).toBe('2')
+    // Assert
+    const selected = (await screen.findByText('Conversation #2')).closest(
+      'button'
+    )
+    expect(selected).toHaveAttribute('aria-current', 'true')
+    expect(
+      screen.getByText('Conversation #1').closest('button')
+    ).not.toHaveAttribute('aria-current')
   })
 
   it('creates a new conversation when the button is clicked', async () => {
     // Arrange
     const user = userEvent.setup()
     mockCreateConversation.mockResolvedValue(4)
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+    await screen.findByText('Conversation #1')
 
     // Act
-    await act(async () => {
-      render(
-        <ConversationSelector
-          selectedConversationId={null}
-          onSelectConversation={mockOnSelectConversation}
-        />
-      )
-    })
-
-    // Wait for initial load
-    await waitFor(() => {
-      expect(screen.getByText('New Conversation')).toBeEnabled()
-    })
-
-    // Click the create button
-    await act(async () => {
-      await user.click(screen.getByText('New Conversation'))
-    })
+    await user.click(screen.getByText('New Conversation'))
 
     // Assert
     expect(mockCreateConversation).toHaveBeenCalledTimes(1)
-
-    // Wait for the creation to complete and verify calls
     await waitFor(() => {
       // Should refresh the conversation list
-      expect(mockFetchConversationIds).toHaveBeenCalledTimes(2)
+      expect(mockFetchConversationPage).toHaveBeenCalledTimes(2)
       // Should select the new conversation
       expect(mockOnSelectConversation).toHaveBeenCalledWith(4)
     })
@@ -156,94 +177,395 @@ describe('<ConversationSelector />', () => {
 
   it('shows error message when fetching conversations fails', async () => {
     // Arrange
-    mockFetchConversationIds.mockRejectedValue(new Error('Failed to fetch'))
+    mockFetchConversationPage.mockRejectedValue(new Error('Failed to fetch'))
 
     // Act
-    await act(async () => {
-      render(
-        <ConversationSelector
-          selectedConversationId={null}
-          onSelectConversation={mockOnSelectConversation}
-        />
-      )
-    })
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
 
     // Assert
-    await waitFor(() => {
-      expect(
-        screen.getByText('Failed to load conversations, please try again.')
-      ).toBeInTheDocument()
-    })
+    expect(
+      await screen.findByText('Failed to load conversations, please try again.')
+    ).toBeInTheDocument()
   })
 
   it('shows error message when creating a conversation fails', async () => {
     // Arrange
     const user = userEvent.setup()
     mockCreateConversation.mockRejectedValue(new Error('Failed to create'))
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+    await screen.findByText('Conversation #1')
 
     // Act
-    await act(async () => {
-      render(
-        <ConversationSelector
-          selectedConversationId={null}
-          onSelectConversation={mockOnSelectConversation}
-        />
+    await user.click(screen.getByText('New Conversation'))
+
+    // Assert
+    expect(
+      await screen.findByText(
+        'Failed to create a new conversation, please try again.'
       )
-    })
+    ).toBeInTheDocument()
+  })
 
-    // Wait for initial load
-    await waitFor(() => {
-      expect(screen.getByText('New Conversation')).toBeEnabled()
+  it('disables the button while a conversation is being created', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    // Don't resolve the promise to keep component in the creating state
+    mockCreateConversation.mockReturnValue(new Promise(() => {}))
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+
+    // Act
+    await user.click(screen.getByText('New Conversation'))
+
+    // Assert
+    expect(screen.getByText('Creating...')).toBeDisabled()
+  })
+
+  it('loads the next page when the list is scrolled to the end', async () => {
+    // Arrange
+    mockFetchConversationPage
+      .mockResolvedValueOnce({
+        conversations: [summary(5), summary(4)],
+        nextCursor: 'page-2'
+      })
+      .mockResolvedValueOnce({
+        // 4 moved to the second page while paging; it stays where it was
+        conversations: [summary(4), summary(3)],
+        nextCursor: null
+      })
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+    await screen.findByText('Conversation #5')
+    const list = screen.getByTestId('conversation-list')
+    Object.defineProperties(list, {
+      scrollHeight: { value: 500 },
+      clientHeight: { value: 200 }
     })
 
-    // Click the create button
-    await act(async () => {
-      await user.click(screen.getByText('New Conversation'))
+    // Act: not far enough, then to the end
+    fireEvent.scroll(list, { target: { scrollTop: 100 } })
+    expect(mockFetchConversationPage).toHaveBeenCalledTimes(1)
+    fireEvent.scroll(list, { target: { scrollTop: 300 } })
+
+    // Assert
+    expect(await screen.findByText('Conversation #3')).toBeInTheDocument()
+    expect(mockFetchConversationPage).toHaveBeenLastCalledWith({
+      archived: false,
+      search: '',
+      cursor: 'page-2'
     })
+    expect(screen.getAllByText(/Conversation #/)).toHaveLength(3)
+    expect(screen.queryByText('Load more')).not.toBeInTheDocument()
+  })
+
+  it('loads the next page from the button at the end of the list', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    mockFetchConversationPage
+      .mockResolvedValueOnce({
+        conversations: [summary(2)],
+        nextCursor: 'page-2'
+      })
+      .mockResolvedValueOnce(onePage(summary(1)))
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+
+    // Act
+    await user.click(await screen.findByText('Load more'))
 
     // Assert
-    await waitFor(() => {
-      expect(
-        screen.getByText(
-          'Failed to create a new conversation, please try again.'
-        )
-      ).toBeInTheDocument()
+    expect(await screen.findByText('Conversation #1')).toBeInTheDocument()
+  })
+
+  it('searches the conversations once typing pauses', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+    await screen.findByText('Conversation #1')
+    mockFetchConversationPage.mockResolvedValue(onePage())
+
+    // Act
+    await user.type(screen.getByLabelText('Search conversations'), 'dict')
+
+    // Assert
+    expect(
+      await screen.findByText('No conversations match your search.')
+    ).toBeInTheDocument()
+    expect(mockFetchConversationPage).toHaveBeenCalledTimes(2)
+    expect(mockFetchConversationPage).toHaveBeenLastCalledWith({
+      archived: false,
+      search: 'dict'
     })
   })
 
-  it('disables the select and button during loading states', async () => {
+  it('lists the matching messages too, and opens the one clicked', async () => {
     // Arrange
-    // Don't resolve the promise to keep component in loading state
-    mockFetchConversationIds.mockReturnValue(new Promise(() => {}))
+    const user = userEvent.setup()
+    const onOpenMessage = vi.fn()
+    const hit: MessageSearchHit = {
+      conversation_id: 1,
+      conversation_title: null,
+      message_index: 3,
+      role: 'assistant',
+      field: 'text',
+      snippet: 'Use a dict to count the words.'
+    }
+    mockSearchMessages.mockResolvedValue([hit])
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+        onOpenMessage={onOpenMessage}
+      />
+    )
+    await screen.findByText('Conversation #1')
+    expect(screen.queryByTestId('message-search')).not.toBeInTheDocument()
 
     // Act
-    await act(async () => {
-      render(
-        <ConversationSelector
-          selectedConversationId={null}
-          onSelectConversation={mockOnSelectConversation}
-        />
+    await user.type(screen.getByLabelText('Search conversations'), 'dict')
+    await user.click(await screen.findByTestId('message-search-hit'))
+
+    // Assert
+    expect(mockSearchMessages).toHaveBeenCalledWith('dict')
+    expect(onOpenMessage).toHaveBeenCalledWith(hit)
+  })
+
+  it('renames the selected conversation', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onUpdate = vi.fn()
+    mockRenameConversation.mockResolvedValue(summary(2, { title: 'Lists' }))
+    render(
+      <ConversationSelector
+        selectedConversationId={2}
+        onSelectConversation={mockOnSelectConversation}
+        onUpdate={onUpdate}
+      />
+    )
+
+    // Act
+    await user.click(await screen.findByText('Rename'))
+    await user.type(
+      screen.getByLabelText('Conversation title'),
+      ' Lists {Enter}'
+    )
+
+    // Assert
+    expect(mockRenameConversation).toHaveBeenCalledWith(2, 'Lists')
+    expect(onUpdate).toHaveBeenCalledWith({ id: 2, title: 'Lists' })
+    expect(await screen.findByText('Lists')).toBeInTheDocument()
+    expect(
+      screen.queryByLabelText('Conversation title')
+    ).not.toBeInTheDocument()
+  })
+
+  it('shows changes made elsewhere and moves the conversation to the top', async () => {
+    // Arrange
+    const { rerender } = render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+    await screen.findByText('Conversation #1')
+
+    // Act
+    rerender(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+        updated={{
+          id: 1,
+          title: 'Why is my loop endless?',
+          preview: 'Look at the condition',
+          updated_at: new Date().toISOString(),
+          message_count: 4
+        }}
+      />
+    )
+
+    // Assert
+    const titles = screen
+      .getAllByRole('listitem')
+      .map((item) => item.querySelector('.font-medium')?.textContent)
+    expect(titles).toEqual([
+      'Why is my loop endless?',
+      'Conversation #3',
+      'Conversation #2'
+    ])
+    expect(screen.getByText('Look at the condition')).toBeInTheDocument()
+  })
+
+  it('deletes the selected conversation once the student confirms', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false)
+    mockDeleteConversation.mockResolvedValue(undefined)
+    render(
+      <ConversationSelector
+        selectedConversationId={2}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+
+    // Act: cancel, then confirm
+    await user.click(await screen.findByText('Delete'))
+    expect(mockDeleteConversation).not.toHaveBeenCalled()
+    confirm.mockReturnValueOnce(true)
+    await user.click(screen.getByText('Delete'))
+
+    // Assert
+    expect(confirm).toHaveBeenCalledWith(
+      'Delete "Conversation #2"? This can\'t be undone.'
+    )
+    expect(mockDeleteConversation).toHaveBeenCalledWith(2)
+    expect(mockOnSelectConversation).toHaveBeenCalledWith(null)
+    expect(screen.queryByText('Conversation #2')).not.toBeInTheDocument()
+    confirm.mockRestore()
+  })
+
+  it('shows an error when a conversation cannot be deleted', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValue(true)
+    mockDeleteConversation.mockRejectedValue(new Error('Failed to delete'))
+    render(
+      <ConversationSelector
+        selectedConversationId={2}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+
+    // Act
+    await user.click(await screen.findByText('Delete'))
+
+    // Assert
+    expect(
+      await screen.findByText(
+        'Failed to delete the conversation, please try again.'
       )
+    ).toBeInTheDocument()
+    expect(screen.getByText('Conversation #2')).toBeInTheDocument()
+    expect(mockOnSelectConversation).not.toHaveBeenCalled()
+    confirm.mockRestore()
+  })
+
+  it('archives the selected conversation and lists it with the archived ones', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    mockArchiveConversation.mockResolvedValue(summary(1, { archived: true }))
+    render(
+      <ConversationSelector
+        selectedConversationId={1}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+
+    // Act
+    await user.click(await screen.findByText('Archive'))
+
+    // Assert
+    expect(mockArchiveConversation).toHaveBeenCalledWith(1, true)
+    expect(mockOnSelectConversation).toHaveBeenCalledWith(null)
+    expect(screen.queryByText('Conversation #1')).not.toBeInTheDocument()
+
+    // Act
+    mockFetchConversationPage.mockResolvedValueOnce(
+      onePage(summary(1, { archived: true }))
+    )
+    await user.click(screen.getByLabelText('Show archived'))
+
+    // Assert
+    expect(mockFetchConversationPage).toHaveBeenLastCalledWith({
+      archived: true,
+      search: ''
     })
+    expect(await screen.findByText('Conversation #1')).toBeInTheDocument()
+    expect(screen.queryByText('Conversation #2')).not.toBeInTheDocument()
+  })
+
+  it('leaves the list being loaded alone when the load of a previous list fails', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    let rejectFirst: (error: Error) => void = () => {}
+    let resolveSecond: (page: ConversationPage) => void = () => {}
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockFetchConversationPage
+      .mockReturnValueOnce(
+        new Promise<ConversationPage>((_, reject) => (rejectFirst = reject))
+      )
+      .mockReturnValueOnce(
+        new Promise<ConversationPage>((resolve) => (resolveSecond = resolve))
+      )
+    render(
+      <ConversationSelector
+        selectedConversationId={null}
+        onSelectConversation={mockOnSelectConversation}
+      />
+    )
+
+    // Act
+    await user.click(screen.getByLabelText('Show archived'))
+    await act(async () => rejectFirst(new Error('Failed to fetch')))
 
     // Assert
-    const selectElement = screen.getByRole('combobox')
-    const createButton = screen.getByText('New Conversation')
+    expect(screen.getByText('Loading...')).toBeInTheDocument()
+    expect(
+      screen.queryByText('Failed to load conversations, please try again.')
+    ).not.toBeInTheDocument()
 
-    expect(selectElement).toBeDisabled()
-    expect(createButton).toBeDisabled()
+    // Act
+    await act(async () =>
+      resolveSecond(onePage(summary(1, { archived: true })))
+    )
+
+    // Assert
+    expect(screen.getByText('Conversation #1')).toBeInTheDocument()
+    expect(screen.queryByText('Loading...')).not.toBeInTheDocument()
   })
 
   it('correctly handles ConversationListResponse format from API', async () => {
     // Mock the API to return the actual response format from the server
     const apiResponse: ConversationListResponse = {
-      conversation_ids: [1, 2, 3]
+      conversation_ids: [1, 2, 3],
+      conversations: [summary(1, { title: 'Loops' }), summary(2), summary(3)],
+      next_cursor: null
     }
     // First mock the return value to be what the API actually returns
-    mockFetchConversationIds.mockImplementation(async () => {
+    mockFetchConversationPage.mockImplementation(async () => {
       // This simulates what happens in the real API function
       const data = apiResponse
-      return data.conversation_ids
+      return {
+        conversations: data.conversations,
+        nextCursor: data.next_cursor
+      }
     })
 
     // Act
@@ -258,12 +580,12 @@ describe('<ConversationSelector />', () => {
 
     // Wait for data to load
     await waitFor(() => {
-      expect(screen.getByText('Conversation #1')).toBeInTheDocument()
+      expect(screen.getByText('Loops')).toBeInTheDocument()
       expect(screen.getByText('Conversation #2')).toBeInTheDocument()
       expect(screen.getByText('Conversation #3')).toBeInTheDocument()
     })
 
     // Verify API was called
-    expect(mockFetchConversationIds).toHaveBeenCalledTimes(1)
+    expect(mockFetchConversationPage).toHaveBeenCalledTimes(1)
   })
 })
@@ -1,49 +1,174 @@
-import { useState, useEffect } from 'react'
-import { fetchConversationIds, createConversation } from '../services/api'
+import { useState, useEffect, useRef, FormEvent, UIEvent } from 'react'
+import {
+  fetchConversationPage,
+  createConversation,
+  renameConversation,
+  archiveConversation,
+  deleteConversation
+} from '../services/api'
+import { ConversationSummary, MessageSearchHit } from '../types'
+import { classNames } from 'utils'
+import { conversationName, MAX_TITLE_LENGTH } from './conversationTitle'
+import {
+  addPage,
+  applyUpdate,
+  timeAgo,
+  type ConversationUpdate
+} from './conversationList'
+import MessageSearchResults from './MessageSearchResults'
 
 type ConversationSelectorProps = {
   selectedConversationId: number | null
   onSelectConversation: (id: number | null) => void
+  // A conversation changed elsewhere, e.g. named after its first message or replied to
+  updated?: ConversationUpdate | null
+  // Called when the student renames a conversation here
+  onUpdate?: (update: ConversationUpdate) => void
+  // Opens a message found by searching; without it only conversations are searched
+  onOpenMessage?: (hit: MessageSearchHit) => void
 }
 
+// How long typing in the search box has to pause before the list is searched
+export const SEARCH_DELAY_MS = 300
+
+// How close to the end of the list, in pixels, the next page starts loading
+const LOAD_MORE_THRESHOLD_PX = 80
+
+/**
+ * The student's conversations in a sidebar, most recently active first, each with
+ * its title, the start of its last message and when that was. The next page loads
+ * when the list is scrolled to the end. The selected conversation can be renamed,
+ * archived or deleted, and a switch lists the archived conversations instead.
+ * Searching also lists the messages that match, from every conversation.
+ */
 function ConversationSelector({
   onSelectConversation,
-  selectedConversationId
+  selectedConversationId,
+  updated = null,
+  onUpdate,
+  onOpenMessage
 }: ConversationSelectorProps) {
-  const [conversationIds, setConversationIds] = useState<number[]>([])
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  // Where the next page starts, null when every conversation has been listed
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [loading, setLoading] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
   const [creatingConversation, setCreatingConversation] =
     useState<boolean>(false)
+  // Whether the archived conversations are listed instead of the active ones
+  const [showArchived, setShowArchived] = useState<boolean>(false)
+  const [searchInput, setSearchInput] = useState('')
+  // The search the list shows, once typing has paused
+  const [search, setSearch] = useState('')
+  // Bumped to list the conversations again from the first page
+  const [listVersion, setListVersion] = useState(0)
+  // The title being typed while renaming, null when not renaming
+  const [titleDraft, setTitleDraft] = useState<string | null>(null)
+  // Set while a rename, archive or delete is being saved
+  const [updating, setUpdating] = useState<boolean>(false)
+  // The list that pages are loaded for; a page for a list no longer shown is dropped
+  const listKeyRef = useRef('')
+
+  const listKey = `${showArchived}:${search}:${listVersion}`
+
+  useEffect(() => {
+    const timeoutId = setTimeout(
+      () => setSearch(searchInput.trim()),
+      SEARCH_DELAY_MS
+    )
+    return () => clearTimeout(timeoutId)
+  }, [searchInput])
+
+  // List the conversations from the first page whenever the list changes
+  useEffect(() => {
+    listKeyRef.current = listKey
+    setConversations([])
+    setNextCursor(null)
+
+    // Once the list has changed, the newer load is the one that updates it
+    const isCurrent = () => listKeyRef.current === listKey
 
-  const loadConversationIds = async () => {
+    async function loadFirstPage() {
+      try {
+        setLoading(true)
+        const page = await fetchConversationPage({
+          archived: showArchived,
+          search
+        })
+        if (isCurrent()) {
+          setConversations(page.conversations)
+          setNextCursor(page.nextCursor)
+          setError(null)
+        }
+      } catch (e) {
+        if (isCurrent()) {
+          setError('Failed to load conversations, please try again.')
+        }
+        console.error(e)
+      } finally {
+        if (isCurrent()) {
+          setLoading(false)
+        }
+      }
+    }
+
+    loadFirstPage()
+  }, [listKey, showArchived, search])
+
+  const loadNextPage = async () => {
+    if (nextCursor === null || loading) {
+      return
+    }
+    const key = listKey
+    const isCurrent = () => listKeyRef.current === key
     try {
       setLoading(true)
-      const ids = await fetchConversationIds()
-      setConversationIds(ids)
-      setError(null)
+      const page = await fetchConversationPage({
+        archived: showArchived,
+        search,
+        cursor: nextCursor
+      })
+      if (isCurrent()) {
+        setConversations((prev) => addPage(prev, page.conversations))
+        setNextCursor(page.nextCursor)
+        setError(null)
+      }
     } catch (e) {
-      setError('Failed to load conversations, please try again.')
+      if (isCurrent()) {
+        setError('Failed to load conversations, please try again.')
+      }
       console.error(e)
     } finally {
-      setLoading(false)
+      if (isCurrent()) {
+        setLoading(false)
+      }
     }
   }
 
   useEffect(() => {
-    loadConversationIds()
-  }, [])
-
-  /**
-   * On the changing of the selector, call the callback given as a prop which will
-   * cause the conversation to render
-   */
-  const handleSelectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    const value = event.target.value
-    if (value === '') {
-      onSelectConversation(null)
-    } else {
-      onSelectConversation(Number(value))
+    if (updated) {
+      setConversations((prev) => applyUpdate(prev, updated))
+    }
+  }, [updated])
+
+  const handleScroll = (event: UIEvent<HTMLElement>) => {
+    const { scrollTop, clientHeight, scrollHeight } = event.currentTarget
+    if (scrollTop + clientHeight >= scrollHeight - LOAD_MORE_THRESHOLD_PX) {
+      loadNextPage()
+    }
+  }
+
+  // The selected conversation, if it is in the list being shown
+  const selected =
+    conversations.find(
+      (conversation) => conversation.id === selectedConversationId
+    ) ?? null
+  const busy = creatingConversation || updating
+
+  const handleSelect = (id: number) => {
+    if (id !== selectedConversationId) {
+      setTitleDraft(null)
+      onSelectConversation(id)
     }
   }
 
@@ -53,8 +178,11 @@ function ConversationSelector({
       setError(null)
       const newConversationId = await createConversation()
 
-      // Refresh the conversation list
-      await loadConversationIds()
+      // List the conversations again; a new conversation is an active one
+      setShowArchived(false)
+      setSearchInput('')
+      setSearch('')
+      setListVersion((prev) => prev + 1)
 
       // Select the newly created conversation
       onSelectConversation(newConversationId)
@@ -66,48 +194,244 @@ function ConversationSelector({
     }
   }
 
+  const handleRename = async (event: FormEvent) => {
+    event.preventDefault()
+    const title = titleDraft?.trim() ?? ''
+    if (!selected || title === '') {
+      return
+    }
+    try {
+      setUpdating(true)
+      setError(null)
+      await renameConversation(selected.id, title)
+      setConversations((prev) => applyUpdate(prev, { id: selected.id, title }))
+      setTitleDraft(null)
+      onUpdate?.({ id: selected.id, title })
+    } catch (e) {
+      setError('Failed to rename the conversation, please try again.')
+      console.error(e)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  // Archiving takes a conversation out of the active list, and unarchiving puts it
+  // back; either way it leaves the list being shown
+  const handleArchive = async () => {
+    if (!selected) {
+      return
+    }
+    try {
+      setUpdating(true)
+      setError(null)
+      await archiveConversation(selected.id, !selected.archived)
+      setConversations((prev) =>
+        prev.filter((conversation) => conversation.id !== selected.id)
+      )
+      if (!selected.archived) {
+        onSelectConversation(null)
+      }
+    } catch (e) {
+      setError('Failed to archive the conversation, please try again.')
+      console.error(e)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (
+      !selected ||
+      !window.confirm(
+        `Delete "${conversationName(selected)}"? This can't be undone.`
+      )
+    ) {
+      return
+    }
+    try {
+      setUpdating(true)
+      setError(null)
+      await deleteConversation(selected.id)
+      setConversations((prev) =>
+        prev.filter((conversation) => conversation.id !== selected.id)
+      )
+      onSelectConversation(null)
+    } catch (e) {
+      setError('Failed to delete the conversation, please try again.')
+      console.error(e)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
   return (
-    <div className="flex items-center space-x-4">
-      <label
-        htmlFor="conversation-select"
-        className="whitespace-nowrap text-sm font-medium text-gray-700"
-      >
-        Select conversation:
-      </label>
-      <div className="relative w-56">
-        <select
-          id="conversation-select"
-          className="block w-full rounded-md border-gray-300 py-1.5 pl-3 pr-10 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
-          value={
-            selectedConversationId === null
-              ? ''
-              : selectedConversationId.toString()
-          }
-          onChange={handleSelectChange}
-          disabled={loading || creatingConversation}
+    <aside
+      className="flex h-full w-60 shrink-0 flex-col rounded-lg border border-gray-200 bg-white"
+      aria-label="Conversations"
+    >
+      <div className="space-y-2 border-b border-gray-200 p-2">
+        <button
+          onClick={handleCreateConversation}
+          disabled={busy}
+          className="w-full whitespace-nowrap rounded-md bg-green-500 px-3 py-1.5 text-sm text-white hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-green-300"
         >
-          <option value="">-- Select --</option>
-          {conversationIds.map((id) => (
-            <option key={id} value={id}>
-              Conversation #{id}
-            </option>
-          ))}
-        </select>
-        {loading && (
-          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-8">
-            <p className="text-xs text-gray-500">Loading...</p>
-          </div>
-        )}
+          {creatingConversation ? 'Creating...' : 'New Conversation'}
+        </button>
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search conversations"
+          className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Search conversations"
+        />
+        <label className="flex items-center space-x-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+            disabled={busy}
+          />
+          <span>Show archived</span>
+        </label>
+        {error && <p className="text-xs text-red-600">{error}</p>}
       </div>
-      <button
-        onClick={handleCreateConversation}
-        disabled={creatingConversation || loading}
-        className="whitespace-nowrap rounded-md bg-green-500 px-3 py-1.5 text-sm text-white hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-green-300"
+
+      {search !== '' && onOpenMessage && (
+        <div className="max-h-[45%] shrink-0 overflow-y-auto border-b border-gray-200">
+          <MessageSearchResults query={search} onOpen={onOpenMessage} />
+        </div>
+      )}
+
+      <ul
+        className="flex-1 overflow-y-auto"
+        onScroll={handleScroll}
+        data-testid="conversation-list"
       >
-        {creatingConversation ? 'Creating...' : 'New Conversation'}
-      </button>
-      {error && <p className="ml-2 text-xs text-red-600">{error}</p>}
-    </div>
+        {conversations.map((conversation) => {
+          const isSelected = conversation.id === selectedConversationId
+          return (
+            <li
+              key={conversation.id}
+              className={classNames(
+                'border-b border-gray-100',
+                isSelected && 'bg-indigo-50'
+              )}
+            >
+              {isSelected && titleDraft !== null ? (
+                <form
+                  onSubmit={handleRename}
+                  className="flex items-center space-x-1 p-2"
+                >
+                  <input
+                    type="text"
+                    value={titleDraft}
+                    onChange={(e) => setTitleDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') {
+                        setTitleDraft(null)
+                      }
+                    }}
+                    maxLength={MAX_TITLE_LENGTH}
+                    autoFocus
+                    disabled={updating}
+                    className="min-w-0 flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    aria-label="Conversation title"
+                  />
+                  <button
+                    type="submit"
+                    disabled={updating || titleDraft.trim() === ''}
+                    className="rounded-md bg-blue-500 px-2 py-1 text-xs text-white hover:bg-blue-600 disabled:bg-blue-300"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setTitleDraft(null)}
+                    disabled={updating}
+                    className="rounded-md px-2 py-1 text-xs text-gray-600 hover:bg-gray-100"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleSelect(conversation.id)}
+                  aria-current={isSelected ? 'true' : undefined}
+                  className="w-full px-3 py-2 text-left hover:bg-gray-50"
+                >
+                  <div className="truncate text-sm font-medium text-gray-800">
+                    {conversationName(conversation)}
+                  </div>
+                  {conversation.preview && (
+                    <div className="truncate text-xs text-gray-500">
+                      {conversation.preview}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-400">
+                    {conversation.updated_at &&
+                      `${timeAgo(conversation.updated_at)} · `}
+                    {conversation.message_count === 1
+                      ? '1 message'
+                      : `${conversation.message_count} messages`}
+                  </div>
+                </button>
+              )}
+              {isSelected && titleDraft === null && (
+                <div className="flex items-center space-x-1 px-2 pb-2 text-xs">
+                  <button
+                    onClick={() => setTitleDraft(conversation.title ?? '')}
+                    disabled={busy}
+                    className="rounded px-2 py-1 text-gray-600 hover:bg-gray-100"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={handleArchive}
+                    disabled={busy}
+                    className="rounded px-2 py-1 text-gray-600 hover:bg-gray-100"
+                  >
+                    {conversation.archived ? 'Unarchive' : 'Archive'}
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    disabled={busy}
+                    className="rounded px-2 py-1 text-red-600 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </li>
+          )
+        })}
+
+        {loading && (
+          <li className="p-3 text-center text-xs text-gray-500">Loading...</li>
+        )}
+        {!loading && conversations.length === 0 && !error && (
+          <li className="p-3 text-center text-xs text-gray-500">
+            {search !== ''
+              ? 'No conversations match your search.'
+              : showArchived
+                ? 'No archived conversations.'
+                : 'No conversations yet.'}
+          </li>
+        )}
+        {/* For when the list is too short to scroll, or scrolling isn't handy */}
+        {!loading && nextCursor !== null && (
+          <li className="p-2">
+            <button
+              onClick={loadNextPage}
+              className="w-full rounded-md px-2 py-1 text-xs text-indigo-600 hover:bg-indigo-50"
+            >
+              Load more
+            </button>
+          </li>
+        )}
+      </ul>
+    </aside>
   )
 }
 
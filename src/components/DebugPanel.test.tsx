@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import DebugPanel from './DebugPanel'
+import type { DebugStep } from '../services/pyodide'
+
+const step: DebugStep = {
+  file: 'helpers.py',
+  line: 3,
+  function: 'greet',
+  locals: [{ name: 'name', type: 'str', repr: "'Ada'" }],
+  globals: [
+    { name: 'count', type: 'int', repr: '2' },
+    { name: 'greet', type: 'function', repr: '<function greet>' }
+  ]
+}
+
+describe('<DebugPanel />', () => {
+  it('should say where the code is paused and list the variables in scope', () => {
+    // Act
+    render(
+      <DebugPanel
+        step={step}
+        onStep={vi.fn()}
+        onContinue={vi.fn()}
+        onStop={vi.fn()}
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('debug-location')).toHaveTextContent(
+      'Paused at helpers.py, line 3, in greet()'
+    )
+    expect(screen.getByText('Variables in greet()')).toBeInTheDocument()
+    const rows = screen.getAllByTestId('debug-variable')
+    expect(rows.map((row) => row.textContent)).toEqual([
+      "namestr'Ada'",
+      'countint2',
+      'greetfunction<function greet>'
+    ])
+  })
+
+  it('should only list globals at the top level of the code', () => {
+    // Act
+    render(
+      <DebugPanel
+        step={{ ...step, file: null, function: null, locals: [], globals: [] }}
+        onStep={vi.fn()}
+        onContinue={vi.fn()}
+        onStop={vi.fn()}
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('debug-location')).toHaveTextContent(
+      'Paused at line 3'
+    )
+    expect(screen.queryByText(/Variables in/)).not.toBeInTheDocument()
+    expect(screen.getByText('None yet')).toBeInTheDocument()
+  })
+
+  it('should step, continue and stop when the buttons are clicked', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onStep = vi.fn()
+    const onContinue = vi.fn()
+    const onStop = vi.fn()
+    render(
+      <DebugPanel
+        step={step}
+        onStep={onStep}
+        onContinue={onContinue}
+        onStop={onStop}
+      />
+    )
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Step' }))
+    await user.click(screen.getByRole('button', { name: 'Continue' }))
+    await user.click(screen.getByRole('button', { name: 'Stop' }))
+
+    // Assert
+    expect(onStep).toHaveBeenCalledTimes(1)
+    expect(onContinue).toHaveBeenCalledTimes(1)
+    expect(onStop).toHaveBeenCalledTimes(1)
+  })
+
+  it('should only allow stopping while the code runs between pauses', () => {
+    // Act
+    render(
+      <DebugPanel
+        step={null}
+        onStep={vi.fn()}
+        onContinue={vi.fn()}
+        onStop={vi.fn()}
+      />
+    )
+
+    // Assert
+    expect(screen.getByText('Running...')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Step' })).toBeDisabled()
+    expect(screen.getByRole('button', { name: 'Continue' })).toBeDisabled()
+    expect(screen.getByRole('button', { name: 'Stop' })).toBeEnabled()
+  })
+})
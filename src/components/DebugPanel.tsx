@@ -0,0 +1,115 @@
+import type { DebugStep, DebugVariable } from '../services/pyodide'
+
+export interface DebugPanelProps {
+  // Where the code is paused, null while it runs between pauses
+  step: DebugStep | null
+  onStep: () => void
+  onContinue: () => void
+  onStop: () => void
+}
+
+function VariableTable({
+  title,
+  variables
+}: {
+  title: string
+  variables: DebugVariable[]
+}) {
+  return (
+    <div className="mb-3">
+      <div className="mb-1 text-xs font-medium uppercase text-gray-500">
+        {title}
+      </div>
+      {variables.length === 0 ? (
+        <div className="text-xs text-gray-400">None yet</div>
+      ) : (
+        <table className="w-full table-fixed text-left text-xs">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="w-1/4 font-normal">Name</th>
+              <th className="w-1/5 font-normal">Type</th>
+              <th className="font-normal">Value</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {variables.map((variable) => (
+              <tr key={variable.name} data-testid="debug-variable">
+                <td className="truncate pr-2">{variable.name}</td>
+                <td className="truncate pr-2 text-gray-500">{variable.type}</td>
+                <td className="truncate" title={variable.repr}>
+                  {variable.repr}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Controls for a debug run and the variables in scope where it is paused. The
+ * editor highlights the paused line; this panel says where that is.
+ */
+function DebugPanel({ step, onStep, onContinue, onStop }: DebugPanelProps) {
+  const buttonClass =
+    'rounded px-2 py-0.5 text-xs font-medium text-white disabled:opacity-50'
+
+  return (
+    <div
+      className="flex h-full flex-col rounded-lg border border-gray-200 bg-white shadow-sm"
+      data-testid="debug-panel"
+    >
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+        <div className="text-sm font-medium text-gray-700">Debugger</div>
+        <div className="flex gap-2">
+          <button
+            onClick={onStep}
+            disabled={!step}
+            className={`${buttonClass} bg-yellow-500 hover:bg-yellow-600`}
+          >
+            Step
+          </button>
+          <button
+            onClick={onContinue}
+            disabled={!step}
+            className={`${buttonClass} bg-green-500 hover:bg-green-600`}
+          >
+            Continue
+          </button>
+          <button
+            onClick={onStop}
+            className={`${buttonClass} bg-red-500 hover:bg-red-600`}
+          >
+            Stop
+          </button>
+        </div>
+      </div>
+      <div className="min-h-0 flex-1 overflow-y-auto px-4 py-2">
+        {step ? (
+          <>
+            <div
+              className="mb-2 text-sm text-gray-700"
+              data-testid="debug-location"
+            >
+              Paused at {step.file ? `${step.file}, line` : 'line'} {step.line}
+              {step.function ? `, in ${step.function}()` : ''}
+            </div>
+            {step.function && (
+              <VariableTable
+                title={`Variables in ${step.function}()`}
+                variables={step.locals}
+              />
+            )}
+            <VariableTable title="Global variables" variables={step.globals} />
+          </>
+        ) : (
+          <div className="text-sm text-gray-500">Running...</div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default DebugPanel
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import DisplayOutput from './DisplayOutput'
+
+describe('<DisplayOutput />', () => {
+  it('should show a PNG as an image', () => {
+    // Arrange & Act
+    render(
+      <DisplayOutput
+        chunk={{ stream: 'display', mimeType: 'image/png', data: 'iVBOR' }}
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('display-image')).toHaveAttribute(
+      'src',
+      'data:image/png;base64,iVBOR'
+    )
+  })
+
+  it('should show a plain repr as text', () => {
+    // Arrange & Act
+    render(
+      <DisplayOutput
+        chunk={{ stream: 'display', mimeType: 'text/plain', data: '[1, 2]' }}
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('display-text')).toHaveTextContent('[1, 2]')
+  })
+})
@@ -0,0 +1,42 @@
+import DOMPurify from 'dompurify'
+import type { DisplayChunk } from '../services/pyodide'
+
+/**
+ * A figure, image or piece of HTML the code displayed. HTML is sanitized, and SVG
+ * is shown as an image so that any scripts in it don't run.
+ */
+function DisplayOutput({ chunk }: { chunk: DisplayChunk }) {
+  if (chunk.mimeType === 'image/png' || chunk.mimeType === 'image/svg+xml') {
+    const src =
+      chunk.mimeType === 'image/png'
+        ? `data:image/png;base64,${chunk.data}`
+        : `data:image/svg+xml;charset=utf-8,${encodeURIComponent(chunk.data)}`
+    return (
+      <img
+        src={src}
+        alt="Output from your code"
+        className="mb-2 max-w-full"
+        data-testid="display-image"
+      />
+    )
+  }
+  if (chunk.mimeType === 'text/html') {
+    return (
+      <div
+        className="mb-2 overflow-x-auto font-sans"
+        data-testid="display-html"
+        dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(chunk.data) }}
+      />
+    )
+  }
+  return (
+    <pre
+      className="mb-2 whitespace-pre-wrap break-words text-gray-500"
+      data-testid="display-text"
+    >
+      {chunk.data}
+    </pre>
+  )
+}
+
+export default DisplayOutput
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import ErrorExplanationCard from './ErrorExplanationCard'
+import type { PythonError } from '../services/pyodide'
+
+const nameError: PythonError = {
+  type: 'NameError',
+  message: "name 'pritn' is not defined",
+  file: null,
+  line: 2,
+  column: 1,
+  frames: []
+}
+
+describe('<ErrorExplanationCard />', () => {
+  it('should explain a common error with a hint', () => {
+    // Arrange & Act
+    render(<ErrorExplanationCard error={nameError} />)
+
+    // Assert
+    const card = screen.getByTestId('error-explanation')
+    expect(card).toHaveTextContent("Python doesn't know the name 'pritn'")
+    expect(card).toHaveTextContent('Try this: Check the spelling')
+    expect(screen.queryByTestId('ask-about-error')).not.toBeInTheDocument()
+  })
+
+  it('should still say something gentle about an error it has no explanation for', () => {
+    // Arrange & Act
+    render(
+      <ErrorExplanationCard
+        error={{ ...nameError, type: 'OverflowError', message: 'too big' }}
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('error-explanation')).toHaveTextContent(
+      'Python stopped with a OverflowError'
+    )
+  })
+
+  it('should ask the tutor about the error', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onAsk = vi.fn()
+    render(<ErrorExplanationCard error={nameError} onAsk={onAsk} />)
+
+    // Act
+    await user.click(screen.getByText('Ask Playdo about this error'))
+
+    // Assert
+    expect(onAsk).toHaveBeenCalledWith(nameError)
+  })
+})
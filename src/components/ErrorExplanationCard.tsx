@@ -0,0 +1,50 @@
+import type { PythonError } from '../services/pyodide'
+import { explainError } from '../errorExplanations'
+
+export interface ErrorExplanationCardProps {
+  error: PythonError
+  // Asks the tutor about the error; without it there is no button
+  onAsk?: (error: PythonError) => void
+}
+
+/**
+ * What the error from the last run means, in plain words, shown above its
+ * traceback. Errors the catalogue doesn't know still get a gentle word and the
+ * button to ask the tutor.
+ */
+function ErrorExplanationCard({ error, onAsk }: ErrorExplanationCardProps) {
+  const explanation = explainError(error)
+
+  return (
+    <div
+      className="mb-2 rounded border border-amber-300 bg-amber-50 p-3 font-sans text-sm text-gray-800"
+      data-testid="error-explanation"
+    >
+      <div className="font-medium">
+        {explanation?.title ?? `Python stopped with a ${error.type}`}
+      </div>
+      <div className="mt-1">
+        {explanation?.explanation ??
+          'The last line of the message below says what went wrong.'}
+      </div>
+      {explanation && (
+        <div className="mt-1 text-gray-600">
+          <span className="font-medium">Try this: </span>
+          {explanation.hint}
+        </div>
+      )}
+      {onAsk && (
+        <button
+          type="button"
+          onClick={() => onAsk(error)}
+          className="mt-2 rounded bg-blue-500 px-3 py-1 text-xs text-white hover:bg-blue-600"
+          data-testid="ask-about-error"
+        >
+          Ask Playdo about this error
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default ErrorExplanationCard
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import ExercisePanel, { type ExercisePanelProps } from './ExercisePanel'
+
+const exercise = {
+  id: 'add-numbers',
+  title: 'Add two numbers',
+  prompt: 'Write a function add(a, b) that returns the sum of a and b.',
+  starterCode: 'def add(a, b):\n    pass\n',
+  tests: [
+    {
+      name: 'add(2, 3) is 5',
+      kind: 'assertion' as const,
+      code: 'assert add(2, 3) == 5'
+    }
+  ]
+}
+
+const props = (overrides: Partial<ExercisePanelProps> = {}) => ({
+  exercise,
+  results: null,
+  resultsAreStale: false,
+  isBusy: false,
+  onCheck: vi.fn(),
+  ...overrides
+})
+
+describe('<ExercisePanel />', () => {
+  it('should show the exercise without results until the code is checked', () => {
+    // Act
+    render(<ExercisePanel {...props()} />)
+
+    // Assert
+    expect(screen.getByText('Add two numbers')).toBeInTheDocument()
+    expect(
+      screen.getByText(
+        'Write a function add(a, b) that returns the sum of a and b.'
+      )
+    ).toBeInTheDocument()
+    expect(screen.queryByTestId('test-summary')).not.toBeInTheDocument()
+  })
+
+  it('should check the code when the button is clicked', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onCheck = vi.fn()
+    render(<ExercisePanel {...props({ onCheck })} />)
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Check my code' }))
+
+    // Assert
+    expect(onCheck).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not check while code is running', () => {
+    // Act
+    render(<ExercisePanel {...props({ isBusy: true })} />)
+
+    // Assert
+    expect(screen.getByRole('button', { name: 'Check my code' })).toBeDisabled()
+  })
+
+  it('should list which tests passed and why the others failed', () => {
+    // Act
+    render(
+      <ExercisePanel
+        {...props({
+          results: [
+            { name: 'add(2, 3) is 5', passed: true, message: null },
+            {
+              name: 'works with negative numbers',
+              passed: false,
+              message: 'add(-4, 1) returned 5, not -3'
+            }
+          ]
+        })}
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('test-summary')).toHaveTextContent(
+      '1 of 2 tests passed'
+    )
+    const [passed, failed] = screen.getAllByTestId('test-result')
+    expect(passed).toHaveAttribute('data-passed', 'true')
+    expect(failed).toHaveAttribute('data-passed', 'false')
+    expect(failed).toHaveTextContent('add(-4, 1) returned 5, not -3')
+    expect(screen.getByLabelText('Failed')).toBeInTheDocument()
+  })
+
+  it('should say when the code has changed since it was checked', () => {
+    // Act
+    render(
+      <ExercisePanel
+        {...props({
+          results: [{ name: 'add(2, 3) is 5', passed: true, message: null }],
+          resultsAreStale: true
+        })}
+      />
+    )
+
+    // Assert
+    expect(
+      screen.getByText('Your code has changed since it was checked.')
+    ).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,97 @@
+import type { Exercise, TestResult } from '../types'
+
+export interface ExercisePanelProps {
+  exercise: Exercise
+  // Results of the last check, null until the code has been checked
+  results: TestResult[] | null
+  // The code has changed since it was checked
+  resultsAreStale: boolean
+  // Checking, or running code some other way
+  isBusy: boolean
+  onCheck: () => void
+}
+
+/**
+ * The exercise the student is working on, a button to check their code against its
+ * hidden tests, and which of the tests passed.
+ */
+function ExercisePanel({
+  exercise,
+  results,
+  resultsAreStale,
+  isBusy,
+  onCheck
+}: ExercisePanelProps) {
+  const passedCount = results?.filter((result) => result.passed).length ?? 0
+
+  return (
+    <div
+      className="flex h-full flex-col rounded-lg border border-gray-200 bg-white shadow-sm"
+      data-testid="exercise-panel"
+    >
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+        <div className="truncate text-sm font-medium text-gray-700">
+          {exercise.title}
+        </div>
+        <button
+          onClick={onCheck}
+          disabled={isBusy}
+          className="whitespace-nowrap rounded bg-green-500 px-2 py-0.5 text-xs font-medium text-white hover:bg-green-600 disabled:opacity-50"
+        >
+          Check my code
+        </button>
+      </div>
+      <div className="min-h-0 flex-1 overflow-y-auto px-4 py-2 text-sm">
+        <p className="mb-3 whitespace-pre-wrap text-gray-700">
+          {exercise.prompt}
+        </p>
+        {results && (
+          <>
+            <div
+              className={`mb-2 font-medium ${
+                passedCount === results.length
+                  ? 'text-green-600'
+                  : 'text-red-600'
+              }`}
+              data-testid="test-summary"
+            >
+              {passedCount} of {results.length} tests passed
+            </div>
+            {resultsAreStale && (
+              <div className="mb-2 text-xs text-gray-500">
+                Your code has changed since it was checked.
+              </div>
+            )}
+            <ul>
+              {results.map((result) => (
+                <li
+                  key={result.name}
+                  className="mb-2"
+                  data-testid="test-result"
+                  data-passed={result.passed}
+                >
+                  <span
+                    className={
+                      result.passed ? 'text-green-600' : 'text-red-600'
+                    }
+                    aria-label={result.passed ? 'Passed' : 'Failed'}
+                  >
+                    {result.passed ? '✓' : '✗'}
+                  </span>{' '}
+                  {result.name}
+                  {result.message && (
+                    <pre className="mt-1 whitespace-pre-wrap rounded bg-gray-50 p-2 font-mono text-xs text-gray-700">
+                      {result.message}
+                    </pre>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ExercisePanel
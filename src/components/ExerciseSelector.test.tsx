@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import ExerciseSelector from './ExerciseSelector'
+
+const exercises = [
+  {
+    id: 'hello-name',
+    title: 'Say hello',
+    prompt: 'Greet the student.',
+    starterCode: '',
+    tests: []
+  },
+  {
+    id: 'add-numbers',
+    title: 'Add two numbers',
+    prompt: 'Write add(a, b).',
+    starterCode: '',
+    tests: []
+  }
+]
+
+describe('<ExerciseSelector />', () => {
+  it('should list the exercises and show the one selected', () => {
+    // Act
+    render(
+      <ExerciseSelector
+        exercises={exercises}
+        selectedExerciseId="add-numbers"
+        onSelectExercise={vi.fn()}
+      />
+    )
+
+    // Assert
+    const select = screen.getByLabelText('Exercise:')
+    expect(select).toHaveValue('add-numbers')
+    expect(
+      screen.getAllByRole('option').map((option) => option.textContent)
+    ).toEqual(['-- None --', 'Say hello', 'Add two numbers'])
+  })
+
+  it('should pick an exercise, or none', () => {
+    // Arrange
+    const onSelectExercise = vi.fn()
+    render(
+      <ExerciseSelector
+        exercises={exercises}
+        selectedExerciseId="add-numbers"
+        onSelectExercise={onSelectExercise}
+      />
+    )
+    const select = screen.getByLabelText('Exercise:')
+
+    // Act
+    fireEvent.change(select, { target: { value: 'hello-name' } })
+    fireEvent.change(select, { target: { value: '' } })
+
+    // Assert
+    expect(onSelectExercise).toHaveBeenNthCalledWith(1, 'hello-name')
+    expect(onSelectExercise).toHaveBeenNthCalledWith(2, null)
+  })
+})
@@ -0,0 +1,48 @@
+import type { Exercise } from '../types'
+
+type ExerciseSelectorProps = {
+  exercises: Exercise[]
+  selectedExerciseId: string | null
+  // Called with null when the student goes back to coding freely
+  onSelectExercise: (id: string | null) => void
+  disabled?: boolean
+}
+
+function ExerciseSelector({
+  exercises,
+  selectedExerciseId,
+  onSelectExercise,
+  disabled = false
+}: ExerciseSelectorProps) {
+  const handleSelectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value
+    onSelectExercise(value === '' ? null : value)
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <label
+        htmlFor="exercise-select"
+        className="whitespace-nowrap text-sm font-medium text-gray-700"
+      >
+        Exercise:
+      </label>
+      <select
+        id="exercise-select"
+        className="block rounded-md border-gray-300 py-1 pl-3 pr-10 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+        value={selectedExerciseId ?? ''}
+        onChange={handleSelectChange}
+        disabled={disabled}
+      >
+        <option value="">-- None --</option>
+        {exercises.map((exercise) => (
+          <option key={exercise.id} value={exercise.id}>
+            {exercise.title}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+export default ExerciseSelector
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { MockInstance } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import FileTree, { type FileTreeProps } from './FileTree'
+
+const files = [
+  { name: 'main.py', content: 'import helpers' },
+  { name: 'helpers.py', content: '' },
+  { name: 'data.txt', content: '1 2 3' }
+]
+
+describe('<FileTree />', () => {
+  let props: FileTreeProps
+  let confirmSpy: MockInstance<typeof window.confirm>
+
+  beforeEach(() => {
+    props = {
+      files,
+      activeFile: 'helpers.py',
+      entryPoint: 'main.py',
+      onSelect: vi.fn(),
+      onAdd: vi.fn().mockReturnValue(null),
+      onRename: vi.fn().mockReturnValue(null),
+      onDelete: vi.fn(),
+      onSetEntryPoint: vi.fn()
+    }
+    confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true)
+  })
+
+  afterEach(() => {
+    confirmSpy.mockRestore()
+  })
+
+  it('should list the files, marking the open one and the one that runs', () => {
+    // Act
+    render(<FileTree {...props} />)
+
+    // Assert
+    expect(screen.getByRole('button', { name: 'helpers.py' })).toHaveAttribute(
+      'aria-current',
+      'true'
+    )
+    expect(screen.getByRole('button', { name: 'main.py' })).not.toHaveAttribute(
+      'aria-current'
+    )
+    expect(screen.getByTestId('entry-point').closest('li')).toHaveTextContent(
+      'main.py'
+    )
+  })
+
+  it('should open a file when it is clicked', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<FileTree {...props} />)
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'data.txt' }))
+
+    // Assert
+    expect(props.onSelect).toHaveBeenCalledWith('data.txt')
+  })
+
+  it('should add a file with the name typed', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<FileTree {...props} />)
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'New file' }))
+    await user.type(screen.getByLabelText('New file name'), 'shapes.py{Enter}')
+
+    // Assert
+    expect(props.onAdd).toHaveBeenCalledWith('shapes.py')
+    expect(screen.queryByLabelText('New file name')).not.toBeInTheDocument()
+  })
+
+  it('should say why a name was refused and let the student fix it', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    vi.mocked(props.onAdd).mockReturnValueOnce(
+      'There is already a file called main.py.'
+    )
+    render(<FileTree {...props} />)
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'New file' }))
+    await user.type(screen.getByLabelText('New file name'), 'main.py{Enter}')
+
+    // Assert
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'There is already a file called main.py.'
+    )
+    expect(screen.getByLabelText('New file name')).toBeInTheDocument()
+  })
+
+  it('should rename a file', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<FileTree {...props} />)
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Rename data.txt' }))
+    const input = screen.getByLabelText('New name for data.txt')
+    await user.clear(input)
+    await user.type(input, 'scores.txt{Enter}')
+
+    // Assert
+    expect(props.onRename).toHaveBeenCalledWith('data.txt', 'scores.txt')
+  })
+
+  it('should stop renaming when Escape is pressed', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<FileTree {...props} />)
+    await user.dblClick(screen.getByRole('button', { name: 'data.txt' }))
+
+    // Act
+    await user.keyboard('{Escape}')
+
+    // Assert
+    expect(
+      screen.queryByLabelText('New name for data.txt')
+    ).not.toBeInTheDocument()
+    expect(props.onRename).not.toHaveBeenCalled()
+  })
+
+  it('should delete a file once the student confirms', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<FileTree {...props} />)
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Delete data.txt' }))
+
+    // Assert
+    expect(confirmSpy).toHaveBeenCalled()
+    expect(props.onDelete).toHaveBeenCalledWith('data.txt')
+  })
+
+  it('should keep the file when the student cancels deleting it', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    confirmSpy.mockReturnValue(false)
+    render(<FileTree {...props} />)
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Delete data.txt' }))
+
+    // Assert
+    expect(props.onDelete).not.toHaveBeenCalled()
+  })
+
+  it('should not offer to delete the file that runs', () => {
+    // Act
+    render(<FileTree {...props} />)
+
+    // Assert
+    expect(
+      screen.queryByRole('button', { name: 'Delete main.py' })
+    ).not.toBeInTheDocument()
+  })
+
+  it('should let only Python files be picked to run', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    render(<FileTree {...props} />)
+
+    // Act
+    await user.click(
+      screen.getByRole('button', { name: 'Run helpers.py when Run is pressed' })
+    )
+
+    // Assert
+    expect(props.onSetEntryPoint).toHaveBeenCalledWith('helpers.py')
+    expect(
+      screen.queryByRole('button', { name: 'Run data.txt when Run is pressed' })
+    ).not.toBeInTheDocument()
+  })
+})
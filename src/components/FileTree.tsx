@@ -0,0 +1,207 @@
+import { useState } from 'react'
+import type { ProjectFile } from '../types'
+import { classNames } from '../utils'
+
+export type FileTreeProps = {
+  files: ProjectFile[]
+  // The file open in the editor
+  activeFile: string
+  // The file that runs when the student presses Run
+  entryPoint: string
+  onSelect: (name: string) => void
+  // These return why the name can't be used, or null once done
+  onAdd: (name: string) => string | null
+  onRename: (name: string, newName: string) => string | null
+  onDelete: (name: string) => void
+  onSetEntryPoint: (name: string) => void
+}
+
+type FileNameInputProps = {
+  initialName: string
+  label: string
+  // Returns why the name can't be used, or null once done
+  onSubmit: (name: string) => string | null
+  onCancel: () => void
+}
+
+// Edits a file name in place: Enter saves it, Escape gives up
+function FileNameInput({
+  initialName,
+  label,
+  onSubmit,
+  onCancel
+}: FileNameInputProps) {
+  const [name, setName] = useState(initialName)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      setError(onSubmit(name.trim()))
+    } else if (event.key === 'Escape') {
+      onCancel()
+    }
+  }
+
+  return (
+    <div className="px-2 py-1">
+      <input
+        autoFocus
+        aria-label={label}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={onCancel}
+        className="w-full rounded border border-gray-300 px-1 py-0.5 text-sm focus:border-indigo-500 focus:outline-none"
+      />
+      {error && (
+        <div className="mt-1 text-xs text-red-600" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * The project's files, beside the editor. Picks the file to edit and the file
+ * that runs, and adds, renames and deletes files.
+ */
+function FileTree({
+  files,
+  activeFile,
+  entryPoint,
+  onSelect,
+  onAdd,
+  onRename,
+  onDelete,
+  onSetEntryPoint
+}: FileTreeProps) {
+  const [adding, setAdding] = useState(false)
+  const [renaming, setRenaming] = useState<string | null>(null)
+
+  const handleAdd = (name: string) => {
+    const error = onAdd(name)
+    if (!error) {
+      setAdding(false)
+    }
+    return error
+  }
+
+  const handleRename = (name: string, newName: string) => {
+    const error = onRename(name, newName)
+    if (!error) {
+      setRenaming(null)
+    }
+    return error
+  }
+
+  const handleDelete = (name: string) => {
+    if (window.confirm(`Delete ${name}? This can't be undone.`)) {
+      onDelete(name)
+    }
+  }
+
+  return (
+    <div
+      className="flex h-full flex-col rounded-lg border border-gray-200 bg-white shadow-sm"
+      data-testid="file-tree"
+    >
+      <div className="flex items-center justify-between border-b border-gray-200 px-3 py-2">
+        <div className="text-sm font-medium text-gray-700">Files</div>
+        <button
+          onClick={() => setAdding(true)}
+          className="text-lg leading-none text-gray-500 hover:text-gray-900"
+          aria-label="New file"
+          title="New file"
+        >
+          +
+        </button>
+      </div>
+      <ul className="min-h-0 flex-1 overflow-y-auto py-1">
+        {files.map((file) =>
+          renaming === file.name ? (
+            <li key={file.name}>
+              <FileNameInput
+                initialName={file.name}
+                label={`New name for ${file.name}`}
+                onSubmit={(newName) => handleRename(file.name, newName)}
+                onCancel={() => setRenaming(null)}
+              />
+            </li>
+          ) : (
+            <li
+              key={file.name}
+              className={classNames(
+                'group flex items-center px-2 text-sm',
+                file.name === activeFile
+                  ? 'bg-indigo-50 text-indigo-700'
+                  : 'text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              <button
+                onClick={() => onSelect(file.name)}
+                onDoubleClick={() => setRenaming(file.name)}
+                className="min-w-0 flex-1 truncate py-1 text-left"
+                aria-current={file.name === activeFile ? 'true' : undefined}
+              >
+                {file.name}
+              </button>
+              {file.name === entryPoint && (
+                <span
+                  className="ml-1 text-xs text-green-600"
+                  title="Runs when you press Run"
+                  data-testid="entry-point"
+                >
+                  ▶
+                </span>
+              )}
+              <span className="hidden shrink-0 group-focus-within:flex group-hover:flex">
+                {file.name !== entryPoint && file.name.endsWith('.py') && (
+                  <button
+                    onClick={() => onSetEntryPoint(file.name)}
+                    className="ml-1 text-xs text-gray-400 hover:text-green-600"
+                    aria-label={`Run ${file.name} when Run is pressed`}
+                    title="Run this file"
+                  >
+                    ▶
+                  </button>
+                )}
+                <button
+                  onClick={() => setRenaming(file.name)}
+                  className="ml-1 text-xs text-gray-400 hover:text-gray-900"
+                  aria-label={`Rename ${file.name}`}
+                  title="Rename"
+                >
+                  ✎
+                </button>
+                {file.name !== entryPoint && (
+                  <button
+                    onClick={() => handleDelete(file.name)}
+                    className="ml-1 text-xs text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${file.name}`}
+                    title="Delete"
+                  >
+                    ✕
+                  </button>
+                )}
+              </span>
+            </li>
+          )
+        )}
+        {adding && (
+          <li>
+            <FileNameInput
+              initialName=""
+              label="New file name"
+              onSubmit={handleAdd}
+              onCancel={() => setAdding(false)}
+            />
+          </li>
+        )}
+      </ul>
+    </div>
+  )
+}
+
+export default FileTree
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import LintPanel from './LintPanel'
+import type { LintProblem } from '../services/pyodide'
+
+const problems: LintProblem[] = [
+  {
+    line: 1,
+    column: 1,
+    endLine: 1,
+    endColumn: 12,
+    severity: 'warning',
+    message: "'math' is imported but never used."
+  },
+  {
+    line: 3,
+    column: 5,
+    endLine: 3,
+    endColumn: 10,
+    severity: 'error',
+    message: "'pritn' is not defined. Did you mean 'print'?"
+  }
+]
+
+describe('LintPanel', () => {
+  it('should list every problem with its line', () => {
+    // Act
+    render(<LintPanel problems={problems} onJumpToLine={vi.fn()} />)
+
+    // Assert
+    expect(screen.getByTestId('lint-summary')).toHaveTextContent(
+      'Problems: 1 error, 1 warning'
+    )
+    const items = screen.getAllByTestId('lint-problem')
+    expect(items).toHaveLength(2)
+    expect(items[0]).toHaveTextContent(
+      "Line 1: 'math' is imported but never used."
+    )
+    expect(items[1]).toHaveTextContent(
+      "Line 3: 'pritn' is not defined. Did you mean 'print'?"
+    )
+  })
+
+  it('should jump to a problem when it is clicked', () => {
+    // Arrange
+    const onJumpToLine = vi.fn()
+    render(<LintPanel problems={problems} onJumpToLine={onJumpToLine} />)
+
+    // Act
+    fireEvent.click(screen.getAllByTestId('lint-problem')[1])
+
+    // Assert
+    expect(onJumpToLine).toHaveBeenCalledWith(3, 5)
+  })
+})
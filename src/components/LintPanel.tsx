@@ -0,0 +1,57 @@
+import type { LintProblem } from '../services/pyodide'
+
+export interface LintPanelProps {
+  problems: LintProblem[]
+  // Moves the editor's cursor to the problem
+  onJumpToLine: (line: number, column: number) => void
+}
+
+/**
+ * Every problem the linter found in the open file, each a button that jumps the
+ * editor to it. The editor marks the same problems in its gutter.
+ */
+function LintPanel({ problems, onJumpToLine }: LintPanelProps) {
+  const errorCount = problems.filter(
+    (problem) => problem.severity === 'error'
+  ).length
+  const warningCount = problems.length - errorCount
+
+  return (
+    <div
+      className="rounded-lg border border-gray-200 bg-white shadow-sm"
+      data-testid="lint-panel"
+    >
+      <div
+        className="border-b border-gray-200 px-4 py-1 text-xs font-medium text-gray-700"
+        data-testid="lint-summary"
+      >
+        Problems: {errorCount} {errorCount === 1 ? 'error' : 'errors'},{' '}
+        {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+      </div>
+      <ul className="max-h-24 overflow-y-auto px-4 py-1 text-xs">
+        {problems.map((problem, index) => (
+          <li key={index}>
+            <button
+              onClick={() => onJumpToLine(problem.line, problem.column)}
+              className="text-left hover:underline"
+              data-testid="lint-problem"
+            >
+              <span
+                className={
+                  problem.severity === 'error'
+                    ? 'text-red-500'
+                    : 'text-yellow-600'
+                }
+              >
+                Line {problem.line}:
+              </span>{' '}
+              <span className="text-gray-700">{problem.message}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default LintPanel
@@ -3,6 +3,7 @@ import { describe, it, expect, beforeEach } from 'vitest'
 import Message from './Message'
 import { Message as MessageType } from '../types'
 import { vi } from 'vitest'
+import userEvent from '@testing-library/user-event'
 import DOMPurify from 'dompurify'
 
 vi.mock('DOMPurify', () => ({
@@ -118,7 +119,7 @@ describe('<Message />', () => {
       // Check the HTML structure to ensure newlines are preserved
       const messageContainer = screen
         .getByText(/This is line one/)
-        .closest('div')
+        .closest('.prose')
       expect(messageContainer).toHaveTextContent('This is line one.')
       expect(messageContainer).toHaveTextContent('This is line two.')
       expect(messageContainer).toHaveTextContent('This is after an empty line.')
@@ -180,6 +181,140 @@ describe('<Message />', () => {
   })
 
   // Test that HTML sanitization is properly applied
+  it("turns the tutor's code blocks into blocks that can be inserted and run", async () => {
+    // Arrange
+    const onInsertCode = vi.fn()
+    const assistantMessage: MessageType = {
+      role: 'assistant',
+      content: [
+        {
+          type: 'text',
+          text: 'Try this:\n\n```python\nfor i in range(3):\n    print(i)\n```\n\nThen run it.'
+        }
+      ]
+    }
+    render(
+      <Message
+        message={assistantMessage}
+        onInsertCode={onInsertCode}
+        onRunCode={vi.fn()}
+      />
+    )
+
+    // Act
+    await userEvent.click(await screen.findByText('Insert into editor'))
+
+    // Assert
+    expect(onInsertCode).toHaveBeenCalledWith(
+      'for i in range(3):\n    print(i)'
+    )
+    expect(screen.getByText('Run in scratchpad')).toBeInTheDocument()
+    expect(screen.getByText('Then run it.')).toBeInTheDocument()
+  })
+
+  it('lets the student copy their own code blocks, but not run them', async () => {
+    // Arrange & Act
+    render(
+      <Message
+        message={{
+          role: 'user',
+          content: [{ type: 'text', text: '```python\nprint(1)\n```' }]
+        }}
+        onInsertCode={vi.fn()}
+        onRunCode={vi.fn()}
+      />
+    )
+
+    // Assert
+    expect(await screen.findByText('Copy')).toBeInTheDocument()
+    expect(screen.queryByText('Run in scratchpad')).not.toBeInTheDocument()
+  })
+
+  it('marks a reply that is still arriving and holds back its code actions', async () => {
+    // Arrange & Act
+    render(
+      <Message
+        message={{
+          role: 'assistant',
+          content: [{ type: 'text', text: '```python\nprint(1)\n```' }]
+        }}
+        onInsertCode={vi.fn()}
+        onRunCode={vi.fn()}
+        isStreaming
+      />
+    )
+
+    // Assert
+    expect(await screen.findByText('Copy')).toBeInTheDocument()
+    expect(screen.getByTestId('streaming-indicator')).toBeInTheDocument()
+    expect(screen.queryByText('Insert into editor')).not.toBeInTheDocument()
+    expect(screen.queryByText('Run in scratchpad')).not.toBeInTheDocument()
+  })
+
+  it('marks a message that failed and offers to retry or discard it', async () => {
+    // Arrange
+    const onRetry = vi.fn()
+    const onDiscard = vi.fn()
+    render(
+      <Message
+        message={{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }}
+        status="failed"
+        failure="The tutor stopped responding."
+        onRetry={onRetry}
+        onDiscard={onDiscard}
+      />
+    )
+
+    // Act
+    await userEvent.click(screen.getByText('Retry'))
+    await userEvent.click(screen.getByText('Discard'))
+
+    // Assert
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'The tutor stopped responding.'
+    )
+    expect(onRetry).toHaveBeenCalledOnce()
+    expect(onDiscard).toHaveBeenCalledOnce()
+    expect(screen.queryByTestId('message-pending')).not.toBeInTheDocument()
+  })
+
+  it('shows the code the student sent, ready to restore', async () => {
+    // Arrange
+    const onRestoreProject = vi.fn()
+    const userMessage: MessageType = {
+      role: 'user',
+      content: [{ type: 'text', text: 'Why does this fail?' }],
+      editor_code: 'print(x)',
+      stderr: "NameError: name 'x' is not defined"
+    }
+    render(
+      <Message message={userMessage} onRestoreProject={onRestoreProject} />
+    )
+
+    // Act
+    await userEvent.click(screen.getByText('Code sent with this message'))
+    await userEvent.click(screen.getByText('Restore to editor'))
+
+    // Assert
+    expect(screen.getByTestId('snapshot-code').textContent).toBe('print(x)')
+    expect(onRestoreProject).toHaveBeenCalledWith({
+      files: [{ name: 'main.py', content: 'print(x)' }],
+      entryPoint: 'main.py'
+    })
+  })
+
+  it('shows no snapshot for messages without code or output', () => {
+    // Arrange & Act
+    render(
+      <Message
+        message={{ role: 'assistant', content: [{ type: 'text', text: 'Hi' }] }}
+      />
+    )
+
+    // Assert
+    expect(screen.queryByTestId('code-snapshot')).not.toBeInTheDocument()
+  })
+
   it('sanitizes HTML content', async () => {
     /**
      * Note: I actually wanted a kind of 'integration test' here, to actually rev DOMPurify's engine
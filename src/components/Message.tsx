@@ -1,21 +1,90 @@
 // src/components/Message.tsx
 
-import { Message as MessageType } from '../types'
+import { Message as MessageType, Project } from '../types'
 import { classNames } from 'utils'
-import { marked } from 'marked'
+import { marked, type Token } from 'marked'
 import DOMPurify from 'dompurify'
 import { useState, useEffect } from 'react'
+import CodeBlock from './CodeBlock'
+import CodeSnapshot from './CodeSnapshot'
+import { projectOf } from '../hooks/useProject'
+import type { ExecutionResult } from '../services/pyodide'
 
 type MessageProps = {
   message: MessageType
+  // The project in the editor now, to compare the code sent with a message with
+  currentProject?: Project | null
+  // Puts the code sent with a message back in the editor
+  onRestoreProject?: (project: Project) => void
+  // Puts a code block from the tutor in the editor at the cursor
+  onInsertCode?: (code: string) => void
+  // Runs a code block from the tutor on its own, leaving the student's code alone
+  onRunCode?: (code: string) => Promise<ExecutionResult>
+  // Set while the reply is still arriving; its code blocks can't be used until it has
+  isStreaming?: boolean
+  // Where a message the student sent has got to; messages in the conversation are sent
+  status?: 'sent' | 'pending' | 'failed'
+  // Why a failed message couldn't be sent
+  failure?: string | null
+  // Send a failed message again, or drop it
+  onRetry?: () => void
+  onDiscard?: () => void
 }
 
-function Message({ message }: MessageProps) {
-  // State to hold the sanitized HTML
-  const [sanitizedHtml, setSanitizedHtml] = useState<string>('')
+// A message's text is split into markdown, turned into sanitized HTML, and the
+// fenced code blocks between it, which are drawn as CodeBlocks
+type MessagePart =
+  | { kind: 'html'; html: string }
+  | { kind: 'code'; code: string; language: string }
+
+function splitMessage(text: string): MessagePart[] {
+  const parts: MessagePart[] = []
+  let markdown: Token[] = []
+  const addMarkdown = () => {
+    if (markdown.length > 0) {
+      // Sanitize HTML to prevent XSS
+      const html = DOMPurify.sanitize(marked.parser(markdown))
+      parts.push({ kind: 'html', html })
+      markdown = []
+    }
+  }
+  for (const token of marked.lexer(text)) {
+    if (token.type === 'code' && token.codeBlockStyle !== 'indented') {
+      addMarkdown()
+      // The language is the first word after the fence, e.g. python in ```python
+      const language = (token.lang ?? '').split(/\s/)[0]
+      parts.push({ kind: 'code', code: token.text, language })
+    } else {
+      markdown.push(token)
+    }
+  }
+  addMarkdown()
+  return parts
+}
+
+function Message({
+  message,
+  currentProject,
+  onRestoreProject,
+  onInsertCode,
+  onRunCode,
+  isStreaming = false,
+  status = 'sent',
+  failure = null,
+  onRetry,
+  onDiscard
+}: MessageProps) {
+  // State to hold the message's text, split into HTML and code blocks
+  const [parts, setParts] = useState<MessagePart[]>([])
 
   // Determine if the message is from the user or the assistant
   const isUser = message.role === 'user'
+  // Only the tutor's finished examples can be put in the editor or run
+  const canUseCode = !isUser && !isStreaming
+
+  // The code and output the student sent along with the message
+  const snapshot = isUser ? projectOf(message) : null
+  const hasSnapshot = Boolean(snapshot || message.stdout || message.stderr)
 
   // Combine all text content parts
   const messageText = message.content
@@ -25,15 +94,7 @@ function Message({ message }: MessageProps) {
 
   // Process markdown and sanitize HTML when the message changes
   useEffect(() => {
-    const processContent = async () => {
-      // Convert markdown to HTML
-      const rawHtml = await marked.parse(messageText)
-      // Sanitize HTML to prevent XSS
-      const cleanHtml = DOMPurify.sanitize(rawHtml)
-      setSanitizedHtml(cleanHtml)
-    }
-
-    processContent()
+    setParts(splitMessage(messageText))
   }, [messageText])
 
   // Check if the message contains code
@@ -45,8 +106,11 @@ function Message({ message }: MessageProps) {
           // Use flex positioning instead of margin for alignment
           isUser
             ? 'ml-auto mr-0 bg-blue-100 text-blue-800'
-            : 'ml-0 mr-auto bg-gray-100 text-gray-800'
+            : 'ml-0 mr-auto bg-gray-100 text-gray-800',
+          status === 'pending' && 'opacity-70',
+          status === 'failed' && 'border border-red-400'
         )}
+        data-status={status}
       >
         <div className="mb-1 text-sm font-medium">
           {isUser ? 'You' : 'Playdo'}
@@ -55,8 +119,74 @@ function Message({ message }: MessageProps) {
           className="prose prose-slate max-w-none"
           style={{ fontFamily: 'Georgia, serif' }}
         >
-          <div dangerouslySetInnerHTML={{ __html: sanitizedHtml }} />
+          {parts.map((part, index) =>
+            part.kind === 'html' ? (
+              <div
+                key={index}
+                dangerouslySetInnerHTML={{ __html: part.html }}
+              />
+            ) : (
+              <CodeBlock
+                key={index}
+                code={part.code}
+                language={part.language}
+                onInsert={canUseCode ? onInsertCode : undefined}
+                onRun={canUseCode ? onRunCode : undefined}
+              />
+            )
+          )}
+          {isStreaming && (
+            <span
+              className="inline-block h-4 w-2 animate-pulse bg-gray-500 align-middle"
+              aria-label="Playdo is still writing"
+              data-testid="streaming-indicator"
+            />
+          )}
         </div>
+        {isUser && hasSnapshot && (
+          <CodeSnapshot
+            project={snapshot}
+            stdout={message.stdout}
+            stderr={message.stderr}
+            currentProject={currentProject}
+            onRestore={onRestoreProject}
+          />
+        )}
+        {status === 'pending' && (
+          <div
+            className="mt-2 text-xs text-blue-600"
+            data-testid="message-pending"
+          >
+            Sending...
+          </div>
+        )}
+        {status === 'failed' && (
+          <div
+            className="mt-2 flex items-center gap-2 text-xs text-red-600"
+            role="alert"
+            data-testid="message-failed"
+          >
+            <span>{failure ?? 'Failed to send message.'}</span>
+            {onRetry && (
+              <button
+                type="button"
+                onClick={onRetry}
+                className="rounded bg-blue-500 px-2 py-0.5 text-white hover:bg-blue-600"
+              >
+                Retry
+              </button>
+            )}
+            {onDiscard && (
+              <button
+                type="button"
+                onClick={onDiscard}
+                className="rounded border border-gray-300 px-2 py-0.5 text-gray-700 hover:bg-gray-100"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,120 @@
+import { render, screen, waitFor } from '@testing-library/react'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import userEvent from '@testing-library/user-event'
+import MessageSearchResults from './MessageSearchResults'
+import { searchMessages } from '../services/api'
+import type { MessageSearchHit } from '../types'
+
+vi.mock('../services/api', () => ({
+  searchMessages: vi.fn()
+}))
+
+const mockSearchMessages = searchMessages as unknown as ReturnType<typeof vi.fn>
+
+const textHit: MessageSearchHit = {
+  conversation_id: 3,
+  conversation_title: 'Dictionaries',
+  message_index: 1,
+  role: 'assistant',
+  field: 'text',
+  snippet: 'A dictionary maps keys to values.'
+}
+
+const codeHit: MessageSearchHit = {
+  conversation_id: 7,
+  conversation_title: null,
+  message_index: 4,
+  role: 'user',
+  field: 'code',
+  snippet: 'ages = {"ann": 12}\nprint(ages.keys())'
+}
+
+describe('<MessageSearchResults />', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('lists the matching messages with the words searched for marked', async () => {
+    // Arrange
+    mockSearchMessages.mockResolvedValueOnce([textHit, codeHit])
+
+    // Act
+    render(<MessageSearchResults query="keys" onOpen={vi.fn()} />)
+
+    // Assert
+    const hits = await screen.findAllByTestId('message-search-hit')
+    expect(mockSearchMessages).toHaveBeenCalledWith('keys')
+    expect(hits).toHaveLength(2)
+    expect(hits[0]).toHaveTextContent('Dictionaries')
+    expect(hits[0]).toHaveTextContent('Playdo')
+    expect(hits[1]).toHaveTextContent('Conversation #7')
+    expect(hits[1]).toHaveTextContent('You · in the code sent')
+    const marks = screen.getAllByText('keys', { selector: 'mark' })
+    expect(marks).toHaveLength(2)
+  })
+
+  it('opens the message that is clicked', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onOpen = vi.fn()
+    mockSearchMessages.mockResolvedValueOnce([textHit, codeHit])
+    render(<MessageSearchResults query="keys" onOpen={onOpen} />)
+
+    // Act
+    await user.click((await screen.findAllByTestId('message-search-hit'))[1])
+
+    // Assert
+    expect(onOpen).toHaveBeenCalledWith(codeHit)
+  })
+
+  it('says when no message matches', async () => {
+    // Arrange
+    mockSearchMessages.mockResolvedValueOnce([])
+
+    // Act
+    render(<MessageSearchResults query="recursion" onOpen={vi.fn()} />)
+
+    // Assert
+    expect(
+      await screen.findByText('No messages match your search.')
+    ).toBeInTheDocument()
+  })
+
+  it('drops the results of a search typed over since', async () => {
+    // Arrange
+    let resolveFirst: (hits: MessageSearchHit[]) => void = () => {}
+    mockSearchMessages
+      .mockReturnValueOnce(
+        new Promise<MessageSearchHit[]>((resolve) => (resolveFirst = resolve))
+      )
+      .mockResolvedValueOnce([codeHit])
+    const { rerender } = render(
+      <MessageSearchResults query="dict" onOpen={vi.fn()} />
+    )
+
+    // Act
+    rerender(<MessageSearchResults query="keys" onOpen={vi.fn()} />)
+    await screen.findByTestId('message-search-hit')
+    resolveFirst([textHit])
+
+    // Assert
+    await waitFor(() => {
+      expect(screen.getAllByTestId('message-search-hit')).toHaveLength(1)
+    })
+    expect(screen.queryByText('Dictionaries')).not.toBeInTheDocument()
+  })
+
+  it('shows an error when the search fails', async () => {
+    // Arrange
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockSearchMessages.mockRejectedValueOnce(new Error('API error: 500'))
+
+    // Act
+    render(<MessageSearchResults query="keys" onOpen={vi.fn()} />)
+
+    // Assert
+    expect(
+      await screen.findByText('Failed to search messages, please try again.')
+    ).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react'
+import { searchMessages } from '../services/api'
+import type { MessageSearchHit } from '../types'
+import { classNames } from 'utils'
+import { conversationName } from './conversationTitle'
+import { highlightParts } from './searchHighlight'
+
+export interface MessageSearchResultsProps {
+  // What to search for; searched again whenever it changes
+  query: string
+  // Opens the conversation the message is in, at the message
+  onOpen: (hit: MessageSearchHit) => void
+}
+
+/**
+ * The messages in all of the student's conversations that match a search, each
+ * with the words searched for marked in the text around them. A match in the code
+ * sent with a message is shown in monospace.
+ */
+function MessageSearchResults({ query, onOpen }: MessageSearchResultsProps) {
+  const [hits, setHits] = useState<MessageSearchHit[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Results for a query typed over since are dropped
+    let current = true
+    setHits([])
+
+    async function search() {
+      try {
+        setLoading(true)
+        setError(null)
+        const results = await searchMessages(query)
+        if (current) {
+          setHits(results)
+        }
+      } catch (e) {
+        if (current) {
+          setError('Failed to search messages, please try again.')
+        }
+        console.error(e)
+      } finally {
+        if (current) {
+          setLoading(false)
+        }
+      }
+    }
+
+    search()
+    return () => {
+      current = false
+    }
+  }, [query])
+
+  return (
+    <section aria-label="Matching messages" data-testid="message-search">
+      <h2 className="px-3 pt-2 text-xs font-medium uppercase text-gray-500">
+        Messages
+      </h2>
+      {error && <p className="px-3 py-1 text-xs text-red-600">{error}</p>}
+      {loading && (
+        <p className="p-3 text-center text-xs text-gray-500">Searching...</p>
+      )}
+      {!loading && !error && hits.length === 0 && (
+        <p className="p-3 text-center text-xs text-gray-500">
+          No messages match your search.
+        </p>
+      )}
+      <ul>
+        {hits.map((hit) => (
+          <li
+            key={`${hit.conversation_id}:${hit.message_index}:${hit.field}`}
+            className="border-b border-gray-100"
+          >
+            <button
+              type="button"
+              onClick={() => onOpen(hit)}
+              className="w-full px-3 py-2 text-left hover:bg-gray-50"
+              data-testid="message-search-hit"
+            >
+              <div className="truncate text-xs font-medium text-gray-800">
+                {conversationName({
+                  id: hit.conversation_id,
+                  title: hit.conversation_title
+                })}
+              </div>
+              <div className="text-xs text-gray-400">
+                {hit.role === 'user' ? 'You' : 'Playdo'}
+                {hit.field === 'code' && ' · in the code sent'}
+              </div>
+              <p
+                className={classNames(
+                  'line-clamp-3 text-xs text-gray-600',
+                  hit.field === 'code' && 'whitespace-pre-wrap font-mono'
+                )}
+              >
+                {highlightParts(hit.snippet, query).map((part, index) =>
+                  part.match ? (
+                    <mark key={index} className="rounded-sm bg-yellow-200">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    part.text
+                  )
+                )}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+export default MessageSearchResults
@@ -1,11 +1,13 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
 import OutputDisplay from './OutputDisplay'
+import type { OutputChunk } from '../services/pyodide'
 
 describe('<OutputDisplay />', () => {
   it('should display a placeholder when no output is provided', () => {
     // Arrange & Act
-    render(<OutputDisplay stdout="" stderr="" />)
+    render(<OutputDisplay output={[]} />)
 
     // Assert
     expect(
@@ -15,7 +17,7 @@ describe('<OutputDisplay />', () => {
 
   it('should display loading state when isLoading is true', () => {
     // Arrange & Act
-    render(<OutputDisplay stdout="" stderr="" isCodeRunning={true} />)
+    render(<OutputDisplay output={[]} isCodeRunning={true} />)
 
     // Assert
     expect(screen.getByText('Running...')).toBeInTheDocument()
@@ -27,42 +29,339 @@ describe('<OutputDisplay />', () => {
     const stdout = 'Hello, World!'
 
     // Act
-    render(<OutputDisplay stdout={stdout} stderr="" />)
+    render(<OutputDisplay output={[{ stream: 'stdout', text: stdout }]} />)
 
     // Assert
-    expect(screen.getByTestId('stdout')).toHaveTextContent(stdout)
+    expect(screen.getByTestId('stdout-chunk')).toHaveTextContent(stdout)
+    expect(screen.getByTestId('stdout-chunk')).not.toHaveClass('text-red-500')
   })
 
-  it('should display stderr output', () => {
+  it('should display stderr output in red', () => {
     // Arrange
     const stderr = 'Warning: something went wrong'
 
     // Act
-    render(<OutputDisplay stdout="" stderr={stderr} />)
+    render(<OutputDisplay output={[{ stream: 'stderr', text: stderr }]} />)
 
     // Assert
-    expect(screen.getByTestId('error-output')).toHaveTextContent(stderr)
+    expect(screen.getByTestId('stderr-chunk')).toHaveTextContent(stderr)
+    expect(screen.getByTestId('stderr-chunk')).toHaveClass('text-red-500')
   })
 
-  it('should display both stdout and error output when both are present', () => {
+  it('should display stdout and stderr interleaved in the order they were written', () => {
     // Arrange
-    const stdout = 'Partial output'
-    const stderr = 'Process terminated unexpectedly'
+    const output: OutputChunk[] = [
+      { stream: 'stdout', text: 'first' },
+      { stream: 'stderr', text: 'warning' },
+      { stream: 'stdout', text: 'second' }
+    ]
 
     // Act
-    render(<OutputDisplay stdout={stdout} stderr={stderr} />)
+    render(<OutputDisplay output={output} />)
 
     // Assert
-    expect(screen.getByTestId('stdout')).toHaveTextContent(stdout)
-    expect(screen.getByTestId('error-output')).toHaveTextContent(`${stderr}`)
+    const block = screen.getByTestId('output')
+    expect(block.children).toHaveLength(3)
+    expect(block.textContent).toBe('first\nwarning\nsecond')
+    expect(block.children[1]).toHaveAttribute('data-testid', 'stderr-chunk')
   })
 
-  it('should handle an empty output object', () => {
+  it('should show figures and other displays between the text around them', () => {
+    // Arrange
+    const output: OutputChunk[] = [
+      { stream: 'stdout', text: 'before' },
+      { stream: 'display', mimeType: 'image/png', data: 'iVBOR' },
+      { stream: 'display', mimeType: 'text/plain', data: '42' },
+      { stream: 'stdout', text: 'after' }
+    ]
+
+    // Act
+    render(<OutputDisplay output={output} />)
+
+    // Assert
+    const blocks = screen.getAllByTestId('output')
+    expect(blocks.map((block) => block.textContent)).toEqual([
+      'before',
+      'after'
+    ])
+    const image = screen.getByTestId('display-image')
+    expect(image).toHaveAttribute('src', 'data:image/png;base64,iVBOR')
+    expect(blocks[0].nextElementSibling).toBe(image)
+    expect(screen.getByTestId('display-text')).toHaveTextContent('42')
+  })
+
+  it('should show SVG as an image', () => {
+    // Arrange & Act
+    render(
+      <OutputDisplay
+        output={[
+          { stream: 'display', mimeType: 'image/svg+xml', data: '<svg/>' }
+        ]}
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('display-image')).toHaveAttribute(
+      'src',
+      'data:image/svg+xml;charset=utf-8,%3Csvg%2F%3E'
+    )
+  })
+
+  it('should sanitize displayed HTML', () => {
+    // Arrange & Act
+    render(
+      <OutputDisplay
+        output={[
+          {
+            stream: 'display',
+            mimeType: 'text/html',
+            data: '<table><tr><td>1</td></tr></table><img src="x" onerror="alert(1)">'
+          }
+        ]}
+      />
+    )
+
+    // Assert
+    const html = screen.getByTestId('display-html')
+    expect(html.querySelector('td')).toHaveTextContent('1')
+    expect(html.querySelector('img')).not.toHaveAttribute('onerror')
+  })
+
+  it('should keep showing output while the code is still running', () => {
+    // Arrange & Act
+    render(
+      <OutputDisplay
+        output={[{ stream: 'stdout', text: 'partial' }]}
+        isCodeRunning={true}
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('stdout-chunk')).toHaveTextContent('partial')
+    expect(screen.queryByText('Running code...')).not.toBeInTheDocument()
+    expect(screen.getByText('Running...')).toBeInTheDocument()
+  })
+
+  it('should handle an empty output list', () => {
+    // Arrange & Act
+    render(<OutputDisplay output={[]} />)
+
+    // Assert
+    expect(screen.queryByTestId('output')).not.toBeInTheDocument()
+  })
+
+  it('should not show an input field when the code is not waiting for input', () => {
+    // Arrange & Act
+    render(
+      <OutputDisplay
+        output={[{ stream: 'stdout', text: 'Hello' }]}
+        isCodeRunning={true}
+      />
+    )
+
+    // Assert
+    expect(screen.queryByTestId('stdin-input')).not.toBeInTheDocument()
+  })
+
+  it('should show the prompt and a focused input field when the code asks for input', () => {
+    // Arrange & Act
+    render(
+      <OutputDisplay
+        output={[{ stream: 'stdout', text: 'Welcome' }]}
+        isCodeRunning={true}
+        inputPrompt="Name? "
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('stdout-chunk')).toHaveTextContent('Welcome')
+    expect(screen.getByTestId('stdin-form')).toHaveTextContent('Name?')
+    expect(screen.getByTestId('stdin-input')).toHaveFocus()
+    expect(screen.queryByText('Running code...')).not.toBeInTheDocument()
+  })
+
+  it('should show an input field for input() with an empty prompt', () => {
+    // Arrange & Act
+    render(<OutputDisplay output={[]} isCodeRunning={true} inputPrompt="" />)
+
+    // Assert
+    expect(screen.getByTestId('stdin-input')).toBeInTheDocument()
+  })
+
+  it('should submit the typed line when Enter is pressed', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onSubmitInput = vi.fn()
+    render(
+      <OutputDisplay
+        output={[]}
+        isCodeRunning={true}
+        inputPrompt="Name? "
+        onSubmitInput={onSubmitInput}
+      />
+    )
+
+    // Act
+    await user.type(screen.getByTestId('stdin-input'), 'Ada{Enter}')
+
+    // Assert
+    expect(onSubmitInput).toHaveBeenCalledWith('Ada')
+  })
+
+  it('should explain when Python could not be loaded', () => {
+    // Arrange & Act
+    render(
+      <OutputDisplay
+        output={[]}
+        loadError="Python could not be loaded from any location"
+      />
+    )
+
+    // Assert
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Python could not be loaded from any location'
+    )
+    expect(
+      screen.queryByText('Run your code to see output here')
+    ).not.toBeInTheDocument()
+  })
+
+  it('should show install progress while packages are being installed', () => {
+    // Arrange & Act
+    render(
+      <OutputDisplay
+        output={[]}
+        isCodeRunning={true}
+        installMessage="Loading numpy"
+      />
+    )
+
+    // Assert
+    expect(screen.getByTestId('install-progress')).toHaveTextContent(
+      'Loading numpy'
+    )
+    expect(screen.queryByText('Running code...')).not.toBeInTheDocument()
+  })
+
+  it('should list where an error happened and jump to a line when clicked', async () => {
+    // Arrange
+    const onJumpToLine = vi.fn()
+    const user = userEvent.setup()
+    render(
+      <OutputDisplay
+        output={[{ stream: 'stderr', text: 'ZeroDivisionError' }]}
+        error={{
+          type: 'ZeroDivisionError',
+          message: 'division by zero',
+          file: null,
+          line: 2,
+          column: 12,
+          frames: [
+            { file: null, line: 4, name: '<module>' },
+            { file: null, line: 2, name: 'divide' }
+          ]
+        }}
+        onJumpToLine={onJumpToLine}
+      />
+    )
+    const frames = screen.getAllByTestId('traceback-frame')
+
+    // Act
+    await user.click(frames[0])
+    await user.click(frames[1])
+
+    // Assert
+    expect(frames.map((frame) => frame.textContent)).toEqual([
+      'Line 4',
+      'Line 2, in divide()'
+    ])
+    expect(onJumpToLine).toHaveBeenNthCalledWith(1, 4, null, null)
+    expect(onJumpToLine).toHaveBeenNthCalledWith(2, 2, 12, null)
+  })
+
+  it('should name the project file of each frame', async () => {
+    // Arrange
+    const onJumpToLine = vi.fn()
+    const user = userEvent.setup()
+    render(
+      <OutputDisplay
+        output={[]}
+        error={{
+          type: 'NameError',
+          message: "name 'nme' is not defined",
+          file: 'helpers.py',
+          line: 2,
+          column: null,
+          frames: [
+            { file: 'main.py', line: 3, name: '<module>' },
+            { file: 'helpers.py', line: 2, name: 'greet' }
+          ]
+        }}
+        onJumpToLine={onJumpToLine}
+      />
+    )
+    const frames = screen.getAllByTestId('traceback-frame')
+
+    // Act
+    await user.click(frames[1])
+
+    // Assert
+    expect(frames.map((frame) => frame.textContent)).toEqual([
+      'main.py, line 3',
+      'helpers.py, line 2, in greet()'
+    ])
+    expect(onJumpToLine).toHaveBeenCalledWith(2, null, 'helpers.py')
+  })
+
+  it('should explain the error above the output once the run has stopped', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onAskAboutError = vi.fn()
+    const error = {
+      type: 'ZeroDivisionError',
+      message: 'division by zero',
+      file: null,
+      line: 1,
+      column: null,
+      frames: []
+    }
+
+    // Act
+    render(
+      <OutputDisplay
+        output={[
+          { stream: 'stderr', text: 'ZeroDivisionError: division by zero' }
+        ]}
+        error={error}
+        onAskAboutError={onAskAboutError}
+      />
+    )
+    await user.click(screen.getByTestId('ask-about-error'))
+
+    // Assert
+    const card = screen.getByTestId('error-explanation')
+    expect(card).toHaveTextContent('Dividing by zero')
+    expect(card.nextElementSibling).toBe(screen.getByTestId('output'))
+    expect(onAskAboutError).toHaveBeenCalledWith(error)
+  })
+
+  it('should not list frames for an error outside the student code', () => {
     // Arrange & Act
-    render(<OutputDisplay stdout="" stderr="" />)
+    render(
+      <OutputDisplay
+        output={[]}
+        error={{
+          type: 'ModuleNotFoundError',
+          message: "No module named 'requests'",
+          file: null,
+          line: null,
+          column: null,
+          frames: []
+        }}
+      />
+    )
 
     // Assert
-    expect(screen.queryByTestId('stdout')).not.toBeInTheDocument()
-    expect(screen.queryByTestId('error-output')).not.toBeInTheDocument()
+    expect(screen.queryByTestId('traceback-frames')).not.toBeInTheDocument()
   })
 })
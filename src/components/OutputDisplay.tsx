@@ -1,28 +1,96 @@
-import { useEffect, useRef } from 'react'
+import { useEffect, useRef, useState, FormEvent } from 'react'
+import type {
+  DisplayChunk,
+  OutputChunk,
+  PythonError,
+  TextChunk
+} from '../services/pyodide'
+import { classNames } from 'utils'
+import DisplayOutput from './DisplayOutput'
+import ErrorExplanationCard from './ErrorExplanationCard'
 
 export interface OutputDisplayProps {
-  stdout: string
-  stderr: string
+  // stdout and stderr interleaved in the order they were written
+  output: OutputChunk[]
   isCodeRunning?: boolean
   isPyodideInitializing?: boolean
+  // Prompt of the input() call the code is waiting on, null when not waiting
+  inputPrompt?: string | null
+  onSubmitInput?: (line: string) => void
+  // Progress of packages being installed for the running code
+  installMessage?: string | null
+  // Why Python could not be loaded, null when it loaded (or is still loading)
+  loadError?: string | null
+  // Exception that stopped the last run; its frames link back to the editor
+  error?: PythonError | null
+  // file is the project file the line is in, null when the code wasn't run from a project
+  onJumpToLine?: (
+    line: number,
+    column: number | null,
+    file: string | null
+  ) => void
+  // Asks the tutor about the error, from the button under its explanation
+  onAskAboutError?: (error: PythonError) => void
+}
+
+// Runs of text chunks are shown together in one block; displays sit between them
+type OutputBlock = TextChunk[] | DisplayChunk
+
+function groupOutput(output: OutputChunk[]): OutputBlock[] {
+  const blocks: OutputBlock[] = []
+  for (const chunk of output) {
+    const last = blocks[blocks.length - 1]
+    if (chunk.stream === 'display') {
+      blocks.push(chunk)
+    } else if (Array.isArray(last)) {
+      last.push(chunk)
+    } else {
+      blocks.push([chunk])
+    }
+  }
+  return blocks
 }
 
 function OutputDisplay({
-  stdout,
-  stderr,
+  output,
   isCodeRunning = false,
-  isPyodideInitializing = false
+  isPyodideInitializing = false,
+  inputPrompt = null,
+  onSubmitInput,
+  installMessage = null,
+  loadError = null,
+  error = null,
+  onJumpToLine,
+  onAskAboutError
 }: OutputDisplayProps) {
   const outputRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [inputValue, setInputValue] = useState('')
+  const isAwaitingInput = inputPrompt !== null
 
   // Auto-scroll to bottom when output changes
   useEffect(() => {
     if (outputRef.current) {
       outputRef.current.scrollTop = outputRef.current.scrollHeight
     }
-  }, [stdout, stderr])
+  }, [output, isAwaitingInput])
+
+  // Put the cursor in the input field as soon as the code asks for input
+  useEffect(() => {
+    if (isAwaitingInput) {
+      setInputValue('')
+      inputRef.current?.focus()
+    }
+  }, [isAwaitingInput])
+
+  const handleSubmitInput = (e: FormEvent) => {
+    e.preventDefault()
+    if (onSubmitInput) {
+      onSubmitInput(inputValue)
+    }
+  }
 
-  const hasOutput = stdout || stderr
+  const hasOutput = output.length > 0 || isAwaitingInput
 
   return (
     <div className="flex size-full flex-col rounded-lg border border-gray-200 bg-white shadow-sm">
@@ -42,7 +110,31 @@ function OutputDisplay({
         className="size-full overflow-auto p-4 font-mono text-sm"
         data-testid="output-display"
       >
-        {isCodeRunning && !hasOutput && (
+        {loadError && (
+          <div
+            className="mb-2 rounded border border-red-300 bg-red-50 p-3 font-sans text-red-700"
+            role="alert"
+            data-testid="load-error"
+          >
+            <div className="font-medium">Python could not be loaded</div>
+            <div className="mt-1 text-xs">{loadError}</div>
+            <div className="mt-1 text-xs">
+              Check your network connection and reload the page.
+            </div>
+          </div>
+        )}
+
+        {installMessage && (
+          <div
+            className="mb-2 flex items-center text-gray-500"
+            data-testid="install-progress"
+          >
+            <div className="mr-2 size-2 animate-pulse rounded-full bg-blue-500"></div>
+            {installMessage}
+          </div>
+        )}
+
+        {isCodeRunning && !hasOutput && !installMessage && (
           <div className="flex h-full items-center justify-center">
             <div className="text-gray-400">Running code...</div>
           </div>
@@ -54,7 +146,7 @@ function OutputDisplay({
           </div>
         )}
 
-        {!isCodeRunning && !hasOutput && (
+        {!isCodeRunning && !hasOutput && !loadError && (
           <div className="flex h-full items-center justify-center">
             <div className="text-gray-400">
               Run your code to see output here
@@ -62,24 +154,95 @@ function OutputDisplay({
           </div>
         )}
 
-        {/* Standard output */}
-        {stdout && (
-          <pre
-            className="mb-2 whitespace-pre-wrap break-words text-gray-800"
-            data-testid="stdout"
+        {/* What the error means, before the traceback that reports it */}
+        {error && !isCodeRunning && (
+          <ErrorExplanationCard error={error} onAsk={onAskAboutError} />
+        )}
+
+        {/* stdout, stderr (including exceptions) and displays, in the order they were produced */}
+        {groupOutput(output).map((block, blockIndex) =>
+          Array.isArray(block) ? (
+            <pre
+              key={blockIndex}
+              className="mb-2 whitespace-pre-wrap break-words"
+              data-testid="output"
+            >
+              {block.map((chunk, index) => (
+                <span
+                  key={index}
+                  className={
+                    chunk.stream === 'stderr' ? 'text-red-500' : 'text-gray-800'
+                  }
+                  data-testid={`${chunk.stream}-chunk`}
+                >
+                  {index < block.length - 1 ? chunk.text + '\n' : chunk.text}
+                </span>
+              ))}
+            </pre>
+          ) : (
+            <DisplayOutput key={blockIndex} chunk={block} />
+          )
+        )}
+
+        {/* Where the exception happened, innermost call last as in the traceback */}
+        {error && error.frames.length > 0 && (
+          <div
+            className="mb-2 font-sans text-xs"
+            data-testid="traceback-frames"
           >
-            {stdout}
-          </pre>
+            <div className="text-gray-500">Where it happened:</div>
+            <ol>
+              {error.frames.map((frame, index) => {
+                const isInnermost = index === error.frames.length - 1
+                return (
+                  <li key={index}>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onJumpToLine?.(
+                          frame.line,
+                          isInnermost ? error.column : null,
+                          frame.file
+                        )
+                      }
+                      className={classNames(
+                        'font-mono hover:underline',
+                        isInnermost ? 'text-red-500' : 'text-blue-600'
+                      )}
+                      data-testid="traceback-frame"
+                    >
+                      {frame.file
+                        ? `${frame.file}, line ${frame.line}`
+                        : `Line ${frame.line}`}
+                      {frame.name && frame.name !== '<module>'
+                        ? `, in ${frame.name}()`
+                        : ''}
+                    </button>
+                  </li>
+                )
+              })}
+            </ol>
+          </div>
         )}
 
-        {/* Error output (stderr and exceptions) */}
-        {stderr && (
-          <pre
-            className="whitespace-pre-wrap break-words text-red-500"
-            data-testid="error-output"
+        {/* Inline field for input(), shown while the code is waiting */}
+        {isAwaitingInput && (
+          <form
+            onSubmit={handleSubmitInput}
+            className="mb-2 flex items-center text-gray-800"
+            data-testid="stdin-form"
           >
-            {stderr && <span>{stderr}</span>}
-          </pre>
+            <span className="whitespace-pre">{inputPrompt}</span>
+            <input
+              ref={inputRef}
+              type="text"
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              className="flex-1 border-b border-green-500 bg-transparent font-mono focus:outline-none"
+              aria-label="Program input"
+              data-testid="stdin-input"
+            />
+          </form>
         )}
       </div>
     </div>
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import ReplConsole from './ReplConsole'
+import type { ExecutionResult } from '../services/pyodide'
+
+const echo = (result: string | null, stdout = ''): ExecutionResult => ({
+  stdout,
+  stderr: '',
+  stdin: [],
+  output: stdout ? [{ stream: 'stdout', text: stdout }] : [],
+  turtle: [],
+  error: null,
+  result
+})
+
+describe('<ReplConsole />', () => {
+  it('should evaluate an entry and echo its value', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onEvaluate = vi.fn().mockResolvedValue(echo("'Ada'"))
+    render(<ReplConsole onEvaluate={onEvaluate} />)
+
+    // Act
+    await user.type(screen.getByTestId('console-input'), 'name{Enter}')
+
+    // Assert
+    expect(onEvaluate).toHaveBeenCalledWith('name')
+    expect(await screen.findByTestId('console-echo')).toHaveTextContent("'Ada'")
+    expect(screen.getByTestId('console-entry')).toHaveTextContent('>>> name')
+    expect(screen.getByTestId('console-input')).toHaveValue('')
+  })
+
+  it('should keep reading a block until a blank line ends it', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onEvaluate = vi.fn().mockResolvedValue(echo(null, '0\n1'))
+    render(<ReplConsole onEvaluate={onEvaluate} />)
+    const input = screen.getByTestId('console-input')
+
+    // Act
+    await user.type(input, 'for i in range(2):{Enter}')
+    await waitFor(() => expect(input).toHaveValue('for i in range(2):\n    '))
+    await user.type(input, 'print(i){Enter}')
+    expect(onEvaluate).not.toHaveBeenCalled()
+    await user.type(input, '{Enter}')
+
+    // Assert
+    expect(onEvaluate).toHaveBeenCalledWith('for i in range(2):\n    print(i)')
+    const entry = screen.getByTestId('console-entry')
+    await waitFor(() =>
+      expect(entry.textContent).toBe(
+        '>>> for i in range(2):\n...     print(i)0\n1'
+      )
+    )
+  })
+
+  it('should go back through earlier entries with the arrow keys', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onEvaluate = vi.fn().mockResolvedValue(echo('1'))
+    render(<ReplConsole onEvaluate={onEvaluate} />)
+    const input = screen.getByTestId('console-input')
+    await user.type(input, 'a{Enter}')
+    await screen.findByTestId('console-echo')
+    await user.type(screen.getByTestId('console-input'), 'b{Enter}')
+    await waitFor(() =>
+      expect(screen.getAllByTestId('console-echo')).toHaveLength(2)
+    )
+
+    // Act & Assert
+    await user.type(screen.getByTestId('console-input'), 'c{ArrowUp}')
+    expect(screen.getByTestId('console-input')).toHaveValue('b')
+    await user.keyboard('{ArrowUp}')
+    expect(screen.getByTestId('console-input')).toHaveValue('a')
+    await user.keyboard('{ArrowDown}{ArrowDown}')
+    expect(screen.getByTestId('console-input')).toHaveValue('c')
+  })
+
+  it('should say why an entry could not be run', async () => {
+    // Arrange
+    const user = userEvent.setup()
+    const onEvaluate = vi.fn().mockRejectedValue(new Error('Worker crashed'))
+    render(<ReplConsole onEvaluate={onEvaluate} />)
+
+    // Act
+    await user.type(screen.getByTestId('console-input'), 'x{Enter}')
+
+    // Assert
+    expect(await screen.findByText('Worker crashed')).toBeInTheDocument()
+  })
+
+  it('should not run entries while disabled', async () => {
+    // Arrange
+    const onEvaluate = vi.fn()
+    render(<ReplConsole onEvaluate={onEvaluate} disabled />)
+
+    // Assert
+    expect(screen.getByTestId('console-input')).toBeDisabled()
+  })
+})
@@ -0,0 +1,259 @@
+import { useEffect, useRef, useState, FormEvent, KeyboardEvent } from 'react'
+import type { ExecutionResult } from '../services/pyodide'
+import { classNames } from 'utils'
+import DisplayOutput from './DisplayOutput'
+import { needsMoreInput, nextIndent } from './consoleInput'
+
+export interface ReplConsoleProps {
+  // Runs an entry against the names the last run left behind; see usePythonExecution
+  onEvaluate: (code: string) => Promise<ExecutionResult>
+  // Set while entries can't be run, e.g. while Python loads or other code runs
+  disabled?: boolean
+  // Prompt of the input() call an entry is waiting on, null when not waiting
+  inputPrompt?: string | null
+  onSubmitInput?: (line: string) => void
+}
+
+interface ConsoleEntry {
+  code: string
+  // Null while the entry is still running, or if it couldn't be run at all
+  result: ExecutionResult | null
+  // Why the entry couldn't be run
+  failure: string | null
+}
+
+/**
+ * A Python console for poking at what the program left behind: each entry runs
+ * against the names the last run defined, and the repr() of its value is echoed
+ * below it. Enter runs the entry once it is complete, as in Python's own console,
+ * so blocks can be typed over several lines; Shift+Enter always adds a line. Up
+ * and down go through the entries typed before.
+ */
+function ReplConsole({
+  onEvaluate,
+  disabled = false,
+  inputPrompt = null,
+  onSubmitInput
+}: ReplConsoleProps) {
+  const [entries, setEntries] = useState<ConsoleEntry[]>([])
+  const [draft, setDraft] = useState('')
+  const [history, setHistory] = useState<string[]>([])
+  // Which earlier entry is shown in place of the draft, null for the draft itself
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null)
+  // The draft, kept while going through the history
+  const [savedDraft, setSavedDraft] = useState('')
+  const [inputValue, setInputValue] = useState('')
+  const logRef = useRef<HTMLDivElement>(null)
+  const draftRef = useRef<HTMLTextAreaElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const isEvaluating = entries.some(
+    (entry) => entry.result === null && entry.failure === null
+  )
+  const isAwaitingInput = isEvaluating && inputPrompt !== null
+
+  // Keep the latest entry in view
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight
+    }
+  }, [entries, isAwaitingInput])
+
+  // Back to the prompt once an entry has finished
+  const hasEntries = entries.length > 0
+  useEffect(() => {
+    if (hasEntries && !isEvaluating) {
+      draftRef.current?.focus()
+    }
+  }, [hasEntries, isEvaluating])
+
+  // Put the cursor in the input field as soon as an entry asks for input
+  useEffect(() => {
+    if (isAwaitingInput) {
+      setInputValue('')
+      inputRef.current?.focus()
+    }
+  }, [isAwaitingInput])
+
+  const run = async (code: string) => {
+    setDraft('')
+    setHistoryIndex(null)
+    setHistory((prev) => (prev.at(-1) === code ? prev : [...prev, code]))
+    setEntries((prev) => [...prev, { code, result: null, failure: null }])
+
+    const finish = (
+      result: ExecutionResult | null,
+      failure: string | null = null
+    ) =>
+      setEntries((prev) =>
+        prev.map((entry, index) =>
+          index === prev.length - 1 ? { ...entry, result, failure } : entry
+        )
+      )
+    try {
+      finish(await onEvaluate(code))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      finish(null, message)
+    }
+  }
+
+  // Replace the draft with an entry from the history, or the draft itself
+  const recall = (index: number | null) => {
+    if (historyIndex === null) {
+      setSavedDraft(draft)
+    }
+    setHistoryIndex(index)
+    setDraft(index === null ? savedDraft : history[index])
+  }
+
+  const insertLineBreak = (textarea: HTMLTextAreaElement) => {
+    const { selectionStart, selectionEnd } = textarea
+    const lineStart = draft.lastIndexOf('\n', selectionStart - 1) + 1
+    const text = '\n' + nextIndent(draft.slice(lineStart, selectionStart))
+    setDraft(draft.slice(0, selectionStart) + text + draft.slice(selectionEnd))
+    // Once React has put the new text in, move the cursor after the line break
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd =
+        selectionStart + text.length
+    })
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget
+    const { selectionStart, selectionEnd } = textarea
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (!e.shiftKey && !needsMoreInput(draft)) {
+        if (draft.trim() !== '' && !disabled && !isEvaluating) {
+          run(draft.trimEnd())
+        }
+        return
+      }
+      insertLineBreak(textarea)
+    } else if (e.key === 'ArrowUp' && history.length > 0) {
+      // Only from the first line, so the cursor can still move within a block
+      if (draft.lastIndexOf('\n', selectionStart - 1) !== -1) {
+        return
+      }
+      e.preventDefault()
+      recall(Math.max(0, (historyIndex ?? history.length) - 1))
+    } else if (e.key === 'ArrowDown' && historyIndex !== null) {
+      if (draft.indexOf('\n', selectionEnd) !== -1) {
+        return
+      }
+      e.preventDefault()
+      recall(historyIndex + 1 < history.length ? historyIndex + 1 : null)
+    }
+  }
+
+  const handleSubmitInput = (e: FormEvent) => {
+    e.preventDefault()
+    onSubmitInput?.(inputValue)
+  }
+
+  const draftLines = draft.split('\n')
+
+  return (
+    <div className="flex size-full flex-col rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-200 px-4 py-2">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium text-gray-700">Console</div>
+          <div className="text-xs text-gray-400">
+            Uses the variables from your last run
+          </div>
+        </div>
+      </div>
+      <div
+        ref={logRef}
+        className="size-full overflow-auto p-4 font-mono text-sm"
+        data-testid="console-log"
+        onClick={() => draftRef.current?.focus()}
+      >
+        {entries.map((entry, entryIndex) => (
+          <div key={entryIndex} className="mb-2" data-testid="console-entry">
+            <pre className="whitespace-pre-wrap break-words text-gray-800">
+              {entry.code
+                .split('\n')
+                .map((line, index) => `${index === 0 ? '>>>' : '...'} ${line}`)
+                .join('\n')}
+            </pre>
+            {entry.result?.output.map((chunk, index) =>
+              chunk.stream === 'display' ? (
+                <DisplayOutput key={index} chunk={chunk} />
+              ) : (
+                <pre
+                  key={index}
+                  className={classNames(
+                    'whitespace-pre-wrap break-words',
+                    chunk.stream === 'stderr' ? 'text-red-500' : 'text-gray-800'
+                  )}
+                >
+                  {chunk.text}
+                </pre>
+              )
+            )}
+            {typeof entry.result?.result === 'string' && (
+              <pre
+                className="whitespace-pre-wrap break-words text-blue-700"
+                data-testid="console-echo"
+              >
+                {entry.result.result}
+              </pre>
+            )}
+            {entry.failure && (
+              <pre className="whitespace-pre-wrap break-words text-red-500">
+                {entry.failure}
+              </pre>
+            )}
+          </div>
+        ))}
+
+        {/* Inline field for input(), shown while an entry is waiting */}
+        {isAwaitingInput && (
+          <form
+            onSubmit={handleSubmitInput}
+            className="mb-2 flex items-center text-gray-800"
+          >
+            <span className="whitespace-pre">{inputPrompt}</span>
+            <input
+              ref={inputRef}
+              type="text"
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              className="flex-1 border-b border-green-500 bg-transparent font-mono focus:outline-none"
+              aria-label="Console input"
+            />
+          </form>
+        )}
+
+        {!isEvaluating && (
+          <div className="flex text-gray-800">
+            <pre className="select-none text-gray-400">
+              {draftLines
+                .map((_, index) => (index === 0 ? '>>> ' : '... '))
+                .join('\n')}
+            </pre>
+            <textarea
+              ref={draftRef}
+              value={draft}
+              rows={draftLines.length}
+              onChange={(e) => {
+                setDraft(e.target.value)
+                setHistoryIndex(null)
+              }}
+              onKeyDown={handleKeyDown}
+              disabled={disabled}
+              spellCheck={false}
+              className="flex-1 resize-none overflow-hidden bg-transparent font-mono focus:outline-none"
+              aria-label="Python console"
+              data-testid="console-input"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ReplConsole
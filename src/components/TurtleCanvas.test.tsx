@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { MockInstance } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import TurtleCanvas from './TurtleCanvas'
+import { createTurtlePlayer, drawTurtles } from './turtleRenderer'
+import type { TurtleCommand } from '../services/pyodide'
+
+vi.mock('./turtleRenderer', () => ({
+  CANVAS_SIZE: 400,
+  createTurtlePlayer: vi.fn(),
+  drawTurtles: vi.fn()
+}))
+
+const commands: TurtleCommand[] = [{ type: 'show', turtle: 0, visible: true }]
+
+describe('<TurtleCanvas />', () => {
+  const step = vi.fn()
+  const turtles = [{ x: 0, y: 0, heading: 0, visible: true }]
+  let getContextSpy: MockInstance<HTMLCanvasElement['getContext']>
+  let requestFrameSpy: MockInstance<typeof window.requestAnimationFrame>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    step.mockReturnValue(false)
+    vi.mocked(createTurtlePlayer).mockReturnValue({
+      step,
+      turtles: () => turtles
+    })
+    // happy-dom has no 2D canvas, and frames are run straight away
+    getContextSpy = vi
+      .spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockReturnValue({} as CanvasRenderingContext2D)
+    requestFrameSpy = vi
+      .spyOn(window, 'requestAnimationFrame')
+      .mockImplementation((callback) => {
+        callback(0)
+        return 1
+      })
+  })
+
+  afterEach(() => {
+    getContextSpy.mockRestore()
+    requestFrameSpy.mockRestore()
+  })
+
+  it('should play the commands at the speed set in the code', () => {
+    // Act
+    render(<TurtleCanvas commands={commands} />)
+
+    // Assert
+    expect(screen.getByTestId('turtle-canvas')).toBeInTheDocument()
+    expect(step).toHaveBeenCalledWith(commands, null)
+    expect(drawTurtles).toHaveBeenCalledWith(expect.anything(), turtles)
+  })
+
+  it('should keep drawing on the same canvas as more commands arrive', () => {
+    // Arrange
+    const { rerender } = render(<TurtleCanvas commands={commands} />)
+
+    // Act
+    const more = [...commands, { type: 'clear' as const, turtle: null }]
+    rerender(<TurtleCanvas commands={more} />)
+
+    // Assert
+    expect(createTurtlePlayer).toHaveBeenCalledTimes(1)
+    expect(step).toHaveBeenLastCalledWith(more, null)
+  })
+
+  it('should play at the speed the student picks', () => {
+    // Arrange
+    render(<TurtleCanvas commands={commands} />)
+
+    // Act
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: '4' } })
+
+    // Assert
+    expect(step).toHaveBeenLastCalledWith(commands, 0)
+  })
+
+  it('should not draw when the browser has no canvas support', () => {
+    // Arrange
+    getContextSpy.mockReturnValue(null)
+
+    // Act
+    render(<TurtleCanvas commands={commands} />)
+
+    // Assert
+    expect(createTurtlePlayer).not.toHaveBeenCalled()
+  })
+})
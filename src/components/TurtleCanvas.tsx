@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react'
+import type { TurtleCommand } from '../services/pyodide'
+import { CANVAS_SIZE, createTurtlePlayer, drawTurtles } from './turtleRenderer'
+
+// Animation speeds students can pick; null plays each move at the speed set in the code
+const SPEED_OPTIONS: { label: string; speed: number | null }[] = [
+  { label: 'As in code', speed: null },
+  { label: 'Slow', speed: 1 },
+  { label: 'Normal', speed: 6 },
+  { label: 'Fast', speed: 10 },
+  { label: 'Instant', speed: 0 }
+]
+
+export interface TurtleCanvasProps {
+  // Every drawing step the run has made so far; mount a new canvas for each run
+  commands: TurtleCommand[]
+}
+
+function TurtleCanvas({ commands }: TurtleCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // The turtles are drawn on a second canvas on top, so they can move without smudging the drawing
+  const overlayRef = useRef<HTMLCanvasElement>(null)
+  const playerRef = useRef<ReturnType<typeof createTurtlePlayer> | null>(null)
+  const [speedIndex, setSpeedIndex] = useState(0)
+  const speed = SPEED_OPTIONS[speedIndex].speed
+
+  // Play the commands that haven't been drawn yet, one frame at a time
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d')
+    const overlay = overlayRef.current?.getContext('2d')
+    if (!ctx || !overlay) {
+      return
+    }
+    if (!playerRef.current) {
+      playerRef.current = createTurtlePlayer(ctx)
+    }
+    const player = playerRef.current
+
+    let frame = 0
+    const tick = () => {
+      const busy = player.step(commands, speed)
+      drawTurtles(overlay, player.turtles())
+      if (busy) {
+        frame = requestAnimationFrame(tick)
+      }
+    }
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [commands, speed])
+
+  return (
+    <div
+      className="flex h-full flex-col rounded-lg border border-gray-200 bg-white shadow-sm"
+      data-testid="turtle-canvas"
+    >
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+        <div className="text-sm font-medium text-gray-700">Turtle</div>
+        <label className="flex items-center text-xs text-gray-500">
+          Speed
+          <select
+            className="ml-2 rounded border border-gray-300 px-1 py-0.5 text-xs"
+            value={speedIndex}
+            onChange={(e) => setSpeedIndex(Number(e.target.value))}
+          >
+            {SPEED_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="relative mx-auto aspect-square min-h-0 max-w-full flex-1">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_SIZE}
+          height={CANVAS_SIZE}
+          className="absolute inset-0 size-full"
+        />
+        <canvas
+          ref={overlayRef}
+          width={CANVAS_SIZE}
+          height={CANVAS_SIZE}
+          className="absolute inset-0 size-full"
+          aria-hidden="true"
+        />
+      </div>
+    </div>
+  )
+}
+
+export default TurtleCanvas
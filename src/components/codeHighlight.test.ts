@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { highlightPython } from './codeHighlight'
+
+describe('highlightPython', () => {
+  it('should give keywords, strings, comments and numbers their own classes', () => {
+    // Act
+    const pieces = highlightPython('if x:\n    print("hi", 2)  # done')
+
+    // Assert
+    const classOf = (text: string) =>
+      pieces.find((piece) => piece.text === text)?.className
+    expect(classOf('if')).toBe('text-purple-700')
+    expect(classOf('"hi"')).toBe('text-green-700')
+    expect(classOf('2')).toBe('text-orange-700')
+    expect(classOf('# done')).toBe('italic text-gray-500')
+  })
+
+  it('should keep all of the code, line breaks included', () => {
+    // Arrange
+    const code = 'def f(:\n    return [1,\n'
+
+    // Act
+    const pieces = highlightPython(code)
+
+    // Assert
+    expect(pieces.map((piece) => piece.text).join('')).toBe(code)
+  })
+})
@@ -0,0 +1,40 @@
+import { pythonLanguage } from '@codemirror/lang-python'
+import { highlightCode, tagHighlighter, tags } from '@lezer/highlight'
+
+// A piece of code and the classes it is drawn with; line breaks are pieces of their own
+export interface HighlightedPiece {
+  text: string
+  className: string
+}
+
+// Colours close to the editor's own, as Tailwind classes
+const highlighter = tagHighlighter([
+  { tag: tags.keyword, class: 'text-purple-700' },
+  { tag: [tags.string, tags.special(tags.string)], class: 'text-green-700' },
+  { tag: tags.comment, class: 'italic text-gray-500' },
+  { tag: [tags.number, tags.bool, tags.null], class: 'text-orange-700' },
+  {
+    tag: [
+      tags.function(tags.variableName),
+      tags.function(tags.definition(tags.variableName))
+    ],
+    class: 'text-blue-700'
+  },
+  { tag: tags.className, class: 'text-amber-700' }
+])
+
+/**
+ * Python code split into pieces to draw with syntax highlighting, without an
+ * editor. Code that doesn't parse is still highlighted as far as it can be.
+ */
+export function highlightPython(code: string): HighlightedPiece[] {
+  const pieces: HighlightedPiece[] = []
+  highlightCode(
+    code,
+    pythonLanguage.parser.parse(code),
+    highlighter,
+    (text, className) => pieces.push({ text, className }),
+    () => pieces.push({ text: '\n', className: '' })
+  )
+  return pieces
+}
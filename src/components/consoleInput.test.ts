@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { needsMoreInput, nextIndent } from './consoleInput'
+
+describe('needsMoreInput', () => {
+  it('should run complete statements and expressions straight away', () => {
+    // Act & Assert
+    expect(needsMoreInput('x + 1')).toBe(false)
+    expect(needsMoreInput("print('a: b')")).toBe(false)
+    expect(needsMoreInput('total = 0  # running sum:')).toBe(false)
+    expect(needsMoreInput('')).toBe(false)
+  })
+
+  it('should wait for the body of a block until a blank line ends it', () => {
+    // Act & Assert
+    expect(needsMoreInput('for i in range(3):')).toBe(true)
+    expect(needsMoreInput('for i in range(3):\n    print(i)')).toBe(true)
+    expect(needsMoreInput('for i in range(3):\n    print(i)\n')).toBe(false)
+  })
+
+  it('should wait while a bracket or triple-quoted string is open', () => {
+    // Act & Assert
+    expect(needsMoreInput('numbers = [1,\n  2,')).toBe(true)
+    expect(needsMoreInput('numbers = [1,\n  2]')).toBe(false)
+    expect(needsMoreInput('text = """one\ntwo')).toBe(true)
+    expect(needsMoreInput('text = """one\ntwo"""')).toBe(false)
+    expect(needsMoreInput("print(')')")).toBe(false)
+  })
+
+  it('should wait after a backslash continuing the line', () => {
+    // Act & Assert
+    expect(needsMoreInput('total = 1 + \\')).toBe(true)
+  })
+})
+
+describe('nextIndent', () => {
+  it('should keep the indentation, one level deeper after a colon', () => {
+    // Act & Assert
+    expect(nextIndent('    x = 1')).toBe('    ')
+    expect(nextIndent('    if x:')).toBe('        ')
+    expect(nextIndent('print(x)')).toBe('')
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Whether the console should wait for more lines before running what was typed,
+ * the way Python's own console decides between `>>>` and `...`: a bracket or a
+ * triple-quoted string is still open, the last line ends with `:` or a
+ * backslash, or a block has been started and not yet ended with a blank line.
+ */
+export function needsMoreInput(source: string): boolean {
+  if (source.trim() === '') {
+    return false
+  }
+
+  let depth = 0
+  let quote: string | null = null
+  let lineEnd = ''
+  let startsBlock = false
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quote) {
+      if (char === '\\') {
+        i++
+      } else if (source.startsWith(quote, i)) {
+        i += quote.length - 1
+        quote = null
+      } else if (char === '\n' && quote.length === 1) {
+        // An unterminated string ends with its line; Python reports it when run
+        quote = null
+      }
+      continue
+    }
+    if (char === '#') {
+      while (i + 1 < source.length && source[i + 1] !== '\n') {
+        i++
+      }
+    } else if (char === '"' || char === "'") {
+      quote = source.startsWith(char.repeat(3), i) ? char.repeat(3) : char
+      i += quote.length - 1
+    } else if ('([{'.includes(char)) {
+      depth++
+    } else if (')]}'.includes(char)) {
+      depth = Math.max(0, depth - 1)
+    } else if (char === '\n') {
+      if (depth === 0 && lineEnd === ':') {
+        startsBlock = true
+      }
+      lineEnd = ''
+    } else if (char.trim() !== '') {
+      lineEnd = char
+    }
+  }
+
+  const lastLine = source.slice(source.lastIndexOf('\n') + 1)
+  return (
+    quote !== null ||
+    depth > 0 ||
+    lineEnd === ':' ||
+    lineEnd === '\\' ||
+    (startsBlock && lastLine.trim() !== '')
+  )
+}
+
+/**
+ * The indentation for the line after `line`: the same as it, one level deeper
+ * after a line ending with `:`
+ */
+export function nextIndent(line: string): string {
+  const indent = line.match(/^[ \t]*/)![0]
+  return line.trimEnd().endsWith(':') ? indent + '    ' : indent
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  conversationHtml,
+  conversationMarkdown,
+  downloadFile,
+  exportFileName,
+  printHtml
+} from './conversationExport'
+import type { Conversation } from '../types'
+
+const conversation: Conversation = {
+  id: 4,
+  created_at: '2025-03-01T10:00:00Z',
+  updated_at: '2025-03-01T10:05:00Z',
+  title: 'For loops & <lists>',
+  messages: [
+    {
+      role: 'user',
+      content: [{ type: 'text', text: 'Why does this **fail**?' }],
+      files: [{ name: 'main.py', content: 'for x in 3:\n    print(x)\n' }],
+      entry_point: 'main.py',
+      stdout: 'start\n',
+      stderr: "TypeError: 'int' object is not iterable"
+    },
+    {
+      role: 'assistant',
+      content: [
+        {
+          type: 'text',
+          text: 'Use `range` <img src="x" onerror="alert(1)">\n\n```python\nfor x in range(3):\n    print(x)\n```'
+        }
+      ]
+    }
+  ]
+}
+
+describe('conversationMarkdown', () => {
+  it('should write every message with the code, output and errors sent with it', () => {
+    expect(conversationMarkdown(conversation)).toBe(
+      [
+        '# For loops & <lists>',
+        '## You',
+        'Why does this **fail**?',
+        '**main.py**',
+        '```python\nfor x in 3:\n    print(x)\n```',
+        '**Output**',
+        '```\nstart\n```',
+        '**Errors**',
+        "```\nTypeError: 'int' object is not iterable\n```",
+        '## Playdo',
+        'Use `range` <img src="x" onerror="alert(1)">\n\n```python\nfor x in range(3):\n    print(x)\n```'
+      ].join('\n\n') + '\n'
+    )
+  })
+
+  it('should fence code that has backticks in it with more of them', () => {
+    // Arrange
+    const withFence: Conversation = {
+      ...conversation,
+      messages: [
+        {
+          role: 'user',
+          content: [{ type: 'text', text: 'Hi' }],
+          editor_code: 's = """\n```\n"""'
+        }
+      ]
+    }
+
+    // Act
+    const markdown = conversationMarkdown(withFence)
+
+    // Assert
+    expect(markdown).toContain('````python\ns = """\n```\n"""\n````')
+  })
+})
+
+describe('conversationHtml', () => {
+  it('should make a page with the messages as sanitized HTML and the code escaped', () => {
+    // Act
+    const html = conversationHtml(conversation)
+
+    // Assert
+    expect(html).toMatch(/^<!doctype html>/)
+    expect(html).toContain('<title>For loops &amp; &lt;lists&gt;</title>')
+    expect(html).toContain('<strong>fail</strong>')
+    expect(html).toContain('<code>range</code>')
+    expect(html).toContain('<img src="x">')
+    expect(html).not.toContain('onerror')
+    expect(html).toContain(
+      '<pre><code class="language-python">for x in range(3):'
+    )
+    expect(html).toContain(
+      '<section class="attachment file"><h3>main.py</h3><pre><code>for x in 3:'
+    )
+    expect(html).toContain(
+      `<section class="attachment errors"><h3>Errors</h3><pre><code>TypeError: 'int'`
+    )
+    expect(html).toContain('@media print')
+  })
+})
+
+describe('exportFileName', () => {
+  it('should name the file after the conversation', () => {
+    expect(exportFileName(conversation, 'md')).toBe('for-loops-lists.md')
+    expect(exportFileName({ ...conversation, title: '¿?' }, 'html')).toBe(
+      'conversation-4.html'
+    )
+    expect(exportFileName({ ...conversation, title: null }, 'html')).toBe(
+      'conversation-4.html'
+    )
+  })
+})
+
+describe('downloadFile', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should save the text under the name given', () => {
+    // Arrange
+    vi.useFakeTimers()
+    URL.createObjectURL = vi.fn().mockReturnValue('blob:export')
+    URL.revokeObjectURL = vi.fn()
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.download).toBe('loops.md')
+        expect(this.href).toBe('blob:export')
+      })
+
+    // Act
+    downloadFile('loops.md', '# Loops', 'text/markdown')
+
+    // Assert
+    expect(click).toHaveBeenCalledOnce()
+    const blob = (URL.createObjectURL as ReturnType<typeof vi.fn>).mock
+      .calls[0][0] as Blob
+    expect(blob.type).toBe('text/markdown')
+
+    // The file's URL is only let go once the browser has had time to read it
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled()
+    vi.runAllTimers()
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export')
+  })
+})
+
+describe('printHtml', () => {
+  it('should print the page from a frame that is removed afterwards', () => {
+    // Act
+    printHtml('<p>Hello</p>')
+    const frame = document.querySelector('iframe') as HTMLIFrameElement
+    const print = vi.fn()
+    frame.contentWindow!.print = print
+    frame.onload?.(new Event('load'))
+
+    // Assert
+    expect(frame.srcdoc).toBe('<p>Hello</p>')
+    expect(print).toHaveBeenCalledOnce()
+    frame.contentWindow!.dispatchEvent(new Event('afterprint'))
+    expect(document.querySelector('iframe')).toBeNull()
+  })
+})
@@ -0,0 +1,206 @@
+import { marked } from 'marked'
+import DOMPurify from 'dompurify'
+import type { Conversation, Message } from '../types'
+import { projectOf } from '../hooks/useProject'
+import { conversationName } from './conversationTitle'
+
+// The text of a message, the way the chat shows it
+function textOf(message: Message): string {
+  return message.content
+    .filter((item) => item.type === 'text')
+    .map((item) => item.text)
+    .join(' ')
+}
+
+function authorOf(message: Message): string {
+  return message.role === 'user' ? 'You' : 'Playdo'
+}
+
+// What was sent along with a message, each part with its heading
+interface Attachment {
+  kind: 'file' | 'output' | 'errors'
+  heading: string
+  text: string
+  language: string
+}
+
+// The code, output and errors the student sent with a message, if any
+function attachmentsOf(message: Message): Attachment[] {
+  if (message.role !== 'user') {
+    return []
+  }
+  const attachments: Attachment[] = (projectOf(message)?.files ?? []).map(
+    (file) => ({
+      kind: 'file',
+      heading: file.name,
+      text: file.content,
+      language: file.name.endsWith('.py') ? 'python' : ''
+    })
+  )
+  if (message.stdout) {
+    attachments.push({
+      kind: 'output',
+      heading: 'Output',
+      text: message.stdout,
+      language: ''
+    })
+  }
+  if (message.stderr) {
+    attachments.push({
+      kind: 'errors',
+      heading: 'Errors',
+      text: message.stderr,
+      language: ''
+    })
+  }
+  return attachments
+}
+
+// A code fence longer than any run of backticks in the text, so the text can't end it
+function fenceFor(text: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  )
+  return '`'.repeat(Math.max(3, longestRun + 1))
+}
+
+/**
+ * The conversation as Markdown: every message under who wrote it, followed by the
+ * code, output and errors the student sent with it
+ */
+export function conversationMarkdown(conversation: Conversation): string {
+  const sections = [`# ${conversationName(conversation)}`]
+  for (const message of conversation.messages) {
+    sections.push(`## ${authorOf(message)}`, textOf(message).trim())
+    for (const { heading, text, language } of attachmentsOf(message)) {
+      const fence = fenceFor(text)
+      sections.push(
+        `**${heading}**`,
+        `${fence}${language}\n${text.replace(/\n$/, '')}\n${fence}`
+      )
+    }
+  }
+  return sections.join('\n\n') + '\n'
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Styles of the exported page, on screen and on paper. Printed, it is black on
+// white, and a message or a piece of code isn't split between pages if it fits on one.
+const EXPORT_STYLES = `
+body { font-family: Georgia, serif; line-height: 1.5; color: #1f2937; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.75rem; }
+.message { border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: #dbeafe; }
+.message.assistant { background: #f3f4f6; }
+.author { font-weight: bold; font-size: 0.875rem; margin: 0 0 0.25rem; }
+.attachment { margin-top: 0.75rem; }
+.attachment h3 { font-size: 0.875rem; margin: 0 0 0.25rem; }
+pre { background: #fff; border: 1px solid #d1d5db; border-radius: 0.25rem; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+code { font-family: 'JetBrains Mono', monospace; font-size: 0.875em; }
+.attachment.errors pre { color: #b91c1c; }
+@media print {
+  body { max-width: none; margin: 0; color: #000; font-size: 11pt; }
+  .message { background: none; border: 1px solid #9ca3af; break-inside: avoid; }
+  pre { break-inside: avoid; }
+  .attachment.errors pre { color: #000; }
+}
+`
+
+/**
+ * The conversation as a web page that needs nothing else to be opened or printed:
+ * the messages' markdown is turned into sanitized HTML, and the code, output and
+ * errors the student sent with each message are shown under it
+ */
+export function conversationHtml(conversation: Conversation): string {
+  const title = escapeHtml(conversationName(conversation))
+  const messages = conversation.messages.map((message) => {
+    const text = DOMPurify.sanitize(
+      marked.parser(marked.lexer(textOf(message)))
+    )
+    const attachments = attachmentsOf(message).map(
+      ({ kind, heading, text }) =>
+        `<section class="attachment ${kind}">` +
+        `<h3>${escapeHtml(heading)}</h3>` +
+        `<pre><code>${escapeHtml(text)}</code></pre></section>`
+    )
+    return (
+      `<article class="message ${message.role}">` +
+      `<p class="author">${authorOf(message)}</p>` +
+      `${text}${attachments.join('')}</article>`
+    )
+  })
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${title}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+${messages.join('\n')}
+</body>
+</html>
+`
+}
+
+/**
+ * A file name for the exported conversation, made from its name, e.g.
+ * "for-loops.md"
+ */
+export function exportFileName(
+  conversation: Conversation,
+  extension: 'md' | 'html'
+): string {
+  const slug = conversationName(conversation)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || `conversation-${conversation.id}`}.${extension}`
+}
+
+// How long the file's URL is kept once the download has started. Some browsers
+// still read the file after click() returns, and fail the download if it's gone.
+const REVOKE_URL_DELAY_MS = 10_000
+
+// Saves the text as a file in the student's downloads
+export function downloadFile(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = name
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_DELAY_MS)
+}
+
+/**
+ * Prints a web page without leaving the app: the page is loaded into a hidden
+ * frame, which is removed once printing is done
+ */
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe')
+  // Out of sight, but not display: none, which some browsers print as a blank page
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.onload = () => {
+    const view = frame.contentWindow
+    if (!view) {
+      frame.remove()
+      return
+    }
+    view.addEventListener('afterprint', () => frame.remove())
+    view.print()
+  }
+  frame.srcdoc = html
+  document.body.appendChild(frame)
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addPage,
+  applyUpdate,
+  byActivity,
+  previewOf,
+  timeAgo,
+  PREVIEW_LENGTH
+} from './conversationList'
+import type { ConversationSummary } from '../types'
+
+function summary(
+  id: number,
+  updated_at: string | null = null
+): ConversationSummary {
+  return {
+    id,
+    title: null,
+    archived: false,
+    preview: null,
+    updated_at,
+    message_count: 0
+  }
+}
+
+describe('previewOf', () => {
+  it('should put the text of a message on one line', () => {
+    expect(
+      previewOf({
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Try this:\n\n  print(1)' },
+          { type: 'image', text: '' },
+          { type: 'text', text: 'then run it.' }
+        ]
+      })
+    ).toBe('Try this: print(1) then run it.')
+  })
+
+  it('should cut a long message short', () => {
+    // Act
+    const preview = previewOf({
+      role: 'user',
+      content: [{ type: 'text', text: 'a'.repeat(300) }]
+    })
+
+    // Assert
+    expect(preview).toHaveLength(PREVIEW_LENGTH)
+    expect(preview.endsWith('…')).toBe(true)
+  })
+})
+
+describe('byActivity', () => {
+  it('should put the most recently active first and those without a time last', () => {
+    // Arrange
+    const conversations = [
+      summary(1, null),
+      summary(2, '2025-03-01T10:00:00Z'),
+      summary(3, null),
+      summary(4, '2025-03-02T10:00:00Z')
+    ]
+
+    // Act
+    const ids = conversations.sort(byActivity).map(({ id }) => id)
+
+    // Assert
+    expect(ids).toEqual([4, 2, 3, 1])
+  })
+})
+
+describe('addPage', () => {
+  it('should add the conversations not listed yet', () => {
+    expect(
+      addPage([summary(5), summary(4)], [summary(4), summary(3)]).map(
+        ({ id }) => id
+      )
+    ).toEqual([5, 4, 3])
+  })
+})
+
+describe('applyUpdate', () => {
+  it('should change the conversation and move it by its new activity', () => {
+    // Arrange
+    const conversations = [
+      summary(2, '2025-03-02T10:00:00Z'),
+      summary(1, '2025-03-01T10:00:00Z')
+    ]
+
+    // Act
+    const updated = applyUpdate(conversations, {
+      id: 1,
+      preview: 'Hello',
+      updated_at: '2025-03-03T10:00:00Z',
+      message_count: 2
+    })
+
+    // Assert
+    expect(updated[0]).toEqual({
+      ...summary(1, '2025-03-03T10:00:00Z'),
+      preview: 'Hello',
+      message_count: 2
+    })
+    expect(updated[1]).toBe(conversations[0])
+  })
+})
+
+describe('timeAgo', () => {
+  const now = new Date('2025-03-10T12:00:00Z')
+
+  it('should say how long ago something happened', () => {
+    expect(timeAgo('2025-03-10T11:59:30Z', now)).toBe('just now')
+    expect(timeAgo('2025-03-10T11:55:00Z', now)).toBe('5 min ago')
+    expect(timeAgo('2025-03-10T09:00:00Z', now)).toBe('3 h ago')
+    expect(timeAgo('2025-03-09T09:00:00Z', now)).toBe('yesterday')
+    expect(timeAgo('2025-03-06T12:00:00Z', now)).toBe('4 days ago')
+  })
+
+  it('should give the date of something older than a week', () => {
+    // Arrange
+    const lastMonth = new Date('2025-02-01T12:00:00Z')
+    const lastYear = new Date('2024-02-01T12:00:00Z')
+
+    // Act & Assert
+    expect(timeAgo(lastMonth.toISOString(), now)).toBe(
+      lastMonth.toLocaleDateString(undefined, {
+        day: 'numeric',
+        month: 'short'
+      })
+    )
+    expect(timeAgo(lastYear.toISOString(), now)).toBe(
+      lastYear.toLocaleDateString(undefined, {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric'
+      })
+    )
+  })
+})
@@ -0,0 +1,115 @@
+import type { ConversationSummary, Message } from '../types'
+
+/**
+ * A change to a conversation made in one part of the app, e.g. a new title or a
+ * new reply, for the others to show. A new object is passed for every change.
+ */
+export type ConversationUpdate = { id: number } & Partial<
+  Pick<
+    ConversationSummary,
+    'title' | 'preview' | 'updated_at' | 'message_count'
+  >
+>
+
+// How much of the last message the list shows
+export const PREVIEW_LENGTH = 100
+
+/**
+ * The start of a message's text, on one line, as the list previews it
+ */
+export function previewOf(message: Message): string {
+  const text = message.content
+    .filter((item) => item.type === 'text')
+    .map((item) => item.text)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return text.length <= PREVIEW_LENGTH
+    ? text
+    : text.slice(0, PREVIEW_LENGTH - 1) + '…'
+}
+
+/**
+ * Orders conversations most recently active first. Those without a time, from a
+ * backend that doesn't say, go last, newest first.
+ */
+export function byActivity(
+  a: ConversationSummary,
+  b: ConversationSummary
+): number {
+  if (a.updated_at !== b.updated_at) {
+    if (a.updated_at === null) {
+      return 1
+    }
+    if (b.updated_at === null) {
+      return -1
+    }
+    return Date.parse(b.updated_at) - Date.parse(a.updated_at)
+  }
+  return b.id - a.id
+}
+
+/**
+ * The conversations with the next page added. A conversation that moved while
+ * paging, because it changed in between, is kept where it was first listed.
+ */
+export function addPage(
+  conversations: ConversationSummary[],
+  page: ConversationSummary[]
+): ConversationSummary[] {
+  const listed = new Set(conversations.map((conversation) => conversation.id))
+  return [
+    ...conversations,
+    ...page.filter((conversation) => !listed.has(conversation.id))
+  ]
+}
+
+/**
+ * The conversations with an update applied, in order of activity again
+ */
+export function applyUpdate(
+  conversations: ConversationSummary[],
+  update: ConversationUpdate
+): ConversationSummary[] {
+  return conversations
+    .map((conversation) =>
+      conversation.id === update.id
+        ? { ...conversation, ...update }
+        : conversation
+    )
+    .sort(byActivity)
+}
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * When something happened, the way the list says it: "just now", "5 min ago",
+ * "3 h ago", "yesterday", "4 days ago", then the date
+ */
+export function timeAgo(timestamp: string, now = new Date()): string {
+  const then = new Date(timestamp)
+  const elapsed = now.getTime() - then.getTime()
+  if (elapsed < MINUTE_MS) {
+    return 'just now'
+  }
+  if (elapsed < HOUR_MS) {
+    return `${Math.floor(elapsed / MINUTE_MS)} min ago`
+  }
+  if (elapsed < DAY_MS) {
+    return `${Math.floor(elapsed / HOUR_MS)} h ago`
+  }
+  const days = Math.floor(elapsed / DAY_MS)
+  if (days === 1) {
+    return 'yesterday'
+  }
+  if (days < 7) {
+    return `${days} days ago`
+  }
+  return then.toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: then.getFullYear() === now.getFullYear() ? undefined : 'numeric'
+  })
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import {
+  conversationName,
+  titleFromMessage,
+  MAX_TITLE_LENGTH
+} from './conversationTitle'
+
+describe('conversationName', () => {
+  it('should use the title, or the number until there is one', () => {
+    expect(conversationName({ id: 4, title: 'Loops' })).toBe('Loops')
+    expect(conversationName({ id: 4, title: null })).toBe('Conversation #4')
+    expect(conversationName({ id: 4 })).toBe('Conversation #4')
+  })
+})
+
+describe('titleFromMessage', () => {
+  it('should use the first line with words, without markdown marks', () => {
+    expect(
+      titleFromMessage('\n## How do **for** loops   work?\nI tried this')
+    ).toBe('How do for loops work?')
+  })
+
+  it('should skip code blocks', () => {
+    expect(
+      titleFromMessage('```python\nprint(1)\n```\nWhy does this print 1?')
+    ).toBe('Why does this print 1?')
+    expect(titleFromMessage('```\nx = 1\n```')).toBe('')
+  })
+
+  it('should cut a long line at a word boundary', () => {
+    // Arrange
+    const message = 'word '.repeat(30)
+
+    // Act
+    const title = titleFromMessage(message)
+
+    // Assert
+    expect(title.length).toBeLessThanOrEqual(MAX_TITLE_LENGTH)
+    expect(title).toMatch(/^(word )*word…$/)
+  })
+})
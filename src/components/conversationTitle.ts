@@ -0,0 +1,39 @@
+// Long enough to tell conversations apart, short enough for the selector
+export const MAX_TITLE_LENGTH = 60
+
+/**
+ * What a conversation is called: its title, or its number until it has one
+ */
+export function conversationName(conversation: {
+  id: number
+  title?: string | null
+}): string {
+  return conversation.title || `Conversation #${conversation.id}`
+}
+
+/**
+ * A title made from the first message of a conversation: its first line that has
+ * any words, without markdown marks, cut at a word boundary if it is too long.
+ * Empty if the message has no words at all, e.g. when it is only code.
+ */
+export function titleFromMessage(message: string): string {
+  let inCode = false
+  let line = ''
+  for (const text of message.split('\n')) {
+    if (text.trimStart().startsWith('```')) {
+      inCode = !inCode
+      continue
+    }
+    line = inCode ? '' : text.replace(/[#>*_`~]/g, '').trim()
+    if (line !== '') {
+      break
+    }
+  }
+  const words = line.replace(/\s+/g, ' ')
+  if (words.length <= MAX_TITLE_LENGTH) {
+    return words
+  }
+  const cut = words.slice(0, MAX_TITLE_LENGTH - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : cut) + '…'
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { CompletionContext } from '@codemirror/autocomplete'
+import { python } from '@codemirror/lang-python'
+import { EditorState, EditorView } from '@uiw/react-codemirror'
+import {
+  completionSource,
+  positionOf,
+  signatureHelp,
+  SIGNATURE_DELAY_MS,
+  type CodeAssistant
+} from './editorAssist'
+
+const createAssistant = (): CodeAssistant => ({
+  complete: vi.fn().mockResolvedValue([
+    {
+      name: 'sqrt',
+      type: 'function',
+      signature: 'sqrt(x, /)',
+      doc: 'Return the square root of x.'
+    },
+    { name: 'pi', type: 'instance', signature: null, doc: '' }
+  ]),
+  describeName: vi.fn().mockResolvedValue(null),
+  signatureAt: vi.fn().mockResolvedValue({
+    name: 'print',
+    params: ['*values', "sep=' '"],
+    activeParameter: 1,
+    doc: 'Prints the values to a stream.\n\nMore detail.'
+  })
+})
+
+describe('positionOf', () => {
+  it('should give the 1-based line and column of an offset', () => {
+    // Arrange
+    const state = EditorState.create({ doc: 'import math\nmath.sq' })
+
+    // Act & Assert
+    expect(positionOf(state, 19)).toEqual({
+      code: 'import math\nmath.sq',
+      line: 2,
+      column: 8
+    })
+  })
+})
+
+describe('completionSource', () => {
+  const complete = (doc: string, explicit = false) => {
+    const assistant = createAssistant()
+    const state = EditorState.create({ doc })
+    const context = new CompletionContext(state, doc.length, explicit)
+    return {
+      assistant,
+      result: completionSource(assistant)(context)
+    }
+  }
+
+  it('should complete the word being typed', async () => {
+    // Act
+    const { assistant, result } = complete('import math\nmath.sq')
+
+    // Assert
+    const completions = await result
+    expect(assistant.complete).toHaveBeenCalledWith({
+      code: 'import math\nmath.sq',
+      line: 2,
+      column: 8
+    })
+    expect(completions?.from).toBe(17)
+    expect(completions?.options).toEqual([
+      expect.objectContaining({ label: 'sqrt', type: 'function' }),
+      { label: 'pi', type: 'variable', info: undefined }
+    ])
+  })
+
+  it('should complete attributes right after a dot', async () => {
+    // Act
+    const { assistant, result } = complete('math.')
+
+    // Assert
+    expect((await result)?.from).toBe(5)
+    expect(assistant.complete).toHaveBeenCalled()
+  })
+
+  it('should not ask after a space unless asked explicitly', async () => {
+    // Act
+    const implicit = complete('x = ')
+    const explicit = complete('x = ', true)
+
+    // Assert
+    expect(await implicit.result).toBeNull()
+    expect(implicit.assistant.complete).not.toHaveBeenCalled()
+    expect(await explicit.result).not.toBeNull()
+  })
+})
+
+describe('signatureHelp', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createView = (assistant: CodeAssistant) =>
+    new EditorView({
+      state: EditorState.create({
+        doc: '',
+        extensions: [python(), signatureHelp(assistant)]
+      }),
+      parent: document.body
+    })
+
+  it('should show the signature of the call being typed once the cursor rests', async () => {
+    // Arrange
+    vi.useFakeTimers()
+    const assistant = createAssistant()
+    const view = createView(assistant)
+
+    // Act
+    view.dispatch({
+      changes: { from: 0, insert: "print('a', " },
+      selection: { anchor: 11 }
+    })
+    await vi.advanceTimersByTimeAsync(SIGNATURE_DELAY_MS)
+
+    // Assert
+    expect(assistant.signatureAt).toHaveBeenCalledTimes(1)
+    expect(assistant.signatureAt).toHaveBeenCalledWith({
+      code: "print('a', ",
+      line: 1,
+      column: 12
+    })
+    const tooltip = view.dom.querySelector('.cm-assist-doc')
+    expect(tooltip).toHaveTextContent("print(*values, sep=' ')")
+    expect(tooltip).toHaveTextContent('Prints the values to a stream.')
+    expect(tooltip).not.toHaveTextContent('More detail.')
+    expect(view.dom.querySelector('.cm-assist-active')).toHaveTextContent(
+      "sep=' '"
+    )
+    view.destroy()
+  })
+
+  it('should not look anything up outside a call', async () => {
+    // Arrange
+    vi.useFakeTimers()
+    const assistant = createAssistant()
+    const view = createView(assistant)
+
+    // Act
+    view.dispatch({
+      changes: { from: 0, insert: 'x = 1' },
+      selection: { anchor: 5 }
+    })
+    await vi.advanceTimersByTimeAsync(SIGNATURE_DELAY_MS)
+
+    // Assert
+    expect(assistant.signatureAt).not.toHaveBeenCalled()
+    expect(view.dom.querySelector('.cm-assist-doc')).toBeNull()
+    view.destroy()
+  })
+})
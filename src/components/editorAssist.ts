@@ -0,0 +1,279 @@
+import type {
+  Completion as EditorCompletion,
+  CompletionContext,
+  CompletionResult,
+  CompletionSource
+} from '@codemirror/autocomplete'
+import { pythonLanguage } from '@codemirror/lang-python'
+import {
+  EditorView,
+  StateEffect,
+  StateField,
+  ViewPlugin,
+  hoverTooltip,
+  showTooltip,
+  type EditorState,
+  type Extension,
+  type Tooltip,
+  type ViewUpdate
+} from '@uiw/react-codemirror'
+import type {
+  CodePosition,
+  Completion,
+  HoverInfo,
+  SignatureHelp
+} from '../services/pyodide'
+
+/**
+ * A place in the editor's code. The editor doesn't know which file it shows; the
+ * assistant does.
+ */
+export type EditorPosition = Omit<CodePosition, 'file'>
+
+/**
+ * Answers the editor's questions about the code it shows
+ */
+export interface CodeAssistant {
+  complete: (position: EditorPosition) => Promise<Completion[]>
+  describeName: (position: EditorPosition) => Promise<HoverInfo | null>
+  signatureAt: (position: EditorPosition) => Promise<SignatureHelp | null>
+}
+
+// How long the cursor has to rest before the call it is in is looked up
+export const SIGNATURE_DELAY_MS = 300
+
+// CodeMirror's completion icons for Jedi's kinds of names
+const COMPLETION_TYPES: Record<string, string> = {
+  function: 'function',
+  class: 'class',
+  module: 'namespace',
+  keyword: 'keyword',
+  property: 'property',
+  param: 'variable',
+  instance: 'variable',
+  statement: 'variable'
+}
+
+/**
+ * The 1-based line and column of a document offset, with the whole document
+ */
+export function positionOf(state: EditorState, pos: number): EditorPosition {
+  const line = state.doc.lineAt(pos)
+  return {
+    code: state.doc.toString(),
+    line: line.number,
+    column: pos - line.from + 1
+  }
+}
+
+// A signature in code font above a docstring, for tooltips and completion info
+function docElement(signature: string | null, doc: string): HTMLElement {
+  const element = document.createElement('div')
+  element.className = 'cm-assist-doc'
+  if (signature) {
+    const signatureElement = element.appendChild(document.createElement('div'))
+    signatureElement.className = 'cm-assist-signature'
+    signatureElement.textContent = signature
+  }
+  if (doc) {
+    const docText = element.appendChild(document.createElement('div'))
+    docText.className = 'cm-assist-text'
+    docText.textContent = doc
+  }
+  return element
+}
+
+// The call being typed, with the parameter being typed in bold, and the first
+// paragraph of its docstring
+function signatureElement(signature: SignatureHelp): HTMLElement {
+  const element = docElement(null, signature.doc.split('\n\n')[0])
+  const label = document.createElement('div')
+  label.className = 'cm-assist-signature'
+  label.append(`${signature.name}(`)
+  signature.params.forEach((param, index) => {
+    if (index > 0) {
+      label.append(', ')
+    }
+    if (index === signature.activeParameter) {
+      const active = label.appendChild(document.createElement('strong'))
+      active.className = 'cm-assist-active'
+      active.textContent = param
+    } else {
+      label.append(param)
+    }
+  })
+  label.append(')')
+  element.prepend(label)
+  return element
+}
+
+function toOption(completion: Completion): EditorCompletion {
+  return {
+    label: completion.name,
+    type: COMPLETION_TYPES[completion.type] ?? 'text',
+    info:
+      completion.signature || completion.doc
+        ? () => docElement(completion.signature, completion.doc)
+        : undefined
+  }
+}
+
+/**
+ * Completions from the assistant, for a word being typed, after a dot or when
+ * asked for with Ctrl-Space
+ */
+export function completionSource(assistant: CodeAssistant): CompletionSource {
+  return async (
+    context: CompletionContext
+  ): Promise<CompletionResult | null> => {
+    const word = context.matchBefore(/\w*/)
+    if (!word) {
+      return null
+    }
+    const afterDot = context.state.sliceDoc(word.from - 1, word.from) === '.'
+    if (word.from === word.to && !afterDot && !context.explicit) {
+      return null
+    }
+    const completions = await assistant.complete(
+      positionOf(context.state, context.pos)
+    )
+    if (context.aborted || completions.length === 0) {
+      return null
+    }
+    return {
+      from: word.from,
+      options: completions.map(toOption),
+      validFor: /^\w*$/
+    }
+  }
+}
+
+/**
+ * The signature and docstring of the name under the mouse
+ */
+export function hoverDocs(assistant: CodeAssistant): Extension {
+  return hoverTooltip(async (view, pos) => {
+    const word = view.state.wordAt(pos)
+    if (!word) {
+      return null
+    }
+    const info = await assistant.describeName(positionOf(view.state, pos))
+    if (!info) {
+      return null
+    }
+    return {
+      pos: word.from,
+      end: word.to,
+      above: true,
+      create: () => ({ dom: docElement(info.signature, info.doc) })
+    }
+  })
+}
+
+/**
+ * Shows signature help at the cursor, or hides it with null
+ */
+const setSignature = StateEffect.define<Tooltip | null>()
+
+const signatureField = StateField.define<Tooltip | null>({
+  create: () => null,
+  update(tooltip, transaction) {
+    for (const effect of transaction.effects) {
+      if (effect.is(setSignature)) {
+        return effect.value
+      }
+    }
+    // Stay with the call while the arguments are typed, until the next lookup
+    return tooltip && transaction.docChanged
+      ? { ...tooltip, pos: transaction.changes.mapPos(tooltip.pos) }
+      : tooltip
+  },
+  provide: (field) => showTooltip.from(field)
+})
+
+/**
+ * The signature of the call the cursor is in, looked up once the cursor rests
+ */
+export function signatureHelp(assistant: CodeAssistant): Extension {
+  const plugin = ViewPlugin.fromClass(
+    class {
+      timeoutId: ReturnType<typeof setTimeout> | null = null
+      // Counts lookups, so that an answer to an earlier one is ignored
+      lookup = 0
+
+      constructor(private readonly view: EditorView) {}
+
+      update(update: ViewUpdate) {
+        if (update.docChanged || update.selectionSet) {
+          this.schedule()
+        }
+      }
+
+      schedule() {
+        const lookup = ++this.lookup
+        if (this.timeoutId !== null) {
+          clearTimeout(this.timeoutId)
+        }
+        this.timeoutId = setTimeout(async () => {
+          this.timeoutId = null
+          const { state } = this.view
+          const pos = state.selection.main.head
+          // A call's opening bracket has to come before the cursor on its line
+          const inCall = state.sliceDoc(state.doc.lineAt(pos).from, pos)
+          const signature = inCall.includes('(')
+            ? await assistant.signatureAt(positionOf(state, pos))
+            : null
+          if (lookup !== this.lookup) {
+            return
+          }
+          if (signature === null && !this.view.state.field(signatureField)) {
+            return
+          }
+          this.view.dispatch({
+            effects: setSignature.of(
+              signature && {
+                pos,
+                above: true,
+                create: () => ({ dom: signatureElement(signature) })
+              }
+            )
+          })
+        }, SIGNATURE_DELAY_MS)
+      }
+
+      destroy() {
+        this.lookup++
+        if (this.timeoutId !== null) {
+          clearTimeout(this.timeoutId)
+        }
+      }
+    }
+  )
+  return [signatureField, plugin]
+}
+
+const assistTheme = EditorView.baseTheme({
+  '.cm-assist-doc': {
+    maxWidth: '32rem',
+    maxHeight: '16rem',
+    overflowY: 'auto',
+    padding: '4px 8px'
+  },
+  '.cm-assist-signature': { fontFamily: 'monospace', whiteSpace: 'pre-wrap' },
+  '.cm-assist-text': { marginTop: '4px', whiteSpace: 'pre-wrap' },
+  '.cm-assist-active': { textDecoration: 'underline' }
+})
+
+/**
+ * Completions, hover documentation and signature help from the assistant. The
+ * completions are added to those lang-python gives, which only knows the names
+ * in the file and Python's keywords and builtins.
+ */
+export function assistExtensions(assistant: CodeAssistant): Extension[] {
+  return [
+    pythonLanguage.data.of({ autocomplete: completionSource(assistant) }),
+    hoverDocs(assistant),
+    signatureHelp(assistant),
+    assistTheme
+  ]
+}
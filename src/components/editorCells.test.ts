@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest'
+import { EditorSelection, EditorState, EditorView } from '@uiw/react-codemirror'
+import {
+  cellAt,
+  fragmentOf,
+  fragmentToRun,
+  isCellMarker,
+  runFragmentKeymap
+} from './editorCells'
+
+const CELLS = [
+  'import math',
+  '# %% Area',
+  'r = 2',
+  'area = math.pi * r ** 2',
+  '#%%',
+  'print(area)'
+].join('\n')
+
+describe('isCellMarker', () => {
+  it('should recognise # %% with or without a space or title', () => {
+    // Act & Assert
+    expect(isCellMarker('# %%')).toBe(true)
+    expect(isCellMarker('#%% Setup')).toBe(true)
+    expect(isCellMarker('  # %%')).toBe(true)
+    expect(isCellMarker('# a comment')).toBe(false)
+    expect(isCellMarker("print('# %%')")).toBe(false)
+  })
+})
+
+describe('cellAt', () => {
+  it('should give the lines from the marker above to the line before the next one', () => {
+    // Arrange
+    const { doc } = EditorState.create({ doc: CELLS })
+
+    // Act & Assert
+    expect(cellAt(doc, 1)).toEqual({ fromLine: 1, toLine: 1 })
+    expect(cellAt(doc, 3)).toEqual({ fromLine: 2, toLine: 4 })
+    expect(cellAt(doc, 6)).toEqual({ fromLine: 5, toLine: 6 })
+  })
+
+  it('should treat a file without markers as one cell', () => {
+    // Arrange
+    const { doc } = EditorState.create({ doc: 'a = 1\nb = 2\nprint(a + b)' })
+
+    // Act & Assert
+    expect(cellAt(doc, 2)).toEqual({ fromLine: 1, toLine: 3 })
+  })
+})
+
+describe('fragmentOf', () => {
+  it('should keep line numbers and remove the indentation the lines share', () => {
+    // Arrange
+    const { doc } = EditorState.create({
+      doc: 'for i in range(3):\n    x = i\n    if x:\n        print(x)'
+    })
+
+    // Act
+    const fragment = fragmentOf(doc, 2, 4)
+
+    // Assert
+    expect(fragment).toEqual({
+      code: '\nx = i\nif x:\n    print(x)',
+      fromLine: 2,
+      toLine: 4
+    })
+  })
+})
+
+describe('fragmentToRun', () => {
+  it('should run the cell the cursor is in', () => {
+    // Arrange
+    const state = EditorState.create({
+      doc: CELLS,
+      selection: { anchor: CELLS.indexOf('area =') }
+    })
+
+    // Act
+    const fragment = fragmentToRun(state)
+
+    // Assert
+    expect(fragment.fromLine).toBe(2)
+    expect(fragment.toLine).toBe(4)
+    expect(fragment.code).toBe('\n# %% Area\nr = 2\narea = math.pi * r ** 2')
+  })
+
+  it('should run the selected lines, leaving out a line the selection ends at the start of', () => {
+    // Arrange
+    const state = EditorState.create({
+      doc: CELLS,
+      selection: EditorSelection.single(
+        CELLS.indexOf('= 2'),
+        CELLS.indexOf('#%%')
+      )
+    })
+
+    // Act
+    const fragment = fragmentToRun(state)
+
+    // Assert
+    expect(fragment).toEqual({
+      code: '\n\nr = 2\narea = math.pi * r ** 2',
+      fromLine: 3,
+      toLine: 4
+    })
+  })
+})
+
+describe('runFragmentKeymap', () => {
+  it('should run the fragment on Shift+Enter instead of adding a line', () => {
+    // Arrange
+    const run = vi.fn()
+    const view = new EditorView({
+      state: EditorState.create({
+        doc: 'a = 1\nprint(a)',
+        extensions: [runFragmentKeymap(run)]
+      }),
+      parent: document.body
+    })
+
+    // Act
+    view.contentDOM.dispatchEvent(
+      new KeyboardEvent('keydown', {
+        key: 'Enter',
+        shiftKey: true,
+        bubbles: true
+      })
+    )
+
+    // Assert
+    expect(run).toHaveBeenCalledWith({
+      code: 'a = 1\nprint(a)',
+      fromLine: 1,
+      toLine: 2
+    })
+    expect(view.state.doc.toString()).toBe('a = 1\nprint(a)')
+    view.destroy()
+  })
+})
@@ -0,0 +1,154 @@
+import {
+  Decoration,
+  EditorView,
+  Prec,
+  RangeSetBuilder,
+  ViewPlugin,
+  keymap,
+  type DecorationSet,
+  type EditorState,
+  type Extension,
+  type Text,
+  type ViewUpdate
+} from '@uiw/react-codemirror'
+
+/**
+ * Part of the open file to run on its own, in the namespace earlier runs left behind
+ */
+export interface CodeFragment {
+  // Runnable as it is: blank lines stand in for the lines above it, so that line
+  // numbers in tracebacks and the debugger are the file's own
+  code: string
+  // 1-based, inclusive
+  fromLine: number
+  toLine: number
+}
+
+// A line starting a cell, as in Jupyter, VS Code and Spyder: `# %%`, optionally followed by a title
+const CELL_MARKER = /^\s*#\s*%%/
+
+export function isCellMarker(text: string): boolean {
+  return CELL_MARKER.test(text)
+}
+
+/**
+ * The cell a 1-based line is in: from the marker starting it (or the start of the
+ * file) to the line before the next marker (or the end of the file). Without
+ * markers the whole file is one cell.
+ */
+export function cellAt(
+  doc: Text,
+  line: number
+): { fromLine: number; toLine: number } {
+  let fromLine = line
+  while (fromLine > 1 && !isCellMarker(doc.line(fromLine).text)) {
+    fromLine--
+  }
+  let toLine = line
+  while (toLine < doc.lines && !isCellMarker(doc.line(toLine + 1).text)) {
+    toLine++
+  }
+  return { fromLine, toLine }
+}
+
+/**
+ * Lines of the document made runnable on their own: indentation they all share is
+ * removed, so the body of a loop can be run, and blank lines are put in front
+ */
+export function fragmentOf(
+  doc: Text,
+  fromLine: number,
+  toLine: number
+): CodeFragment {
+  const lines: string[] = []
+  for (let line = fromLine; line <= toLine; line++) {
+    lines.push(doc.line(line).text)
+  }
+  const indents = lines
+    .filter((text) => text.trim() !== '')
+    .map((text) => text.match(/^[ \t]*/)![0].length)
+  const indent = indents.length > 0 ? Math.min(...indents) : 0
+  const body = lines.map((text) => text.slice(indent)).join('\n')
+  return { code: '\n'.repeat(fromLine - 1) + body, fromLine, toLine }
+}
+
+/**
+ * What Shift+Enter runs: the selected lines, or the cell the cursor is in
+ */
+export function fragmentToRun(state: EditorState): CodeFragment {
+  const { doc } = state
+  const selection = state.selection.main
+  if (!selection.empty) {
+    const fromLine = doc.lineAt(selection.from).number
+    // A selection ending at the start of a line doesn't include that line
+    const end = doc.lineAt(selection.to)
+    const toLine =
+      end.from === selection.to && end.number > fromLine
+        ? end.number - 1
+        : end.number
+    return fragmentOf(doc, fromLine, toLine)
+  }
+  const { fromLine, toLine } = cellAt(doc, doc.lineAt(selection.head).number)
+  return fragmentOf(doc, fromLine, toLine)
+}
+
+/**
+ * Shift+Enter runs the selection or the current cell. Ahead of the editor's own
+ * keys, which would otherwise insert a line break.
+ */
+export function runFragmentKeymap(
+  run: (fragment: CodeFragment) => void
+): Extension {
+  return Prec.highest(
+    keymap.of([
+      {
+        key: 'Shift-Enter',
+        run: (view) => {
+          run(fragmentToRun(view.state))
+          return true
+        }
+      }
+    ])
+  )
+}
+
+const cellMarkerDecoration = Decoration.line({ class: 'cm-cell-marker' })
+
+function cellMarkerDecorations(view: EditorView): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>()
+  for (const { from, to } of view.visibleRanges) {
+    for (let pos = from; pos <= to; ) {
+      const line = view.state.doc.lineAt(pos)
+      if (isCellMarker(line.text)) {
+        builder.add(line.from, line.from, cellMarkerDecoration)
+      }
+      pos = line.to + 1
+    }
+  }
+  return builder.finish()
+}
+
+/**
+ * Draws a line above each `# %%` marker, so the cells stand apart
+ */
+export const cellMarkers = [
+  ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet
+
+      constructor(view: EditorView) {
+        this.decorations = cellMarkerDecorations(view)
+      }
+
+      update(update: ViewUpdate) {
+        if (update.docChanged || update.viewportChanged) {
+          this.decorations = cellMarkerDecorations(update.view)
+        }
+      }
+    },
+    { decorations: (plugin) => plugin.decorations }
+  ),
+  EditorView.baseTheme({
+    '.cm-cell-marker': { borderTop: '1px solid rgba(148, 163, 184, 0.6)' }
+  })
+]
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import { EditorState, Text } from '@uiw/react-codemirror'
+import {
+  debugLineField,
+  errorDiagnostics,
+  lintDiagnostics,
+  positionAt,
+  setDebugLine
+} from './editorMarkers'
+import type { LintProblem, PythonError } from '../services/pyodide'
+
+const doc = Text.of([
+  'def greet(name):',
+  '    return 1 / 0',
+  '',
+  'greet("Ada")'
+])
+
+const error: PythonError = {
+  type: 'ZeroDivisionError',
+  message: 'division by zero',
+  file: null,
+  line: 2,
+  column: null,
+  frames: [
+    { file: null, line: 4, name: '<module>' },
+    { file: null, line: 2, name: 'greet' }
+  ]
+}
+
+describe('positionAt', () => {
+  it('should point at the given column', () => {
+    expect(positionAt(doc, 2, 12)).toBe(doc.line(2).from + 11)
+  })
+
+  it('should point at the first non-blank character without a column', () => {
+    expect(positionAt(doc, 2)).toBe(doc.line(2).from + 4)
+  })
+
+  it('should clamp positions outside the document', () => {
+    expect(positionAt(doc, 99)).toBe(doc.line(4).from)
+    expect(positionAt(doc, 1, 500)).toBe(doc.line(1).to)
+  })
+})
+
+describe('errorDiagnostics', () => {
+  it('should mark the rest of the line the error was raised on', () => {
+    // Act
+    const diagnostics = errorDiagnostics(doc, error)
+
+    // Assert
+    expect(diagnostics).toEqual([
+      {
+        from: doc.line(2).from + 4,
+        to: doc.line(2).to,
+        severity: 'error',
+        message: 'ZeroDivisionError: division by zero',
+        source: 'Python'
+      }
+    ])
+  })
+
+  it('should not mark anything without an error or a line in the code', () => {
+    expect(errorDiagnostics(doc, null)).toEqual([])
+    expect(errorDiagnostics(doc, { ...error, line: null })).toEqual([])
+  })
+
+  it('should not mark a line the code no longer has', () => {
+    expect(errorDiagnostics(doc, { ...error, line: 10 })).toEqual([])
+  })
+})
+
+describe('lintDiagnostics', () => {
+  const problem: LintProblem = {
+    line: 4,
+    column: 1,
+    endLine: 4,
+    endColumn: 6,
+    severity: 'warning',
+    message: "'greet' is imported but never used."
+  }
+
+  it('should mark each problem from its start to its end', () => {
+    // Act
+    const diagnostics = lintDiagnostics(doc, [problem])
+
+    // Assert
+    expect(diagnostics).toEqual([
+      {
+        from: doc.line(4).from,
+        to: doc.line(4).from + 5,
+        severity: 'warning',
+        message: "'greet' is imported but never used.",
+        source: 'Lint'
+      }
+    ])
+  })
+
+  it('should keep problems past the end of the document inside it', () => {
+    // Act
+    const [diagnostic] = lintDiagnostics(doc, [
+      { ...problem, line: 9, endLine: 9 }
+    ])
+
+    // Assert
+    expect(diagnostic.from).toBe(doc.line(4).from)
+    expect(diagnostic.to).toBeLessThanOrEqual(doc.length)
+  })
+})
+
+describe('debugLineField', () => {
+  const createState = () =>
+    EditorState.create({ doc, extensions: [debugLineField] })
+
+  it('should highlight the line it is moved to', () => {
+    // Act
+    const state = createState().update({
+      effects: setDebugLine.of(3)
+    }).state
+
+    // Assert
+    const field = state.field(debugLineField)
+    expect(field.size).toBe(1)
+    const cursor = field.iter()
+    expect(cursor.from).toBe(doc.line(3).from)
+  })
+
+  it('should remove the highlight with null, or for a line the code no longer has', () => {
+    // Arrange
+    const highlighted = createState().update({
+      effects: setDebugLine.of(2)
+    }).state
+
+    // Act & Assert
+    expect(
+      highlighted
+        .update({ effects: setDebugLine.of(null) })
+        .state.field(debugLineField).size
+    ).toBe(0)
+    expect(
+      highlighted
+        .update({ effects: setDebugLine.of(99) })
+        .state.field(debugLineField).size
+    ).toBe(0)
+  })
+})
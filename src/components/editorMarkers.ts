@@ -0,0 +1,112 @@
+import type { Diagnostic } from '@codemirror/lint'
+import {
+  Decoration,
+  EditorView,
+  StateEffect,
+  StateField,
+  type DecorationSet,
+  type Text
+} from '@uiw/react-codemirror'
+import type { LintProblem, PythonError } from '../services/pyodide'
+
+/**
+ * Where the editor should put the cursor, e.g. after clicking a traceback frame.
+ * A new object is created for every request, so jumping to the same line twice works.
+ */
+export interface CursorTarget {
+  // 1-based
+  line: number
+  column?: number | null
+}
+
+/**
+ * Document offset of a 1-based line and column. Without a column, this is the first
+ * non-blank character of the line. Out of range values are clamped to the document.
+ */
+export function positionAt(
+  doc: Text,
+  line: number,
+  column?: number | null
+): number {
+  const docLine = doc.line(Math.min(Math.max(line, 1), doc.lines))
+  const offset = column ? column - 1 : docLine.text.search(/\S|$/)
+  return docLine.from + Math.min(Math.max(offset, 0), docLine.length)
+}
+
+/**
+ * Diagnostics that mark the line an exception was raised on: a gutter marker and
+ * a squiggle from the error's column (or the start of the code) to the end of the line.
+ */
+export function errorDiagnostics(
+  doc: Text,
+  error: PythonError | null
+): Diagnostic[] {
+  if (!error || error.line === null || error.line > doc.lines) {
+    return []
+  }
+  const from = positionAt(doc, error.line, error.column)
+  return [
+    {
+      from,
+      to: Math.max(doc.line(error.line).to, from),
+      severity: 'error',
+      message: error.message ? `${error.type}: ${error.message}` : error.type,
+      source: 'Python'
+    }
+  ]
+}
+
+/**
+ * Diagnostics for the problems the linter found. Problems are found a little after
+ * the text was typed, so positions past the end of the document are clamped to it.
+ */
+export function lintDiagnostics(
+  doc: Text,
+  problems: LintProblem[]
+): Diagnostic[] {
+  return problems.map((problem) => {
+    const from = positionAt(doc, problem.line, problem.column)
+    return {
+      from,
+      to: Math.max(positionAt(doc, problem.endLine, problem.endColumn), from),
+      severity: problem.severity,
+      message: problem.message,
+      source: 'Lint'
+    }
+  })
+}
+
+/**
+ * Moves the debugger's line highlight to a 1-based line, or removes it with null
+ */
+export const setDebugLine = StateEffect.define<number | null>()
+
+const debugLineDecoration = Decoration.line({ class: 'cm-debug-line' })
+
+/**
+ * Highlights the line the debugger is paused on, set with the setDebugLine effect.
+ * The highlight follows the line when text is edited above it.
+ */
+export const debugLineField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(decorations, transaction) {
+    let updated = decorations.map(transaction.changes)
+    for (const effect of transaction.effects) {
+      if (effect.is(setDebugLine)) {
+        const { doc } = transaction.state
+        updated =
+          effect.value === null || effect.value > doc.lines
+            ? Decoration.none
+            : Decoration.set(
+                debugLineDecoration.range(doc.line(effect.value).from)
+              )
+      }
+    }
+    return updated
+  },
+  provide: (field) => EditorView.decorations.from(field)
+})
+
+export const debugLineTheme = EditorView.baseTheme({
+  '.cm-debug-line': { backgroundColor: 'rgba(234, 179, 8, 0.3)' }
+})
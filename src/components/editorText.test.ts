@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { history, undo } from '@codemirror/commands'
+import {
+  EditorSelection,
+  EditorState,
+  type Transaction,
+  type ViewUpdate
+} from '@uiw/react-codemirror'
+import { insertCode, isExternalChange, replaceCode } from './editorText'
+
+// What isExternalChange reads of an update
+function updateFor(transaction: Transaction): ViewUpdate {
+  return { transactions: [transaction] } as unknown as ViewUpdate
+}
+
+describe('replaceCode', () => {
+  it('changes only the part of the text that differs', () => {
+    // Arrange
+    const state = EditorState.create({ doc: 'x = 1\nprint(x)\n' })
+
+    // Act
+    const spec = replaceCode(state, 'x = 42\nprint(x)\n')
+
+    // Assert
+    expect(spec.changes).toEqual({ from: 4, to: 5, insert: '42' })
+    expect(state.update(spec).state.doc.toString()).toBe('x = 42\nprint(x)\n')
+  })
+
+  it('replaces text that has nothing in common', () => {
+    // Arrange
+    const state = EditorState.create({ doc: 'abc' })
+
+    // Act
+    const spec = replaceCode(state, 'xyz')
+
+    // Assert
+    expect(spec.changes).toEqual({ from: 0, to: 3, insert: 'xyz' })
+  })
+
+  it('does not let a repeated character overlap the start and end', () => {
+    // Arrange
+    const state = EditorState.create({ doc: 'aa' })
+
+    // Act
+    const spec = replaceCode(state, 'aaa')
+
+    // Assert
+    expect(state.update(spec).state.doc.toString()).toBe('aaa')
+  })
+
+  it('can be undone on its own, without undoing the typing before it', () => {
+    // Arrange
+    let state = EditorState.create({ doc: '', extensions: [history()] })
+    const dispatch = (transaction: Transaction) => {
+      state = transaction.state
+    }
+    dispatch(state.update({ changes: { from: 0, insert: 'print(1)' } }))
+    dispatch(state.update(replaceCode(state, 'print(2)')))
+
+    // Act
+    undo({ state, dispatch })
+
+    // Assert
+    expect(state.doc.toString()).toBe('print(1)')
+  })
+})
+
+describe('isExternalChange', () => {
+  it('tells replacements apart from edits', () => {
+    // Arrange
+    const state = EditorState.create({ doc: 'a' })
+
+    // Act
+    const replaced = state.update(replaceCode(state, 'b'))
+    const typed = state.update({ changes: { from: 1, insert: 'b' } })
+
+    // Assert
+    expect(isExternalChange(updateFor(replaced))).toBe(true)
+    expect(isExternalChange(updateFor(typed))).toBe(false)
+  })
+})
+
+describe('insertCode', () => {
+  // The text after inserting `code` where | is in `doc`, with | where the cursor ends up
+  const insert = (doc: string, code: string) => {
+    const state = EditorState.create({
+      doc: doc.replace('|', ''),
+      selection: EditorSelection.cursor(doc.indexOf('|'))
+    })
+    const next = state.update(insertCode(state, code)).state
+    const cursor = next.selection.main.head
+    const text = next.doc.toString()
+    return text.slice(0, cursor) + '|' + text.slice(cursor)
+  }
+
+  it('should put the snippet in at the cursor on an empty line', () => {
+    expect(insert('a = 1\n|', 'print(a)\n')).toBe('a = 1\nprint(a)|')
+  })
+
+  it('should indent the snippet like the line it goes in', () => {
+    expect(insert('def f():\n    |', 'x = 1\nreturn x')).toBe(
+      'def f():\n    x = 1\n    return x|'
+    )
+  })
+
+  it("should start a line of its own after code on the cursor's line", () => {
+    expect(insert('a = 1|\nb = 2', 'print(a)')).toBe('a = 1\nprint(a)|\nb = 2')
+  })
+
+  it('should keep code after the cursor on a line of its own', () => {
+    expect(insert('|print(a)', 'a = 1')).toBe('a = 1|\nprint(a)')
+  })
+
+  it('should be an edit like any other', () => {
+    // Arrange
+    const state = EditorState.create({ doc: '' })
+
+    // Act
+    const transaction = state.update(insertCode(state, 'x'))
+
+    // Assert
+    expect(isExternalChange(updateFor(transaction))).toBe(false)
+  })
+})
@@ -0,0 +1,94 @@
+import { isolateHistory } from '@codemirror/commands'
+import {
+  Annotation,
+  type EditorState,
+  type TransactionSpec,
+  type ViewUpdate
+} from '@uiw/react-codemirror'
+
+// Marks text put into the editor from outside, e.g. a project being loaded
+const externalChange = Annotation.define<boolean>()
+
+/**
+ * Turns the editor's text into `code`, changing only the part that differs, so the
+ * cursor stays where it was when it can. The change is a step of its own in the
+ * undo history, so Ctrl+Z brings back the text it replaced.
+ */
+export function replaceCode(state: EditorState, code: string): TransactionSpec {
+  const current = state.doc.toString()
+  let start = 0
+  while (
+    start < current.length &&
+    start < code.length &&
+    current[start] === code[start]
+  ) {
+    start++
+  }
+  let end = 0
+  while (
+    end < current.length - start &&
+    end < code.length - start &&
+    current[current.length - 1 - end] === code[code.length - 1 - end]
+  ) {
+    end++
+  }
+  return {
+    changes: {
+      from: start,
+      to: current.length - end,
+      insert: code.slice(start, code.length - end)
+    },
+    annotations: [externalChange.of(true), isolateHistory.of('full')]
+  }
+}
+
+/**
+ * Whether an update came from replaceCode rather than from the student typing
+ */
+export function isExternalChange(update: ViewUpdate): boolean {
+  return update.transactions.some((transaction) =>
+    transaction.annotation(externalChange)
+  )
+}
+
+/**
+ * A snippet to put in the editor at the cursor. A new object is passed for every
+ * request, so inserting the same snippet twice works.
+ */
+export interface CodeInsertion {
+  code: string
+}
+
+/**
+ * Puts a snippet in at the cursor, in place of any selection. The snippet goes on
+ * lines of its own, indented like the line it goes in, and the cursor ends up
+ * after it. Unlike replaceCode, this is an edit like any other.
+ */
+export function insertCode(state: EditorState, code: string): TransactionSpec {
+  const { from, to } = state.selection.main
+  const line = state.doc.lineAt(from)
+  const before = state.sliceDoc(line.from, from)
+  const after = state.sliceDoc(to, state.doc.lineAt(to).to)
+  const indent = /^\s*/.exec(line.text)?.[0] ?? ''
+
+  const lines = code.replace(/\n+$/, '').split('\n')
+  let text = lines
+    .map((text, index) => (index === 0 || text === '' ? text : indent + text))
+    .join('\n')
+  if (before.trim() !== '') {
+    text = '\n' + indent + text
+  } else {
+    // The cursor is in the line's indentation; the snippet starts at its end
+    text = indent.slice(before.length) + text
+  }
+  const cursor = from + text.length
+  if (after.trim() !== '') {
+    text += '\n' + indent
+  }
+  return {
+    changes: { from, to, insert: text },
+    selection: { anchor: cursor },
+    scrollIntoView: true,
+    userEvent: 'input.paste'
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines } from './lineDiff'
+
+describe('diffLines', () => {
+  it('should keep the lines both versions share and mark the rest', () => {
+    // Act
+    const lines = diffLines('a = 1\nprint(a)\n', 'a = 2\nprint(a)\nprint(3)\n')
+
+    // Assert
+    expect(lines).toEqual([
+      { kind: 'removed', text: 'a = 1' },
+      { kind: 'added', text: 'a = 2' },
+      { kind: 'same', text: 'print(a)' },
+      { kind: 'added', text: 'print(3)' },
+      { kind: 'same', text: '' }
+    ])
+  })
+
+  it('should mark every line of a new or emptied file', () => {
+    expect(diffLines('', 'x\ny')).toEqual([
+      { kind: 'added', text: 'x' },
+      { kind: 'added', text: 'y' }
+    ])
+    expect(diffLines('x', '')).toEqual([{ kind: 'removed', text: 'x' }])
+  })
+
+  it('should find no changes in the same text', () => {
+    expect(
+      diffLines(
+        'for i in range(3):\n    print(i)',
+        'for i in range(3):\n    print(i)'
+      ).every((line) => line.kind === 'same')
+    ).toBe(true)
+  })
+
+  it('should swap the lines of texts too long to compare', () => {
+    // Arrange
+    const before = Array.from({ length: 1200 }, (_, i) => `a${i}`).join('\n')
+    const after = Array.from({ length: 1200 }, (_, i) => `b${i}`).join('\n')
+
+    // Act
+    const lines = diffLines(before, after)
+
+    // Assert
+    expect(lines).toHaveLength(2400)
+    expect(lines[0]).toEqual({ kind: 'removed', text: 'a0' })
+    expect(lines[1200]).toEqual({ kind: 'added', text: 'b0' })
+  })
+})
@@ -0,0 +1,57 @@
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// Past this many cells the table gets too big, and the lines are just swapped
+const MAX_TABLE_SIZE = 1_000_000
+
+/**
+ * The lines of `after` compared with those of `before`: the ones kept, the ones
+ * removed and the ones added, in order. Uses the longest common subsequence, so
+ * a changed line shows as removed, then added.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const old = before === '' ? [] : before.split('\n')
+  const next = after === '' ? [] : after.split('\n')
+  if ((old.length + 1) * (next.length + 1) > MAX_TABLE_SIZE) {
+    return [
+      ...old.map((text) => ({ kind: 'removed' as const, text })),
+      ...next.map((text) => ({ kind: 'added' as const, text }))
+    ]
+  }
+
+  // common[i][j] is the length of the longest common subsequence of old[i:] and next[j:]
+  const common = Array.from({ length: old.length + 1 }, () =>
+    new Array<number>(next.length + 1).fill(0)
+  )
+  for (let i = old.length - 1; i >= 0; i--) {
+    for (let j = next.length - 1; j >= 0; j--) {
+      common[i][j] =
+        old[i] === next[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < old.length || j < next.length) {
+    if (i < old.length && j < next.length && old[i] === next[j]) {
+      lines.push({ kind: 'same', text: old[i] })
+      i++
+      j++
+    } else if (
+      j === next.length ||
+      (i < old.length && common[i + 1][j] >= common[i][j + 1])
+    ) {
+      lines.push({ kind: 'removed', text: old[i] })
+      i++
+    } else {
+      lines.push({ kind: 'added', text: next[j] })
+      j++
+    }
+  }
+  return lines
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { highlightParts } from './searchHighlight'
+
+describe('highlightParts', () => {
+  it('should mark every word of the query, ignoring case', () => {
+    expect(
+      highlightParts('Dictionaries map keys to values', 'dict KEYS')
+    ).toEqual([
+      { text: 'Dict', match: true },
+      { text: 'ionaries map ', match: false },
+      { text: 'keys', match: true },
+      { text: ' to values', match: false }
+    ])
+  })
+
+  it('should prefer the longer of two words that overlap', () => {
+    expect(highlightParts('use format()', 'for format')).toEqual([
+      { text: 'use ', match: false },
+      { text: 'format', match: true },
+      { text: '()', match: false }
+    ])
+  })
+
+  it('should treat the query as plain text', () => {
+    expect(highlightParts('x = a[0] + b', 'a[0]')).toEqual([
+      { text: 'x = ', match: false },
+      { text: 'a[0]', match: true },
+      { text: ' + b', match: false }
+    ])
+  })
+
+  it('should leave the text alone when the query has no words', () => {
+    expect(highlightParts('print(1)', '  ')).toEqual([
+      { text: 'print(1)', match: false }
+    ])
+  })
+})
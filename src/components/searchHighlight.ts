@@ -0,0 +1,31 @@
+// A piece of a text, and whether it is one of the words searched for
+export interface HighlightPart {
+  text: string
+  match: boolean
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * A text split into the pieces that match a word of the query, ignoring case, and
+ * the pieces in between. Longer words are matched first, so that searching for
+ * "for format" marks all of "format".
+ */
+export function highlightParts(text: string, query: string): HighlightPart[] {
+  const words = query
+    .split(/\s+/)
+    .filter((word) => word !== '')
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+  if (words.length === 0) {
+    return text === '' ? [] : [{ text, match: false }]
+  }
+
+  // Splitting on a capturing group puts the matches at the odd positions
+  return text
+    .split(new RegExp(`(${words.join('|')})`, 'i'))
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((part) => part.text !== '')
+}
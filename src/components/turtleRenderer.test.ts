@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  CANVAS_SIZE,
+  createTurtlePlayer,
+  drawTurtles,
+  toCanvas
+} from './turtleRenderer'
+import type { TurtleCommand } from '../services/pyodide'
+
+// Records the drawing calls the player makes; happy-dom has no 2D canvas
+function createFakeContext() {
+  return {
+    fillStyle: '',
+    strokeStyle: '',
+    lineWidth: 1,
+    lineCap: 'butt',
+    font: '',
+    textAlign: 'start',
+    beginPath: vi.fn(),
+    closePath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+    arc: vi.fn(),
+    fillRect: vi.fn(),
+    clearRect: vi.fn(),
+    fillText: vi.fn(),
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn()
+  }
+}
+
+function move(
+  x: number,
+  y: number,
+  speed: number
+): Extract<TurtleCommand, { type: 'move' }> {
+  return {
+    type: 'move',
+    turtle: 0,
+    x,
+    y,
+    heading: 0,
+    pen: { color: 'red', width: 2 },
+    speed
+  }
+}
+
+describe('turtleRenderer', () => {
+  let ctx: ReturnType<typeof createFakeContext>
+  let player: ReturnType<typeof createTurtlePlayer>
+
+  beforeEach(() => {
+    ctx = createFakeContext()
+    player = createTurtlePlayer(ctx as unknown as CanvasRenderingContext2D)
+  })
+
+  it('should put the turtle origin in the middle of the canvas, with y up', () => {
+    expect(toCanvas(0, 0)).toEqual([CANVAS_SIZE / 2, CANVAS_SIZE / 2])
+    expect(toCanvas(10, 20)).toEqual([
+      CANVAS_SIZE / 2 + 10,
+      CANVAS_SIZE / 2 - 20
+    ])
+  })
+
+  it('should draw moves at speed 0 all at once', () => {
+    // Act
+    const busy = player.step([move(100, 0, 0), move(100, 50, 0)], null)
+
+    // Assert
+    expect(busy).toBe(false)
+    expect(ctx.stroke).toHaveBeenCalledTimes(2)
+    expect(ctx.lineTo).toHaveBeenLastCalledWith(...toCanvas(100, 50))
+    expect(ctx.strokeStyle).toBe('red')
+    expect(player.turtles()).toEqual([
+      { x: 100, y: 50, heading: 0, visible: true }
+    ])
+  })
+
+  it('should animate a move over several frames', () => {
+    // Arrange - 30 pixels at speed 1 takes ten frames
+    const commands = [move(30, 0, 1)]
+
+    // Act
+    const busy = player.step(commands, null)
+
+    // Assert
+    expect(busy).toBe(true)
+    expect(player.turtles()[0].x).toBeCloseTo(3)
+
+    // Finish the move
+    let frames = 1
+    let more = busy
+    while (more) {
+      more = player.step(commands, null)
+      frames++
+    }
+    expect(frames).toBe(10)
+    expect(player.turtles()[0].x).toBe(30)
+  })
+
+  it('should pick up new commands where the last frame stopped', () => {
+    // Arrange
+    const commands = [move(100, 0, 0)]
+    player.step(commands, null)
+
+    // Act
+    commands.push(move(100, 100, 0))
+    player.step(commands, null)
+
+    // Assert
+    expect(ctx.stroke).toHaveBeenCalledTimes(2)
+    expect(player.turtles()[0]).toMatchObject({ x: 100, y: 100 })
+  })
+
+  it('should use the speed override instead of the speed in the code', () => {
+    // Act
+    const busy = player.step([move(300, 0, 1)], 0)
+
+    // Assert
+    expect(busy).toBe(false)
+    expect(player.turtles()[0].x).toBe(300)
+  })
+
+  it('should redraw without the lines of a turtle that was cleared', () => {
+    // Arrange
+    const commands: TurtleCommand[] = [
+      move(100, 0, 0),
+      { ...move(0, 100, 0), turtle: 1 }
+    ]
+    player.step(commands, null)
+    ctx.stroke.mockClear()
+
+    // Act
+    player.step([...commands, { type: 'clear', turtle: 0 }], null)
+
+    // Assert - only turtle 1's line is drawn again
+    expect(ctx.stroke).toHaveBeenCalledTimes(1)
+    expect(ctx.lineTo).toHaveBeenLastCalledWith(...toCanvas(0, 100))
+  })
+
+  it('should paint the background, dots, fills and text', () => {
+    // Act
+    player.step(
+      [
+        { type: 'background', color: 'black' },
+        { type: 'dot', turtle: 0, x: 0, y: 0, size: 10, color: 'blue' },
+        {
+          type: 'fill',
+          turtle: 0,
+          points: [
+            [0, 0],
+            [10, 0],
+            [0, 10]
+          ],
+          color: 'green'
+        },
+        {
+          type: 'write',
+          turtle: 0,
+          x: 0,
+          y: 0,
+          text: 'Hi',
+          color: 'white',
+          align: 'center',
+          font: '8pt Arial'
+        }
+      ],
+      null
+    )
+
+    // Assert
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, CANVAS_SIZE, CANVAS_SIZE)
+    expect(ctx.arc).toHaveBeenCalledWith(200, 200, 5, 0, 2 * Math.PI)
+    expect(ctx.fill).toHaveBeenCalledTimes(2)
+    expect(ctx.fillText).toHaveBeenCalledWith('Hi', 200, 200)
+    expect(ctx.textAlign).toBe('center')
+  })
+
+  it('should only draw turtles that are showing', () => {
+    // Arrange
+    player.step(
+      [
+        { type: 'show', turtle: 0, visible: true },
+        { type: 'show', turtle: 1, visible: false }
+      ],
+      null
+    )
+
+    // Act
+    drawTurtles(ctx as unknown as CanvasRenderingContext2D, player.turtles())
+
+    // Assert
+    expect(ctx.clearRect).toHaveBeenCalledWith(0, 0, CANVAS_SIZE, CANVAS_SIZE)
+    expect(ctx.translate).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,271 @@
+import type { TurtleCommand } from '../services/pyodide'
+
+/**
+ * Plays back the drawing steps made by Python's turtle module (see
+ * services/python/turtle.py) onto a canvas, a little at a time so that students
+ * can watch the turtle move. Used by TurtleCanvas.
+ */
+
+// Width and height of the canvas; the turtle starts in the middle, at (0, 0)
+export const CANVAS_SIZE = 400
+
+// How far a turtle moves and turns per animation frame at speed 1; speed 10 is ten times as fast
+const PIXELS_PER_FRAME = 3
+const DEGREES_PER_FRAME = 10
+
+export interface TurtlePose {
+  x: number
+  y: number
+  heading: number
+  visible: boolean
+}
+
+type MoveCommand = Extract<TurtleCommand, { type: 'move' }>
+
+interface Point {
+  x: number
+  y: number
+}
+
+// Something left on the canvas, kept so the canvas can be redrawn after a clear
+type Mark =
+  | Extract<TurtleCommand, { type: 'fill' | 'dot' | 'write' }>
+  | {
+      type: 'line'
+      turtle: number
+      from: Point
+      to: Point
+      pen: NonNullable<MoveCommand['pen']>
+    }
+
+// A move that is partway through being animated
+interface ActiveMove {
+  command: MoveCommand
+  from: TurtlePose
+  frames: number
+  frame: number
+}
+
+/**
+ * Canvas coordinates of a point in turtle coordinates, where y points up
+ */
+export function toCanvas(x: number, y: number): [number, number] {
+  return [CANVAS_SIZE / 2 + x, CANVAS_SIZE / 2 - y]
+}
+
+// The difference between two headings, going the short way round
+function turnBetween(from: number, to: number): number {
+  return ((((to - from) % 360) + 540) % 360) - 180
+}
+
+function drawLine(
+  ctx: CanvasRenderingContext2D,
+  from: Point,
+  to: Point,
+  pen: NonNullable<MoveCommand['pen']>
+) {
+  ctx.strokeStyle = pen.color
+  ctx.lineWidth = pen.width
+  ctx.lineCap = 'round'
+  ctx.beginPath()
+  ctx.moveTo(...toCanvas(from.x, from.y))
+  ctx.lineTo(...toCanvas(to.x, to.y))
+  ctx.stroke()
+}
+
+/**
+ * Draw the classic turtle arrowhead for every visible turtle
+ */
+export function drawTurtles(
+  ctx: CanvasRenderingContext2D,
+  turtles: TurtlePose[]
+) {
+  ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE)
+  for (const turtle of turtles) {
+    if (!turtle.visible) {
+      continue
+    }
+    const [x, y] = toCanvas(turtle.x, turtle.y)
+    ctx.save()
+    ctx.translate(x, y)
+    ctx.rotate((-turtle.heading * Math.PI) / 180)
+    ctx.fillStyle = 'black'
+    ctx.beginPath()
+    ctx.moveTo(0, 0)
+    ctx.lineTo(-9, 5)
+    ctx.lineTo(-7, 0)
+    ctx.lineTo(-9, -5)
+    ctx.closePath()
+    ctx.fill()
+    ctx.restore()
+  }
+}
+
+/**
+ * Creates a player that draws turtle commands onto `ctx`. Call step() once per
+ * animation frame with every command the run has made so far; it picks up where
+ * the previous frame stopped. `speedOverride` replaces the speed each move was
+ * made at (0 draws at once), or is null to use the speeds set in the code.
+ */
+export function createTurtlePlayer(ctx: CanvasRenderingContext2D) {
+  const poses = new Map<number, TurtlePose>()
+  let drawn: Mark[] = []
+  let background = 'white'
+  let next = 0
+  let active: ActiveMove | null = null
+
+  const poseOf = (turtle: number): TurtlePose => {
+    let pose = poses.get(turtle)
+    if (!pose) {
+      pose = { x: 0, y: 0, heading: 0, visible: true }
+      poses.set(turtle, pose)
+    }
+    return pose
+  }
+
+  const paint = (command: Mark) => {
+    if (command.type === 'line') {
+      drawLine(ctx, command.from, command.to, command.pen)
+    } else if (command.type === 'fill') {
+      ctx.fillStyle = command.color
+      ctx.beginPath()
+      for (const [x, y] of command.points) {
+        ctx.lineTo(...toCanvas(x, y))
+      }
+      ctx.closePath()
+      ctx.fill()
+    } else if (command.type === 'dot') {
+      const [x, y] = toCanvas(command.x, command.y)
+      ctx.fillStyle = command.color
+      ctx.beginPath()
+      ctx.arc(x, y, command.size / 2, 0, 2 * Math.PI)
+      ctx.fill()
+    } else if (command.type === 'write') {
+      ctx.fillStyle = command.color
+      ctx.font = command.font
+      ctx.textAlign = command.align
+      ctx.fillText(command.text, ...toCanvas(command.x, command.y))
+    }
+  }
+
+  const repaint = () => {
+    ctx.fillStyle = background
+    ctx.fillRect(0, 0, CANVAS_SIZE, CANVAS_SIZE)
+    drawn.forEach(paint)
+  }
+
+  const finishMove = (move: MoveCommand, from: Point) => {
+    const pose = poseOf(move.turtle)
+    pose.x = move.x
+    pose.y = move.y
+    pose.heading = move.heading
+    if (move.pen) {
+      drawn.push({
+        type: 'line',
+        turtle: move.turtle,
+        from: { x: from.x, y: from.y },
+        to: { x: move.x, y: move.y },
+        pen: move.pen
+      })
+    }
+  }
+
+  // Carry out a command that isn't animated
+  const apply = (command: TurtleCommand) => {
+    if (command.type === 'move') {
+      const from = { ...poseOf(command.turtle) }
+      finishMove(command, from)
+      if (command.pen) {
+        drawLine(ctx, from, command, command.pen)
+      }
+    } else if (command.type === 'show') {
+      poseOf(command.turtle).visible = command.visible
+    } else if (command.type === 'clear') {
+      // Clearing the screen (turtle null) removes every turtle's drawing
+      drawn = drawn.filter(
+        (mark) => command.turtle !== null && mark.turtle !== command.turtle
+      )
+      repaint()
+    } else if (command.type === 'background') {
+      background = command.color
+      repaint()
+    } else {
+      drawn.push(command)
+      paint(command)
+    }
+  }
+
+  // Move the active turtle one frame further; true once the move is complete
+  const advance = (move: ActiveMove): boolean => {
+    move.frame += 1
+    const { command, from } = move
+    const progress = move.frame / move.frames
+    const pose = poseOf(command.turtle)
+    const previous = { x: pose.x, y: pose.y }
+    pose.x = from.x + (command.x - from.x) * progress
+    pose.y = from.y + (command.y - from.y) * progress
+    pose.heading =
+      from.heading + turnBetween(from.heading, command.heading) * progress
+    if (command.pen) {
+      drawLine(ctx, previous, pose, command.pen)
+    }
+    if (move.frame < move.frames) {
+      return false
+    }
+    finishMove(command, from)
+    return true
+  }
+
+  repaint()
+
+  return {
+    /**
+     * Draw the next frame. Returns true while there is more to draw.
+     */
+    step(commands: TurtleCommand[], speedOverride: number | null): boolean {
+      if (active && speedOverride === 0) {
+        // Switched to instant partway through a move
+        active.frame = active.frames - 1
+      }
+      while (active || next < commands.length) {
+        if (active) {
+          const done = advance(active)
+          if (done) {
+            active = null
+          }
+          // One animated move per frame, so that the turtle can be seen moving
+          return next < commands.length || !done
+        }
+        const command = commands[next++]
+        const speed =
+          command.type === 'move' ? speedOverride ?? command.speed : 0
+        if (command.type !== 'move' || speed === 0) {
+          apply(command)
+          continue
+        }
+        const from = { ...poseOf(command.turtle) }
+        const distance = Math.hypot(command.x - from.x, command.y - from.y)
+        const turn = Math.abs(turnBetween(from.heading, command.heading))
+        const frames = Math.ceil(
+          Math.max(
+            distance / (speed * PIXELS_PER_FRAME),
+            turn / (speed * DEGREES_PER_FRAME)
+          )
+        )
+        if (frames <= 1) {
+          apply(command)
+          return next < commands.length
+        }
+        active = { command, from, frames, frame: 0 }
+      }
+      return false
+    },
+
+    /**
+     * Where each turtle is, for drawing them over the canvas
+     */
+    turtles(): TurtlePose[] {
+      return Array.from(poses.values())
+    }
+  }
+}
@@ -1,3 +1,11 @@
+// Split a comma-separated list, dropping blanks
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '')
+}
+
 // In your app config file
 export const config = {
   // Check if the config value is still the placeholder
@@ -7,7 +15,31 @@ export const config = {
       ? import.meta.env.VITE_PLAYDO_BACKEND_URL
       : window.PLAYDO_CONFIG?.backendUrl ||
         import.meta.env.VITE_PLAYDO_BACKEND_URL ||
-        ''
+        '',
+  // Wall-clock limit for a single run of student code before the interpreter is killed
+  executionTimeoutMs:
+    Number(window.PLAYDO_CONFIG?.executionTimeoutMs) ||
+    Number(import.meta.env.VITE_PLAYDO_EXECUTION_TIMEOUT_MS) ||
+    10000,
+  // Places to load the Pyodide runtime from, tried in order. Defaults to the copy
+  // bundled into the build output, so no CDN is needed.
+  pyodideUrls: (() => {
+    const urls = parseList(
+      window.PLAYDO_CONFIG?.pyodideUrls === '__PYODIDE_URLS_PLACEHOLDER__'
+        ? import.meta.env.VITE_PLAYDO_PYODIDE_URLS
+        : window.PLAYDO_CONFIG?.pyodideUrls ||
+            import.meta.env.VITE_PLAYDO_PYODIDE_URLS
+    )
+    return urls.length > 0 ? urls : ['/pyodide/']
+  })(),
+  // Modules beyond the standard library that student code may import. They are
+  // installed from the Pyodide mirror on first import; anything else is refused.
+  allowedPackages: parseList(
+    window.PLAYDO_CONFIG?.allowedPackages === '__ALLOWED_PACKAGES_PLACEHOLDER__'
+      ? import.meta.env.VITE_PLAYDO_ALLOWED_PACKAGES
+      : window.PLAYDO_CONFIG?.allowedPackages ||
+          import.meta.env.VITE_PLAYDO_ALLOWED_PACKAGES
+  )
 }
 
 if (!config.backendUrl) {
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { explainError, questionAbout } from '.'
+import type { PythonError } from '../services/pyodide'
+
+const error = (
+  type: string,
+  message: string,
+  line: number | null = 3
+): PythonError => ({
+  type,
+  message,
+  file: 'main.py',
+  line,
+  column: null,
+  frames: []
+})
+
+describe('explainError', () => {
+  it('should name the unknown name in a NameError', () => {
+    // Act
+    const explanation = explainError(
+      error('NameError', "name 'pritn' is not defined")
+    )
+
+    // Assert
+    expect(explanation?.title).toBe("Python doesn't know the name 'pritn'")
+    expect(explanation?.explanation).toContain('on line 3')
+  })
+
+  it('should explain adding text and a number, whichever comes first', () => {
+    // Act
+    const textFirst = explainError(
+      error('TypeError', 'can only concatenate str (not "int") to str')
+    )
+    const numberFirst = explainError(
+      error('TypeError', "unsupported operand type(s) for +: 'int' and 'str'")
+    )
+
+    // Assert
+    expect(textFirst?.title).toBe("Text and numbers can't be added together")
+    expect(numberFirst).toEqual(textFirst)
+  })
+
+  it('should tell the kinds of IndentationError apart', () => {
+    // Act & Assert
+    expect(
+      explainError(
+        error(
+          'IndentationError',
+          "expected an indented block after 'if' statement on line 2"
+        )
+      )?.title
+    ).toBe('A block is missing its indented lines')
+    expect(
+      explainError(error('IndentationError', 'unexpected indent'))?.title
+    ).toBe("A line is indented when it shouldn't be")
+    expect(
+      explainError(
+        error(
+          'IndentationError',
+          'unindent does not match any outer indentation level'
+        )
+      )?.title
+    ).toBe("The indentation doesn't line up")
+  })
+
+  it('should leave out the line when the error is not in the code', () => {
+    // Act
+    const explanation = explainError(
+      error('ZeroDivisionError', 'division by zero', null)
+    )
+
+    // Assert
+    expect(explanation?.explanation).toBe(
+      'The code divides by a value that is 0, which has no answer.'
+    )
+  })
+
+  it('should not explain errors it does not know', () => {
+    // Act & Assert
+    expect(explainError(error('OverflowError', 'math range error'))).toBeNull()
+    expect(explainError(error('TypeError', 'unhashable type: list'))).toBeNull()
+  })
+})
+
+describe('questionAbout', () => {
+  it('should ask about the error with where it happened', () => {
+    // Act & Assert
+    expect(
+      questionAbout(error('NameError', "name 'pritn' is not defined"))
+    ).toBe(
+      "I got this error on line 3 of main.py: NameError: name 'pritn' is not defined\nCan you help me understand what it means?"
+    )
+  })
+})
@@ -0,0 +1,311 @@
+import type { PythonError } from '../services/pyodide'
+
+/**
+ * What an error means, in words a beginner can follow
+ */
+export interface ErrorExplanation {
+  // e.g. "Python doesn't know the name 'pritn'"
+  title: string
+  // What went wrong, without jargon
+  explanation: string
+  // What to look at to fix it; never the fixed code itself
+  hint: string
+}
+
+interface CatalogueEntry {
+  // Exception types the entry is about
+  types: string[]
+  // Matched against the exception's message; the groups are passed to explain
+  message?: RegExp
+  explain: (groups: string[], error: PythonError) => ErrorExplanation
+}
+
+// "on line 3", or nothing when the line isn't in the student's code
+function onLine(error: PythonError): string {
+  return error.line === null ? '' : ` on line ${error.line}`
+}
+
+/**
+ * Common errors, most specific first; the first entry matching an error explains it
+ */
+const catalogue: CatalogueEntry[] = [
+  {
+    types: ['NameError'],
+    message: /name '(\w+)' is not defined/,
+    explain: ([name], error) => ({
+      title: `Python doesn't know the name '${name}'`,
+      explanation: `Your code uses '${name}'${onLine(
+        error
+      )}, but nothing called '${name}' has been created by then.`,
+      hint: `Check the spelling and capital letters, make sure '${name}' is given a value before this line, and put quotes around it if you meant it as text.`
+    })
+  },
+  {
+    types: ['UnboundLocalError'],
+    message: /'(\w+)'/,
+    explain: ([name], error) => ({
+      title: `'${name}' is used before it gets a value in this function`,
+      explanation: `The function sets '${name}' somewhere, so Python treats it as the function's own variable, but it is used${onLine(
+        error
+      )} before being set.`,
+      hint: `Give '${name}' a value at the start of the function, or pass it in as a parameter.`
+    })
+  },
+  {
+    types: ['IndentationError'],
+    message: /expected an indented block/,
+    explain: (_, error) => ({
+      title: 'A block is missing its indented lines',
+      explanation: `A line ending with a colon, like an if, for, while or def, has to be followed by at least one line indented under it, and the line${onLine(
+        error
+      )} isn't.`,
+      hint: 'Indent the lines that belong to the block by four spaces.'
+    })
+  },
+  {
+    types: ['IndentationError'],
+    message: /unexpected indent/,
+    explain: (_, error) => ({
+      title: "A line is indented when it shouldn't be",
+      explanation: `The line${onLine(
+        error
+      )} starts further right than the line above it, but it isn't inside a block.`,
+      hint: 'Line it up with the lines around it, or check that the line above ends with a colon if it should start a block.'
+    })
+  },
+  {
+    types: ['IndentationError', 'TabError'],
+    explain: (_, error) => ({
+      title: "The indentation doesn't line up",
+      explanation: `Python uses indentation to see which lines belong together, and the line${onLine(
+        error
+      )} doesn't match any of the lines above it.`,
+      hint: 'Use four spaces for each level and make lines in the same block start in the same column.'
+    })
+  },
+  {
+    types: ['SyntaxError'],
+    message: /unterminated (?:triple-quoted )?string literal/,
+    explain: (_, error) => ({
+      title: 'A piece of text is missing its closing quote',
+      explanation: `The text starting${onLine(
+        error
+      )} opens with a quote but never closes it.`,
+      hint: 'Add the matching quote at the end of the text, using the same kind of quote it starts with.'
+    })
+  },
+  {
+    types: ['SyntaxError'],
+    message: /'([([{])' was never closed/,
+    explain: ([bracket], error) => ({
+      title: `A '${bracket}' is never closed`,
+      explanation: `The '${bracket}'${onLine(
+        error
+      )} opens a bracket that doesn't have a matching closing one.`,
+      hint: 'Count the opening and closing brackets on that line and add the one that is missing.'
+    })
+  },
+  {
+    types: ['SyntaxError'],
+    message: /expected ':'/,
+    explain: (_, error) => ({
+      title: 'A colon is missing',
+      explanation: `Lines that start a block, like if, for, while and def, end with a colon, and the one${onLine(
+        error
+      )} doesn't.`,
+      hint: 'Add a colon at the end of the line.'
+    })
+  },
+  {
+    types: ['SyntaxError'],
+    explain: (_, error) => ({
+      title: "Python can't read this line",
+      explanation: `Something${onLine(
+        error
+      )} isn't written the way Python expects, so none of the code could run.`,
+      hint: 'Look for a missing bracket, quote, colon or comma on that line or the one before it. The arrow under the line points near the problem.'
+    })
+  },
+  {
+    types: ['TypeError'],
+    message:
+      /can only concatenate str \(not "(\w+)"\) to str|unsupported operand type\(s\) for \+: '(?:int|float)' and 'str'/,
+    explain: (_, error) => ({
+      title: "Text and numbers can't be added together",
+      explanation: `The +${onLine(
+        error
+      )} puts a piece of text and a number together. Python doesn't guess whether you want to do maths or join text.`,
+      hint: 'Turn the number into text with str(), or the text into a number with int() or float(), depending on what you want. An f-string like f"Score: {score}" also works.'
+    })
+  },
+  {
+    types: ['TypeError'],
+    message: /unsupported operand type\(s\) for (.+): '(\w+)' and '(\w+)'/,
+    explain: ([operator, left, right], error) => ({
+      title: `'${operator}' doesn't work on a ${left} and a ${right}`,
+      explanation: `The calculation${onLine(
+        error
+      )} uses '${operator}' on values of types that can't be combined that way.`,
+      hint: 'Check what each value really is, e.g. with print(type(value)). A value from input() is always text.'
+    })
+  },
+  {
+    types: ['TypeError'],
+    message: /'(\w+)' object is not callable/,
+    explain: ([type], error) => ({
+      title: "Something that isn't a function is being called",
+      explanation: `The code${onLine(
+        error
+      )} puts brackets after a ${type}, as if it were a function.`,
+      hint: 'Check for a variable with the same name as a function, such as one called list or str, or a missing operator before a bracket.'
+    })
+  },
+  {
+    types: ['TypeError'],
+    message: /(\w+)\(\) missing (\d+) required positional arguments?/,
+    explain: ([name, count], error) => ({
+      title: `${name}() needs more arguments`,
+      explanation: `The call${onLine(error)} gives ${name}() ${count} argument${
+        count === '1' ? '' : 's'
+      } fewer than it needs.`,
+      hint: `Look at the def line of ${name} to see what it expects, and pass a value for each parameter.`
+    })
+  },
+  {
+    types: ['TypeError'],
+    message:
+      /(\w+)\(\) takes (\d+) positional arguments? but (\d+) (?:was|were) given/,
+    explain: ([name, expected, given], error) => ({
+      title: `${name}() is given too many arguments`,
+      explanation: `${name}() takes ${expected}, but the call${onLine(
+        error
+      )} gives it ${given}.`,
+      hint: `Compare the call with the def line of ${name}. In a class, remember that self counts as one of them.`
+    })
+  },
+  {
+    types: ['ValueError'],
+    message: /invalid literal for int\(\) with base 10: (.*)/,
+    explain: ([text], error) => ({
+      title: `${text} isn't a whole number`,
+      explanation: `int()${onLine(
+        error
+      )} can only turn text made of digits into a number.`,
+      hint: 'Check what was typed or read. For numbers with a decimal point use float() instead.'
+    })
+  },
+  {
+    types: ['ZeroDivisionError'],
+    explain: (_, error) => ({
+      title: 'Dividing by zero',
+      explanation: `The code${onLine(
+        error
+      )} divides by a value that is 0, which has no answer.`,
+      hint: 'Find out why the value is 0 there, and check for it with an if before dividing.'
+    })
+  },
+  {
+    types: ['IndexError'],
+    message: /index out of range/,
+    explain: (_, error) => ({
+      title: 'That position is past the end',
+      explanation: `The code${onLine(
+        error
+      )} asks for an item at a position the list or text doesn't have. Positions start at 0, so the last one is one less than the length.`,
+      hint: 'Print the length with len() and the position you use, and check loops that go one step too far.'
+    })
+  },
+  {
+    types: ['KeyError'],
+    explain: (_, error) => ({
+      title: error.message
+        ? `The dictionary has no key ${error.message}`
+        : "The dictionary doesn't have that key",
+      explanation: `The code${onLine(error)} looks up ${
+        error.message || 'a key'
+      } in a dictionary that doesn't contain it.`,
+      hint: 'Check the spelling and type of the key, or use .get() to get a default when it is missing.'
+    })
+  },
+  {
+    types: ['AttributeError'],
+    message: /'(\w+)' object has no attribute '(\w+)'/,
+    explain: ([type, attribute], error) => ({
+      title: `A ${type} doesn't have '${attribute}'`,
+      explanation: `The code${onLine(
+        error
+      )} uses .${attribute} on a value that is a ${type}, and ${type} values don't have it.`,
+      hint: `Check the spelling of '${attribute}', and whether the value is the type you expect.`
+    })
+  },
+  {
+    types: ['ModuleNotFoundError'],
+    message: /No module named '([\w.]+)'/,
+    explain: ([module]) => ({
+      title: `There is no module called '${module}'`,
+      explanation: `Python couldn't find '${module}' to import. It may be misspelled, or not be available in Playdo.`,
+      hint: 'Check the spelling. If it is one of your own files, make sure the file exists in the project and ends in .py.'
+    })
+  },
+  {
+    types: ['RecursionError'],
+    explain: (_, error) => ({
+      title: 'A function keeps calling itself',
+      explanation: `A function${onLine(
+        error
+      )} called itself so many times that Python stopped it.`,
+      hint: 'Make sure the function has a case where it stops calling itself, and that every call gets closer to it.'
+    })
+  },
+  {
+    types: ['FileNotFoundError'],
+    message: /No such file or directory: '(.+)'/,
+    explain: ([file]) => ({
+      title: `There is no file called '${file}'`,
+      explanation: `The code tried to open '${file}', but the project has no file with that name.`,
+      hint: 'Check the spelling, or add the file to the project.'
+    })
+  },
+  {
+    types: ['EOFError'],
+    explain: (_, error) => ({
+      title: 'input() got nothing to read',
+      explanation: `The input()${onLine(
+        error
+      )} was waiting for a line, but there was no more input to give it.`,
+      hint: 'Type an answer into the output panel when the program asks for one.'
+    })
+  }
+]
+
+/**
+ * A beginner-friendly explanation of an error, or null if it isn't one of the
+ * common ones in the catalogue
+ */
+export function explainError(error: PythonError): ErrorExplanation | null {
+  for (const entry of catalogue) {
+    if (!entry.types.includes(error.type)) {
+      continue
+    }
+    if (!entry.message) {
+      return entry.explain([], error)
+    }
+    const match = entry.message.exec(error.message)
+    if (match) {
+      return entry.explain(
+        match.slice(1).filter((group) => group !== undefined),
+        error
+      )
+    }
+  }
+  return null
+}
+
+/**
+ * What the student asks the tutor when they want help with an error
+ */
+export function questionAbout(error: PythonError): string {
+  const where = error.line === null ? '' : ` on line ${error.line}`
+  const file = error.file ? ` of ${error.file}` : ''
+  return `I got this error${where}${file}: ${error.type}: ${error.message}\nCan you help me understand what it means?`
+}
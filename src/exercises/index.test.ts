@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { exercises, findExercise } from '.'
+
+describe('exercises', () => {
+  it('should give every exercise its own id and at least one test', () => {
+    // Act
+    const ids = exercises.map((exercise) => exercise.id)
+
+    // Assert
+    expect(new Set(ids).size).toBe(ids.length)
+    for (const exercise of exercises) {
+      expect(exercise.tests.length).toBeGreaterThan(0)
+    }
+  })
+
+  it('should give every test of an exercise its own name', () => {
+    for (const exercise of exercises) {
+      // Act
+      const names = exercise.tests.map((test) => test.name)
+
+      // Assert
+      expect(new Set(names).size).toBe(names.length)
+    }
+  })
+
+  it('should find exercises by id', () => {
+    // Act & Assert
+    expect(findExercise('add-numbers')?.title).toBe('Add two numbers')
+    expect(findExercise('no-such-exercise')).toBeUndefined()
+  })
+})
@@ -0,0 +1,82 @@
+import type { Exercise } from '../types'
+
+/**
+ * The exercises students can pick. Their tests are hidden: the student sees each
+ * test's name and, when it fails, why, but never its code.
+ */
+export const exercises: Exercise[] = [
+  {
+    id: 'hello-name',
+    title: 'Say hello',
+    prompt:
+      "Ask for the student's name with input('What is your name? ') and greet them with Hello, followed by the name and an exclamation mark. For example, if they type Ada, print Hello, Ada!",
+    starterCode: "name = input('What is your name? ')\n",
+    tests: [
+      {
+        name: 'greets Ada',
+        kind: 'output',
+        stdin: ['Ada'],
+        expectedOutput: 'What is your name? Hello, Ada!'
+      },
+      {
+        name: 'greets Grace',
+        kind: 'output',
+        stdin: ['Grace'],
+        expectedOutput: 'What is your name? Hello, Grace!'
+      }
+    ]
+  },
+  {
+    id: 'add-numbers',
+    title: 'Add two numbers',
+    prompt:
+      'Write a function add(a, b) that returns the sum of a and b. It should return the sum, not print it.',
+    starterCode: 'def add(a, b):\n    pass\n',
+    tests: [
+      {
+        name: 'add(2, 3) is 5',
+        kind: 'assertion',
+        code: "assert add(2, 3) == 5, f'add(2, 3) returned {add(2, 3)!r}, not 5'"
+      },
+      {
+        name: 'works with negative numbers',
+        kind: 'assertion',
+        code: "assert add(-4, 1) == -3, f'add(-4, 1) returned {add(-4, 1)!r}, not -3'"
+      },
+      {
+        name: 'works with decimals',
+        kind: 'assertion',
+        code: "result = add(0.1, 0.2)\nassert isinstance(result, float) and abs(result - 0.3) < 1e-9, f'add(0.1, 0.2) returned {result!r}, not about 0.3'"
+      }
+    ]
+  },
+  {
+    id: 'count-evens',
+    title: 'Count the even numbers',
+    prompt:
+      'Write a function count_evens(numbers) that returns how many numbers in the list are even. count_evens([1, 2, 4, 7]) should return 2.',
+    starterCode: 'def count_evens(numbers):\n    pass\n',
+    tests: [
+      {
+        name: 'counts the example',
+        kind: 'assertion',
+        code: "assert count_evens([1, 2, 4, 7]) == 2, f'count_evens([1, 2, 4, 7]) returned {count_evens([1, 2, 4, 7])!r}, not 2'"
+      },
+      {
+        name: 'an empty list has no even numbers',
+        kind: 'assertion',
+        code: "assert count_evens([]) == 0, f'count_evens([]) returned {count_evens([])!r}, not 0'"
+      },
+      {
+        name: 'zero and negative numbers can be even',
+        kind: 'assertion',
+        code: "assert count_evens([0, -2, -3]) == 2, f'count_evens([0, -2, -3]) returned {count_evens([0, -2, -3])!r}, not 2'"
+      }
+    ]
+  }
+]
+
+// The exercise with this id, or undefined if there isn't one
+export function findExercise(id: string): Exercise | undefined {
+  return exercises.find((exercise) => exercise.id === id)
+}
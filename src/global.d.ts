@@ -1,5 +1,10 @@
 interface Window {
   PLAYDO_CONFIG?: {
     backendUrl: string
+    executionTimeoutMs?: number | string
+    // Comma-separated list of Pyodide mirrors
+    pyodideUrls?: string
+    // Comma-separated list of importable packages beyond the standard library
+    allowedPackages?: string
   }
 }
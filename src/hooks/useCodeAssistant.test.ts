@@ -0,0 +1,65 @@
+import { renderHook } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../services/pyodide', () => ({
+  default: {
+    complete: vi.fn().mockResolvedValue([]),
+    describeName: vi.fn().mockResolvedValue(null),
+    signatureAt: vi.fn().mockResolvedValue(null)
+  }
+}))
+
+import useCodeAssistant from './useCodeAssistant'
+import pyodideService from '../services/pyodide'
+
+const project = {
+  files: [
+    { name: 'main.py', content: 'import helpers\nhelpers.' },
+    { name: 'helpers.py', content: 'def greet(name): ...' }
+  ],
+  entryPoint: 'main.py'
+}
+
+const position = { code: 'import helpers\nhelpers.', line: 2, column: 9 }
+
+describe('useCodeAssistant', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should ask about the open file in the latest project', async () => {
+    // Arrange
+    const edited = {
+      ...project,
+      files: [project.files[0], { name: 'helpers.py', content: 'x = 1' }]
+    }
+    const { result, rerender } = renderHook(
+      ({ project }) => useCodeAssistant('main.py', project, true),
+      { initialProps: { project } }
+    )
+    const assistant = result.current
+
+    // Act
+    rerender({ project: edited })
+    await result.current!.complete(position)
+    await result.current!.describeName(position)
+    await result.current!.signatureAt(position)
+
+    // Assert
+    expect(result.current).toBe(assistant)
+    const expected = { ...position, file: 'main.py' }
+    expect(pyodideService.complete).toHaveBeenCalledWith(expected, edited)
+    expect(pyodideService.describeName).toHaveBeenCalledWith(expected, edited)
+    expect(pyodideService.signatureAt).toHaveBeenCalledWith(expected, edited)
+  })
+
+  it('should have no assistant while disabled', () => {
+    // Act
+    const { result } = renderHook(() =>
+      useCodeAssistant('data.txt', project, false)
+    )
+
+    // Assert
+    expect(result.current).toBeNull()
+  })
+})
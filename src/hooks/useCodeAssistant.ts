@@ -0,0 +1,37 @@
+import { useEffect, useMemo, useRef } from 'react'
+import pyodideService from '../services/pyodide'
+import type { CodeAssistant, EditorPosition } from '../components/editorAssist'
+import type { Project } from '../types'
+
+/**
+ * Code intelligence for the file open in the editor, from Jedi in the Python
+ * worker. The assistant stays the same while the project is edited, so the editor
+ * isn't reconfigured on every keystroke; each question looks at the project as it
+ * is then. Null while `enabled` is false, e.g. before Python has loaded.
+ */
+export function useCodeAssistant(
+  file: string,
+  project: Project,
+  enabled: boolean
+): CodeAssistant | null {
+  const projectRef = useRef(project)
+  useEffect(() => {
+    projectRef.current = project
+  }, [project])
+
+  const assistant = useMemo<CodeAssistant>(() => {
+    const at = (position: EditorPosition) => ({ ...position, file })
+    return {
+      complete: (position) =>
+        pyodideService.complete(at(position), projectRef.current),
+      describeName: (position) =>
+        pyodideService.describeName(at(position), projectRef.current),
+      signatureAt: (position) =>
+        pyodideService.signatureAt(at(position), projectRef.current)
+    }
+  }, [file])
+
+  return enabled ? assistant : null
+}
+
+export default useCodeAssistant
@@ -0,0 +1,106 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('../services/pyodide', () => ({
+  default: {
+    lintCode: vi.fn()
+  }
+}))
+
+import useLint, { LINT_DELAY_MS } from './useLint'
+import pyodideService from '../services/pyodide'
+
+const problem = {
+  line: 1,
+  column: 1,
+  endLine: 1,
+  endColumn: 6,
+  severity: 'error' as const,
+  message: "'pritn' is not defined. Did you mean 'print'?"
+}
+
+describe('useLint', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(pyodideService.lintCode).mockResolvedValue([problem])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.resetAllMocks()
+  })
+
+  it('should lint the code once typing pauses', async () => {
+    // Arrange
+    const { result, rerender } = renderHook(
+      ({ code }) => useLint('main.py', code, true),
+      { initialProps: { code: 'p' } }
+    )
+
+    // Act
+    rerender({ code: 'pritn' })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(LINT_DELAY_MS)
+    })
+
+    // Assert
+    expect(pyodideService.lintCode).toHaveBeenCalledTimes(1)
+    expect(pyodideService.lintCode).toHaveBeenCalledWith('pritn')
+    expect(result.current).toEqual([problem])
+  })
+
+  it('should not lint while disabled', async () => {
+    // Act
+    const { result } = renderHook(() => useLint('data.txt', 'pritn', false))
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(LINT_DELAY_MS)
+    })
+
+    // Assert
+    expect(pyodideService.lintCode).not.toHaveBeenCalled()
+    expect(result.current).toEqual([])
+  })
+
+  it('should drop the problems of a file that is no longer open', async () => {
+    // Arrange
+    const { result, rerender } = renderHook(
+      ({ file }) => useLint(file, 'pritn', true),
+      { initialProps: { file: 'main.py' } }
+    )
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(LINT_DELAY_MS)
+    })
+
+    // Act
+    rerender({ file: 'helpers.py' })
+
+    // Assert
+    expect(result.current).toEqual([])
+  })
+
+  it('should ignore problems found in code that has since changed', async () => {
+    // Arrange
+    let finishLint: (problems: (typeof problem)[]) => void = () => {}
+    vi.mocked(pyodideService.lintCode).mockReturnValueOnce(
+      new Promise((resolve) => {
+        finishLint = resolve
+      })
+    )
+    const { result, rerender } = renderHook(
+      ({ code }) => useLint('main.py', code, true),
+      { initialProps: { code: 'pritn' } }
+    )
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(LINT_DELAY_MS)
+    })
+
+    // Act
+    rerender({ code: 'print' })
+    await act(async () => {
+      finishLint([problem])
+    })
+
+    // Assert
+    expect(result.current).toEqual([])
+  })
+})
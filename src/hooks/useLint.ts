@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react'
+import pyodideService, { type LintProblem } from '../services/pyodide'
+
+// How long typing has to pause before the code is linted
+export const LINT_DELAY_MS = 500
+
+// Shared, so that components depending on the problems don't update on every render
+const NO_PROBLEMS: LintProblem[] = []
+
+interface LintState {
+  // The file the problems were found in
+  file: string
+  problems: LintProblem[]
+}
+
+/**
+ * Problems in a file's code, found by the linter in the Python worker once the
+ * student stops typing for a moment. The problems found last are kept until newer
+ * ones arrive, so the markers don't flicker while typing; they are dropped when
+ * another file is opened. Nothing is linted while `enabled` is false, e.g. before
+ * Python has loaded or for files that aren't Python.
+ */
+export function useLint(
+  file: string,
+  code: string,
+  enabled: boolean
+): LintProblem[] {
+  const [state, setState] = useState<LintState | null>(null)
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+    let cancelled = false
+    const timeoutId = setTimeout(async () => {
+      try {
+        const problems = await pyodideService.lintCode(code)
+        if (!cancelled) {
+          setState({ file, problems })
+        }
+      } catch (error) {
+        console.error('Failed to lint code:', error)
+      }
+    }, LINT_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [file, code, enabled])
+
+  return enabled && state?.file === file ? state.problems : NO_PROBLEMS
+}
+
+export default useLint
@@ -0,0 +1,298 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import useProject, {
+  DEFAULT_FILE_NAME,
+  fileNameError,
+  projectOf,
+  projectSentIn
+} from './useProject'
+import type { Conversation, Message } from '../types'
+
+describe('useProject', () => {
+  it('should start with a single file that runs', () => {
+    // Act
+    const { result } = renderHook(() => useProject())
+
+    // Assert
+    expect(result.current.project.files).toEqual([
+      { name: DEFAULT_FILE_NAME, content: expect.stringContaining('print(') }
+    ])
+    expect(result.current.project.entryPoint).toBe(DEFAULT_FILE_NAME)
+    expect(result.current.activeFile).toBe(DEFAULT_FILE_NAME)
+  })
+
+  it('should add an empty file and open it', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+
+    // Act
+    let error: string | null = null
+    act(() => {
+      error = result.current.addFile('helpers.py')
+    })
+
+    // Assert
+    expect(error).toBeNull()
+    expect(result.current.project.files[1]).toEqual({
+      name: 'helpers.py',
+      content: ''
+    })
+    expect(result.current.activeFile).toBe('helpers.py')
+  })
+
+  it('should refuse to add a file whose name is taken', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+
+    // Act
+    let error: string | null = null
+    act(() => {
+      error = result.current.addFile(DEFAULT_FILE_NAME)
+    })
+
+    // Assert
+    expect(error).toBe(`There is already a file called ${DEFAULT_FILE_NAME}.`)
+    expect(result.current.project.files).toHaveLength(1)
+  })
+
+  it('should update the content of a file', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+
+    // Act
+    act(() => result.current.updateFile(DEFAULT_FILE_NAME, 'print(2)'))
+
+    // Assert
+    expect(result.current.project.files[0].content).toBe('print(2)')
+  })
+
+  it('should rename the file that runs and keep running it', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+
+    // Act
+    act(() => {
+      result.current.renameFile(DEFAULT_FILE_NAME, 'game.py')
+    })
+
+    // Assert
+    expect(result.current.project.files[0].name).toBe('game.py')
+    expect(result.current.project.entryPoint).toBe('game.py')
+    expect(result.current.activeFile).toBe('game.py')
+  })
+
+  it('should refuse to give the file that runs a name without .py', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+
+    // Act
+    let error: string | null = null
+    act(() => {
+      error = result.current.renameFile(DEFAULT_FILE_NAME, 'notes.txt')
+    })
+
+    // Assert
+    expect(error).toBe('The file that runs must end in .py.')
+    expect(result.current.project.files[0].name).toBe(DEFAULT_FILE_NAME)
+  })
+
+  it('should delete a file and open the file that runs instead', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+    act(() => {
+      result.current.addFile('data.txt')
+    })
+
+    // Act
+    act(() => result.current.deleteFile('data.txt'))
+
+    // Assert
+    expect(result.current.project.files).toHaveLength(1)
+    expect(result.current.activeFile).toBe(DEFAULT_FILE_NAME)
+  })
+
+  it('should not delete the file that runs', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+
+    // Act
+    act(() => result.current.deleteFile(DEFAULT_FILE_NAME))
+
+    // Assert
+    expect(result.current.project.files).toHaveLength(1)
+  })
+
+  it('should only run Python files', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+    act(() => {
+      result.current.addFile('data.txt')
+    })
+    act(() => {
+      result.current.addFile('game.py')
+    })
+
+    // Act
+    act(() => result.current.setEntryPoint('data.txt'))
+    const afterText = result.current.project.entryPoint
+    act(() => result.current.setEntryPoint('game.py'))
+
+    // Assert
+    expect(afterText).toBe(DEFAULT_FILE_NAME)
+    expect(result.current.project.entryPoint).toBe('game.py')
+  })
+
+  it('should load a project and open its entry point', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+    act(() => {
+      result.current.addFile('helpers.py')
+    })
+    const project = {
+      files: [{ name: 'game.py', content: 'pass' }],
+      entryPoint: 'game.py'
+    }
+
+    // Act
+    act(() => result.current.load(project))
+
+    // Assert
+    expect(result.current.project).toEqual(project)
+    expect(result.current.activeFile).toBe('game.py')
+  })
+
+  it('should go back to a new project when reset', () => {
+    // Arrange
+    const { result } = renderHook(() => useProject())
+    act(() => {
+      result.current.addFile('helpers.py')
+    })
+
+    // Act
+    act(() => result.current.reset())
+
+    // Assert
+    expect(result.current.project.files).toHaveLength(1)
+    expect(result.current.activeFile).toBe(DEFAULT_FILE_NAME)
+  })
+})
+
+describe('fileNameError', () => {
+  it('should accept names Python can import and open', () => {
+    expect(fileNameError('helpers.py', [])).toBeNull()
+    expect(fileNameError('my-data_2.csv', [])).toBeNull()
+  })
+
+  it('should refuse empty names, directories and hidden files', () => {
+    expect(fileNameError('', [])).toBe('Enter a file name.')
+    expect(fileNameError('lib/helpers.py', [])).toBe(
+      'Use only letters, digits, _, - and . in file names.'
+    )
+    expect(fileNameError('.env', [])).not.toBeNull()
+    expect(fileNameError('a'.repeat(65), [])).not.toBeNull()
+  })
+
+  it('should let a file keep its own name', () => {
+    // Arrange
+    const files = [{ name: 'main.py', content: '' }]
+
+    // Act & Assert
+    expect(fileNameError('main.py', files, 'main.py')).toBeNull()
+    expect(fileNameError('main.py', files)).not.toBeNull()
+  })
+})
+
+describe('projectSentIn', () => {
+  const conversationOf = (messages: Message[]): Conversation => ({
+    id: 1,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    messages
+  })
+  const text = (value: string) => [{ type: 'text', text: value }]
+
+  it('should find the files the student sent last', () => {
+    // Arrange
+    const conversation = conversationOf([
+      {
+        role: 'user',
+        content: text('first'),
+        files: [{ name: 'main.py', content: 'print(1)' }],
+        entry_point: 'main.py'
+      },
+      {
+        role: 'user',
+        content: text('second'),
+        files: [
+          { name: 'helpers.py', content: 'x = 2' },
+          { name: 'game.py', content: 'import helpers' }
+        ],
+        entry_point: 'game.py'
+      },
+      { role: 'assistant', content: text('answer') },
+      { role: 'user', content: text('no code this time') }
+    ])
+
+    // Act
+    const project = projectSentIn(conversation)
+
+    // Assert
+    expect(project).toEqual({
+      files: [
+        { name: 'helpers.py', content: 'x = 2' },
+        { name: 'game.py', content: 'import helpers' }
+      ],
+      entryPoint: 'game.py'
+    })
+  })
+
+  it('should turn code sent before projects had files into a project', () => {
+    // Arrange
+    const conversation = conversationOf([
+      { role: 'user', content: text('help'), editor_code: 'print("hi")' }
+    ])
+
+    // Act & Assert
+    expect(projectSentIn(conversation)).toEqual({
+      files: [{ name: DEFAULT_FILE_NAME, content: 'print("hi")' }],
+      entryPoint: DEFAULT_FILE_NAME
+    })
+  })
+
+  it('should run the first file when the entry point is missing', () => {
+    // Arrange
+    const conversation = conversationOf([
+      {
+        role: 'user',
+        content: text('help'),
+        files: [{ name: 'game.py', content: 'pass' }],
+        entry_point: 'gone.py'
+      }
+    ])
+
+    // Act & Assert
+    expect(projectSentIn(conversation)?.entryPoint).toBe('game.py')
+  })
+
+  it('should return null when no code was sent', () => {
+    expect(projectSentIn(conversationOf([]))).toBeNull()
+  })
+})
+
+describe('projectOf', () => {
+  it('should return null for a message without code', () => {
+    expect(
+      projectOf({ role: 'user', content: [], stdout: 'hello\n' })
+    ).toBeNull()
+  })
+
+  it('should keep only the name and content of each file', () => {
+    // Arrange
+    const file = { name: 'main.py', content: 'pass', extra: true }
+
+    // Act & Assert
+    expect(
+      projectOf({ role: 'user', content: [], files: [file] })?.files
+    ).toEqual([{ name: 'main.py', content: 'pass' }])
+  })
+})
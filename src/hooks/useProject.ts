@@ -0,0 +1,181 @@
+import { useState, useCallback } from 'react'
+import type { Conversation, Message, Project, ProjectFile } from '../types'
+
+// The file a new project starts with; it is also the one that runs
+export const DEFAULT_FILE_NAME = 'main.py'
+
+const DEFAULT_CODE = "# Write your Python code here\nprint('Hello, Playdo!')"
+
+// Names Python can import and open() as they are: no directories, no leading dot
+const FILE_NAME_PATTERN = /^[A-Za-z0-9_][\w.-]*$/
+
+const MAX_FILE_NAME_LENGTH = 64
+
+// Projects are never changed in place, so every new project can share this one
+const DEFAULT_PROJECT: Project = {
+  files: [{ name: DEFAULT_FILE_NAME, content: DEFAULT_CODE }],
+  entryPoint: DEFAULT_FILE_NAME
+}
+
+/**
+ * Why `name` can't be used for a file in the project, or null if it can.
+ * `current` is the file being renamed, which may keep its own name.
+ */
+export function fileNameError(
+  name: string,
+  files: ProjectFile[],
+  current?: string
+): string | null {
+  if (name === '') {
+    return 'Enter a file name.'
+  }
+  if (name.length > MAX_FILE_NAME_LENGTH) {
+    return `File names can be at most ${MAX_FILE_NAME_LENGTH} characters long.`
+  }
+  if (!FILE_NAME_PATTERN.test(name)) {
+    return 'Use only letters, digits, _, - and . in file names.'
+  }
+  if (name !== current && files.some((file) => file.name === name)) {
+    return `There is already a file called ${name}.`
+  }
+  return null
+}
+
+/**
+ * The project sent with a message, or null if the message didn't carry code.
+ * Messages from before projects had several files only have editor_code.
+ */
+export function projectOf(message: Message): Project | null {
+  if (message.files && message.files.length > 0) {
+    const files = message.files.map(({ name, content }) => ({ name, content }))
+    const entryPoint =
+      files.find((file) => file.name === message.entry_point) ?? files[0]
+    return { files, entryPoint: entryPoint.name }
+  }
+  if (typeof message.editor_code === 'string') {
+    return {
+      files: [{ name: DEFAULT_FILE_NAME, content: message.editor_code }],
+      entryPoint: DEFAULT_FILE_NAME
+    }
+  }
+  return null
+}
+
+/**
+ * The project the student last sent in a conversation, or null if they never sent
+ * any code
+ */
+export function projectSentIn(conversation: Conversation): Project | null {
+  for (const message of [...conversation.messages].reverse()) {
+    const project = message.role === 'user' ? projectOf(message) : null
+    if (project) {
+      return project
+    }
+  }
+  return null
+}
+
+/**
+ * The student's project: its files, the one open in the editor and the one that
+ * runs. The file that runs is always a .py file and can't be deleted, so there is
+ * always something to run.
+ */
+export function useProject() {
+  const [project, setProject] = useState<Project>(DEFAULT_PROJECT)
+  const [activeFile, setActiveFile] = useState(DEFAULT_FILE_NAME)
+
+  const updateFile = useCallback((name: string, content: string) => {
+    setProject((prev) => ({
+      ...prev,
+      files: prev.files.map((file) =>
+        file.name === name ? { ...file, content } : file
+      )
+    }))
+  }, [])
+
+  // Add an empty file and open it. Returns why it couldn't be added, or null.
+  const addFile = useCallback(
+    (name: string): string | null => {
+      const error = fileNameError(name, project.files)
+      if (error) {
+        return error
+      }
+      setProject((prev) => ({
+        ...prev,
+        files: [...prev.files, { name, content: '' }]
+      }))
+      setActiveFile(name)
+      return null
+    },
+    [project.files]
+  )
+
+  // Returns why the file couldn't be renamed, or null
+  const renameFile = useCallback(
+    (name: string, newName: string): string | null => {
+      const error = fileNameError(newName, project.files, name)
+      if (error) {
+        return error
+      }
+      if (name === project.entryPoint && !newName.endsWith('.py')) {
+        return 'The file that runs must end in .py.'
+      }
+      setProject((prev) => ({
+        files: prev.files.map((file) =>
+          file.name === name ? { ...file, name: newName } : file
+        ),
+        entryPoint: prev.entryPoint === name ? newName : prev.entryPoint
+      }))
+      setActiveFile((prev) => (prev === name ? newName : prev))
+      return null
+    },
+    [project]
+  )
+
+  const deleteFile = useCallback(
+    (name: string) => {
+      if (name === project.entryPoint) {
+        return
+      }
+      setProject((prev) => ({
+        ...prev,
+        files: prev.files.filter((file) => file.name !== name)
+      }))
+      setActiveFile((prev) => (prev === name ? project.entryPoint : prev))
+    },
+    [project.entryPoint]
+  )
+
+  const setEntryPoint = useCallback((name: string) => {
+    if (name.endsWith('.py')) {
+      setProject((prev) => ({ ...prev, entryPoint: name }))
+    }
+  }, [])
+
+  // Replace the project, e.g. with an exercise's starter code, and open its entry point
+  const load = useCallback((next: Project) => {
+    setProject(next)
+    setActiveFile(next.entryPoint)
+  }, [])
+
+  // Back to a new project, e.g. when the student signs out
+  const reset = useCallback(() => {
+    setProject(DEFAULT_PROJECT)
+    setActiveFile(DEFAULT_FILE_NAME)
+  }, [])
+
+  return {
+    project,
+    activeFile,
+    selectFile: setActiveFile,
+    updateFile,
+    addFile,
+    renameFile,
+    deleteFile,
+    setEntryPoint,
+    load,
+    reset
+  }
+}
+
+export default useProject
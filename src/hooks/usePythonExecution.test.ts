@@ -5,12 +5,20 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 const mockExecutionResult = {
   stdout: 'Hello, World!',
   stderr: '',
+  stdin: [],
+  output: [{ stream: 'stdout' as const, text: 'Hello, World!' }],
+  turtle: [],
+  error: null,
   result: 'Execution result'
 }
 
 const mockErrorResult = {
   stdout: '',
   stderr: 'Error message',
+  stdin: [],
+  output: [{ stream: 'stderr' as const, text: 'Error message' }],
+  turtle: [],
+  error: null,
   result: null
 }
 
@@ -20,6 +28,11 @@ vi.mock('../services/pyodide', () => {
     default: {
       getStatus: vi.fn().mockReturnValue('uninitialized'),
       initialize: vi.fn().mockResolvedValue(undefined),
+      cancel: vi.fn(),
+      resetNamespace: vi.fn().mockResolvedValue(undefined),
+      submitInput: vi.fn(),
+      resumeDebugging: vi.fn(),
+      checkExercise: vi.fn(),
       executeCode: vi.fn().mockImplementation((code) => {
         if (code.includes('error')) {
           return Promise.reject(new Error('Execution failed'))
@@ -81,11 +94,38 @@ describe('usePythonExecution', () => {
     })
 
     // Assert
-    expect(pyodideService.executeCode).toHaveBeenCalledWith(code)
+    expect(pyodideService.executeCode).toHaveBeenCalledWith(code, {
+      onInputRequest: expect.any(Function),
+      onOutput: expect.any(Function),
+      onInstallProgress: expect.any(Function),
+      onTurtle: expect.any(Function),
+      debug: false,
+      onDebugPause: expect.any(Function)
+    })
     expect(result.current.result).toEqual(mockExecutionResult)
     expect(result.current.isCodeRunning).toBe(false)
   })
 
+  it('should run code as the entry point of a project', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+    const project = {
+      files: [{ name: 'main.py', content: 'print(1)' }],
+      entryPoint: 'main.py'
+    }
+
+    // Act
+    await act(async () => {
+      await result.current.executeCode('print(1)', project)
+    })
+
+    // Assert
+    expect(pyodideService.executeCode).toHaveBeenCalledWith(
+      'print(1)',
+      expect.objectContaining({ project })
+    )
+  })
+
   it('should handle Python errors during execution', async () => {
     // Arrange
     const { result } = renderHook(() => usePythonExecution())
@@ -100,7 +140,14 @@ describe('usePythonExecution', () => {
     })
 
     // Assert
-    expect(pyodideService.executeCode).toHaveBeenCalledWith(code)
+    expect(pyodideService.executeCode).toHaveBeenCalledWith(code, {
+      onInputRequest: expect.any(Function),
+      onOutput: expect.any(Function),
+      onInstallProgress: expect.any(Function),
+      onTurtle: expect.any(Function),
+      debug: false,
+      onDebugPause: expect.any(Function)
+    })
     expect(result.current.result).toEqual(mockErrorResult)
   })
 
@@ -149,6 +196,442 @@ describe('usePythonExecution', () => {
 
     // Assert
     expect(pyodideService.initialize).toHaveBeenCalledTimes(1)
-    expect(pyodideService.executeCode).toHaveBeenCalledWith(code)
+    expect(pyodideService.executeCode).toHaveBeenCalledWith(code, {
+      onInputRequest: expect.any(Function),
+      onOutput: expect.any(Function),
+      onInstallProgress: expect.any(Function),
+      onTurtle: expect.any(Function),
+      debug: false,
+      onDebugPause: expect.any(Function)
+    })
+  })
+  it('should cancel running code and re-initialize the interpreter', async () => {
+    // Arrange
+    vi.mocked(pyodideService.getStatus).mockReturnValue(PyodideStatus.READY)
+    vi.mocked(pyodideService.initialize).mockResolvedValue(undefined)
+    const { result } = renderHook(() => usePythonExecution())
+
+    // Act
+    await act(async () => {
+      await result.current.cancel()
+    })
+
+    // Assert
+    expect(pyodideService.cancel).toHaveBeenCalledTimes(1)
+    expect(pyodideService.initialize).toHaveBeenCalledTimes(1)
+    expect(result.current.isPyodideInitializing).toBe(false)
+    expect(result.current.status).toBe(PyodideStatus.READY)
+  })
+
+  it('should record an error if the interpreter fails to restart after cancel', async () => {
+    // Arrange
+    const error = new Error('Failed to load')
+    vi.mocked(pyodideService.initialize).mockRejectedValueOnce(error)
+    const { result } = renderHook(() => usePythonExecution())
+
+    // Act
+    await act(async () => {
+      await result.current.cancel()
+    })
+
+    // Assert
+    expect(pyodideService.cancel).toHaveBeenCalledTimes(1)
+    expect(result.current.error).toBe(error)
+    expect(result.current.isPyodideInitializing).toBe(false)
+  })
+  it('should evaluate a console entry without replacing the output of the last run', async () => {
+    // Arrange
+    vi.mocked(pyodideService.getStatus).mockReturnValue(PyodideStatus.READY)
+    vi.mocked(pyodideService.executeCode).mockResolvedValueOnce(
+      mockExecutionResult
+    )
+    const { result } = renderHook(() => usePythonExecution())
+    await act(async () => {
+      await result.current.executeCode('print("Hello")')
+    })
+    const echo = { ...mockExecutionResult, stdout: '', result: "'Ada'" }
+    vi.mocked(pyodideService.executeCode).mockResolvedValueOnce(echo)
+
+    // Act
+    let entryResult: unknown
+    await act(async () => {
+      entryResult = await result.current.evaluate('name')
+    })
+
+    // Assert
+    expect(entryResult).toEqual(echo)
+    expect(pyodideService.executeCode).toHaveBeenLastCalledWith('name', {
+      interactive: true,
+      onOutput: expect.any(Function),
+      onTurtle: expect.any(Function),
+      onInputRequest: expect.any(Function),
+      onInstallProgress: expect.any(Function)
+    })
+    expect(result.current.result).toEqual(mockExecutionResult)
+    expect(result.current.isCodeRunning).toBe(false)
+  })
+
+  it('should run a snippet on its own without replacing the output of the last run', async () => {
+    // Arrange
+    vi.mocked(pyodideService.getStatus).mockReturnValue(PyodideStatus.READY)
+    vi.mocked(pyodideService.executeCode).mockResolvedValueOnce(
+      mockExecutionResult
+    )
+    const { result } = renderHook(() => usePythonExecution())
+    await act(async () => {
+      await result.current.executeCode('print("Hello")')
+    })
+    const snippet = { ...mockExecutionResult, stdout: 'example\n' }
+    vi.mocked(pyodideService.executeCode).mockResolvedValueOnce(snippet)
+
+    // Act
+    let snippetResult: unknown
+    await act(async () => {
+      snippetResult = await result.current.runSnippet('print("example")')
+    })
+
+    // Assert
+    expect(snippetResult).toEqual(snippet)
+    expect(pyodideService.executeCode).toHaveBeenLastCalledWith(
+      'print("example")',
+      expect.objectContaining({ scratch: true })
+    )
+    expect(result.current.result).toEqual(mockExecutionResult)
+    expect(result.current.isCodeRunning).toBe(false)
+  })
+
+  it('should add what a console entry draws or displays to the output, but not what it prints', async () => {
+    // Arrange
+    vi.mocked(pyodideService.getStatus).mockReturnValue(PyodideStatus.READY)
+    vi.mocked(pyodideService.executeCode).mockResolvedValueOnce(
+      mockExecutionResult
+    )
+    const { result } = renderHook(() => usePythonExecution())
+    await act(async () => {
+      await result.current.executeCode('import turtle')
+    })
+    const hide = { type: 'show' as const, turtle: 0, visible: false }
+    const shown = {
+      stream: 'display' as const,
+      mimeType: 'text/plain' as const,
+      data: '42'
+    }
+    vi.mocked(pyodideService.executeCode).mockImplementationOnce(
+      async (_code, options) => {
+        options?.onTurtle?.([hide])
+        options?.onOutput?.([{ stream: 'stdout', text: 'hidden' }, shown])
+        return mockExecutionResult
+      }
+    )
+
+    // Act
+    await act(async () => {
+      await result.current.evaluate('turtle.hideturtle()')
+    })
+
+    // Assert
+    expect(result.current.result?.turtle).toEqual([
+      ...mockExecutionResult.turtle,
+      hide
+    ])
+    expect(result.current.result?.output).toEqual([
+      ...mockExecutionResult.output,
+      shown
+    ])
+  })
+
+  it('should start a fresh drawing for a snippet that draws', async () => {
+    // Arrange
+    vi.mocked(pyodideService.getStatus).mockReturnValue(PyodideStatus.READY)
+    const show = { type: 'show' as const, turtle: 0, visible: true }
+    const hide = { type: 'show' as const, turtle: 0, visible: false }
+    vi.mocked(pyodideService.executeCode).mockImplementationOnce(
+      async (_code, options) => {
+        options?.onTurtle?.([show])
+        return { ...mockExecutionResult, turtle: [show] }
+      }
+    )
+    const { result } = renderHook(() => usePythonExecution())
+    await act(async () => {
+      await result.current.executeCode('import turtle')
+    })
+    vi.mocked(pyodideService.executeCode).mockImplementationOnce(
+      async (_code, options) => {
+        options?.onTurtle?.([hide])
+        options?.onTurtle?.([show])
+        return mockExecutionResult
+      }
+    )
+
+    // Act
+    await act(async () => {
+      await result.current.runSnippet('turtle.hideturtle()')
+    })
+
+    // Assert
+    expect(result.current.result?.turtle).toEqual([hide, show])
+    expect(result.current.drawingCount).toBe(1)
+  })
+
+  it('should clear the namespace when restarted while no code is running', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+
+    // Act
+    await act(async () => {
+      await result.current.restart()
+    })
+
+    // Assert
+    expect(pyodideService.resetNamespace).toHaveBeenCalledTimes(1)
+    expect(pyodideService.cancel).not.toHaveBeenCalled()
+    expect(result.current.error).toBeNull()
+  })
+
+  it('should stop running code when restarted, which starts a fresh interpreter', async () => {
+    // Arrange
+    vi.mocked(pyodideService.getStatus).mockReturnValue(PyodideStatus.READY)
+    let finishRun: (value: typeof mockExecutionResult) => void = () => {}
+    vi.mocked(pyodideService.executeCode).mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishRun = resolve
+        })
+    )
+    const { result } = renderHook(() => usePythonExecution())
+    let runPromise: Promise<unknown> = Promise.resolve()
+    act(() => {
+      runPromise = result.current.executeCode('while True: pass')
+    })
+
+    // Act
+    await act(async () => {
+      await result.current.restart()
+    })
+
+    // Assert
+    expect(pyodideService.cancel).toHaveBeenCalledTimes(1)
+    expect(pyodideService.resetNamespace).not.toHaveBeenCalled()
+    await act(async () => {
+      finishRun(mockExecutionResult)
+      await runPromise
+    })
+  })
+
+  it('should show output as it streams in and the prompt while code waits for input', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+    let finishRun: (value: typeof mockExecutionResult) => void = () => {}
+    vi.mocked(pyodideService.executeCode).mockImplementationOnce(
+      (_code, options) => {
+        options?.onOutput?.([{ stream: 'stdout', text: 'Welcome' }])
+        options?.onOutput?.([
+          { stream: 'stdout', text: 'to Playdo' },
+          { stream: 'stderr', text: 'careful' }
+        ])
+        options?.onInputRequest?.({ prompt: 'Name? ' })
+        return new Promise((resolve) => {
+          finishRun = resolve
+        })
+      }
+    )
+
+    // Act
+    let runPromise: Promise<unknown> = Promise.resolve()
+    await act(async () => {
+      runPromise = result.current.executeCode('input("Name? ")')
+    })
+
+    // Assert
+    expect(result.current.inputPrompt).toBe('Name? ')
+    expect(result.current.result?.output).toEqual([
+      { stream: 'stdout', text: 'Welcome\nto Playdo' },
+      { stream: 'stderr', text: 'careful' }
+    ])
+    expect(result.current.isCodeRunning).toBe(true)
+
+    // Finishing the run clears the prompt and shows the final result
+    await act(async () => {
+      finishRun(mockExecutionResult)
+      await runPromise
+    })
+    expect(result.current.inputPrompt).toBeNull()
+    expect(result.current.result).toEqual(mockExecutionResult)
+  })
+
+  it('should show install progress while packages are being installed', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+    let finishRun: (value: typeof mockExecutionResult) => void = () => {}
+    vi.mocked(pyodideService.executeCode).mockImplementationOnce(
+      (_code, options) => {
+        options?.onInstallProgress?.('Loading numpy')
+        return new Promise((resolve) => {
+          finishRun = resolve
+        })
+      }
+    )
+
+    // Act
+    let runPromise: Promise<unknown> = Promise.resolve()
+    await act(async () => {
+      runPromise = result.current.executeCode('import numpy')
+    })
+
+    // Assert
+    expect(result.current.installMessage).toBe('Loading numpy')
+
+    // Finishing the run clears the message
+    await act(async () => {
+      finishRun(mockExecutionResult)
+      await runPromise
+    })
+    expect(result.current.installMessage).toBeNull()
+  })
+
+  it('should show turtle drawing steps as they are made', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+    const show = { type: 'show' as const, turtle: 0, visible: true }
+    let finishRun: (value: typeof mockExecutionResult) => void = () => {}
+    vi.mocked(pyodideService.executeCode).mockImplementationOnce(
+      (_code, options) => {
+        options?.onTurtle?.([show])
+        options?.onTurtle?.([show])
+        return new Promise((resolve) => {
+          finishRun = resolve
+        })
+      }
+    )
+
+    // Act
+    let runPromise: Promise<unknown> = Promise.resolve()
+    await act(async () => {
+      runPromise = result.current.executeCode('import turtle')
+    })
+
+    // Assert
+    expect(result.current.result?.turtle).toEqual([show, show])
+
+    await act(async () => {
+      finishRun(mockExecutionResult)
+      await runPromise
+    })
+  })
+
+  it('should send submitted input to the interpreter', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+
+    // Act
+    act(() => {
+      result.current.submitInput('Ada')
+    })
+
+    // Assert
+    expect(pyodideService.submitInput).toHaveBeenCalledWith('Ada')
+    expect(result.current.inputPrompt).toBeNull()
+  })
+
+  it('should show where the debugger paused until told to go on', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+    const step = {
+      file: null,
+      line: 1,
+      function: null,
+      locals: [],
+      globals: []
+    }
+    let finishRun: (value: typeof mockExecutionResult) => void = () => {}
+    vi.mocked(pyodideService.executeCode).mockImplementationOnce(
+      (_code, options) => {
+        options?.onDebugPause?.(step)
+        return new Promise((resolve) => {
+          finishRun = resolve
+        })
+      }
+    )
+    let runPromise: Promise<unknown> = Promise.resolve()
+    await act(async () => {
+      runPromise = result.current.executeCode('x = 1', undefined, {
+        debug: true
+      })
+    })
+    expect(pyodideService.executeCode).toHaveBeenCalledWith(
+      'x = 1',
+      expect.objectContaining({ debug: true })
+    )
+    expect(result.current.debugStep).toEqual(step)
+
+    // Act
+    act(() => {
+      result.current.resumeDebugging('continue')
+    })
+
+    // Assert
+    expect(pyodideService.resumeDebugging).toHaveBeenCalledWith('continue')
+    expect(result.current.debugStep).toBeNull()
+
+    await act(async () => {
+      finishRun(mockExecutionResult)
+      await runPromise
+    })
+  })
+  it('should check the code against the tests, counting as running code', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+    const tests = [
+      { name: 'prints 5', kind: 'output' as const, expectedOutput: '5' }
+    ]
+    const testResults = [{ name: 'prints 5', passed: true, message: null }]
+    let finishCheck: (value: typeof testResults) => void = () => {}
+    vi.mocked(pyodideService.checkExercise).mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishCheck = resolve
+        })
+    )
+
+    // Act
+    let checkPromise: Promise<unknown> = Promise.resolve()
+    let checked: unknown
+    await act(async () => {
+      checkPromise = result.current.checkExercise('print(5)', tests)
+    })
+    expect(result.current.isCodeRunning).toBe(true)
+    await act(async () => {
+      finishCheck(testResults)
+      checked = await checkPromise
+    })
+
+    // Assert
+    expect(pyodideService.checkExercise).toHaveBeenCalledWith(
+      'print(5)',
+      tests,
+      { project: undefined, onInstallProgress: expect.any(Function) }
+    )
+    expect(checked).toEqual(testResults)
+    expect(result.current.isCodeRunning).toBe(false)
+    expect(result.current.result).toBeNull()
+  })
+
+  it('should record an error if checking fails', async () => {
+    // Arrange
+    const { result } = renderHook(() => usePythonExecution())
+    vi.mocked(pyodideService.checkExercise).mockRejectedValueOnce(
+      new Error('Worker crashed')
+    )
+
+    // Act
+    await act(async () => {
+      await expect(result.current.checkExercise('x = 1', [])).rejects.toThrow(
+        'Worker crashed'
+      )
+    })
+
+    // Assert
+    expect(result.current.error?.message).toBe('Worker crashed')
+    expect(result.current.isCodeRunning).toBe(false)
   })
 })
@@ -1,21 +1,91 @@
 import { useState, useCallback } from 'react'
 import pyodideService, {
+  DebugCommand,
+  DebugStep,
+  ExecuteOptions,
   ExecutionResult,
-  PyodideStatus
+  InputRequest,
+  OutputChunk,
+  PyodideStatus,
+  TurtleCommand
 } from '../services/pyodide'
+import { appendChunks } from '../services/outputStream'
+import type { ExerciseTest, Project, TestResult } from '../types'
 
 interface UsePythonExecutionState {
   result: ExecutionResult | null
   isCodeRunning: boolean
+  // Prompt of the input() call the running code is blocked on, null when not waiting
+  inputPrompt: string | null
+  // Progress of packages being installed for the running code, null when not installing
+  installMessage: string | null
+  // Where the debugger has paused the running code, null when it isn't paused
+  debugStep: DebugStep | null
+  // How many drawings snippets have started; see runAside
+  drawingCount: number
   isPyodideInitializing: boolean
   status: PyodideStatus
   error: Error | null
 }
 
+// Result shown before a run has produced anything
+function emptyResult(): ExecutionResult {
+  return {
+    stdout: '',
+    stderr: '',
+    stdin: [],
+    output: [],
+    turtle: [],
+    error: null,
+    result: null
+  }
+}
+
+// The state with output the running code produced added to the result shown
+function withOutput(
+  state: UsePythonExecutionState,
+  chunks: OutputChunk[]
+): UsePythonExecutionState {
+  const current = state.result ?? emptyResult()
+  return {
+    ...state,
+    result: { ...current, output: appendChunks(current.output, chunks) }
+  }
+}
+
+// The state with steps the running code drew added to the turtle drawing shown
+function withTurtle(
+  state: UsePythonExecutionState,
+  commands: TurtleCommand[]
+): UsePythonExecutionState {
+  const current = state.result ?? emptyResult()
+  return {
+    ...state,
+    result: { ...current, turtle: current.turtle.concat(commands) }
+  }
+}
+
+// The state with a new turtle drawing, made of the steps given, in place of the one shown
+function withNewDrawing(
+  state: UsePythonExecutionState,
+  commands: TurtleCommand[]
+): UsePythonExecutionState {
+  const current = state.result ?? emptyResult()
+  return {
+    ...state,
+    drawingCount: state.drawingCount + 1,
+    result: { ...current, turtle: commands }
+  }
+}
+
 export function usePythonExecution() {
   const [state, setState] = useState<UsePythonExecutionState>({
     result: null,
     isCodeRunning: false,
+    inputPrompt: null,
+    installMessage: null,
+    debugStep: null,
+    drawingCount: 0,
     isPyodideInitializing: false,
     status: pyodideService.getStatus(),
     error: null
@@ -53,18 +123,22 @@ export function usePythonExecution() {
     }
   }, [state.status])
 
-  // Execute Python code
+  // Execute Python code, as the entry point of `project` when given. With `debug`
+  // the code pauses before each line; see resumeDebugging.
   const executeCode = useCallback(
-    async (code: string) => {
+    async (
+      code: string,
+      project?: Project,
+      { debug = false }: { debug?: boolean } = {}
+    ) => {
       try {
         // Set code running state and clear previous results
         const new_state = {
           isCodeRunning: true,
-          result: {
-            stdout: '',
-            stderr: '',
-            result: null
-          }
+          inputPrompt: null,
+          installMessage: null,
+          debugStep: null,
+          result: emptyResult()
         }
         setState((prev) => ({
           ...prev,
@@ -75,14 +149,46 @@ export function usePythonExecution() {
           await initialize()
         }
 
+        // Show output as it is produced; the final result replaces it when the run ends
+        const onOutput = (chunks: OutputChunk[]) => {
+          setState((prev) => withOutput(prev, chunks))
+        }
+
+        const onTurtle = (commands: TurtleCommand[]) => {
+          setState((prev) => withTurtle(prev, commands))
+        }
+
+        const onInputRequest = (request: InputRequest) => {
+          setState((prev) => ({ ...prev, inputPrompt: request.prompt }))
+        }
+
+        const onInstallProgress = (message: string | null) => {
+          setState((prev) => ({ ...prev, installMessage: message }))
+        }
+
+        const onDebugPause = (step: DebugStep) => {
+          setState((prev) => ({ ...prev, debugStep: step }))
+        }
+
         // Execute the code
-        const result = await pyodideService.executeCode(code)
+        const result = await pyodideService.executeCode(code, {
+          onInputRequest,
+          onOutput,
+          onInstallProgress,
+          onTurtle,
+          project,
+          debug,
+          onDebugPause
+        })
 
         // Update state with results
         setState((prev) => ({
           ...prev,
           result,
           isCodeRunning: false,
+          inputPrompt: null,
+          installMessage: null,
+          debugStep: null,
           error: null
         }))
 
@@ -92,15 +198,14 @@ export function usePythonExecution() {
         setState((prev) => ({
           ...prev,
           isCodeRunning: false,
+          inputPrompt: null,
+          installMessage: null,
+          debugStep: null,
           error:
             error instanceof Error
               ? error
               : new Error('Failed to execute code'),
-          result: {
-            stdout: '',
-            stderr: '',
-            result: null
-          }
+          result: emptyResult()
         }))
 
         // Re-throw for caller to handle if needed
@@ -110,9 +215,218 @@ export function usePythonExecution() {
     [initialize, state.status]
   )
 
+  // Run an exercise's hidden tests against the code and return the results. Counts as
+  // running code, so it can be stopped with cancel(); the output of the last run is left alone.
+  const checkExercise = useCallback(
+    async (
+      code: string,
+      tests: ExerciseTest[],
+      project?: Project
+    ): Promise<TestResult[]> => {
+      try {
+        setState((prev) => ({
+          ...prev,
+          isCodeRunning: true,
+          installMessage: null
+        }))
+        if (state.status === PyodideStatus.UNINITIALIZED) {
+          await initialize()
+        }
+
+        const testResults = await pyodideService.checkExercise(code, tests, {
+          project,
+          onInstallProgress: (message: string | null) => {
+            setState((prev) => ({ ...prev, installMessage: message }))
+          }
+        })
+
+        setState((prev) => ({
+          ...prev,
+          isCodeRunning: false,
+          installMessage: null,
+          error: null
+        }))
+        return testResults
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          isCodeRunning: false,
+          installMessage: null,
+          error:
+            error instanceof Error ? error : new Error('Failed to check code')
+        }))
+        throw error
+      }
+    },
+    [initialize, state.status]
+  )
+
+  // Run code whose result is shown somewhere other than the output, and return the
+  // result. Counts as running code, so it can be stopped with cancel(). The text the
+  // last run printed is left alone, but what the code draws with the turtle or shows
+  // with display() is added to the output, as it is for a run. A scratch run's turtles
+  // start afresh, so its drawing replaces the last run's rather than adding to it.
+  const runAside = useCallback(
+    async (
+      code: string,
+      options: Pick<ExecuteOptions, 'interactive' | 'scratch'>
+    ): Promise<ExecutionResult> => {
+      try {
+        setState((prev) => ({
+          ...prev,
+          isCodeRunning: true,
+          inputPrompt: null,
+          installMessage: null
+        }))
+        if (state.status === PyodideStatus.UNINITIALIZED) {
+          await initialize()
+        }
+
+        let drawing = false
+        const result = await pyodideService.executeCode(code, {
+          ...options,
+          onOutput: (chunks: OutputChunk[]) => {
+            const shown = chunks.filter((chunk) => chunk.stream === 'display')
+            if (shown.length > 0) {
+              setState((prev) => withOutput(prev, shown))
+            }
+          },
+          onTurtle: (commands: TurtleCommand[]) => {
+            const fresh = options.scratch && !drawing
+            drawing = true
+            setState((prev) =>
+              fresh
+                ? withNewDrawing(prev, commands)
+                : withTurtle(prev, commands)
+            )
+          },
+          onInputRequest: (request: InputRequest) => {
+            setState((prev) => ({ ...prev, inputPrompt: request.prompt }))
+          },
+          onInstallProgress: (message: string | null) => {
+            setState((prev) => ({ ...prev, installMessage: message }))
+          }
+        })
+
+        setState((prev) => ({
+          ...prev,
+          isCodeRunning: false,
+          inputPrompt: null,
+          installMessage: null,
+          error: null
+        }))
+        return result
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          isCodeRunning: false,
+          inputPrompt: null,
+          installMessage: null,
+          error:
+            error instanceof Error ? error : new Error('Failed to execute code')
+        }))
+        throw error
+      }
+    },
+    [initialize, state.status]
+  )
+
+  // Evaluate a console entry against the names the last run left behind and return
+  // its result, whose `result` is the repr() of its value
+  const evaluate = useCallback(
+    (code: string) => runAside(code, { interactive: true }),
+    [runAside]
+  )
+
+  // Run a snippet, such as an example from the tutor, in a namespace of its own, so
+  // the student's code and the names its runs defined are left alone
+  const runSnippet = useCallback(
+    (code: string) => runAside(code, { scratch: true }),
+    [runAside]
+  )
+
+  /**
+   * Send a line typed by the student to the input() call the code is blocked on
+   */
+  const submitInput = useCallback((line: string) => {
+    pyodideService.submitInput(line)
+    setState((prev) => ({ ...prev, inputPrompt: null }))
+  }, [])
+
+  /**
+   * Let code paused in the debugger run its next line ('step') or run to the end ('continue')
+   */
+  const resumeDebugging = useCallback((command: DebugCommand) => {
+    pyodideService.resumeDebugging(command)
+    setState((prev) => ({ ...prev, debugStep: null }))
+  }, [])
+
+  /**
+   * Stop the running code. The interpreter is killed and a fresh one is spawned,
+   * so the pending executeCode call resolves with a "stopped" message in stderr.
+   * Anything defined by earlier runs is lost.
+   */
+  const cancel = useCallback(async () => {
+    pyodideService.cancel()
+    setState((prev) => ({
+      ...prev,
+      inputPrompt: null,
+      installMessage: null,
+      debugStep: null,
+      isPyodideInitializing: true
+    }))
+    try {
+      await pyodideService.initialize()
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error:
+          error instanceof Error
+            ? error
+            : new Error('Failed to initialize Pyodide')
+      }))
+    } finally {
+      setState((prev) => ({
+        ...prev,
+        isPyodideInitializing: false,
+        status: pyodideService.getStatus()
+      }))
+    }
+  }, [])
+
+  /**
+   * Restart the interpreter: forget every variable, function and import earlier runs
+   * defined, for when leftovers from them get confusing. Running code is stopped,
+   * which restarts the interpreter anyway.
+   */
+  const restart = useCallback(async () => {
+    if (state.isCodeRunning) {
+      await cancel()
+      return
+    }
+    try {
+      await pyodideService.resetNamespace()
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error:
+          error instanceof Error
+            ? error
+            : new Error('Failed to restart the interpreter')
+      }))
+    }
+  }, [cancel, state.isCodeRunning])
+
   return {
     executeCode,
+    checkExercise,
+    evaluate,
+    runSnippet,
     initialize,
+    cancel,
+    restart,
+    submitInput,
+    resumeDebugging,
     ...state
   }
 }
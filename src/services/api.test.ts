@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { Conversation } from '../types'
+import { Conversation, ConversationSummary, MessageSearchHit } from '../types'
 
 // Mock the config module ONLY
 vi.mock('../config', () => ({
@@ -16,7 +16,13 @@ Object.defineProperty(window, 'localStorage', { value: mockLocalStorage })
 import {
   fetchConversation,
   fetchConversationIds,
+  fetchConversationPage,
+  renameConversation,
+  archiveConversation,
+  deleteConversation,
+  searchMessages,
   sendMessage,
+  streamMessage,
   createConversation
 } from './api'
 
@@ -46,6 +52,34 @@ const authHeaders = {
   Authorization: 'Bearer test-token'
 }
 
+// A response body sending the given server-sent events
+function eventStream(...events: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(event))
+      }
+      controller.close()
+    }
+  })
+}
+
+// Makes the next request list the given conversations
+function mockFetchConversations(
+  conversations: ConversationSummary[],
+  nextCursor: string | null = null
+) {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({
+      conversation_ids: conversations.map(({ id }) => id),
+      conversations,
+      next_cursor: nextCursor
+    })
+  })
+}
+
 // Rewrite the tests to use the real API functions
 
 describe('API Service', () => {
@@ -152,6 +186,205 @@ describe('API Service', () => {
     })
   })
 
+  describe('fetchConversationPage', () => {
+    const loops: ConversationSummary = {
+      id: 1,
+      title: 'Loops',
+      archived: false,
+      preview: 'A for loop repeats its block',
+      updated_at: '2025-03-01T10:00:00Z',
+      message_count: 4
+    }
+
+    it('lists the first page of conversations', async () => {
+      // Arrange
+      mockFetchConversations([loops], 'page-2')
+
+      // Act
+      const result = await fetchConversationPage()
+
+      // Assert
+      expect(result).toEqual({ conversations: [loops], nextCursor: 'page-2' })
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://test-backend/api/conversations?limit=20',
+        { headers: defaultHeaders }
+      )
+    })
+
+    it('asks for the page, search and archived conversations given', async () => {
+      // Arrange
+      mockFetchConversations([{ ...loops, archived: true }])
+
+      // Act
+      const result = await fetchConversationPage({
+        archived: true,
+        search: 'for loop',
+        cursor: 'page-2',
+        limit: 5
+      })
+
+      // Assert
+      expect(result.nextCursor).toBeNull()
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://test-backend/api/conversations?limit=5&archived=true&search=for+loop&cursor=page-2',
+        { headers: defaultHeaders }
+      )
+    })
+
+    it('lists untitled conversations from a backend that only sends IDs', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ conversation_ids: [4, 5] })
+      })
+
+      // Act
+      const result = await fetchConversationPage()
+
+      // Assert
+      expect(result).toEqual({
+        conversations: [4, 5].map((id) => ({
+          id,
+          title: null,
+          archived: false,
+          preview: null,
+          updated_at: null,
+          message_count: 0
+        })),
+        nextCursor: null
+      })
+    })
+
+    it('throws an error when the API call fails', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 })
+
+      // Act & Assert
+      await expect(fetchConversationPage()).rejects.toThrow('API error: 500')
+    })
+  })
+
+  describe('renameConversation', () => {
+    it('sends the new title', async () => {
+      // Arrange
+      const renamed = { id: 1, title: 'Loops', archived: false }
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => renamed })
+
+      // Act
+      const result = await renameConversation(1, 'Loops')
+
+      // Assert
+      expect(result).toEqual(renamed)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://test-backend/api/conversations/1',
+        {
+          method: 'PATCH',
+          headers: defaultHeaders,
+          body: JSON.stringify({ title: 'Loops' })
+        }
+      )
+    })
+
+    it('throws an error when the API call fails', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404 })
+
+      // Act & Assert
+      await expect(renameConversation(1, 'Loops')).rejects.toThrow(
+        'API error: 404'
+      )
+    })
+  })
+
+  describe('archiveConversation', () => {
+    it('archives and unarchives a conversation', async () => {
+      // Arrange
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: 1, title: null, archived: true })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: 1, title: null, archived: false })
+        })
+
+      // Act
+      await archiveConversation(1)
+      await archiveConversation(1, false)
+
+      // Assert
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        archived: true
+      })
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({
+        archived: false
+      })
+    })
+  })
+
+  describe('deleteConversation', () => {
+    it('deletes a conversation', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({ ok: true })
+
+      // Act
+      await deleteConversation(1)
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://test-backend/api/conversations/1',
+        { method: 'DELETE', headers: defaultHeaders }
+      )
+    })
+
+    it('throws an error when the API call fails', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 403 })
+
+      // Act & Assert
+      await expect(deleteConversation(1)).rejects.toThrow('API error: 403')
+    })
+  })
+
+  describe('searchMessages', () => {
+    it('returns the messages that match the query', async () => {
+      // Arrange
+      const hits: MessageSearchHit[] = [
+        {
+          conversation_id: 3,
+          conversation_title: 'Dictionaries',
+          message_index: 1,
+          role: 'assistant',
+          field: 'text',
+          snippet: 'A dictionary maps keys to values'
+        }
+      ]
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ results: hits })
+      })
+
+      // Act
+      const result = await searchMessages('dictionary keys')
+
+      // Assert
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://test-backend/api/messages/search?q=dictionary+keys&limit=20',
+        { headers: defaultHeaders }
+      )
+      expect(result).toEqual(hits)
+    })
+
+    it('throws an error when the API call fails', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 })
+
+      // Act & Assert
+      await expect(searchMessages('loops')).rejects.toThrow('API error: 500')
+    })
+  })
+
   describe('sendMessage', () => {
     it('sends a message and returns the updated conversation', async () => {
       // Arrange
@@ -194,14 +427,112 @@ describe('API Service', () => {
           body: JSON.stringify({
             message: mockMessage,
             editor_code: null,
+            files: null,
+            entry_point: null,
             stdout: null,
-            stderr: null
+            stderr: null,
+            stdin: null,
+            images: null,
+            exercise_check: null
           })
         }
       )
       expect(result).toEqual(mockUpdatedConversation)
     })
 
+    it('sends code, output and typed input together', async () => {
+      // Arrange
+      const project = {
+        files: [{ name: 'main.py', content: 'input()' }],
+        entryPoint: 'main.py'
+      }
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 1, messages: [] })
+      })
+
+      // Call the REAL implementation
+      await sendMessage(1, 'Why?', project, 'Ada', '', 'Ada')
+
+      // Verify expectations
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://test-backend/api/conversations/1/send_message',
+        expect.objectContaining({
+          body: JSON.stringify({
+            message: 'Why?',
+            editor_code: 'input()',
+            files: project.files,
+            entry_point: 'main.py',
+            stdout: 'Ada',
+            stderr: '',
+            stdin: 'Ada',
+            images: null,
+            exercise_check: null
+          })
+        })
+      )
+    })
+
+    it('sends figures from the output as images', async () => {
+      // Arrange
+      const images = [{ media_type: 'image/png' as const, data: 'iVBOR' }]
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 1, messages: [] })
+      })
+
+      // Call the REAL implementation
+      await sendMessage(1, 'Plot?', null, '', '', null, images)
+
+      // Verify expectations
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.images).toEqual(images)
+    })
+
+    it('sends the results of checking the code against an exercise', async () => {
+      // Arrange
+      const exerciseCheck = {
+        exercise_id: 'add-numbers',
+        prompt: 'Write add(a, b).',
+        results: [{ name: 'add(2, 3) is 5', passed: false, message: 'boom' }]
+      }
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 1, messages: [] })
+      })
+
+      // Call the REAL implementation
+      await sendMessage(1, 'Why?', null, null, null, null, null, exerciseCheck)
+
+      // Verify expectations
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.exercise_check).toEqual(exerciseCheck)
+    })
+
+    it('sends every file of the project, with the one that runs as editor_code', async () => {
+      // Arrange
+      const project = {
+        files: [
+          { name: 'helpers.py', content: 'def greet(): pass' },
+          { name: 'main.py', content: 'import helpers' }
+        ],
+        entryPoint: 'main.py'
+      }
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 1, messages: [] })
+      })
+
+      // Call the REAL implementation
+      await sendMessage(1, 'Help', project)
+
+      // Verify expectations
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.editor_code).toBe('import helpers')
+      expect(body.files).toEqual(project.files)
+      expect(body.entry_point).toBe('main.py')
+    })
+
     it('throws an error when the API call fails', async () => {
       // Arrange
       mockFetch.mockResolvedValueOnce({
@@ -216,6 +547,102 @@ describe('API Service', () => {
     })
   })
 
+  describe('streamMessage', () => {
+    const conversation: Conversation = {
+      id: 1,
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: '2023-01-01T00:00:00Z',
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'Hello' }] }
+      ]
+    }
+
+    it('passes on each piece of the reply and returns the finished conversation', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        body: eventStream(
+          'event: token\ndata: {"text":"Hel"}\n\n',
+          'event: token\ndata: {"text":"lo"}\n\n',
+          `event: done\ndata: ${JSON.stringify(conversation)}\n\n`
+        )
+      })
+      const onToken = vi.fn()
+      const controller = new AbortController()
+
+      // Act
+      const result = await streamMessage(
+        1,
+        'Hi',
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        { onToken, signal: controller.signal }
+      )
+
+      // Assert
+      expect(result).toEqual(conversation)
+      expect(onToken.mock.calls).toEqual([['Hel'], ['lo']])
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe(
+        'http://test-backend/api/conversations/1/send_message/stream'
+      )
+      expect(init.method).toBe('POST')
+      expect(init.signal).toBe(controller.signal)
+      expect(init.headers.get('Accept')).toBe('text/event-stream')
+      expect(JSON.parse(init.body).message).toBe('Hi')
+    })
+
+    it('throws the message of an error event', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        body: eventStream(
+          'event: token\ndata: {"text":"Hel"}\n\n',
+          'event: error\ndata: {"message":"The tutor is unavailable"}\n\n'
+        )
+      })
+
+      // Act & Assert
+      await expect(
+        streamMessage(1, 'Hi', null, null, null, null, null, null, {
+          onToken: vi.fn()
+        })
+      ).rejects.toThrow('The tutor is unavailable')
+    })
+
+    it('throws when the stream ends before the reply is done', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        body: eventStream('event: token\ndata: {"text":"Hel"}\n\n')
+      })
+
+      // Act & Assert
+      await expect(
+        streamMessage(1, 'Hi', null, null, null, null, null, null, {
+          onToken: vi.fn()
+        })
+      ).rejects.toThrow('The reply ended before it was complete')
+    })
+
+    it('throws an error when the API call fails', async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 })
+
+      // Act & Assert
+      await expect(
+        streamMessage(1, 'Hi', null, null, null, null, null, null, {
+          onToken: vi.fn()
+        })
+      ).rejects.toThrow('API error: 500')
+    })
+  })
+
   describe('createConversation', () => {
     it('creates a new conversation and returns the ID', async () => {
       // Arrange
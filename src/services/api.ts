@@ -1,5 +1,16 @@
-import { Conversation, ConversationListResponse } from '../types'
+import {
+  Conversation,
+  ConversationListResponse,
+  ConversationPage,
+  ConversationSummary,
+  ExerciseCheck,
+  MessageImage,
+  MessageSearchHit,
+  MessageSearchResponse,
+  Project
+} from '../types'
 import { config } from '../config'
+import { readServerSentEvents } from './serverSentEvents'
 
 // Helper function to get the auth token from localStorage
 const getAuthToken = (): string | null => {
@@ -59,12 +70,201 @@ export async function fetchConversationIds(): Promise<number[]> {
   }
 }
 
+// How many conversations are listed at a time
+export const CONVERSATION_PAGE_SIZE = 20
+
+export interface ConversationPageOptions {
+  // List the archived conversations instead of the active ones
+  archived?: boolean
+  // Only list conversations whose title or last message contains this text
+  search?: string
+  // Where the page starts, from the page before; the first page when missing
+  cursor?: string | null
+  limit?: number
+}
+
+/**
+ * A page of conversations, most recently active first. A backend that doesn't
+ * keep titles only sends the IDs, all at once, which are listed without titles.
+ */
+export async function fetchConversationPage({
+  archived = false,
+  search = '',
+  cursor = null,
+  limit = CONVERSATION_PAGE_SIZE
+}: ConversationPageOptions = {}): Promise<ConversationPage> {
+  try {
+    const params = new URLSearchParams({ limit: String(limit) })
+    if (archived) {
+      params.set('archived', 'true')
+    }
+    if (search !== '') {
+      params.set('search', search)
+    }
+    if (cursor !== null) {
+      params.set('cursor', cursor)
+    }
+    const response = await fetch(
+      `${config.backendUrl}/api/conversations?${params}`,
+      {
+        headers: createHeaders()
+      }
+    )
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`)
+    }
+
+    const data = (await response.json()) as ConversationListResponse
+    return {
+      conversations:
+        data.conversations ??
+        data.conversation_ids.map((id) => ({
+          id,
+          title: null,
+          archived,
+          preview: null,
+          updated_at: null,
+          message_count: 0
+        })),
+      nextCursor: data.next_cursor ?? null
+    }
+  } catch (error) {
+    console.error('Error fetching conversations:', error)
+    throw error
+  }
+}
+
+// Changes the title or archived flag of a conversation
+async function updateConversation(
+  id: number,
+  changes: Partial<Pick<ConversationSummary, 'title' | 'archived'>>
+): Promise<ConversationSummary> {
+  const response = await fetch(`${config.backendUrl}/api/conversations/${id}`, {
+    method: 'PATCH',
+    headers: createHeaders(),
+    body: JSON.stringify(changes)
+  })
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`)
+  }
+
+  const data = await response.json()
+  return data as ConversationSummary
+}
+
+export async function renameConversation(
+  id: number,
+  title: string
+): Promise<ConversationSummary> {
+  try {
+    return await updateConversation(id, { title })
+  } catch (error) {
+    console.error('Error renaming conversation:', error)
+    throw error
+  }
+}
+
+// Archived conversations are only listed when asked for; they can still be opened
+export async function archiveConversation(
+  id: number,
+  archived = true
+): Promise<ConversationSummary> {
+  try {
+    return await updateConversation(id, { archived })
+  } catch (error) {
+    console.error('Error archiving conversation:', error)
+    throw error
+  }
+}
+
+export async function deleteConversation(id: number): Promise<void> {
+  try {
+    const response = await fetch(
+      `${config.backendUrl}/api/conversations/${id}`,
+      {
+        method: 'DELETE',
+        headers: createHeaders()
+      }
+    )
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`)
+    }
+  } catch (error) {
+    console.error('Error deleting conversation:', error)
+    throw error
+  }
+}
+
+// How many messages a search finds at most
+export const MESSAGE_SEARCH_LIMIT = 20
+
+/**
+ * The messages in all of the student's conversations whose text, or the code sent
+ * with them, contains the query, best matches first
+ */
+export async function searchMessages(
+  query: string,
+  limit = MESSAGE_SEARCH_LIMIT
+): Promise<MessageSearchHit[]> {
+  try {
+    const params = new URLSearchParams({ q: query, limit: String(limit) })
+    const response = await fetch(
+      `${config.backendUrl}/api/messages/search?${params}`,
+      {
+        headers: createHeaders()
+      }
+    )
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`)
+    }
+
+    const data = (await response.json()) as MessageSearchResponse
+    return data.results
+  } catch (error) {
+    console.error('Error searching messages:', error)
+    throw error
+  }
+}
+
+// The body of a request to send a message, with the code and output that go with it
+function messageBody(
+  message: string,
+  project: Project | null,
+  stdout: string | null,
+  stderr: string | null,
+  stdin: string | null,
+  images: MessageImage[] | null,
+  exerciseCheck: ExerciseCheck | null
+): string {
+  return JSON.stringify({
+    message,
+    // The entry point's content, for a backend that only knows about single files
+    editor_code:
+      project?.files.find((file) => file.name === project.entryPoint)
+        ?.content ?? null,
+    files: project?.files ?? null,
+    entry_point: project?.entryPoint ?? null,
+    stdout,
+    stderr,
+    stdin,
+    images,
+    exercise_check: exerciseCheck
+  })
+}
+
 export async function sendMessage(
   conversationId: number,
   message: string,
-  editor_code: string | null = null,
+  project: Project | null = null,
   stdout: string | null = null,
-  stderr: string | null = null
+  stderr: string | null = null,
+  stdin: string | null = null,
+  images: MessageImage[] | null = null,
+  exerciseCheck: ExerciseCheck | null = null
 ): Promise<Conversation> {
   try {
     const response = await fetch(
@@ -72,12 +272,15 @@ export async function sendMessage(
       {
         method: 'POST',
         headers: createHeaders(),
-        body: JSON.stringify({
+        body: messageBody(
           message,
-          editor_code,
+          project,
           stdout,
-          stderr
-        })
+          stderr,
+          stdin,
+          images,
+          exerciseCheck
+        )
       }
     )
 
@@ -93,6 +296,75 @@ export async function sendMessage(
   }
 }
 
+export interface StreamHandlers {
+  // Called with each piece of the tutor's reply as it arrives
+  onToken: (text: string) => void
+  // Aborting it stops the reply; the promise then rejects with an AbortError
+  signal?: AbortSignal
+}
+
+/**
+ * Like sendMessage, but the tutor's reply arrives piece by piece, as Server-Sent
+ * Events: `token` events carry {text}, then a `done` event carries the updated
+ * conversation. An `error` event carries {message} instead.
+ */
+export async function streamMessage(
+  conversationId: number,
+  message: string,
+  project: Project | null,
+  stdout: string | null,
+  stderr: string | null,
+  stdin: string | null,
+  images: MessageImage[] | null,
+  exerciseCheck: ExerciseCheck | null,
+  handlers: StreamHandlers
+): Promise<Conversation> {
+  try {
+    const headers = new Headers(createHeaders())
+    headers.set('Accept', 'text/event-stream')
+    const response = await fetch(
+      `${config.backendUrl}/api/conversations/${conversationId}/send_message/stream`,
+      {
+        method: 'POST',
+        headers,
+        body: messageBody(
+          message,
+          project,
+          stdout,
+          stderr,
+          stdin,
+          images,
+          exerciseCheck
+        ),
+        signal: handlers.signal
+      }
+    )
+
+    if (!response.ok || !response.body) {
+      throw new Error(`API error: ${response.status}`)
+    }
+
+    let conversation: Conversation | null = null
+    await readServerSentEvents(response.body, ({ event, data }) => {
+      if (event === 'token') {
+        handlers.onToken((JSON.parse(data) as { text: string }).text)
+      } else if (event === 'done') {
+        conversation = JSON.parse(data) as Conversation
+      } else if (event === 'error') {
+        throw new Error((JSON.parse(data) as { message: string }).message)
+      }
+    })
+
+    if (conversation === null) {
+      throw new Error('The reply ended before it was complete')
+    }
+    return conversation
+  } catch (error) {
+    console.error('Error streaming message:', error)
+    throw error
+  }
+}
+
 export async function createConversation(): Promise<number> {
   try {
     const response = await fetch(`${config.backendUrl}/api/conversations`, {
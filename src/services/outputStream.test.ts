@@ -0,0 +1,197 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  appendChunks,
+  createBatcher,
+  createOutputBatcher,
+  displayedImages,
+  joinStream,
+  pushChunk
+} from './outputStream'
+import type { OutputChunk } from './workerProtocol'
+
+describe('outputStream', () => {
+  describe('pushChunk', () => {
+    it('should add a chunk to an empty list', () => {
+      const output: OutputChunk[] = []
+
+      pushChunk(output, { stream: 'stdout', text: 'a' })
+
+      expect(output).toEqual([{ stream: 'stdout', text: 'a' }])
+    })
+
+    it('should merge a chunk into the last one from the same stream', () => {
+      const output: OutputChunk[] = [{ stream: 'stdout', text: 'a' }]
+
+      pushChunk(output, { stream: 'stdout', text: 'b' })
+
+      expect(output).toEqual([{ stream: 'stdout', text: 'a\nb' }])
+    })
+
+    it('should start a new chunk when the stream changes', () => {
+      const output: OutputChunk[] = [{ stream: 'stdout', text: 'a' }]
+
+      pushChunk(output, { stream: 'stderr', text: 'b' })
+
+      expect(output).toEqual([
+        { stream: 'stdout', text: 'a' },
+        { stream: 'stderr', text: 'b' }
+      ])
+    })
+
+    it('should keep empty lines', () => {
+      const output: OutputChunk[] = [{ stream: 'stdout', text: 'a' }]
+
+      pushChunk(output, { stream: 'stdout', text: '' })
+
+      expect(output).toEqual([{ stream: 'stdout', text: 'a\n' }])
+    })
+
+    it('should never merge displays, nor text across a display', () => {
+      const figure: OutputChunk = {
+        stream: 'display',
+        mimeType: 'image/png',
+        data: 'iVBO'
+      }
+      const output: OutputChunk[] = [{ stream: 'stdout', text: 'a' }]
+
+      pushChunk(output, figure)
+      pushChunk(output, figure)
+      pushChunk(output, { stream: 'stdout', text: 'b' })
+
+      expect(output).toEqual([
+        { stream: 'stdout', text: 'a' },
+        figure,
+        figure,
+        { stream: 'stdout', text: 'b' }
+      ])
+    })
+  })
+
+  describe('appendChunks', () => {
+    it('should not modify the existing list', () => {
+      // Arrange
+      const existing: OutputChunk[] = [{ stream: 'stdout', text: 'a' }]
+
+      // Act
+      const merged = appendChunks(existing, [
+        { stream: 'stdout', text: 'b' },
+        { stream: 'stderr', text: 'c' }
+      ])
+
+      // Assert
+      expect(existing).toEqual([{ stream: 'stdout', text: 'a' }])
+      expect(merged).toEqual([
+        { stream: 'stdout', text: 'a\nb' },
+        { stream: 'stderr', text: 'c' }
+      ])
+    })
+
+    it('should return a copy when there is nothing to append', () => {
+      const existing: OutputChunk[] = [{ stream: 'stdout', text: 'a' }]
+
+      const merged = appendChunks(existing, [])
+
+      expect(merged).toEqual(existing)
+      expect(merged).not.toBe(existing)
+    })
+  })
+
+  describe('joinStream', () => {
+    const output: OutputChunk[] = [
+      { stream: 'stdout', text: 'one' },
+      { stream: 'stderr', text: 'oops' },
+      { stream: 'display', mimeType: 'text/plain', data: '42' },
+      { stream: 'stdout', text: 'two' }
+    ]
+
+    it('should join the text of one stream with newlines', () => {
+      expect(joinStream(output, 'stdout')).toBe('one\ntwo')
+      expect(joinStream(output, 'stderr')).toBe('oops')
+    })
+
+    it('should return an empty string when the stream has no output', () => {
+      expect(joinStream([], 'stdout')).toBe('')
+    })
+  })
+
+  describe('displayedImages', () => {
+    it('should return the PNG data of displayed images, in order', () => {
+      const output: OutputChunk[] = [
+        { stream: 'display', mimeType: 'image/png', data: 'first' },
+        { stream: 'stdout', text: 'between' },
+        { stream: 'display', mimeType: 'text/html', data: '<b>hi</b>' },
+        { stream: 'display', mimeType: 'image/png', data: 'second' }
+      ]
+
+      expect(displayedImages(output)).toEqual(['first', 'second'])
+    })
+  })
+
+  describe('createBatcher', () => {
+    it('should keep every item in order by default', () => {
+      // Arrange
+      let time = 0
+      const flush = vi.fn()
+      const batcher = createBatcher<number>(flush, undefined, 50, () => time)
+
+      // Act
+      batcher.add(1)
+      batcher.add(2)
+      time = 50
+      batcher.add(3)
+
+      // Assert
+      expect(flush).toHaveBeenCalledWith([1, 2, 3])
+    })
+  })
+
+  describe('createOutputBatcher', () => {
+    it('should hold chunks until the interval has passed', () => {
+      // Arrange
+      let time = 0
+      const flush = vi.fn()
+      const batcher = createOutputBatcher(flush, 50, () => time)
+
+      // Act
+      batcher.add({ stream: 'stdout', text: 'a' })
+      time = 49
+      batcher.add({ stream: 'stdout', text: 'b' })
+
+      // Assert
+      expect(flush).not.toHaveBeenCalled()
+
+      // Act
+      time = 50
+      batcher.add({ stream: 'stderr', text: 'c' })
+
+      // Assert
+      expect(flush).toHaveBeenCalledTimes(1)
+      expect(flush).toHaveBeenCalledWith([
+        { stream: 'stdout', text: 'a\nb' },
+        { stream: 'stderr', text: 'c' }
+      ])
+    })
+
+    it('should send whatever is pending when flushed explicitly', () => {
+      // Arrange
+      const flush = vi.fn()
+      const batcher = createOutputBatcher(flush, 50, () => 0)
+      batcher.add({ stream: 'stdout', text: 'a' })
+
+      // Act
+      batcher.flush()
+
+      // Assert
+      expect(flush).toHaveBeenCalledWith([{ stream: 'stdout', text: 'a' }])
+    })
+
+    it('should not send an empty batch', () => {
+      const flush = vi.fn()
+      const batcher = createOutputBatcher(flush, 50, () => 0)
+
+      batcher.flush()
+
+      expect(flush).not.toHaveBeenCalled()
+    })
+  })
+})
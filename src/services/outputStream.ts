@@ -0,0 +1,115 @@
+import type { DisplayChunk, OutputChunk, TextChunk } from './workerProtocol'
+
+export function isTextChunk(chunk: OutputChunk): chunk is TextChunk {
+  return chunk.stream !== 'display'
+}
+
+/**
+ * Add a chunk to the end of an output list in place, merging it into the last chunk
+ * when both are text in the same stream, so that a long print loop doesn't turn into
+ * thousands of chunks. Displays are never merged.
+ */
+export function pushChunk(output: OutputChunk[], chunk: OutputChunk) {
+  const last = output[output.length - 1]
+  if (
+    last &&
+    isTextChunk(last) &&
+    isTextChunk(chunk) &&
+    last.stream === chunk.stream
+  ) {
+    output[output.length - 1] = {
+      stream: last.stream,
+      text: last.text + '\n' + chunk.text
+    }
+  } else {
+    output.push(chunk)
+  }
+}
+
+/**
+ * Like pushChunk for several chunks, but leaves `existing` untouched and returns a new list
+ */
+export function appendChunks(
+  existing: OutputChunk[],
+  incoming: OutputChunk[]
+): OutputChunk[] {
+  const merged = existing.slice()
+  for (const chunk of incoming) {
+    pushChunk(merged, chunk)
+  }
+  return merged
+}
+
+/**
+ * All text written to one stream, newline-separated
+ */
+export function joinStream(
+  chunks: OutputChunk[],
+  stream: TextChunk['stream']
+): string {
+  return chunks
+    .filter(isTextChunk)
+    .filter((chunk) => chunk.stream === stream)
+    .map((chunk) => chunk.text)
+    .join('\n')
+}
+
+/**
+ * The PNG images (base64) among the displayed output, e.g. matplotlib figures
+ */
+export function displayedImages(chunks: OutputChunk[]): string[] {
+  return chunks
+    .filter(
+      (chunk): chunk is DisplayChunk =>
+        chunk.stream === 'display' && chunk.mimeType === 'image/png'
+    )
+    .map((chunk) => chunk.data)
+}
+
+/**
+ * Collects items and hands them to `flush` at most once per interval. Python code runs
+ * synchronously in the worker, so timers can't fire mid-run; the interval is checked
+ * whenever an item is added instead, and the caller flushes explicitly at the end.
+ * `push` decides how an item joins the pending list (by default it is appended).
+ */
+export function createBatcher<T>(
+  flush: (items: T[]) => void,
+  push: (pending: T[], item: T) => void = (pending, item) => {
+    pending.push(item)
+  },
+  intervalMs = 50,
+  now: () => number = Date.now
+) {
+  let pending: T[] = []
+  let lastFlush = now()
+
+  const flushPending = () => {
+    if (pending.length > 0) {
+      const items = pending
+      pending = []
+      flush(items)
+    }
+    lastFlush = now()
+  }
+
+  return {
+    add(item: T) {
+      push(pending, item)
+      if (now() - lastFlush >= intervalMs) {
+        flushPending()
+      }
+    },
+    flush: flushPending
+  }
+}
+
+/**
+ * Batches output chunks, merging neighbouring chunks from the same stream
+ */
+export function createOutputBatcher(
+  flush: (chunks: OutputChunk[]) => void,
+  intervalMs = 50,
+  now: () => number = Date.now
+) {
+  return createBatcher(flush, pushChunk, intervalMs, now)
+}
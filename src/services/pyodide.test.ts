@@ -1,167 +1,1092 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { PyodideRunner, createPyodideRunner } from './pyodide'
-import type { Mock } from 'vitest'
+import type { WorkerRequest, WorkerResponse } from './workerProtocol'
 
-// Define a simple type for Pyodide's output options
-interface PyodideOutputOptions {
-  batched?: (output: string) => void
-}
+// Mock the config module ONLY
+vi.mock('../config', () => ({
+  config: {
+    backendUrl: 'http://test-backend',
+    executionTimeoutMs: 1000,
+    pyodideUrls: ['/pyodide/', 'https://cdn.example/pyodide/'],
+    allowedPackages: ['numpy']
+  }
+}))
 
-// Define a type for our mocked pyodide instance
-interface MockPyodideInstance {
-  runPythonAsync: Mock
-  setStdout: Mock
-  setStderr: Mock
-}
+import { PyodideRunner, PyodideStatus, createPyodideRunner } from './pyodide'
+import { resetStdin, waitForStdinLine } from './stdinChannel'
+
+/**
+ * Stands in for the real Python worker. Records what the runner posts to it, and lets
+ * the test reply as the worker would.
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  posted: WorkerRequest[] = []
+  terminated = false
 
-// Mock the pyodide module
-vi.mock('pyodide', () => {
-  const mockPyodideInstance = {
-    runPythonAsync: vi.fn(),
-    setStdout: vi.fn(),
-    setStderr: vi.fn()
+  postMessage(request: WorkerRequest) {
+    this.posted.push(request)
   }
 
-  return {
-    loadPyodide: vi.fn().mockResolvedValue(mockPyodideInstance)
+  terminate() {
+    this.terminated = true
+  }
+
+  reply(response: WorkerResponse) {
+    this.onmessage?.({ data: response } as MessageEvent<WorkerResponse>)
   }
-})
+
+  // Report that the last run or check posted has begun, as the worker does once it
+  // gets to it
+  startLast() {
+    const runs = this.posted.filter(
+      (r) => r.type === 'execute' || r.type === 'check'
+    )
+    const last = runs[runs.length - 1]
+    if (!last || (last.type !== 'execute' && last.type !== 'check')) {
+      throw new Error('No run or check was posted')
+    }
+    this.reply({ type: 'started', id: last.id })
+  }
+
+  lastExecuteId(): number {
+    const executes = this.posted.filter((r) => r.type === 'execute')
+    const last = executes[executes.length - 1]
+    if (!last || last.type !== 'execute') {
+      throw new Error('No execute request was posted')
+    }
+    return last.id
+  }
+}
 
 describe('PyodideRunner', () => {
+  let workers: FakeWorker[]
   let pyodideRunner: PyodideRunner
-  let mockPyodideInstance: MockPyodideInstance
-
-  beforeEach(async () => {
-    vi.clearAllMocks()
 
-    // Create a fresh instance for each test
-    pyodideRunner = createPyodideRunner()
+  // The most recently spawned worker
+  const currentWorker = () => workers[workers.length - 1]
 
-    // Get the mock instance
-    const { loadPyodide } = await import('pyodide')
-    mockPyodideInstance =
-      (await loadPyodide()) as unknown as MockPyodideInstance
+  // Let pending promise callbacks run
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
 
-    // Default success implementation
-    mockPyodideInstance.runPythonAsync.mockResolvedValue('success result')
+  beforeEach(() => {
+    workers = []
+    pyodideRunner = createPyodideRunner({
+      createWorker: () => {
+        const worker = new FakeWorker()
+        workers.push(worker)
+        return worker as unknown as Worker
+      }
+    })
   })
 
   afterEach(() => {
-    vi.clearAllMocks()
+    vi.useRealTimers()
   })
 
-  it('should initialize Pyodide properly', async () => {
-    // Reset call count before this test
-    const { loadPyodide } = await import('pyodide')
-    vi.mocked(loadPyodide).mockClear()
+  it('should spawn a worker and become ready when it reports ready', async () => {
+    // Act
+    const initPromise = pyodideRunner.initialize()
+    expect(pyodideRunner.getStatus()).toBe(PyodideStatus.LOADING)
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
 
+    // Assert
+    expect(workers).toHaveLength(1)
+    expect(currentWorker().posted).toEqual([
+      {
+        type: 'init',
+        indexUrls: [
+          new URL('/pyodide/', window.location.href).href,
+          'https://cdn.example/pyodide/'
+        ],
+        allowedPackages: ['numpy'],
+        stdinBuffer: expect.any(SharedArrayBuffer)
+      }
+    ])
+    expect(pyodideRunner.getStatus()).toBe(PyodideStatus.READY)
+    expect(pyodideRunner.isInitialized()).toBe(true)
+  })
+
+  it('should only spawn one worker when initialized twice', async () => {
     // Act
-    await pyodideRunner.initialize()
+    const first = pyodideRunner.initialize()
+    const second = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await Promise.all([first, second])
 
     // Assert
-    expect(loadPyodide).toHaveBeenCalledTimes(1)
+    expect(workers).toHaveLength(1)
   })
 
-  it('should execute code and capture stdout', async () => {
+  it('should send the configured mirrors to the worker', () => {
     // Arrange
-    await pyodideRunner.initialize()
+    const worker = new FakeWorker()
+    const runner = createPyodideRunner({
+      createWorker: () => worker as unknown as Worker,
+      indexUrls: ['https://mirror.example/pyodide/']
+    })
+
+    // Act
+    void runner.initialize()
 
-    // Mock runPythonAsync success
-    mockPyodideInstance.runPythonAsync.mockResolvedValue('success result')
+    // Assert
+    expect(worker.posted[0]).toMatchObject({
+      type: 'init',
+      indexUrls: ['https://mirror.example/pyodide/']
+    })
+  })
 
-    // Mock stdout handler
-    mockPyodideInstance.setStdout.mockImplementation(
-      (options: PyodideOutputOptions) => {
-        if (options && typeof options.batched === 'function') {
-          options.batched('Hello from stdout')
-        }
+  it('should handle initialization errors', async () => {
+    // Arrange
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    // Act
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'init-error', message: 'Failed to load' })
+
+    // Assert
+    await expect(initPromise).rejects.toThrow('Failed to load')
+    expect(pyodideRunner.getStatus()).toBe(PyodideStatus.ERROR)
+    expect(currentWorker().terminated).toBe(true)
+
+    consoleErrorSpy.mockRestore()
+  })
+
+  it('should execute code in the worker and return its result', async () => {
+    // Arrange
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+
+    // Act
+    const resultPromise = pyodideRunner.executeCode('print("test")')
+    await flush()
+    const worker = currentWorker()
+    expect(worker.posted[1]).toEqual({
+      type: 'execute',
+      id: worker.lastExecuteId(),
+      code: 'print("test")',
+      project: null,
+      debug: false,
+      interactive: false,
+      scratch: false
+    })
+    worker.reply({
+      type: 'result',
+      id: worker.lastExecuteId(),
+      result: {
+        stdout: 'test',
+        stderr: '',
+        stdin: [],
+        output: [],
+        turtle: [],
+        error: null,
+        result: null
       }
-    )
+    })
+
+    // Assert
+    await expect(resultPromise).resolves.toEqual({
+      stdout: 'test',
+      stderr: '',
+      stdin: [],
+      output: [],
+      turtle: [],
+      error: null,
+      result: null
+    })
+  })
+
+  it('should send the project along with the code', async () => {
+    // Arrange
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+    const project = {
+      files: [
+        { name: 'main.py', content: 'import helpers' },
+        { name: 'helpers.py', content: 'x = 1' }
+      ],
+      entryPoint: 'main.py'
+    }
 
     // Act
-    const result = await pyodideRunner.executeCode('print("test")')
+    pyodideRunner.executeCode('import helpers', { project })
+    await flush()
 
     // Assert
-    expect(result.stdout).toBe('Hello from stdout')
-    expect(result.stderr).toBe('')
-    expect(result.result).toBe('success result')
+    expect(currentWorker().posted[1]).toMatchObject({
+      type: 'execute',
+      code: 'import helpers',
+      project
+    })
   })
 
-  it('should execute code and capture stderr', async () => {
+  it('should initialize automatically when executing code', async () => {
+    // Act - note we're not calling initialize() first
+    const resultPromise = pyodideRunner.executeCode('print("test")')
+    currentWorker().reply({ type: 'ready' })
+    await flush()
+    currentWorker().reply({
+      type: 'result',
+      id: currentWorker().lastExecuteId(),
+      result: {
+        stdout: 'test',
+        stderr: '',
+        stdin: [],
+        output: [],
+        turtle: [],
+        error: null,
+        result: null
+      }
+    })
+
+    // Assert
+    await expect(resultPromise).resolves.toHaveProperty('stdout', 'test')
+    expect(workers).toHaveLength(1)
+  })
+
+  it('should kill and respawn the worker when code runs past the timeout', async () => {
     // Arrange
-    await pyodideRunner.initialize()
+    vi.useFakeTimers()
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+    const firstWorker = currentWorker()
 
-    // Mock runPythonAsync to return null for this test
-    mockPyodideInstance.runPythonAsync.mockResolvedValue(null)
+    // Act
+    const resultPromise = pyodideRunner.executeCode('while True: pass')
+    await vi.advanceTimersByTimeAsync(0)
+    firstWorker.startLast()
+    await vi.advanceTimersByTimeAsync(1000)
 
-    // Mock stdout and stderr handlers
-    mockPyodideInstance.setStdout.mockImplementation(() => {})
-    mockPyodideInstance.setStderr.mockImplementation(
-      (options: PyodideOutputOptions) => {
-        if (options && typeof options.batched === 'function') {
-          options.batched('Error output')
-        }
+    // Assert
+    const result = await resultPromise
+    expect(result.stderr).toContain('timed out after 1 seconds')
+    expect(result.result).toBeNull()
+    expect(firstWorker.terminated).toBe(true)
+    expect(workers).toHaveLength(2)
+    expect(currentWorker().posted).toEqual([
+      {
+        type: 'init',
+        indexUrls: expect.any(Array),
+        allowedPackages: ['numpy'],
+        stdinBuffer: expect.any(SharedArrayBuffer)
       }
+    ])
+    expect(pyodideRunner.getStatus()).toBe(PyodideStatus.LOADING)
+  })
+
+  it('should not count time spent waiting behind a query towards the timeout', async () => {
+    // Arrange
+    vi.useFakeTimers()
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+    const position = { code: 'pri', file: 'main.py', line: 1, column: 4 }
+    void pyodideRunner.complete(position)
+
+    // Act - the completion installs Jedi, which takes longer than the run may
+    const resultPromise = pyodideRunner.executeCode('while True: pass')
+    await vi.advanceTimersByTimeAsync(5000)
+
+    // Assert
+    expect(workers).toHaveLength(1)
+    // The completion was the first request
+    currentWorker().reply({ type: 'complete-result', id: 1, completions: [] })
+    currentWorker().startLast()
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(resultPromise).resolves.toHaveProperty(
+      'stderr',
+      expect.stringContaining('timed out after 1 seconds')
     )
+  })
+
+  it('should honour a per-call timeout', async () => {
+    // Arrange
+    vi.useFakeTimers()
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
 
     // Act
-    const result = await pyodideRunner.executeCode(
-      'import sys; sys.stderr.write("error")'
+    const resultPromise = pyodideRunner.executeCode('while True: pass', {
+      timeoutMs: 5000
+    })
+    await vi.advanceTimersByTimeAsync(0)
+    currentWorker().startLast()
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(workers).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(4000)
+
+    // Assert
+    await expect(resultPromise).resolves.toHaveProperty(
+      'stderr',
+      expect.stringContaining('timed out after 5 seconds')
     )
+  })
+
+  it('should relay install progress to the caller', async () => {
+    // Arrange
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+    const onInstallProgress = vi.fn()
+
+    // Act
+    void pyodideRunner.executeCode('import numpy', { onInstallProgress })
+    await flush()
+    const worker = currentWorker()
+    const id = worker.lastExecuteId()
+    worker.reply({ type: 'install-progress', id, message: 'Loading numpy' })
+    worker.reply({ type: 'install-progress', id, message: null })
 
     // Assert
-    expect(result.stderr).toBe('Error output')
-    expect(result.stdout).toBe('')
-    expect(result.result).toBeNull()
+    expect(onInstallProgress.mock.calls).toEqual([['Loading numpy'], [null]])
   })
 
-  it('should handle execution errors correctly', async () => {
+  it('should not count time spent installing packages towards the timeout', async () => {
     // Arrange
-    await pyodideRunner.initialize()
+    vi.useFakeTimers()
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
 
-    // Mock an error during execution
-    mockPyodideInstance.runPythonAsync.mockRejectedValue(
-      new Error('Python error')
+    // Act
+    const resultPromise = pyodideRunner.executeCode('import numpy')
+    await vi.advanceTimersByTimeAsync(0)
+    const worker = currentWorker()
+    const id = worker.lastExecuteId()
+    worker.reply({ type: 'install-progress', id, message: 'Loading numpy' })
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(workers).toHaveLength(1)
+    worker.reply({ type: 'install-progress', id, message: null })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    // Assert
+    await expect(resultPromise).resolves.toHaveProperty(
+      'stderr',
+      expect.stringContaining('timed out after 1 seconds')
     )
+  })
 
-    // Reset stdout to avoid test interference
-    mockPyodideInstance.setStdout.mockImplementation(() => {})
+  it('should stop running code and respawn the worker when cancelled', async () => {
+    // Arrange
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+    const firstWorker = currentWorker()
+    const resultPromise = pyodideRunner.executeCode('while True: pass')
+    await flush()
 
-    // Mock stderr for the error case
-    mockPyodideInstance.setStderr.mockImplementation(
-      (options: PyodideOutputOptions) => {
-        if (options && typeof options.batched === 'function') {
-          options.batched('Traceback information')
-        }
-      }
+    // Act
+    pyodideRunner.cancel()
+
+    // Assert
+    await expect(resultPromise).resolves.toEqual({
+      stdout: '',
+      stderr: 'Execution stopped.',
+      stdin: [],
+      output: [{ stream: 'stderr', text: 'Execution stopped.' }],
+      turtle: [],
+      error: null,
+      result: null
+    })
+    expect(firstWorker.terminated).toBe(true)
+    expect(workers).toHaveLength(2)
+
+    // The new worker is usable once it reports ready
+    currentWorker().reply({ type: 'ready' })
+    await pyodideRunner.initialize()
+    expect(pyodideRunner.getStatus()).toBe(PyodideStatus.READY)
+  })
+
+  it('should stop code started while Pyodide is loading when cancelled', async () => {
+    // Arrange
+    const resultPromise = pyodideRunner.executeCode('1')
+    const problemsPromise = pyodideRunner.lintCode('1')
+    const initPromise = pyodideRunner.initialize()
+
+    // Act
+    pyodideRunner.cancel()
+    currentWorker().reply({ type: 'ready' })
+
+    // Assert
+    await expect(resultPromise).resolves.toHaveProperty(
+      'stderr',
+      'Execution stopped.'
     )
+    await expect(problemsPromise).resolves.toEqual([])
+    // Waiting for Pyodide to load now means waiting for the new worker
+    await expect(initPromise).resolves.toBeUndefined()
+    expect(pyodideRunner.getStatus()).toBe(PyodideStatus.READY)
+    // The stopped code never reaches either worker
+    await flush()
+    expect(workers).toHaveLength(2)
+    for (const worker of workers) {
+      expect(worker.posted.map((request) => request.type)).toEqual(['init'])
+    }
+  })
+
+  it('should pass streamed output to the caller while code runs', async () => {
+    // Arrange
+    const onOutput = vi.fn()
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
 
     // Act
-    const result = await pyodideRunner.executeCode('raise Exception("error")')
+    pyodideRunner.executeCode('print("hi")', { onOutput })
+    await flush()
+    currentWorker().reply({
+      type: 'output',
+      id: currentWorker().lastExecuteId(),
+      chunks: [{ stream: 'stdout', text: 'hi' }]
+    })
 
     // Assert
-    expect(result.stderr).toBe('Traceback information\nPython error')
-    expect(result.result).toBeNull()
+    expect(onOutput).toHaveBeenCalledWith([{ stream: 'stdout', text: 'hi' }])
   })
 
-  it('should initialize automatically when executing code', async () => {
-    // Reset call count before this test
-    const { loadPyodide } = await import('pyodide')
-    vi.mocked(loadPyodide).mockClear()
+  it('should keep streamed output when the code is stopped', async () => {
+    // Arrange
+    vi.useFakeTimers()
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+    const resultPromise = pyodideRunner.executeCode('while True: print(1)')
+    await vi.advanceTimersByTimeAsync(0)
+    currentWorker().startLast()
+    currentWorker().reply({
+      type: 'output',
+      id: currentWorker().lastExecuteId(),
+      chunks: [
+        { stream: 'stdout', text: '1' },
+        { stream: 'stderr', text: 'warning' },
+        { stream: 'stdout', text: '1' }
+      ]
+    })
 
-    // Act - note we're not calling initialize() first
-    await pyodideRunner.executeCode('print("test")')
+    // Act
+    await vi.advanceTimersByTimeAsync(1000)
 
     // Assert
-    expect(loadPyodide).toHaveBeenCalledTimes(1)
+    const result = await resultPromise
+    expect(result.stdout).toBe('1\n1')
+    expect(result.stderr).toContain('warning\nExecution timed out')
+    expect(result.output).toEqual([
+      { stream: 'stdout', text: '1' },
+      { stream: 'stderr', text: 'warning' },
+      { stream: 'stdout', text: '1' },
+      { stream: 'stderr', text: expect.stringContaining('timed out') }
+    ])
   })
 
-  it('should handle initialization errors', async () => {
+  it('should pass turtle drawing steps to the caller and keep them when stopped', async () => {
     // Arrange
-    const { loadPyodide } = await import('pyodide')
-    vi.mocked(loadPyodide).mockRejectedValueOnce(new Error('Failed to load'))
+    const onTurtle = vi.fn()
+    const commands = [{ type: 'background' as const, color: 'black' }]
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+    const resultPromise = pyodideRunner.executeCode('bgcolor("black")', {
+      onTurtle
+    })
+    await flush()
+
+    // Act
+    currentWorker().reply({
+      type: 'turtle',
+      id: currentWorker().lastExecuteId(),
+      commands
+    })
+    pyodideRunner.cancel()
+
+    // Assert
+    expect(onTurtle).toHaveBeenCalledWith(commands)
+    expect((await resultPromise).turtle).toEqual(commands)
+  })
+
+  it('should ignore results from a worker for unknown requests', async () => {
+    // Arrange
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+
+    // Act & Assert - must not throw
+    currentWorker().reply({
+      type: 'result',
+      id: 999,
+      result: {
+        stdout: '',
+        stderr: '',
+        stdin: [],
+        output: [],
+        turtle: [],
+        error: null,
+        result: null
+      }
+    })
+    expect(pyodideRunner.getStatus()).toBe(PyodideStatus.READY)
+  })
+  describe('input()', () => {
+    // Start a run and have the worker report that it is blocked in input()
+    const startRunWaitingForInput = async (
+      onInputRequest = vi.fn()
+    ): Promise<{
+      resultPromise: Promise<unknown>
+      stdinBuffer: SharedArrayBuffer
+    }> => {
+      const initPromise = pyodideRunner.initialize()
+      currentWorker().reply({ type: 'ready' })
+      await initPromise
+      const init = currentWorker().posted[0]
+      if (init.type !== 'init' || !init.stdinBuffer) {
+        throw new Error('Worker was not given a stdin buffer')
+      }
+      const resultPromise = pyodideRunner.executeCode('input()', {
+        onInputRequest
+      })
+      await vi.advanceTimersByTimeAsync(0)
+      resetStdin(init.stdinBuffer)
+      currentWorker().reply({
+        type: 'stdin-request',
+        id: currentWorker().lastExecuteId(),
+        request: { prompt: 'Name? ' }
+      })
+      return { resultPromise, stdinBuffer: init.stdinBuffer }
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    it('should pass input requests to the caller', async () => {
+      // Arrange
+      const onInputRequest = vi.fn()
+
+      // Act
+      await startRunWaitingForInput(onInputRequest)
+
+      // Assert
+      expect(onInputRequest).toHaveBeenCalledWith({ prompt: 'Name? ' })
+      expect(pyodideRunner.isAwaitingInput()).toBe(true)
+    })
+
+    it('should write submitted input into the shared buffer', async () => {
+      // Arrange
+      const { stdinBuffer } = await startRunWaitingForInput()
+
+      // Act
+      pyodideRunner.submitInput('Ada')
+
+      // Assert
+      expect(waitForStdinLine(stdinBuffer)).toBe('Ada')
+      expect(pyodideRunner.isAwaitingInput()).toBe(false)
+    })
+
+    it('should not time out while waiting for input', async () => {
+      // Arrange
+      await startRunWaitingForInput()
+
+      // Act
+      await vi.advanceTimersByTimeAsync(5000)
+
+      // Assert
+      expect(workers).toHaveLength(1)
+      expect(currentWorker().terminated).toBe(false)
+    })
+
+    it('should restart the timeout once input is submitted', async () => {
+      // Arrange
+      const { resultPromise } = await startRunWaitingForInput()
+      await vi.advanceTimersByTimeAsync(5000)
+
+      // Act
+      pyodideRunner.submitInput('Ada')
+      await vi.advanceTimersByTimeAsync(1000)
+
+      // Assert
+      await expect(resultPromise).resolves.toHaveProperty(
+        'stderr',
+        expect.stringContaining('timed out')
+      )
+    })
+
+    it('should ignore submitted input when nothing is waiting', async () => {
+      // Arrange
+      const initPromise = pyodideRunner.initialize()
+      currentWorker().reply({ type: 'ready' })
+      await initPromise
+
+      // Act & Assert - must not throw
+      pyodideRunner.submitInput('stray')
+      expect(pyodideRunner.isAwaitingInput()).toBe(false)
+    })
+
+    it('should stop waiting for input when cancelled', async () => {
+      // Arrange
+      const { resultPromise } = await startRunWaitingForInput()
+
+      // Act
+      pyodideRunner.cancel()
+
+      // Assert
+      await expect(resultPromise).resolves.toHaveProperty(
+        'stderr',
+        'Execution stopped.'
+      )
+      expect(pyodideRunner.isAwaitingInput()).toBe(false)
+    })
+  })
+  describe('debugger', () => {
+    const step = {
+      file: null,
+      line: 2,
+      function: null,
+      locals: [],
+      globals: [{ name: 'x', type: 'int', repr: '1' }]
+    }
+
+    // Start a debug run and have the worker report that it paused
+    const startPausedRun = async (
+      onDebugPause = vi.fn()
+    ): Promise<{
+      resultPromise: Promise<unknown>
+      stdinBuffer: SharedArrayBuffer
+    }> => {
+      const initPromise = pyodideRunner.initialize()
+      currentWorker().reply({ type: 'ready' })
+      await initPromise
+      const init = currentWorker().posted[0]
+      if (init.type !== 'init' || !init.stdinBuffer) {
+        throw new Error('Worker was not given a stdin buffer')
+      }
+      const resultPromise = pyodideRunner.executeCode('x = 1\nprint(x)', {
+        debug: true,
+        onDebugPause
+      })
+      await vi.advanceTimersByTimeAsync(0)
+      resetStdin(init.stdinBuffer)
+      currentWorker().reply({
+        type: 'debug-pause',
+        id: currentWorker().lastExecuteId(),
+        step
+      })
+      return { resultPromise, stdinBuffer: init.stdinBuffer }
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    it('should ask the worker to debug and pass pauses to the caller', async () => {
+      // Arrange
+      const onDebugPause = vi.fn()
+
+      // Act
+      await startPausedRun(onDebugPause)
+
+      // Assert
+      expect(currentWorker().posted[1]).toMatchObject({
+        type: 'execute',
+        debug: true
+      })
+      expect(onDebugPause).toHaveBeenCalledWith(step)
+      expect(pyodideRunner.isPaused()).toBe(true)
+    })
+
+    it('should write the command into the shared buffer when resumed', async () => {
+      // Arrange
+      const { stdinBuffer } = await startPausedRun()
+
+      // Act
+      pyodideRunner.resumeDebugging('step')
+
+      // Assert
+      expect(waitForStdinLine(stdinBuffer)).toBe('step')
+      expect(pyodideRunner.isPaused()).toBe(false)
+    })
+
+    it('should not time out while paused', async () => {
+      // Arrange
+      await startPausedRun()
+
+      // Act
+      await vi.advanceTimersByTimeAsync(5000)
+
+      // Assert
+      expect(currentWorker().terminated).toBe(false)
+    })
+
+    it('should stop a paused run when cancelled', async () => {
+      // Arrange
+      const { resultPromise } = await startPausedRun()
+
+      // Act
+      pyodideRunner.cancel()
+
+      // Assert
+      await expect(resultPromise).resolves.toHaveProperty(
+        'stderr',
+        'Execution stopped.'
+      )
+      expect(pyodideRunner.isPaused()).toBe(false)
+    })
+  })
+  describe('checkExercise', () => {
+    const tests = [
+      {
+        name: 'add(2, 3) is 5',
+        kind: 'assertion' as const,
+        code: 'assert add(2, 3) == 5'
+      },
+      { name: 'prints 5', kind: 'output' as const, expectedOutput: '5' }
+    ]
+
+    const ready = async () => {
+      const initPromise = pyodideRunner.initialize()
+      currentWorker().reply({ type: 'ready' })
+      await initPromise
+    }
+
+    const lastCheckId = () => {
+      const check = currentWorker().posted.find((r) => r.type === 'check')
+      if (!check || check.type !== 'check') {
+        throw new Error('No check request was posted')
+      }
+      return check.id
+    }
+
+    it('should send the tests to the worker and resolve with its results', async () => {
+      // Arrange
+      await ready()
+      const project = {
+        files: [{ name: 'main.py', content: 'print(5)' }],
+        entryPoint: 'main.py'
+      }
+      const results = [
+        { name: 'add(2, 3) is 5', passed: false, message: 'NameError' },
+        { name: 'prints 5', passed: true, message: null }
+      ]
+
+      // Act
+      const resultsPromise = pyodideRunner.checkExercise('print(5)', tests, {
+        project
+      })
+      await flush()
+      currentWorker().reply({
+        type: 'check-result',
+        id: lastCheckId(),
+        results
+      })
+
+      // Assert
+      await expect(resultsPromise).resolves.toEqual(results)
+      expect(currentWorker().posted[1]).toEqual({
+        type: 'check',
+        id: lastCheckId(),
+        code: 'print(5)',
+        project,
+        tests
+      })
+    })
+
+    it('should fail every test when the check runs past the timeout', async () => {
+      // Arrange
+      vi.useFakeTimers()
+      await ready()
+
+      // Act
+      const resultsPromise = pyodideRunner.checkExercise(
+        'while True: pass',
+        tests
+      )
+      await vi.advanceTimersByTimeAsync(0)
+      currentWorker().startLast()
+      await vi.advanceTimersByTimeAsync(1000)
+
+      // Assert
+      const results = await resultsPromise
+      expect(results.map((result) => result.passed)).toEqual([false, false])
+      expect(results[0].message).toContain('timed out after 1 seconds')
+      expect(currentWorker().terminated).toBe(false)
+      expect(workers).toHaveLength(2)
+    })
+
+    it('should fail every test when the check is cancelled', async () => {
+      // Arrange
+      await ready()
+      const resultsPromise = pyodideRunner.checkExercise('x = 1', tests)
+      await flush()
+
+      // Act
+      pyodideRunner.cancel()
+
+      // Assert
+      await expect(resultsPromise).resolves.toEqual([
+        {
+          name: 'add(2, 3) is 5',
+          passed: false,
+          message: 'Execution stopped.'
+        },
+        { name: 'prints 5', passed: false, message: 'Execution stopped.' }
+      ])
+    })
+  })
+  describe('lintCode', () => {
+    const problems = [
+      {
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: 6,
+        severity: 'error' as const,
+        message: "'pritn' is not defined. Did you mean 'print'?"
+      }
+    ]
+
+    const ready = async () => {
+      const initPromise = pyodideRunner.initialize()
+      currentWorker().reply({ type: 'ready' })
+      await initPromise
+    }
+
+    const lastLintId = () => {
+      const lint = currentWorker().posted.find((r) => r.type === 'lint')
+      if (!lint || lint.type !== 'lint') {
+        throw new Error('No lint request was posted')
+      }
+      return lint.id
+    }
+
+    it('should send the code to the worker and resolve with the problems it found', async () => {
+      // Arrange
+      await ready()
+
+      // Act
+      const problemsPromise = pyodideRunner.lintCode("pritn('hi')")
+      await flush()
+      currentWorker().reply({ type: 'lint-result', id: lastLintId(), problems })
+
+      // Assert
+      await expect(problemsPromise).resolves.toEqual(problems)
+      expect(currentWorker().posted[1]).toEqual({
+        type: 'lint',
+        id: lastLintId(),
+        code: "pritn('hi')"
+      })
+    })
+
+    it('should not time out while waiting behind running code', async () => {
+      // Arrange
+      vi.useFakeTimers()
+      await ready()
+      const resultPromise = pyodideRunner.executeCode('input()')
+      await vi.advanceTimersByTimeAsync(0)
+      currentWorker().reply({
+        type: 'stdin-request',
+        id: currentWorker().lastExecuteId(),
+        request: { prompt: '' }
+      })
+
+      // Act
+      const problemsPromise = pyodideRunner.lintCode('x = 1')
+      await vi.advanceTimersByTimeAsync(5000)
+
+      // Assert
+      expect(currentWorker().terminated).toBe(false)
+      currentWorker().reply({
+        type: 'lint-result',
+        id: lastLintId(),
+        problems: []
+      })
+      await expect(problemsPromise).resolves.toEqual([])
+      pyodideRunner.cancel()
+      await resultPromise
+    })
+
+    it('should report no problems when the interpreter is restarted first', async () => {
+      // Arrange
+      await ready()
+      const problemsPromise = pyodideRunner.lintCode('x = 1')
+      await flush()
+
+      // Act
+      pyodideRunner.cancel()
+
+      // Assert
+      await expect(problemsPromise).resolves.toEqual([])
+    })
+  })
+  describe('code intelligence', () => {
+    const position = {
+      code: 'print(',
+      file: 'main.py',
+      line: 1,
+      column: 7
+    }
+
+    const ready = async () => {
+      const initPromise = pyodideRunner.initialize()
+      currentWorker().reply({ type: 'ready' })
+      await initPromise
+    }
+
+    const lastRequest = () => currentWorker().posted.at(-1)!
+
+    it('should ask the worker for completions and resolve with them', async () => {
+      // Arrange
+      await ready()
+      const completions = [
+        { name: 'print', type: 'function', signature: 'print()', doc: '' }
+      ]
+
+      // Act
+      const completionsPromise = pyodideRunner.complete(position)
+      await flush()
+      const request = lastRequest()
+      currentWorker().reply({
+        type: 'complete-result',
+        id: 'id' in request ? request.id : -1,
+        completions
+      })
+
+      // Assert
+      await expect(completionsPromise).resolves.toEqual(completions)
+      expect(request).toEqual({
+        type: 'complete',
+        id: expect.any(Number),
+        position,
+        project: null
+      })
+    })
+
+    it('should send the project with signature help requests', async () => {
+      // Arrange
+      await ready()
+      const project = {
+        files: [{ name: 'main.py', content: 'print(' }],
+        entryPoint: 'main.py'
+      }
+      const signature = {
+        name: 'print',
+        params: ['*values'],
+        activeParameter: 0,
+        doc: ''
+      }
+
+      // Act
+      const signaturePromise = pyodideRunner.signatureAt(position, project)
+      await flush()
+      const request = lastRequest()
+      currentWorker().reply({
+        type: 'signature-result',
+        id: 'id' in request ? request.id : -1,
+        signature
+      })
+
+      // Assert
+      await expect(signaturePromise).resolves.toEqual(signature)
+      expect(request).toEqual(
+        expect.objectContaining({ type: 'signature', project })
+      )
+    })
+
+    it('should have nothing to say when the interpreter is restarted first', async () => {
+      // Arrange
+      await ready()
+      const hoverPromise = pyodideRunner.describeName(position)
+      await flush()
+
+      // Act
+      pyodideRunner.cancel()
+
+      // Assert
+      await expect(hoverPromise).resolves.toBeNull()
+    })
+  })
+
+  it('should ask the worker to evaluate console entries interactively', async () => {
+    // Arrange
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+
+    // Act
+    const resultPromise = pyodideRunner.executeCode('x', { interactive: true })
+    await flush()
+    const worker = currentWorker()
+    worker.reply({
+      type: 'result',
+      id: worker.lastExecuteId(),
+      result: {
+        stdout: '',
+        stderr: '',
+        stdin: [],
+        output: [],
+        turtle: [],
+        error: null,
+        result: '42'
+      }
+    })
+
+    // Assert
+    await expect(resultPromise).resolves.toEqual(
+      expect.objectContaining({ result: '42' })
+    )
+    expect(worker.posted.at(-1)).toEqual(
+      expect.objectContaining({ type: 'execute', code: 'x', interactive: true })
+    )
+  })
+
+  it('should ask the worker to run scratch snippets on their own', async () => {
+    // Arrange
+    const initPromise = pyodideRunner.initialize()
+    currentWorker().reply({ type: 'ready' })
+    await initPromise
+
+    // Act
+    void pyodideRunner.executeCode('print(1)', { scratch: true })
+    await flush()
+
+    // Assert
+    expect(currentWorker().posted.at(-1)).toEqual(
+      expect.objectContaining({
+        type: 'execute',
+        code: 'print(1)',
+        interactive: false,
+        scratch: true
+      })
+    )
+  })
+
+  describe('resetNamespace', () => {
+    const ready = async () => {
+      const initPromise = pyodideRunner.initialize()
+      currentWorker().reply({ type: 'ready' })
+      await initPromise
+    }
+
+    it('should ask the worker to clear the namespace and wait for it', async () => {
+      // Arrange
+      await ready()
+
+      // Act
+      const resetPromise = pyodideRunner.resetNamespace()
+      await flush()
+      const request = currentWorker().posted.at(-1)!
+      currentWorker().reply({
+        type: 'reset-result',
+        id: 'id' in request ? request.id : -1
+      })
 
-    // Act & Assert
-    await expect(pyodideRunner.initialize()).rejects.toThrow('Failed to load')
+      // Assert
+      await expect(resetPromise).resolves.toBeUndefined()
+      expect(request).toEqual({ type: 'reset', id: expect.any(Number) })
+    })
   })
 })
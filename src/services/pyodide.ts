@@ -1,4 +1,42 @@
-import { loadPyodide, type PyodideInterface } from 'pyodide'
+import { config } from '../config'
+import { appendChunks, joinStream } from './outputStream'
+import { createStdinBuffer, writeStdinLine } from './stdinChannel'
+import type { ExerciseTest, Project, TestResult } from '../types'
+import type {
+  CodePosition,
+  Completion,
+  DebugCommand,
+  DebugStep,
+  ExecutionResult,
+  HoverInfo,
+  InputRequest,
+  LintProblem,
+  OutputChunk,
+  SignatureHelp,
+  TurtleCommand,
+  WorkerRequest,
+  WorkerResponse
+} from './workerProtocol'
+
+export type {
+  CodePosition,
+  Completion,
+  DebugCommand,
+  DebugStep,
+  DebugVariable,
+  DisplayChunk,
+  DisplayMimeType,
+  ExecutionResult,
+  HoverInfo,
+  InputRequest,
+  LintProblem,
+  OutputChunk,
+  PythonError,
+  SignatureHelp,
+  TextChunk,
+  TracebackFrame,
+  TurtleCommand
+} from './workerProtocol'
 
 /**
  * Possible states for the Pyodide runtime
@@ -11,29 +49,127 @@ export enum PyodideStatus {
 }
 
 /**
- * Type for the execution result
+ * Creates the worker that hosts the Python interpreter
  */
-export interface ExecutionResult {
-  stdout: string
-  stderr: string
-  result: unknown
+export type WorkerFactory = () => Worker
+
+export interface PyodideRunnerOptions {
+  createWorker?: WorkerFactory
+  timeoutMs?: number
+  // Pyodide mirrors, tried in order
+  indexUrls?: string[]
+  // Modules beyond the standard library that code may import
+  allowedPackages?: string[]
+}
+
+export interface ExecuteOptions {
+  timeoutMs?: number
+  // Called when the code is blocked in input(); answer with submitInput()
+  onInputRequest?: (request: InputRequest) => void
+  // Called with new output while the code is still running
+  onOutput?: (chunks: OutputChunk[]) => void
+  // Called with progress while imported packages install, then with null
+  onInstallProgress?: (message: string | null) => void
+  // Called with new turtle drawing steps while the code is still running
+  onTurtle?: (commands: TurtleCommand[]) => void
+  // The project the code is the entry point of; its files are written where the code can import and open them
+  project?: Project
+  // Run in the debugger: pause before each line of the student's code. Needs the
+  // same shared memory as input(); without it the code runs without pausing.
+  debug?: boolean
+  // Called when the debugger pauses; answer with resumeDebugging()
+  onDebugPause?: (step: DebugStep) => void
+  // Evaluate the code as a console entry, against the names earlier runs defined;
+  // the result's `result` is the repr() of its value, or null
+  interactive?: boolean
+  // Run the code in a namespace of its own, leaving the names earlier runs defined
+  // alone, e.g. for an example from the tutor
+  scratch?: boolean
+}
+
+export interface CheckOptions {
+  timeoutMs?: number
+  // Called with progress while imported packages install, then with null
+  onInstallProgress?: (message: string | null) => void
+  // The project the code is the entry point of, as for executeCode
+  project?: Project
+}
+
+interface PendingExecution {
+  // Also called for a check that was stopped or timed out, with the reason in stderr
+  resolve: (result: ExecutionResult) => void
+  // Set for exercise checks, which finish with test results instead of an ExecutionResult
+  resolveTests?: (results: TestResult[]) => void
+  timeoutMs: number
+  timeoutId: ReturnType<typeof setTimeout> | null
+  // Output streamed so far, kept so it survives the worker being killed
+  output: OutputChunk[]
+  // Likewise for the turtle drawing
+  turtle: TurtleCommand[]
+  onInputRequest?: (request: InputRequest) => void
+  onOutput?: (chunks: OutputChunk[]) => void
+  onInstallProgress?: (message: string | null) => void
+  onTurtle?: (commands: TurtleCommand[]) => void
+  onDebugPause?: (step: DebugStep) => void
+}
+
+// A query has no timeout, as it waits behind any code that is running. If the worker
+// is killed before answering, it resolves with the fallback instead.
+interface PendingQuery {
+  resolve: (answer: unknown) => void
+  fallback: unknown
+}
+
+function createDefaultWorker(): Worker {
+  return new Worker(new URL('./pyodide.worker.ts', import.meta.url), {
+    type: 'module'
+  })
 }
 
 /**
- * Creates and manages a Pyodide instance
+ * Creates and manages a Pyodide instance running in a dedicated Web Worker, so
+ * that long-running or never-ending student code can't freeze the page. The
+ * worker is killed on timeout or cancel and a fresh one is spawned in its place.
  */
 export class PyodideRunner {
-  private pyodide: PyodideInterface | null = null
+  private worker: Worker | null = null
+  private stdinBuffer: SharedArrayBuffer | null = null
+  private awaitingInputId: number | null = null
+  private pausedId: number | null = null
   private status: PyodideStatus = PyodideStatus.UNINITIALIZED
-  private initPromise: Promise<PyodideInterface> | null = null
+  private initPromise: Promise<void> | null = null
+  // Settles initPromise; kept so those waiting on a worker that is discarded while
+  // it loads can be handed the next one (see restart)
+  private settleInit: {
+    resolve: () => void
+    reject: (error: Error) => void
+  } | null = null
+  private pending = new Map<number, PendingExecution>()
+  // Requests about code that isn't run (linting, completions and so on), by id
+  private pendingQueries = new Map<number, PendingQuery>()
+  private nextRequestId = 1
+  private readonly createWorker: WorkerFactory
+  private readonly timeoutMs: number
+  private readonly indexUrls: string[]
+  private readonly allowedPackages: string[]
+
+  constructor(options: PyodideRunnerOptions = {}) {
+    this.createWorker = options.createWorker ?? createDefaultWorker
+    this.timeoutMs = options.timeoutMs ?? config.executionTimeoutMs
+    // The worker lives at a different URL than the page, so relative mirrors are resolved here
+    this.indexUrls = (options.indexUrls ?? config.pyodideUrls).map(
+      (url) => new URL(url, window.location.href).href
+    )
+    this.allowedPackages = options.allowedPackages ?? config.allowedPackages
+  }
 
   /**
-   * Initialize a new Pyodide instance
+   * Spawn the worker and wait for Pyodide to load inside it
    */
-  public async initialize(): Promise<PyodideInterface> {
-    // If we already have a Pyodide instance, return it
-    if (this.pyodide) {
-      return this.pyodide
+  public async initialize(): Promise<void> {
+    // If the worker is already up, there's nothing to do
+    if (this.status === PyodideStatus.READY) {
+      return
     }
 
     // If we're already loading, return the existing promise
@@ -41,90 +177,279 @@ export class PyodideRunner {
       return this.initPromise
     }
 
-    try {
-      this.status = PyodideStatus.LOADING
+    this.status = PyodideStatus.LOADING
+    const worker = this.createWorker()
+    this.worker = worker
+    this.stdinBuffer = createStdinBuffer()
+    if (!this.stdinBuffer) {
+      console.warn(
+        'SharedArrayBuffer is unavailable (page is not cross-origin isolated), so input() will not work'
+      )
+    }
 
-      // Create and store the initialization promise
-      this.initPromise = loadPyodide({
-        indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.27.3/full/',
-        fullStdLib: true
+    this.initPromise = new Promise<void>((resolve, reject) => {
+      this.settleInit = { resolve, reject }
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data
+        if (response.type === 'ready') {
+          this.status = PyodideStatus.READY
+          this.settleInit = null
+          resolve()
+        } else if (response.type === 'init-error') {
+          this.status = PyodideStatus.ERROR
+          this.initPromise = null
+          this.settleInit = null
+          this.discardWorker()
+          reject(new Error(response.message))
+        } else if (response.type === 'started') {
+          this.handleStarted(response.id)
+        } else if (response.type === 'output') {
+          this.handleOutput(response.id, response.chunks)
+        } else if (response.type === 'turtle') {
+          this.handleTurtle(response.id, response.commands)
+        } else if (response.type === 'stdin-request') {
+          this.handleInputRequest(response.id, response.request)
+        } else if (response.type === 'debug-pause') {
+          this.handleDebugPause(response.id, response.step)
+        } else if (response.type === 'install-progress') {
+          this.handleInstallProgress(response.id, response.message)
+        } else if (response.type === 'result') {
+          this.settle(response.id, response.result)
+        } else if (response.type === 'check-result') {
+          this.settleCheck(response.id, response.results)
+        } else if (response.type === 'lint-result') {
+          this.settleQuery(response.id, response.problems)
+        } else if (response.type === 'reset-result') {
+          this.settleQuery(response.id, undefined)
+        } else if (response.type === 'complete-result') {
+          this.settleQuery(response.id, response.completions)
+        } else if (response.type === 'hover-result') {
+          this.settleQuery(response.id, response.hover)
+        } else if (response.type === 'signature-result') {
+          this.settleQuery(response.id, response.signature)
+        }
+      }
+      worker.onerror = (event: ErrorEvent) => {
+        console.error('Python worker error:', event.message)
+      }
+      this.send({
+        type: 'init',
+        indexUrls: this.indexUrls,
+        allowedPackages: this.allowedPackages,
+        stdinBuffer: this.stdinBuffer
       })
+    })
 
-      // Await the promise and store the result
-      this.pyodide = await this.initPromise
-      this.status = PyodideStatus.READY
-      return this.pyodide
+    try {
+      await this.initPromise
     } catch (error) {
-      this.status = PyodideStatus.ERROR
-      this.initPromise = null
       console.error('Failed to load Pyodide:', error)
       throw error
     }
   }
 
   /**
-   * Execute Python code and return the result
-   * This method doesn't maintain any state between calls
+   * Execute Python code in the worker and return the result.
+   * If the code runs longer than the timeout, the interpreter is killed and the
+   * result reports the timeout in stderr.
    */
-  public async executeCode(code: string): Promise<ExecutionResult> {
-    if (!this.pyodide) {
-      await this.initialize()
-    }
+  public async executeCode(
+    code: string,
+    options: ExecuteOptions = {}
+  ): Promise<ExecutionResult> {
+    const id = this.nextRequestId++
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs
 
-    if (!this.pyodide) {
-      throw new Error('Pyodide is not initialized')
-    }
-
-    // Set up output capture
-    const stdoutBuffer: string[] = []
-    const stderrBuffer: string[] = []
-
-    // Set up stdout handler
-    this.pyodide.setStdout({
-      batched: (output: string) => {
-        stdoutBuffer.push(output)
+    return new Promise<ExecutionResult>((resolve, reject) => {
+      const execution: PendingExecution = {
+        resolve,
+        timeoutMs,
+        timeoutId: null,
+        output: [],
+        turtle: [],
+        onInputRequest: options.onInputRequest,
+        onOutput: options.onOutput,
+        onInstallProgress: options.onInstallProgress,
+        onTurtle: options.onTurtle,
+        onDebugPause: options.onDebugPause
       }
+      this.pending.set(id, execution)
+      this.sendWhenLoaded(
+        () => this.pending.get(id) === execution,
+        () =>
+          this.send({
+            type: 'execute',
+            id,
+            code,
+            project: options.project ?? null,
+            debug: options.debug ?? false,
+            interactive: options.interactive ?? false,
+            scratch: options.scratch ?? false
+          }),
+        (error) => {
+          this.pending.delete(id)
+          reject(error)
+        }
+      )
     })
+  }
 
-    // Set up stderr handler
-    this.pyodide.setStderr({
-      batched: (output: string) => {
-        stderrBuffer.push(output)
+  /**
+   * Run an exercise's hidden tests against the code in the worker. The whole check
+   * shares one timeout; if it runs out, or the check is cancelled, every test fails
+   * with the reason.
+   */
+  public async checkExercise(
+    code: string,
+    tests: ExerciseTest[],
+    options: CheckOptions = {}
+  ): Promise<TestResult[]> {
+    const id = this.nextRequestId++
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs
+
+    return new Promise<TestResult[]>((resolve, reject) => {
+      const execution: PendingExecution = {
+        resolve: (result) =>
+          resolve(
+            tests.map((test) => ({
+              name: test.name,
+              passed: false,
+              message: result.stderr
+            }))
+          ),
+        resolveTests: resolve,
+        timeoutMs,
+        timeoutId: null,
+        output: [],
+        turtle: [],
+        onInstallProgress: options.onInstallProgress
       }
+      this.pending.set(id, execution)
+      this.sendWhenLoaded(
+        () => this.pending.get(id) === execution,
+        () =>
+          this.send({
+            type: 'check',
+            id,
+            code,
+            project: options.project ?? null,
+            tests
+          }),
+        (error) => {
+          this.pending.delete(id)
+          reject(error)
+        }
+      )
     })
+  }
 
-    try {
-      // Execute the code
-      const result: unknown = await this.pyodide.runPythonAsync(code)
+  /**
+   * Find problems in the code without running it. If the interpreter is restarted
+   * before the worker gets to it, no problems are reported.
+   */
+  public lintCode(code: string): Promise<LintProblem[]> {
+    return this.query((id) => ({ type: 'lint', id, code }), [])
+  }
 
-      // Collect output
-      const stdout: string = stdoutBuffer.join('\n')
-      const stderr: string = stderrBuffer.join('\n')
+  /**
+   * Forget everything earlier runs defined, so the next run starts from a clean
+   * namespace. Much quicker than restarting the worker; waits for running code to end.
+   */
+  public resetNamespace(): Promise<void> {
+    return this.query<void>((id) => ({ type: 'reset', id }), undefined)
+  }
 
-      return {
-        stdout,
-        stderr,
-        result
-      }
-    } catch (error) {
-      // Collect output even if execution failed
-      const stdout: string = stdoutBuffer.join('\n')
-      const stderr: string = stderrBuffer.join('\n')
-      const error_str: string =
-        error instanceof Error ? error.message : String(error)
-      // work around what is, in my opinion, a pyodide bug which throws error instead of populating stderr in case of Python error
-      // https://github.com/pyodide/pyodide/issues/3938
-      //
-      // Don't need to worry about semantics of 'null vs empty string' in stderr/stdout here, that's handled in other code on the basis of
-      // other app considerations relating to whether code has been run or changed
-      const combined_stderr = stderr + '\n' + error_str
-
-      return {
-        stdout,
-        stderr: combined_stderr,
-        result: null
-      }
+  /**
+   * What could be typed at a position in the code. The project's files are looked
+   * at too, so names imported from them complete. Without Jedi there are none.
+   */
+  public complete(
+    position: CodePosition,
+    project?: Project
+  ): Promise<Completion[]> {
+    return this.query(
+      (id) => ({ type: 'complete', id, position, project: project ?? null }),
+      []
+    )
+  }
+
+  /**
+   * The signature and docstring of the name at a position, null if there are none
+   */
+  public describeName(
+    position: CodePosition,
+    project?: Project
+  ): Promise<HoverInfo | null> {
+    return this.query<HoverInfo | null>(
+      (id) => ({ type: 'hover', id, position, project: project ?? null }),
+      null
+    )
+  }
+
+  /**
+   * The call whose arguments are being typed at a position, null if not in a call
+   */
+  public signatureAt(
+    position: CodePosition,
+    project?: Project
+  ): Promise<SignatureHelp | null> {
+    return this.query<SignatureHelp | null>(
+      (id) => ({ type: 'signature', id, position, project: project ?? null }),
+      null
+    )
+  }
+
+  /**
+   * Answer an input() call that the running code is blocked on. Null means end of
+   * input, which raises EOFError in Python.
+   */
+  public submitInput(line: string | null): void {
+    if (this.awaitingInputId === null || !this.stdinBuffer) {
+      return
+    }
+    const execution = this.pending.get(this.awaitingInputId)
+    this.awaitingInputId = null
+    writeStdinLine(this.stdinBuffer, line)
+    if (execution) {
+      this.startTimer(execution)
+    }
+  }
+
+  /**
+   * Check whether the running code is blocked waiting for input
+   */
+  public isAwaitingInput(): boolean {
+    return this.awaitingInputId !== null
+  }
+
+  /**
+   * Let code paused in the debugger go on: run its next line, or run to the end
+   */
+  public resumeDebugging(command: DebugCommand): void {
+    if (this.pausedId === null || !this.stdinBuffer) {
+      return
     }
+    const execution = this.pending.get(this.pausedId)
+    this.pausedId = null
+    writeStdinLine(this.stdinBuffer, command)
+    if (execution) {
+      this.startTimer(execution)
+    }
+  }
+
+  /**
+   * Check whether the running code is paused in the debugger
+   */
+  public isPaused(): boolean {
+    return this.pausedId !== null
+  }
+
+  /**
+   * Stop any running code by killing the interpreter, then spawn a fresh one.
+   * Pending executions resolve with a message in stderr.
+   */
+  public cancel(): void {
+    this.restart('Execution stopped.')
   }
 
   /**
@@ -138,15 +463,225 @@ export class PyodideRunner {
    * Check if Pyodide is initialized
    */
   public isInitialized(): boolean {
-    return this.pyodide !== null
+    return this.status === PyodideStatus.READY
+  }
+
+  private send(request: WorkerRequest) {
+    this.worker?.postMessage(request)
+  }
+
+  private startTimer(execution: PendingExecution) {
+    const { timeoutMs } = execution
+    execution.timeoutId = setTimeout(() => {
+      const seconds = Math.round(timeoutMs / 100) / 10
+      this.restart(
+        `Execution timed out after ${seconds} seconds and was stopped. Check for loops that never end.`
+      )
+    }, timeoutMs)
+  }
+
+  private stopTimer(execution: PendingExecution) {
+    if (execution.timeoutId !== null) {
+      clearTimeout(execution.timeoutId)
+      execution.timeoutId = null
+    }
+  }
+
+  // The timeout starts once the worker begins the run, not when it is asked to: the
+  // worker handles one request at a time, and a query ahead of the run, such as the
+  // first completion, which installs Jedi, can take a while
+  private handleStarted(id: number) {
+    const execution = this.pending.get(id)
+    if (execution) {
+      this.startTimer(execution)
+    }
+  }
+
+  private handleOutput(id: number, chunks: OutputChunk[]) {
+    const execution = this.pending.get(id)
+    if (!execution) {
+      return
+    }
+    execution.output = appendChunks(execution.output, chunks)
+    execution.onOutput?.(chunks)
+  }
+
+  private handleTurtle(id: number, commands: TurtleCommand[]) {
+    const execution = this.pending.get(id)
+    if (!execution) {
+      return
+    }
+    execution.turtle = execution.turtle.concat(commands)
+    execution.onTurtle?.(commands)
+  }
+
+  // Time spent waiting for the student to type doesn't count towards the timeout
+  private handleInputRequest(id: number, request: InputRequest) {
+    const execution = this.pending.get(id)
+    if (!execution) {
+      return
+    }
+    this.stopTimer(execution)
+    this.awaitingInputId = id
+    execution.onInputRequest?.(request)
+  }
+
+  // Like waiting for input, time spent looking at a paused line doesn't count
+  private handleDebugPause(id: number, step: DebugStep) {
+    const execution = this.pending.get(id)
+    if (!execution) {
+      return
+    }
+    this.stopTimer(execution)
+    this.pausedId = id
+    execution.onDebugPause?.(step)
+  }
+
+  // Downloading packages can take a while on a slow network, so it doesn't count
+  // towards the timeout either; the code gets its full time once they're installed
+  private handleInstallProgress(id: number, message: string | null) {
+    const execution = this.pending.get(id)
+    if (!execution) {
+      return
+    }
+    this.stopTimer(execution)
+    if (message === null) {
+      this.startTimer(execution)
+    }
+    execution.onInstallProgress?.(message)
+  }
+
+  // Stop tracking an execution that has finished, and return it
+  private finish(id: number): PendingExecution | undefined {
+    const execution = this.pending.get(id)
+    if (!execution) {
+      return undefined
+    }
+    this.stopTimer(execution)
+    this.pending.delete(id)
+    if (this.awaitingInputId === id) {
+      this.awaitingInputId = null
+    }
+    if (this.pausedId === id) {
+      this.pausedId = null
+    }
+    return execution
+  }
+
+  private settle(id: number, result: ExecutionResult) {
+    this.finish(id)?.resolve(result)
+  }
+
+  private settleCheck(id: number, results: TestResult[]) {
+    this.finish(id)?.resolveTests?.(results)
+  }
+
+  /**
+   * Send a request once the worker has loaded, unless it was settled in the meantime
+   * (the worker was restarted while loading). If Pyodide fails to load, `fail` is
+   * called instead.
+   */
+  private sendWhenLoaded(
+    isWaiting: () => boolean,
+    send: () => void,
+    fail: (error: unknown) => void
+  ) {
+    this.initialize().then(
+      () => {
+        if (isWaiting()) {
+          send()
+        }
+      },
+      (error) => {
+        if (isWaiting()) {
+          fail(error)
+        }
+      }
+    )
+  }
+
+  // Send a request that is answered without running the student's code
+  private query<T>(
+    createRequest: (id: number) => WorkerRequest,
+    fallback: T
+  ): Promise<T> {
+    const id = this.nextRequestId++
+    return new Promise<T>((resolve, reject) => {
+      const query: PendingQuery = {
+        resolve: resolve as (answer: unknown) => void,
+        fallback
+      }
+      this.pendingQueries.set(id, query)
+      this.sendWhenLoaded(
+        () => this.pendingQueries.get(id) === query,
+        () => this.send(createRequest(id)),
+        (error) => {
+          this.pendingQueries.delete(id)
+          reject(error)
+        }
+      )
+    })
+  }
+
+  private settleQuery(id: number, answer: unknown) {
+    this.pendingQueries.get(id)?.resolve(answer)
+    this.pendingQueries.delete(id)
+  }
+
+  private discardWorker() {
+    this.worker?.terminate()
+    this.worker = null
+    this.stdinBuffer = null
+    this.awaitingInputId = null
+    this.pausedId = null
+  }
+
+  private restart(reason: string) {
+    // Whatever was waiting for the discarded worker to load waits for the new one
+    const settleInit = this.settleInit
+    this.settleInit = null
+    this.discardWorker()
+    this.status = PyodideStatus.UNINITIALIZED
+    this.initPromise = null
+
+    // Keep whatever the code printed before it was stopped
+    for (const [id, execution] of Array.from(this.pending.entries())) {
+      const output = appendChunks(execution.output, [
+        { stream: 'stderr', text: reason }
+      ])
+      this.settle(id, {
+        stdout: joinStream(output, 'stdout'),
+        stderr: joinStream(output, 'stderr'),
+        stdin: [],
+        output,
+        turtle: execution.turtle,
+        error: null,
+        result: null
+      })
+    }
+
+    for (const [id, query] of Array.from(this.pendingQueries.entries())) {
+      this.settleQuery(id, query.fallback)
+    }
+
+    // Respawn eagerly so the next run doesn't have to wait for Pyodide to load
+    const respawn = this.initialize()
+    respawn.catch(() => {
+      // already logged by initialize; the next executeCode will retry
+    })
+    if (settleInit) {
+      respawn.then(settleInit.resolve, settleInit.reject)
+    }
   }
 }
 
 /**
  * Factory function to create a PyodideRunner instance
  */
-export function createPyodideRunner(): PyodideRunner {
-  return new PyodideRunner()
+export function createPyodideRunner(
+  options?: PyodideRunnerOptions
+): PyodideRunner {
+  return new PyodideRunner(options)
 }
 
 // For backward compatibility, maintain a singleton instance
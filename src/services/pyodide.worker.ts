@@ -0,0 +1,238 @@
+// Entry point of the dedicated Python worker. Spawned by PyodideRunner in pyodide.ts.
+import type { PyodideInterface } from 'pyodide'
+import { createBatcher, createOutputBatcher } from './outputStream'
+import {
+  checkCode,
+  completeCode,
+  describeName,
+  lintCode,
+  loadRuntime,
+  resetNamespace,
+  runCode,
+  signatureAt,
+  type Pause,
+  type ReadLine
+} from './pythonRuntime'
+import { resetStdin, waitForStdinLine } from './stdinChannel'
+import type {
+  Completion,
+  HoverInfo,
+  LintProblem,
+  SignatureHelp,
+  TurtleCommand,
+  WorkerRequest,
+  WorkerResponse
+} from './workerProtocol'
+
+let runtimePromise: Promise<PyodideInterface> | null = null
+let indexUrls: string[] = []
+let allowedPackages: string[] = []
+let stdinBuffer: SharedArrayBuffer | null = null
+
+function post(response: WorkerResponse) {
+  self.postMessage(response)
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function getRuntime(): Promise<PyodideInterface> {
+  if (!runtimePromise) {
+    runtimePromise = loadRuntime(indexUrls)
+  }
+  return runtimePromise
+}
+
+/**
+ * Ask the main thread for a line and block until it arrives. Without shared
+ * memory there is no way to block, so input() sees end of input.
+ */
+function createReadLine(
+  id: number,
+  beforeRead: () => void
+): ReadLine | undefined {
+  const buffer = stdinBuffer
+  if (!buffer) {
+    return undefined
+  }
+  return (request) => {
+    beforeRead()
+    resetStdin(buffer)
+    post({ type: 'stdin-request', id, request })
+    return waitForStdinLine(buffer)
+  }
+}
+
+/**
+ * Show the main thread where the debugger paused and block until it says what to
+ * do next. Like input(), pausing needs shared memory; without it the code just runs.
+ */
+function createPause(id: number, beforePause: () => void): Pause | undefined {
+  const buffer = stdinBuffer
+  if (!buffer) {
+    return undefined
+  }
+  return (step) => {
+    beforePause()
+    resetStdin(buffer)
+    post({ type: 'debug-pause', id, step })
+    return waitForStdinLine(buffer) === 'step' ? 'step' : 'continue'
+  }
+}
+
+async function handleRequest(request: WorkerRequest) {
+  if (request.type === 'init') {
+    indexUrls = request.indexUrls
+    allowedPackages = request.allowedPackages
+    stdinBuffer = request.stdinBuffer
+    try {
+      await getRuntime()
+      post({ type: 'ready' })
+    } catch (error) {
+      runtimePromise = null
+      post({ type: 'init-error', message: errorMessage(error) })
+    }
+    return
+  }
+
+  if (request.type === 'execute') {
+    post({ type: 'started', id: request.id })
+    const pyodide = await getRuntime()
+    const batcher = createOutputBatcher((chunks) =>
+      post({ type: 'output', id: request.id, chunks })
+    )
+    const turtleBatcher = createBatcher<TurtleCommand>((commands) =>
+      post({ type: 'turtle', id: request.id, commands })
+    )
+    const flushAll = () => {
+      batcher.flush()
+      turtleBatcher.flush()
+    }
+    const result = await runCode(pyodide, request.code, {
+      // Everything printed or drawn before input() must be on screen before the prompt
+      readLine: createReadLine(request.id, flushAll),
+      onPause: request.debug ? createPause(request.id, flushAll) : undefined,
+      interactive: request.interactive,
+      scratch: request.scratch,
+      onOutput: batcher.add,
+      onTurtle: turtleBatcher.add,
+      allowedPackages,
+      project: request.project ?? undefined,
+      onInstallProgress: (message) =>
+        post({ type: 'install-progress', id: request.id, message })
+    })
+    flushAll()
+    try {
+      post({ type: 'result', id: request.id, result })
+    } catch {
+      // The return value could not be cloned (e.g. it holds a function), so send its text form instead
+      post({
+        type: 'result',
+        id: request.id,
+        result: { ...result, result: String(result.result) }
+      })
+    }
+  }
+
+  // Whatever goes wrong answering the requests below, they still get an answer, so
+  // the main thread never waits on one that will not come
+
+  if (request.type === 'check') {
+    post({ type: 'started', id: request.id })
+    try {
+      const pyodide = await getRuntime()
+      const results = await checkCode(pyodide, request.code, request.tests, {
+        allowedPackages,
+        project: request.project ?? undefined,
+        onInstallProgress: (message) =>
+          post({ type: 'install-progress', id: request.id, message })
+      })
+      post({ type: 'check-result', id: request.id, results })
+    } catch (error) {
+      const message = errorMessage(error)
+      post({
+        type: 'check-result',
+        id: request.id,
+        results: request.tests.map((test) => ({
+          name: test.name,
+          passed: false,
+          message
+        }))
+      })
+    }
+  }
+
+  if (request.type === 'lint') {
+    let problems: LintProblem[] = []
+    try {
+      problems = lintCode(await getRuntime(), request.code)
+    } catch {
+      // No problems shown rather than stale ones
+    }
+    post({ type: 'lint-result', id: request.id, problems })
+  }
+
+  if (request.type === 'complete') {
+    let completions: Completion[] = []
+    try {
+      completions = await completeCode(
+        await getRuntime(),
+        request.position,
+        request.project ?? undefined
+      )
+    } catch {
+      // No completions
+    }
+    post({ type: 'complete-result', id: request.id, completions })
+  }
+
+  if (request.type === 'hover') {
+    let hover: HoverInfo | null = null
+    try {
+      hover = await describeName(
+        await getRuntime(),
+        request.position,
+        request.project ?? undefined
+      )
+    } catch {
+      // Nothing to show
+    }
+    post({ type: 'hover-result', id: request.id, hover })
+  }
+
+  if (request.type === 'signature') {
+    let signature: SignatureHelp | null = null
+    try {
+      signature = await signatureAt(
+        await getRuntime(),
+        request.position,
+        request.project ?? undefined
+      )
+    } catch {
+      // Nothing to show
+    }
+    post({ type: 'signature-result', id: request.id, signature })
+  }
+
+  if (request.type === 'reset') {
+    try {
+      resetNamespace(await getRuntime())
+    } catch {
+      // The next run starts from whatever is left; there is nothing else to do
+    }
+    post({ type: 'reset-result', id: request.id })
+  }
+}
+
+// Requests are handled one at a time, in the order they came. Queries write the
+// project's files too (for Jedi), so one must never run while code is running: it
+// waits until the code is done.
+let queue: Promise<void> = Promise.resolve()
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data
+  queue = queue
+    .then(() => handleRequest(request))
+    .catch((error) => console.error('Error handling worker request:', error))
+})
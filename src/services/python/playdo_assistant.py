@@ -0,0 +1,98 @@
+"""
+Code intelligence for the editor, built on Jedi: completions, the documentation of
+the name under the mouse and the signature of the call being typed. Jedi reads the
+code without running it. Loaded by pythonRuntime.ts the first time it is needed,
+once the jedi package is installed.
+"""
+
+import json
+
+import jedi
+
+__all__ = ["complete", "hover", "signature"]
+
+# Most completions sent back; Jedi puts the best matches first
+MAX_COMPLETIONS = 50
+
+# Longest docstring sent back; the rest is cut off
+MAX_DOC_LENGTH = 1000
+
+# Jedi would otherwise look for a Python executable to run, which Pyodide doesn't have
+_environment = jedi.InterpreterEnvironment()
+
+
+def _script(code, path):
+    return jedi.Script(code, path=path, environment=_environment)
+
+
+def _doc(name):
+    try:
+        doc = name.docstring(raw=True).strip()
+    except Exception:
+        return ""
+    if len(doc) > MAX_DOC_LENGTH:
+        doc = doc[: MAX_DOC_LENGTH - 3] + "..."
+    return doc
+
+
+def _signature_of(name):
+    try:
+        signatures = name.get_signatures()
+    except Exception:
+        return None
+    return signatures[0].to_string() if signatures else None
+
+
+def complete(code, path, line, column):
+    """Completions at a 1-based line and column, as a JSON list"""
+    completions = _script(code, path).complete(line, column - 1)
+    return json.dumps(
+        [
+            {
+                "name": completion.name,
+                "type": completion.type,
+                "signature": _signature_of(completion),
+                "doc": _doc(completion),
+            }
+            for completion in completions[:MAX_COMPLETIONS]
+        ]
+    )
+
+
+def hover(code, path, line, column):
+    """What the name at a 1-based line and column is, as JSON, or null"""
+    names = _script(code, path).help(line, column - 1)
+    # Keywords and operators have help pages rather than docstrings; they don't help much here
+    names = [name for name in names if name.type != "keyword"]
+    if not names:
+        return json.dumps(None)
+    name = names[0]
+    signature_text = _signature_of(name)
+    doc = _doc(name)
+    # Nothing worth showing, e.g. for a plain variable
+    if signature_text is None and not doc:
+        return json.dumps(None)
+    return json.dumps(
+        {
+            "name": name.name,
+            "type": name.type,
+            "signature": signature_text,
+            "doc": doc,
+        }
+    )
+
+
+def signature(code, path, line, column):
+    """The call being typed at a 1-based line and column, as JSON, or null"""
+    signatures = _script(code, path).get_signatures(line, column - 1)
+    if not signatures:
+        return json.dumps(None)
+    found = signatures[0]
+    return json.dumps(
+        {
+            "name": found.name,
+            "params": [param.to_string() for param in found.params],
+            "activeParameter": found.index,
+            "doc": _doc(found),
+        }
+    )
@@ -0,0 +1,120 @@
+"""
+Runs one of an exercise's hidden tests against the student's code. The code runs
+afresh for every test, in a namespace of its own, with input() answered from the
+test's lines instead of the student's keyboard. Called by pythonRuntime.ts.
+"""
+
+import builtins
+import contextlib
+import io
+import json
+import traceback
+
+__all__ = ["run_test"]
+
+# Longest output quoted back in a failure message; the rest is cut off
+MAX_QUOTED_OUTPUT = 500
+
+
+# A BaseException, so that code catching every Exception doesn't swallow it
+class _EndOfInput(BaseException):
+    pass
+
+
+def _line_in(error, filename):
+    """The line of `filename` the error was raised from, or None"""
+    line = None
+    for frame in traceback.extract_tb(error.__traceback__):
+        if frame.filename == filename:
+            line = frame.lineno
+    return line
+
+
+def _describe_error(error):
+    line = _line_in(error, "<exec>")
+    where = f" on line {line}" if line is not None else ""
+    return f"Your code raised {type(error).__name__}{where}: {error}"
+
+
+def _normalize(output):
+    # Trailing spaces and blank lines at the end are invisible, so they don't count
+    return "\n".join(line.rstrip() for line in output.rstrip().splitlines())
+
+
+def _quote(output):
+    if len(output) > MAX_QUOTED_OUTPUT:
+        output = output[: MAX_QUOTED_OUTPUT - 3] + "..."
+    return output or "(nothing)"
+
+
+def _run_student_code(code, stdin):
+    """Run the code as a script would run. Returns its namespace and what it printed."""
+    lines = list(stdin)
+    output = io.StringIO()
+
+    # Prompts are printed as usual; the test's lines aren't echoed, as when a
+    # script reads from a pipe
+    def read_line(prompt=""):
+        output.write(str(prompt))
+        if not lines:
+            raise _EndOfInput()
+        return lines.pop(0)
+
+    namespace = {"__name__": "__main__", "__builtins__": builtins}
+    student_input = builtins.input
+    builtins.input = read_line
+    try:
+        with contextlib.redirect_stdout(output):
+            try:
+                exec(compile(code, "<exec>", "exec"), namespace)
+            except SystemExit:
+                pass
+    finally:
+        builtins.input = student_input
+    return namespace, output.getvalue()
+
+
+def _check_assertion(namespace, test):
+    try:
+        exec(compile(test["code"], "<test>", "exec"), namespace)
+    except AssertionError as error:
+        if str(error):
+            return str(error)
+        line = _line_in(error, "<test>")
+        source = test["code"].splitlines()[line - 1].strip() if line else ""
+        return f"This check failed: {source}" if source else "A check failed."
+    # BaseException, so that e.g. a KeyboardInterrupt from the student's function
+    # fails the test instead of ending the check
+    except BaseException as error:
+        return f"Checking your code raised {type(error).__name__}: {error}"
+    return None
+
+
+def _check_output(output, test):
+    expected = test["expectedOutput"]
+    if _normalize(output) == _normalize(expected):
+        return None
+    return f"Expected the output:\n{_quote(expected)}\nbut got:\n{_quote(output)}"
+
+
+def run_test(code, test_json):
+    """Run a test (JSON, see ExerciseTest in src/types) and return its result as JSON"""
+    test = json.loads(test_json)
+    try:
+        namespace, output = _run_student_code(code, test.get("stdin", []))
+    except _EndOfInput:
+        message = "Your code called input() more times than this test expected."
+    except SyntaxError as error:
+        message = f"Your code has a syntax error on line {error.lineno}: {error.msg}"
+    # Anything else the code raises, KeyboardInterrupt included, fails the test;
+    # escaping would leave the check without an answer until it timed out
+    except BaseException as error:
+        message = _describe_error(error)
+    else:
+        if test["kind"] == "assertion":
+            message = _check_assertion(namespace, test)
+        else:
+            message = _check_output(output, test)
+    return json.dumps(
+        {"name": test["name"], "passed": message is None, "message": message}
+    )
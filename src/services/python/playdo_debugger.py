@@ -0,0 +1,136 @@
+"""
+Playdo's step debugger. While it is on, every line of the student's code (the code
+being run and the project's files) pauses before it runs: the line and the
+variables in scope go to JS, which blocks until the student steps or continues.
+Started and stopped around a debug run by pythonRuntime.ts.
+"""
+
+import ast
+import dis
+import json
+import sys
+import types
+
+from _playdo_debug import pause
+
+__all__ = ["start", "stop"]
+
+# Longest repr sent for a variable; the rest is cut off
+MAX_REPR_LENGTH = 200
+
+_project_dir = None
+_stepping = False
+
+# Pyodide hands back the value of the code's last expression by running it as
+# `raise ___EvalCodeResultException[0](<expression>)`. The instructions this adds
+# keep their positions in that template, so they look like they're on line 1.
+_RESULT_NAME = "___EvalCodeResultException"
+_RESULT_POSITIONS = {
+    (node.lineno, node.end_lineno, node.col_offset, node.end_col_offset)
+    for node in ast.walk(ast.parse(f"raise {_RESULT_NAME}[0](x)"))
+    if isinstance(node, (ast.stmt, ast.expr))
+    and not (isinstance(node, ast.Name) and node.id == "x")
+}
+
+# Offsets of the instructions Pyodide added, by code object
+_added_offsets = {}
+
+
+def _is_student_code(filename):
+    return filename == "<exec>" or filename.startswith(_project_dir + "/")
+
+
+def _find_added_offsets(code):
+    instructions = list(dis.get_instructions(code))
+    added = set()
+    for index, instruction in enumerate(instructions):
+        if tuple(instruction.positions) not in _RESULT_POSITIONS:
+            continue
+        # When the expression starts on the same line, the line is the student's
+        following = next(
+            (
+                later
+                for later in instructions[index + 1 :]
+                if tuple(later.positions) not in _RESULT_POSITIONS
+            ),
+            None,
+        )
+        line = instruction.positions.lineno
+        if following is None or following.positions.lineno != line:
+            added.add(instruction.offset)
+    return added
+
+
+def _added_by_pyodide(frame):
+    """Whether the frame is at a line Pyodide added around the student's code"""
+    code = frame.f_code
+    if _RESULT_NAME not in code.co_names:
+        return False
+    if code not in _added_offsets:
+        _added_offsets[code] = _find_added_offsets(code)
+    return frame.f_lasti in _added_offsets[code]
+
+
+def _describe(value):
+    try:
+        text = repr(value)
+    except Exception:
+        text = "<repr failed>"
+    if len(text) > MAX_REPR_LENGTH:
+        text = text[: MAX_REPR_LENGTH - 3] + "..."
+    return {"name": "", "type": type(value).__name__, "repr": text}
+
+
+def _variables(namespace):
+    """The variables a student would care about: no dunders and no imported modules"""
+    result = []
+    for name, value in list(namespace.items()):
+        if name.startswith("__") or isinstance(value, types.ModuleType):
+            continue
+        result.append({**_describe(value), "name": name})
+    return result
+
+
+def _snapshot(frame):
+    code = frame.f_code
+    at_module_level = frame.f_locals is frame.f_globals
+    return {
+        "filename": code.co_filename,
+        "line": frame.f_lineno,
+        "function": None if at_module_level else code.co_name,
+        "locals": [] if at_module_level else _variables(frame.f_locals),
+        "globals": _variables(frame.f_globals),
+    }
+
+
+def _trace_line(frame, event, arg):
+    global _stepping
+    if event == "line" and _stepping and not _added_by_pyodide(frame):
+        if pause(json.dumps(_snapshot(frame))) == "continue":
+            # Run to the end without pausing again
+            _stepping = False
+            sys.settrace(None)
+    return _trace_line if _stepping else None
+
+
+def _trace_call(frame, event, arg):
+    # Only the student's frames are traced line by line, so stepping never
+    # wanders into the standard library or Pyodide itself
+    if event == "call" and _is_student_code(frame.f_code.co_filename):
+        return _trace_line
+    return None
+
+
+def start(project_dir):
+    """Pause on every line of student code run from now on"""
+    global _project_dir, _stepping
+    _project_dir = project_dir
+    _stepping = True
+    sys.settrace(_trace_call)
+
+
+def stop():
+    global _stepping
+    _stepping = False
+    sys.settrace(None)
+    _added_offsets.clear()
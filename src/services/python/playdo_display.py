@@ -0,0 +1,74 @@
+"""
+Playdo's rich output: shows matplotlib figures and objects with a rich representation
+(_repr_png_, _repr_svg_ or _repr_html_, as used by Jupyter) in the output panel, in
+between the printed text. Installed into the Python worker by pythonRuntime.ts, which
+also makes display() a builtin.
+"""
+
+import base64
+import io
+
+from _playdo_display import emit
+
+__all__ = ["display", "show_figure", "show_result"]
+
+# Tried in this order; the first one an object provides is shown
+_REPR_METHODS = [
+    ("_repr_png_", "image/png"),
+    ("_repr_svg_", "image/svg+xml"),
+    ("_repr_html_", "text/html"),
+]
+
+
+def _rich_repr(obj):
+    """The preferred (mime type, data) of an object, or None if it only has a plain repr"""
+    for method_name, mime_type in _REPR_METHODS:
+        method = getattr(obj, method_name, None)
+        if not callable(method) or isinstance(obj, type):
+            continue
+        try:
+            data = method()
+        except Exception:
+            continue
+        # Jupyter allows (data, metadata)
+        if isinstance(data, tuple):
+            data = data[0]
+        if data is None:
+            continue
+        if isinstance(data, bytes):
+            if mime_type == "image/png":
+                data = base64.b64encode(data).decode("ascii")
+            else:
+                data = data.decode("utf-8")
+        return mime_type, data
+    return None
+
+
+def _is_figure(obj):
+    return type(obj).__name__ == "Figure" and hasattr(obj, "savefig")
+
+
+def show_figure(figure):
+    """Show a matplotlib figure as a PNG image"""
+    buffer = io.BytesIO()
+    figure.savefig(buffer, format="png", bbox_inches="tight")
+    emit("image/png", base64.b64encode(buffer.getvalue()).decode("ascii"))
+
+
+def display(*objs):
+    """Show objects in the output panel, as images or HTML when they support it, like IPython's display()"""
+    for obj in objs:
+        if _is_figure(obj):
+            show_figure(obj)
+            continue
+        rich = _rich_repr(obj)
+        if rich is None:
+            emit("text/plain", repr(obj))
+        else:
+            emit(*rich)
+
+
+def show_result(value):
+    """Show the value of the code's last expression, the way a notebook would; None shows nothing"""
+    if value is not None:
+        display(value)
@@ -0,0 +1,212 @@
+"""
+Finds problems in the student's code without running it: syntax errors, names that
+are never defined and imports that are never used, each with a message a beginner
+can act on. Called by pythonRuntime.ts while the student types.
+"""
+
+import ast
+import builtins
+import difflib
+import json
+import re
+
+__all__ = ["lint"]
+
+# Names every module has without defining them
+_MODULE_NAMES = {"__file__", "__builtins__", "__annotations__", "__class__"}
+
+# Python's syntax error messages that can be said more plainly, by how they start
+_SYNTAX_MESSAGES = [
+    (
+        r"invalid syntax",
+        "Python doesn't understand this line. Look for a missing bracket, quote, comma or colon.",
+    ),
+    (r"expected ':'", "A colon (:) is missing at the end of this line."),
+    (r"unexpected indent", "This line is indented more than the line before it."),
+    (
+        r"unindent does not match",
+        "This line's indentation doesn't line up with any line above it.",
+    ),
+    (
+        r"expected an indented block",
+        "The lines after this one need to be indented.",
+    ),
+    (
+        r"unterminated string literal|EOL while scanning",
+        "This text is missing its closing quote.",
+    ),
+    (
+        r"inconsistent use of tabs and spaces",
+        "This line mixes tabs and spaces. Indent with spaces only.",
+    ),
+]
+
+
+def _problem(severity, message, line, column, end_line, end_column):
+    # Columns are 1-based; the end is just past the problem
+    return {
+        "line": line,
+        "column": column,
+        "endLine": end_line,
+        "endColumn": end_column,
+        "severity": severity,
+        "message": message,
+    }
+
+
+def _syntax_problem(error):
+    message = error.msg
+    for pattern, friendly in _SYNTAX_MESSAGES:
+        if re.match(pattern, message):
+            message = friendly
+            break
+    else:
+        message = f"Syntax error: {message}"
+    line = error.lineno or 1
+    column = error.offset or 1
+    end_line = error.end_lineno or line
+    end_column = error.end_offset or 0
+    if (end_line, end_column) <= (line, column):
+        end_line, end_column = line, column + 1
+    return _problem("error", message, line, column, end_line, end_column)
+
+
+class _Names(ast.NodeVisitor):
+    """Every name the code binds anywhere, every name it reads, and its imports"""
+
+    def __init__(self):
+        self.bound = set()
+        self.loaded = set()
+        self.reads = []
+        self.imports = []
+        self.star_import = False
+
+    def visit_Name(self, node):
+        if isinstance(node.ctx, ast.Load):
+            self.loaded.add(node.id)
+            self.reads.append(node)
+        else:
+            self.bound.add(node.id)
+
+    def _bind_definition(self, node):
+        self.bound.add(node.name)
+        self.generic_visit(node)
+
+    visit_FunctionDef = _bind_definition
+    visit_AsyncFunctionDef = _bind_definition
+    visit_ClassDef = _bind_definition
+
+    def visit_arg(self, node):
+        self.bound.add(node.arg)
+        self.generic_visit(node)
+
+    def visit_ExceptHandler(self, node):
+        if node.name:
+            self.bound.add(node.name)
+        self.generic_visit(node)
+
+    def _bind_declared(self, node):
+        self.bound.update(node.names)
+
+    visit_Global = _bind_declared
+    visit_Nonlocal = _bind_declared
+
+    def _bind_pattern(self, node):
+        name = getattr(node, "name", None) or getattr(node, "rest", None)
+        if name:
+            self.bound.add(name)
+        self.generic_visit(node)
+
+    visit_MatchAs = _bind_pattern
+    visit_MatchStar = _bind_pattern
+    visit_MatchMapping = _bind_pattern
+
+    def _visit_import(self, node):
+        for alias in node.names:
+            if alias.name == "*":
+                self.star_import = True
+                continue
+            # `import os.path` binds os
+            name = alias.asname or alias.name.split(".")[0]
+            self.bound.add(name)
+            if getattr(node, "module", None) != "__future__":
+                self.imports.append((name, node))
+
+    visit_Import = _visit_import
+    visit_ImportFrom = _visit_import
+
+
+def _column(lines, line, byte_offset):
+    """1-based character column of a byte offset into a 1-based line, as ast reports them"""
+    text = lines[line - 1] if line <= len(lines) else ""
+    return len(text.encode("utf-8")[:byte_offset].decode("utf-8", "replace")) + 1
+
+
+def _span(lines, node):
+    return (
+        node.lineno,
+        _column(lines, node.lineno, node.col_offset),
+        node.end_lineno,
+        _column(lines, node.end_lineno, node.end_col_offset),
+    )
+
+
+def _suggestion(name, known):
+    """A defined name the student probably meant, e.g. print for Print or pritn"""
+    for candidate in sorted(known):
+        if candidate.lower() == name.lower():
+            return candidate
+    matches = difflib.get_close_matches(name, sorted(known), n=1, cutoff=0.75)
+    return matches[0] if matches else None
+
+
+def _problems(source):
+    try:
+        tree = ast.parse(source, "<exec>")
+    except SyntaxError as error:
+        return [_syntax_problem(error)]
+    except ValueError:
+        # e.g. a null byte in the source, which the editor can't show anyway
+        return []
+
+    lines = source.splitlines()
+    names = _Names()
+    names.visit(tree)
+    problems = []
+
+    # After `from x import *` any name could be defined
+    if not names.star_import:
+        known = names.bound | set(dir(builtins)) | _MODULE_NAMES
+        for node in names.reads:
+            if node.id in known:
+                continue
+            message = f"'{node.id}' is not defined."
+            suggestion = _suggestion(
+                node.id, {name for name in known if not name.startswith("_")}
+            )
+            if suggestion:
+                message += f" Did you mean '{suggestion}'?"
+            problems.append(_problem("error", message, *_span(lines, node)))
+
+    for name, node in names.imports:
+        if name not in names.loaded:
+            problems.append(
+                _problem(
+                    "warning",
+                    f"'{name}' is imported but never used.",
+                    *_span(lines, node),
+                )
+            )
+
+    problems.sort(key=lambda problem: (problem["line"], problem["column"]))
+    return problems
+
+
+def lint(source):
+    """The problems in `source` as a JSON list, in the order they appear"""
+    try:
+        problems = _problems(source)
+    except (RecursionError, MemoryError):
+        # Code nested too deeply to parse or walk; running it shows Python's own error
+        problems = []
+    return json.dumps(problems)
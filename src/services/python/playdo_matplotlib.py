@@ -0,0 +1,18 @@
+"""
+Matplotlib backend that shows figures in Playdo's output panel. pythonRuntime.ts
+selects it with MPLBACKEND=module://playdo_matplotlib, before matplotlib is imported.
+"""
+
+from matplotlib._pylab_helpers import Gcf
+from matplotlib.backends.backend_agg import FigureCanvasAgg
+
+from playdo_display import show_figure
+
+FigureCanvas = FigureCanvasAgg
+
+
+def show(*args, **kwargs):
+    """Show every open figure, then close them so the next show() starts afresh"""
+    for manager in Gcf.get_all_fig_managers():
+        show_figure(manager.canvas.figure)
+    Gcf.destroy_all()
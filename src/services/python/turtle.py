@@ -0,0 +1,472 @@
+"""
+Playdo's turtle module, a stand-in for the standard library one (which needs Tk).
+
+It keeps the turtle's state in Python and sends every change to the page as a
+drawing command; the page's turtle canvas animates them. Only the commonly taught
+part of the API is provided. Installed into the Python worker by pythonRuntime.ts.
+"""
+
+import json
+import math
+
+from _playdo_turtle import emit as _emit_json
+
+__all__ = [
+    "Turtle", "Pen", "RawTurtle", "Screen", "Terminator",
+    "forward", "fd", "back", "backward", "bk", "right", "rt", "left", "lt",
+    "goto", "setpos", "setposition", "setx", "sety", "setheading", "seth",
+    "home", "circle", "dot", "stamp", "speed", "position", "pos", "xcor",
+    "ycor", "heading", "towards", "distance", "pendown", "pd", "down",
+    "penup", "pu", "up", "isdown", "pensize", "width", "pencolor",
+    "fillcolor", "color", "begin_fill", "end_fill", "filling", "write",
+    "showturtle", "st", "hideturtle", "ht", "isvisible", "shape", "clear",
+    "reset", "bgcolor", "title", "setup", "tracer", "update", "colormode",
+    "clearscreen", "resetscreen", "done", "mainloop", "exitonclick", "bye",
+]
+
+_SPEEDS = {"fastest": 0, "fast": 10, "normal": 6, "slow": 3, "slowest": 1}
+
+_FONT_STYLES = {"normal": "", "bold": "bold ", "italic": "italic "}
+
+
+class Terminator(Exception):
+    """Raised by the standard module when its window is closed; kept for compatibility"""
+
+
+class TurtleGraphicsError(Exception):
+    """Raised for invalid arguments, as in the standard module"""
+
+
+def _emit(command):
+    _emit_json(json.dumps(command))
+
+
+def _number(value):
+    return round(float(value), 4)
+
+
+class _Screen:
+    def __init__(self):
+        self._colormode = 1.0
+        self._bgcolor = "white"
+        self._tracing = True
+
+    def _color(self, args):
+        """Turn color arguments into a CSS color string"""
+        if len(args) == 1:
+            args = args[0]
+        if isinstance(args, str):
+            return args
+        if isinstance(args, (tuple, list)) and len(args) == 3:
+            if self._colormode == 1.0:
+                channels = [value * 255 for value in args]
+            else:
+                channels = list(args)
+            if not all(0 <= value <= 255 for value in channels):
+                raise TurtleGraphicsError(f"bad color sequence: {args!r}")
+            return "rgb({}, {}, {})".format(*(round(value) for value in channels))
+        raise TurtleGraphicsError(f"bad color arguments: {args!r}")
+
+    def bgcolor(self, *args):
+        if not args:
+            return self._bgcolor
+        self._bgcolor = self._color(args)
+        _emit({"type": "background", "color": self._bgcolor})
+
+    def colormode(self, mode=None):
+        if mode is None:
+            return self._colormode
+        if mode not in (1.0, 255):
+            raise TurtleGraphicsError(f"colormode must be 1.0 or 255, not {mode!r}")
+        self._colormode = 1.0 if mode == 1.0 else 255
+
+    def tracer(self, n=None, delay=None):
+        """With tracing off, moves are drawn at once instead of being animated"""
+        if n is None:
+            return 1 if self._tracing else 0
+        self._tracing = bool(n)
+
+    def clear(self):
+        self._bgcolor = "white"
+        _emit({"type": "clear", "turtle": None})
+        _emit({"type": "background", "color": self._bgcolor})
+
+    clearscreen = clear
+
+    def reset(self):
+        for turtle in list(_turtles):
+            turtle.reset()
+
+    resetscreen = reset
+
+    def turtles(self):
+        return list(_turtles)
+
+    # The page's canvas doesn't have a window to manage, so these do nothing
+    def title(self, text):
+        pass
+
+    def setup(self, width=None, height=None, startx=None, starty=None):
+        pass
+
+    def screensize(self, canvwidth=None, canvheight=None, bg=None):
+        if bg is not None:
+            self.bgcolor(bg)
+
+    def update(self):
+        pass
+
+    def listen(self, xdummy=None, ydummy=None):
+        pass
+
+    def onkey(self, fun, key):
+        pass
+
+    onkeyrelease = onkey
+
+    def onclick(self, fun, btn=1, add=None):
+        pass
+
+    def ontimer(self, fun, t=0):
+        pass
+
+    def mainloop(self):
+        pass
+
+    done = mainloop
+    exitonclick = mainloop
+    bye = mainloop
+
+
+_screen = _Screen()
+_turtles = []
+_next_id = 0
+
+
+def Screen():
+    return _screen
+
+
+class Turtle:
+    def __init__(self, shape="classic", undobuffersize=1000, visible=True):
+        global _next_id
+        self._id = _next_id
+        _next_id += 1
+        _turtles.append(self)
+        self._visible = visible
+        self._init_state()
+        if visible:
+            self._show()
+
+    def _init_state(self):
+        self._x = 0.0
+        self._y = 0.0
+        self._heading = 0.0
+        self._pendown = True
+        self._pensize = 1
+        self._pencolor = "black"
+        self._fillcolor = "black"
+        self._fill_points = None
+        self._speed = 3
+
+    def _show(self):
+        _emit({"type": "show", "turtle": self._id, "visible": self._visible})
+
+    def _pen(self):
+        if not self._pendown:
+            return None
+        return {"color": self._pencolor, "width": self._pensize}
+
+    def _move_to(self, x, y):
+        self._x = float(x)
+        self._y = float(y)
+        if self._fill_points is not None:
+            self._fill_points.append([_number(self._x), _number(self._y)])
+        self._emit_position(self._pen())
+
+    def _turn_to(self, heading):
+        self._heading = float(heading) % 360
+        self._emit_position(None)
+
+    def _emit_position(self, pen):
+        _emit({
+            "type": "move",
+            "turtle": self._id,
+            "x": _number(self._x),
+            "y": _number(self._y),
+            "heading": _number(self._heading),
+            "pen": pen,
+            "speed": self._speed if _screen._tracing else 0,
+        })
+
+    # Moving and turning
+
+    def forward(self, distance):
+        angle = math.radians(self._heading)
+        self._move_to(
+            self._x + distance * math.cos(angle),
+            self._y + distance * math.sin(angle),
+        )
+
+    fd = forward
+
+    def back(self, distance):
+        self.forward(-distance)
+
+    backward = back
+    bk = back
+
+    def right(self, angle):
+        self._turn_to(self._heading - angle)
+
+    rt = right
+
+    def left(self, angle):
+        self._turn_to(self._heading + angle)
+
+    lt = left
+
+    def goto(self, x, y=None):
+        if y is None:
+            x, y = x
+        self._move_to(x, y)
+
+    setpos = goto
+    setposition = goto
+
+    def setx(self, x):
+        self._move_to(x, self._y)
+
+    def sety(self, y):
+        self._move_to(self._x, y)
+
+    def setheading(self, to_angle):
+        self._turn_to(to_angle)
+
+    seth = setheading
+
+    def home(self):
+        self._move_to(0, 0)
+        self._turn_to(0)
+
+    def circle(self, radius, extent=None, steps=None):
+        """Draw a circle (or an arc) with lines, the way the standard module does"""
+        if extent is None:
+            extent = 360
+        if steps is None:
+            fraction = abs(extent) / 360
+            steps = 1 + int(min(11 + abs(radius) / 6.0, 59.0) * fraction)
+        step_angle = extent / steps
+        length = 2 * radius * math.sin(math.radians(step_angle) / 2)
+        if radius < 0:
+            length, step_angle = -length, -step_angle
+        self.left(step_angle / 2)
+        for _ in range(steps):
+            self.forward(length)
+            self.left(step_angle)
+        self.right(step_angle / 2)
+
+    def dot(self, size=None, *color):
+        if size is None:
+            size = max(self._pensize + 4, 2 * self._pensize)
+        _emit({
+            "type": "dot",
+            "turtle": self._id,
+            "x": _number(self._x),
+            "y": _number(self._y),
+            "size": _number(size),
+            "color": _screen._color(color) if color else self._pencolor,
+        })
+
+    def stamp(self):
+        """Leave a mark where the turtle is (a dot, rather than the turtle's shape)"""
+        self.dot(self._pensize + 8)
+
+    def speed(self, speed=None):
+        if speed is None:
+            return self._speed
+        if isinstance(speed, str):
+            speed = _SPEEDS.get(speed, 3)
+        self._speed = int(round(speed)) if 0.5 < speed < 10.5 else 0
+
+    # Where the turtle is
+
+    def position(self):
+        return (round(self._x, 6), round(self._y, 6))
+
+    pos = position
+
+    def xcor(self):
+        return round(self._x, 6)
+
+    def ycor(self):
+        return round(self._y, 6)
+
+    def heading(self):
+        return round(self._heading, 6)
+
+    def towards(self, x, y=None):
+        if y is None:
+            x, y = x
+        return math.degrees(math.atan2(y - self._y, x - self._x)) % 360
+
+    def distance(self, x, y=None):
+        if y is None:
+            x, y = x
+        return math.hypot(x - self._x, y - self._y)
+
+    # The pen
+
+    def pendown(self):
+        self._pendown = True
+
+    pd = pendown
+    down = pendown
+
+    def penup(self):
+        self._pendown = False
+
+    pu = penup
+    up = penup
+
+    def isdown(self):
+        return self._pendown
+
+    def pensize(self, width=None):
+        if width is None:
+            return self._pensize
+        self._pensize = width
+
+    width = pensize
+
+    def pencolor(self, *args):
+        if not args:
+            return self._pencolor
+        self._pencolor = _screen._color(args)
+
+    def fillcolor(self, *args):
+        if not args:
+            return self._fillcolor
+        self._fillcolor = _screen._color(args)
+
+    def color(self, *args):
+        if not args:
+            return self._pencolor, self._fillcolor
+        if len(args) == 2:
+            self.pencolor(args[0])
+            self.fillcolor(args[1])
+        else:
+            self.pencolor(*args)
+            self.fillcolor(*args)
+
+    def begin_fill(self):
+        self._fill_points = [[_number(self._x), _number(self._y)]]
+
+    def end_fill(self):
+        if self._fill_points is not None and len(self._fill_points) > 2:
+            _emit({
+                "type": "fill",
+                "turtle": self._id,
+                "points": self._fill_points,
+                "color": self._fillcolor,
+            })
+        self._fill_points = None
+
+    def filling(self):
+        return self._fill_points is not None
+
+    def write(self, arg, move=False, align="left", font=("Arial", 8, "normal")):
+        name, size, style = (tuple(font) + ("Arial", 8, "normal")[len(font):])[:3]
+        _emit({
+            "type": "write",
+            "turtle": self._id,
+            "x": _number(self._x),
+            "y": _number(self._y),
+            "text": str(arg),
+            "color": self._pencolor,
+            "align": align if align in ("left", "center", "right") else "left",
+            "font": f"{_FONT_STYLES.get(style, '')}{size}pt {name}",
+        })
+
+    # Visibility and clearing
+
+    def showturtle(self):
+        self._visible = True
+        self._show()
+
+    st = showturtle
+
+    def hideturtle(self):
+        self._visible = False
+        self._show()
+
+    ht = hideturtle
+
+    def isvisible(self):
+        return self._visible
+
+    def shape(self, name=None):
+        return "classic" if name is None else None
+
+    def clear(self):
+        _emit({"type": "clear", "turtle": self._id})
+
+    def reset(self):
+        self.clear()
+        self._init_state()
+        self._emit_position(None)
+
+    def getscreen(self):
+        return _screen
+
+
+Pen = Turtle
+RawTurtle = Turtle
+
+_default = None
+
+
+def _get_default():
+    global _default
+    if _default is None:
+        _default = Turtle()
+    return _default
+
+
+def _playdo_reset():
+    """Start a new run from a blank canvas; called by the runtime before each run"""
+    global _default, _next_id
+    _turtles.clear()
+    _default = None
+    _next_id = 0
+    _screen.__init__()
+
+
+def _make_function(name):
+    def function(*args, **kwargs):
+        return getattr(_get_default(), name)(*args, **kwargs)
+
+    function.__name__ = name
+    function.__doc__ = getattr(Turtle, name).__doc__
+    return function
+
+
+for _name in [
+    "forward", "fd", "back", "backward", "bk", "right", "rt", "left", "lt",
+    "goto", "setpos", "setposition", "setx", "sety", "setheading", "seth",
+    "home", "circle", "dot", "stamp", "speed", "position", "pos", "xcor",
+    "ycor", "heading", "towards", "distance", "pendown", "pd", "down",
+    "penup", "pu", "up", "isdown", "pensize", "width", "pencolor",
+    "fillcolor", "color", "begin_fill", "end_fill", "filling", "write",
+    "showturtle", "st", "hideturtle", "ht", "isvisible", "shape", "clear",
+    "reset",
+]:
+    globals()[_name] = _make_function(_name)
+
+for _name in [
+    "bgcolor", "title", "setup", "tracer", "update", "colormode",
+    "clearscreen", "resetscreen", "done", "mainloop", "exitonclick", "bye",
+]:
+    globals()[_name] = getattr(_screen, _name)
+
+del _name
@@ -0,0 +1,1328 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { PyodideInterface } from 'pyodide'
+import {
+  checkCode,
+  completeCode,
+  describeName,
+  installImports,
+  lintCode,
+  loadRuntime,
+  MAX_TURTLE_COMMANDS,
+  resetNamespace,
+  runCode,
+  signatureAt,
+  toTransferable
+} from './pythonRuntime'
+import type { Mock } from 'vitest'
+
+// Define a simple type for Pyodide's output options
+interface PyodideOutputOptions {
+  batched?: (output: string) => void
+}
+
+// Define a type for our mocked pyodide instance
+interface MockPyodideInstance {
+  runPythonAsync: Mock
+  runPython: Mock
+  setStdout: Mock
+  setStderr: Mock
+  setStdin: Mock
+  registerJsModule: Mock
+  loadPackagesFromImports: Mock
+  loadPackage: Mock
+  FS: { mkdirTree: Mock; writeFile: Mock; unlink: Mock }
+}
+
+// The JS module loadRuntime exposes to Python for input()
+interface PlaydoIoModule {
+  read_line: (prompt: string) => string | null
+}
+
+// The JS module loadRuntime exposes to Python for the turtle module
+interface PlaydoTurtleModule {
+  emit: (json: string) => void
+}
+
+// The JS module loadRuntime exposes to Python for figures and rich reprs
+interface PlaydoDisplayModule {
+  emit: (mimeType: string, data: string) => void
+}
+
+// The JS module loadRuntime exposes to Python for the debugger
+interface PlaydoDebugModule {
+  pause: (json: string) => string
+}
+
+// Mock the pyodide module
+vi.mock('pyodide', () => {
+  const mockPyodideInstance = {
+    runPythonAsync: vi.fn(),
+    runPython: vi.fn(),
+    setStdout: vi.fn(),
+    setStderr: vi.fn(),
+    setStdin: vi.fn(),
+    registerJsModule: vi.fn(),
+    loadPackagesFromImports: vi.fn(),
+    loadPackage: vi.fn(),
+    FS: { mkdirTree: vi.fn(), writeFile: vi.fn(), unlink: vi.fn() },
+    globals: {
+      get: vi.fn().mockReturnValue(() => ({ set: vi.fn(), destroy: vi.fn() }))
+    }
+  }
+
+  return {
+    loadPyodide: vi.fn().mockResolvedValue(mockPyodideInstance)
+  }
+})
+
+describe('pythonRuntime', () => {
+  let pyodide: PyodideInterface
+  let mockPyodideInstance: MockPyodideInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+
+    // Get the mock instance
+    const { loadPyodide } = await import('pyodide')
+    mockPyodideInstance =
+      (await loadPyodide()) as unknown as MockPyodideInstance
+    pyodide = mockPyodideInstance as unknown as PyodideInterface
+
+    // Default success implementation
+    mockPyodideInstance.runPythonAsync.mockResolvedValue('success result')
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should load Pyodide properly', async () => {
+    // Reset call count before this test
+    const { loadPyodide } = await import('pyodide')
+    vi.mocked(loadPyodide).mockClear()
+
+    // Act
+    await loadRuntime(['https://example.com/pyodide/'])
+
+    // Assert
+    expect(loadPyodide).toHaveBeenCalledTimes(1)
+    expect(loadPyodide).toHaveBeenCalledWith({
+      indexURL: 'https://example.com/pyodide/'
+    })
+  })
+
+  it('should fall back to the next mirror when one fails', async () => {
+    // Arrange
+    const { loadPyodide } = await import('pyodide')
+    vi.mocked(loadPyodide).mockClear()
+    vi.mocked(loadPyodide).mockRejectedValueOnce(new Error('404'))
+    const consoleWarnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => {})
+
+    // Act
+    const runtime = await loadRuntime([
+      'https://primary.example/',
+      'https://backup.example/'
+    ])
+
+    // Assert
+    expect(runtime).toBe(mockPyodideInstance)
+    expect(loadPyodide).toHaveBeenNthCalledWith(2, {
+      indexURL: 'https://backup.example/'
+    })
+
+    consoleWarnSpy.mockRestore()
+  })
+
+  it('should list every mirror tried when all of them fail', async () => {
+    // Arrange
+    const { loadPyodide } = await import('pyodide')
+    vi.mocked(loadPyodide)
+      .mockRejectedValueOnce(new Error('404'))
+      .mockRejectedValueOnce(new Error('offline'))
+    const consoleWarnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => {})
+
+    // Act & Assert
+    await expect(
+      loadRuntime(['https://primary.example/', 'https://backup.example/'])
+    ).rejects.toThrow(
+      'Tried: https://primary.example/ (404), https://backup.example/ (offline)'
+    )
+
+    consoleWarnSpy.mockRestore()
+  })
+
+  it('should replace input() when loading Pyodide', async () => {
+    // Act
+    await loadRuntime(['/pyodide/'])
+
+    // Assert
+    expect(mockPyodideInstance.registerJsModule).toHaveBeenCalledWith(
+      '_playdo_io',
+      expect.objectContaining({ read_line: expect.any(Function) })
+    )
+    expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+      expect.stringContaining('builtins.input = input'),
+      expect.anything()
+    )
+  })
+
+  it('should install the turtle module when loading Pyodide', async () => {
+    // Act
+    await loadRuntime(['/pyodide/'])
+
+    // Assert
+    expect(mockPyodideInstance.registerJsModule).toHaveBeenCalledWith(
+      '_playdo_turtle',
+      expect.objectContaining({ emit: expect.any(Function) })
+    )
+    expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+      '/lib/playdo/turtle.py',
+      expect.stringContaining('def _playdo_reset')
+    )
+    expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+      expect.stringContaining("sys.path.insert(0, '/lib/playdo')"),
+      expect.anything()
+    )
+  })
+
+  describe('turtle', () => {
+    let turtleModule: PlaydoTurtleModule
+    const move = {
+      type: 'move',
+      turtle: 0,
+      x: 100,
+      y: 0,
+      heading: 0,
+      pen: { color: 'black', width: 1 },
+      speed: 3
+    }
+
+    beforeEach(async () => {
+      await loadRuntime(['/pyodide/'])
+      turtleModule = mockPyodideInstance.registerJsModule.mock.calls.find(
+        ([name]) => name === '_playdo_turtle'
+      )![1]
+      mockPyodideInstance.setStdout.mockImplementation(() => {})
+      mockPyodideInstance.setStderr.mockImplementation(() => {})
+    })
+
+    it('should collect drawing steps and report them as they are made', async () => {
+      // Arrange
+      const onTurtle = vi.fn()
+      mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+        turtleModule.emit(JSON.stringify(move))
+      })
+
+      // Act
+      const result = await runCode(pyodide, 'forward(100)', { onTurtle })
+
+      // Assert
+      expect(onTurtle).toHaveBeenCalledWith(move)
+      expect(result.turtle).toEqual([move])
+    })
+
+    it('should reset the turtle before running the code', async () => {
+      // Act
+      await runCode(pyodide, 'pass')
+
+      // Assert
+      expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+        expect.stringContaining('_playdo_reset()'),
+        expect.anything()
+      )
+    })
+
+    it('should stop collecting steps after the limit and say so once', async () => {
+      // Arrange
+      mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+        const json = JSON.stringify(move)
+        for (let step = 0; step < MAX_TURTLE_COMMANDS + 10; step++) {
+          turtleModule.emit(json)
+        }
+      })
+
+      // Act
+      const result = await runCode(pyodide, 'while True: forward(1)')
+
+      // Assert
+      expect(result.turtle).toHaveLength(MAX_TURTLE_COMMANDS)
+      expect(result.stderr).toBe(
+        `The turtle drawing was cut short after ${MAX_TURTLE_COMMANDS} steps.`
+      )
+    })
+
+    it('should not draw for a run that has finished', async () => {
+      // Arrange
+      const onTurtle = vi.fn()
+      await runCode(pyodide, 'pass', { onTurtle })
+
+      // Act
+      turtleModule.emit(JSON.stringify(move))
+
+      // Assert
+      expect(onTurtle).not.toHaveBeenCalled()
+    })
+  })
+
+  it('should install display() and the matplotlib backend when loading Pyodide', async () => {
+    // Act
+    await loadRuntime(['/pyodide/'])
+
+    // Assert
+    expect(mockPyodideInstance.registerJsModule).toHaveBeenCalledWith(
+      '_playdo_display',
+      expect.objectContaining({ emit: expect.any(Function) })
+    )
+    expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+      '/lib/playdo/playdo_display.py',
+      expect.stringContaining('def display(')
+    )
+    expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+      '/lib/playdo/playdo_matplotlib.py',
+      expect.stringContaining('def show(')
+    )
+    expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+      expect.stringContaining("MPLBACKEND'] = 'module://playdo_matplotlib'"),
+      expect.anything()
+    )
+  })
+
+  describe('rich display', () => {
+    let displayModule: PlaydoDisplayModule
+
+    beforeEach(async () => {
+      await loadRuntime(['/pyodide/'])
+      displayModule = mockPyodideInstance.registerJsModule.mock.calls.find(
+        ([name]) => name === '_playdo_display'
+      )![1]
+      mockPyodideInstance.setStderr.mockImplementation(() => {})
+    })
+
+    it('should put displays in the output, in order with printed text', async () => {
+      // Arrange
+      const onOutput = vi.fn()
+      let stdout: (text: string) => void = () => {}
+      mockPyodideInstance.setStdout.mockImplementation(
+        (options: PyodideOutputOptions) => {
+          stdout = options.batched!
+        }
+      )
+      mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+        stdout('before')
+        displayModule.emit('image/png', 'iVBOR')
+        stdout('after')
+      })
+
+      // Act
+      const result = await runCode(pyodide, 'plt.show()', { onOutput })
+
+      // Assert
+      const figure = { stream: 'display', mimeType: 'image/png', data: 'iVBOR' }
+      expect(onOutput).toHaveBeenCalledWith(figure)
+      expect(result.output).toEqual([
+        { stream: 'stdout', text: 'before' },
+        figure,
+        { stream: 'stdout', text: 'after' }
+      ])
+      expect(result.stdout).toBe('before\nafter')
+    })
+
+    it('should close figures left open by an earlier run', async () => {
+      // Act
+      await runCode(pyodide, 'pass')
+
+      // Assert
+      expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+        expect.stringContaining("close('all')"),
+        expect.anything()
+      )
+    })
+
+    it('should show the value of the last expression', async () => {
+      // Arrange
+      mockPyodideInstance.runPythonAsync.mockResolvedValue(42)
+
+      // Act
+      await runCode(pyodide, '6 * 7')
+
+      // Assert
+      expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+        expect.stringContaining('show_result(value)'),
+        expect.anything()
+      )
+    })
+
+    it('should show nothing when the code ends without a value', async () => {
+      // Arrange
+      mockPyodideInstance.runPythonAsync.mockResolvedValue(undefined)
+
+      // Act
+      await runCode(pyodide, 'x = 1')
+
+      // Assert
+      expect(mockPyodideInstance.runPython).not.toHaveBeenCalledWith(
+        expect.stringContaining('show_result(value)'),
+        expect.anything()
+      )
+    })
+
+    it('should echo the repr() of a console entry instead of showing it', async () => {
+      // Arrange
+      mockPyodideInstance.runPythonAsync.mockResolvedValue('hi')
+      mockPyodideInstance.runPython.mockImplementation((source: string) =>
+        source.includes('repr(value)') ? "'hi'" : undefined
+      )
+
+      // Act
+      const result = await runCode(pyodide, 'greeting', { interactive: true })
+
+      // Assert
+      expect(result.result).toBe("'hi'")
+      expect(mockPyodideInstance.runPython).not.toHaveBeenCalledWith(
+        expect.stringContaining('show_result(value)'),
+        expect.anything()
+      )
+      // The turtle and figures are left as the program left them
+      expect(mockPyodideInstance.runPython).not.toHaveBeenCalledWith(
+        expect.stringContaining('_playdo_reset()'),
+        expect.anything()
+      )
+      mockPyodideInstance.runPython.mockReset()
+    })
+
+    it('should echo nothing for a console entry without a value', async () => {
+      // Arrange
+      mockPyodideInstance.runPythonAsync.mockResolvedValue(undefined)
+
+      // Act
+      const result = await runCode(pyodide, 'x = 1', { interactive: true })
+
+      // Assert
+      expect(result.result).toBeNull()
+    })
+
+    it('should run a scratch snippet in a namespace of its own, then drop it', async () => {
+      // Arrange
+      mockPyodideInstance.runPythonAsync.mockResolvedValue(undefined)
+
+      // Act
+      await runCode(pyodide, 'x = 1', { scratch: true })
+
+      // Assert
+      const [, { globals }] = mockPyodideInstance.runPythonAsync.mock.calls[0]
+      expect(globals).not.toBe(pyodide.globals)
+      expect(globals.set).toHaveBeenCalledWith('__name__', '__main__')
+      expect(globals.destroy).toHaveBeenCalled()
+    })
+
+    it("should run code in the globals the student's runs share", async () => {
+      // Arrange
+      mockPyodideInstance.runPythonAsync.mockResolvedValue(undefined)
+
+      // Act
+      await runCode(pyodide, 'x = 1')
+
+      // Assert
+      expect(mockPyodideInstance.runPythonAsync).toHaveBeenCalledWith('x = 1', {
+        globals: pyodide.globals
+      })
+    })
+  })
+
+  describe('debugger', () => {
+    let debugModule: PlaydoDebugModule
+    const pauseJson = JSON.stringify({
+      filename: '/home/pyodide/project/helpers.py',
+      line: 2,
+      function: 'greet',
+      locals: [{ name: 'name', type: 'str', repr: "'Ada'" }],
+      globals: []
+    })
+    const project = {
+      files: [
+        { name: 'main.py', content: 'import helpers' },
+        { name: 'helpers.py', content: 'def greet(name):\n    print(name)' }
+      ],
+      entryPoint: 'main.py'
+    }
+
+    beforeEach(async () => {
+      await loadRuntime(['/pyodide/'])
+      debugModule = mockPyodideInstance.registerJsModule.mock.calls.find(
+        ([name]) => name === '_playdo_debug'
+      )![1]
+      mockPyodideInstance.setStdout.mockImplementation(() => {})
+      mockPyodideInstance.setStderr.mockImplementation(() => {})
+    })
+
+    it('should install the debugger module when loading Pyodide', () => {
+      expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+        '/lib/playdo/playdo_debugger.py',
+        expect.stringContaining('sys.settrace')
+      )
+    })
+
+    it('should trace only while the code runs, and stop tracing afterwards', async () => {
+      // Arrange
+      const calls: string[] = []
+      mockPyodideInstance.runPython.mockImplementation((source: string) => {
+        if (source.includes('playdo_debugger.start')) calls.push('start')
+        if (source.includes('playdo_debugger.stop')) calls.push('stop')
+      })
+      mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+        calls.push('run')
+        throw new Error('boom')
+      })
+
+      // Act
+      await runCode(pyodide, 'x = 1', { onPause: vi.fn() })
+
+      // Assert
+      expect(calls).toEqual(['start', 'run', 'stop'])
+      mockPyodideInstance.runPython.mockReset()
+    })
+
+    it('should not trace when not debugging', async () => {
+      // Act
+      await runCode(pyodide, 'x = 1')
+
+      // Assert
+      expect(mockPyodideInstance.runPython).not.toHaveBeenCalledWith(
+        expect.stringContaining('playdo_debugger.start'),
+        expect.anything()
+      )
+    })
+
+    it('should pass pauses on with the project file and return the command', async () => {
+      // Arrange
+      const onPause = vi.fn().mockReturnValue('step')
+      let command: string | undefined
+      mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+        command = debugModule.pause(pauseJson)
+      })
+
+      // Act
+      await runCode(pyodide, 'import helpers', { onPause, project })
+
+      // Assert
+      expect(onPause).toHaveBeenCalledWith({
+        file: 'helpers.py',
+        line: 2,
+        function: 'greet',
+        locals: [{ name: 'name', type: 'str', repr: "'Ada'" }],
+        globals: []
+      })
+      expect(command).toBe('step')
+    })
+
+    it('should let a pause after the run go on without asking', async () => {
+      // Arrange
+      const onPause = vi.fn()
+      await runCode(pyodide, 'pass', { onPause })
+
+      // Act
+      const command = debugModule.pause(pauseJson)
+
+      // Assert
+      expect(command).toBe('continue')
+      expect(onPause).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('input()', () => {
+    let ioModule: PlaydoIoModule
+
+    beforeEach(async () => {
+      await loadRuntime(['/pyodide/'])
+      ioModule = mockPyodideInstance.registerJsModule.mock.calls[0][1]
+      mockPyodideInstance.setStdout.mockImplementation(
+        (options: PyodideOutputOptions) => {
+          options.batched?.('Welcome')
+        }
+      )
+      mockPyodideInstance.setStderr.mockImplementation(() => {})
+    })
+
+    it('should ask readLine for a line and echo it after the prompt', async () => {
+      // Arrange
+      const readLine = vi.fn().mockReturnValue('Ada')
+      let returned: string | null = null
+      mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+        returned = ioModule.read_line('Name? ')
+      })
+
+      // Act
+      const result = await runCode(pyodide, 'input("Name? ")', { readLine })
+
+      // Assert
+      expect(readLine).toHaveBeenCalledWith({ prompt: 'Name? ' })
+      expect(returned).toBe('Ada')
+      expect(result.stdout).toBe('Welcome\nName? Ada')
+      expect(result.stdin).toEqual(['Ada'])
+      expect(result.output).toEqual([
+        { stream: 'stdout', text: 'Welcome\nName? Ada' }
+      ])
+    })
+
+    it('should record every line typed, in order', async () => {
+      // Arrange
+      const readLine = vi.fn().mockReturnValueOnce('1').mockReturnValueOnce('2')
+      mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+        ioModule.read_line('a: ')
+        ioModule.read_line('b: ')
+      })
+
+      // Act
+      const result = await runCode(pyodide, 'code', { readLine })
+
+      // Assert
+      expect(result.stdin).toEqual(['1', '2'])
+      expect(result.stdout).toBe('Welcome\na: 1\nb: 2')
+    })
+
+    it('should report end of input when there is no way to read a line', async () => {
+      // Arrange
+      let returned: string | null = 'not called'
+      mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+        returned = ioModule.read_line('Name? ')
+      })
+
+      // Act
+      const result = await runCode(pyodide, 'input("Name? ")')
+
+      // Assert
+      expect(returned).toBeNull()
+      expect(result.stdin).toEqual([])
+    })
+
+    it('should not route input to a run that has finished', async () => {
+      // Arrange
+      const readLine = vi.fn().mockReturnValue('late')
+      await runCode(pyodide, 'pass', { readLine })
+
+      // Act
+      const returned = ioModule.read_line('')
+
+      // Assert
+      expect(returned).toBeNull()
+      expect(readLine).not.toHaveBeenCalled()
+    })
+  })
+
+  it('should execute code and capture stdout', async () => {
+    // Arrange
+    // Mock runPythonAsync success
+    mockPyodideInstance.runPythonAsync.mockResolvedValue('success result')
+
+    // Mock stdout handler
+    mockPyodideInstance.setStdout.mockImplementation(
+      (options: PyodideOutputOptions) => {
+        if (options && typeof options.batched === 'function') {
+          options.batched('Hello from stdout')
+        }
+      }
+    )
+
+    // Act
+    const result = await runCode(pyodide, 'print("test")')
+
+    // Assert
+    expect(result.stdout).toBe('Hello from stdout')
+    expect(result.stderr).toBe('')
+    expect(result.error).toBeNull()
+    expect(result.result).toBe('success result')
+  })
+
+  it('should report output as it is written, interleaved across streams', async () => {
+    // Arrange
+    const onOutput = vi.fn()
+    let stdout: (text: string) => void = () => {}
+    let stderr: (text: string) => void = () => {}
+    mockPyodideInstance.setStdout.mockImplementation(
+      (options: PyodideOutputOptions) => {
+        stdout = options.batched!
+      }
+    )
+    mockPyodideInstance.setStderr.mockImplementation(
+      (options: PyodideOutputOptions) => {
+        stderr = options.batched!
+      }
+    )
+    mockPyodideInstance.runPythonAsync.mockImplementation(async () => {
+      stdout('one')
+      expect(onOutput).toHaveBeenLastCalledWith({
+        stream: 'stdout',
+        text: 'one'
+      })
+      stderr('oops')
+      stdout('two')
+      return null
+    })
+
+    // Act
+    const result = await runCode(pyodide, 'code', { onOutput })
+
+    // Assert
+    expect(onOutput).toHaveBeenCalledTimes(3)
+    expect(result.output).toEqual([
+      { stream: 'stdout', text: 'one' },
+      { stream: 'stderr', text: 'oops' },
+      { stream: 'stdout', text: 'two' }
+    ])
+    expect(result.stdout).toBe('one\ntwo')
+    expect(result.stderr).toBe('oops')
+  })
+
+  it('should execute code and capture stderr', async () => {
+    // Arrange
+    // Mock runPythonAsync to return null for this test
+    mockPyodideInstance.runPythonAsync.mockResolvedValue(null)
+
+    // Mock stdout and stderr handlers
+    mockPyodideInstance.setStdout.mockImplementation(() => {})
+    mockPyodideInstance.setStderr.mockImplementation(
+      (options: PyodideOutputOptions) => {
+        if (options && typeof options.batched === 'function') {
+          options.batched('Error output')
+        }
+      }
+    )
+
+    // Act
+    const result = await runCode(
+      pyodide,
+      'import sys; sys.stderr.write("error")'
+    )
+
+    // Assert
+    expect(result.stderr).toBe('Error output')
+    expect(result.stdout).toBe('')
+    expect(result.result).toBeNull()
+  })
+
+  it('should handle execution errors correctly', async () => {
+    // Arrange
+    // Mock an error during execution
+    mockPyodideInstance.runPythonAsync.mockRejectedValue(
+      new Error('Python error')
+    )
+
+    // Reset stdout to avoid test interference
+    mockPyodideInstance.setStdout.mockImplementation(() => {})
+
+    // Mock stderr for the error case
+    mockPyodideInstance.setStderr.mockImplementation(
+      (options: PyodideOutputOptions) => {
+        if (options && typeof options.batched === 'function') {
+          options.batched('Traceback information')
+        }
+      }
+    )
+
+    // Act
+    const result = await runCode(pyodide, 'raise Exception("error")')
+
+    // Assert
+    expect(result.stderr).toBe('Traceback information\nPython error')
+    expect(result.output).toEqual([
+      { stream: 'stderr', text: 'Traceback information\nPython error' }
+    ])
+    expect(result.result).toBeNull()
+  })
+
+  describe('installImports', () => {
+    it('should not install anything when every import is available', async () => {
+      // Arrange
+      mockPyodideInstance.runPython.mockReturnValueOnce({
+        stdlib: [],
+        packages: []
+      })
+
+      // Act
+      await installImports(pyodide, 'import math', ['numpy'])
+
+      // Assert
+      expect(mockPyodideInstance.loadPackagesFromImports).not.toHaveBeenCalled()
+    })
+
+    it('should install allowed packages and report progress', async () => {
+      // Arrange
+      mockPyodideInstance.runPython.mockReturnValueOnce({
+        stdlib: [],
+        packages: ['numpy']
+      })
+      mockPyodideInstance.loadPackagesFromImports.mockImplementationOnce(
+        async (
+          _code: string,
+          options: { messageCallback: (message: string) => void }
+        ) => {
+          options.messageCallback('Loaded numpy')
+        }
+      )
+      const onProgress = vi.fn()
+
+      // Act
+      await installImports(pyodide, 'import numpy', ['NumPy'], onProgress)
+
+      // Assert
+      expect(mockPyodideInstance.loadPackagesFromImports).toHaveBeenCalledWith(
+        'import numpy',
+        expect.anything()
+      )
+      expect(onProgress.mock.calls).toEqual([
+        ['Installing numpy...'],
+        ['Loaded numpy'],
+        [null]
+      ])
+    })
+
+    it('should refuse packages that are not on the allowlist', async () => {
+      // Arrange
+      mockPyodideInstance.runPython.mockReturnValueOnce({
+        stdlib: [],
+        packages: ['numpy', 'requests']
+      })
+
+      // Act & Assert
+      await expect(
+        installImports(pyodide, 'import numpy, requests', ['numpy'])
+      ).rejects.toThrow(
+        "ModuleNotFoundError: 'requests' is not available here. Besides the standard library, you can import: numpy"
+      )
+      expect(mockPyodideInstance.loadPackagesFromImports).not.toHaveBeenCalled()
+    })
+
+    it('should say only the standard library is available when nothing is allowed', async () => {
+      // Arrange
+      mockPyodideInstance.runPython.mockReturnValueOnce({
+        stdlib: [],
+        packages: ['numpy']
+      })
+
+      // Act & Assert
+      await expect(installImports(pyodide, 'import numpy', [])).rejects.toThrow(
+        'Only the Python standard library is available.'
+      )
+    })
+
+    it('should install the standard library modules Pyodide ships separately', async () => {
+      // Arrange
+      mockPyodideInstance.runPython.mockReturnValueOnce({
+        stdlib: ['sqlite3'],
+        packages: []
+      })
+      const onProgress = vi.fn()
+
+      // Act
+      await installImports(pyodide, 'import sqlite3', [], onProgress)
+
+      // Assert
+      expect(mockPyodideInstance.loadPackagesFromImports).toHaveBeenCalledWith(
+        'import sqlite3',
+        expect.anything()
+      )
+      expect(onProgress).toHaveBeenCalledWith('Installing sqlite3...')
+    })
+
+    it('should report a refused import in stderr without running the code', async () => {
+      // Arrange
+      mockPyodideInstance.runPython.mockReturnValueOnce({
+        stdlib: [],
+        packages: ['requests']
+      })
+      mockPyodideInstance.setStdout.mockImplementation(() => {})
+      mockPyodideInstance.setStderr.mockImplementation(() => {})
+
+      // Act
+      const result = await runCode(pyodide, 'import requests', {
+        allowedPackages: []
+      })
+
+      // Assert
+      expect(mockPyodideInstance.runPythonAsync).not.toHaveBeenCalled()
+      expect(result.stderr).toContain(
+        "ModuleNotFoundError: 'requests' is not available here."
+      )
+    })
+  })
+
+  it('should parse the traceback of a failed run', async () => {
+    // Arrange
+    mockPyodideInstance.runPythonAsync.mockRejectedValue(
+      new Error(
+        'Traceback (most recent call last):\n  File "<exec>", line 3, in <module>\nNameError: name \'x\' is not defined'
+      )
+    )
+    mockPyodideInstance.setStdout.mockImplementation(() => {})
+    mockPyodideInstance.setStderr.mockImplementation(() => {})
+
+    // Act
+    const result = await runCode(pyodide, 'a = 1\nb = 2\nprint(x)')
+
+    // Assert
+    expect(result.error).toEqual({
+      type: 'NameError',
+      message: "name 'x' is not defined",
+      file: null,
+      line: 3,
+      column: null,
+      frames: [{ file: null, line: 3, name: '<module>' }]
+    })
+  })
+
+  describe('projects', () => {
+    const project = {
+      files: [
+        { name: 'main.py', content: 'import helpers' },
+        { name: 'helpers.py', content: 'import numpy' },
+        { name: 'data.txt', content: '1 2 3' }
+      ],
+      entryPoint: 'main.py'
+    }
+
+    beforeEach(() => {
+      mockPyodideInstance.setStdout.mockImplementation(() => {})
+      mockPyodideInstance.setStderr.mockImplementation(() => {})
+    })
+
+    it('should put the project directory first on the import path when loading Pyodide', async () => {
+      // Act
+      await loadRuntime(['/pyodide/'])
+
+      // Assert
+      expect(mockPyodideInstance.FS.mkdirTree).toHaveBeenCalledWith(
+        '/home/pyodide/project'
+      )
+      expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+        "import sys\nsys.path.insert(0, '/home/pyodide/project')",
+        expect.anything()
+      )
+    })
+
+    it('should write the files and start in their directory before running the entry point', async () => {
+      // Act
+      await runCode(pyodide, 'import helpers', { project })
+
+      // Assert
+      expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+        '/home/pyodide/project/helpers.py',
+        'import numpy'
+      )
+      expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+        '/home/pyodide/project/data.txt',
+        '1 2 3'
+      )
+      expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+        expect.stringContaining('os.chdir(project_dir)'),
+        expect.anything()
+      )
+      expect(mockPyodideInstance.runPythonAsync).toHaveBeenCalledWith(
+        'import helpers',
+        expect.anything()
+      )
+    })
+
+    it('should remove files deleted from the project since the last run', async () => {
+      // Arrange
+      await runCode(pyodide, 'import helpers', { project })
+
+      // Act
+      await runCode(pyodide, 'print(1)', {
+        project: { files: [project.files[0]], entryPoint: 'main.py' }
+      })
+
+      // Assert
+      expect(mockPyodideInstance.FS.unlink).toHaveBeenCalledWith(
+        '/home/pyodide/project/helpers.py'
+      )
+      expect(mockPyodideInstance.FS.unlink).toHaveBeenCalledWith(
+        '/home/pyodide/project/data.txt'
+      )
+      expect(mockPyodideInstance.FS.unlink).not.toHaveBeenCalledWith(
+        '/home/pyodide/project/main.py'
+      )
+    })
+
+    it('should install packages imported by any of the Python files', async () => {
+      // Arrange - the entry point's imports are all there, helpers.py needs numpy
+      mockPyodideInstance.runPython.mockImplementation(
+        (_source: string, options: { globals: { set: Mock } }) =>
+          options.globals.set.mock.calls.some(
+            ([name, value]) => name === 'code' && value === 'import numpy'
+          )
+            ? { stdlib: [], packages: ['numpy'] }
+            : { stdlib: [], packages: [] }
+      )
+
+      // Act
+      await runCode(pyodide, 'import helpers', {
+        project,
+        allowedPackages: ['numpy']
+      })
+
+      // Assert
+      expect(mockPyodideInstance.loadPackagesFromImports).toHaveBeenCalledTimes(
+        1
+      )
+      expect(mockPyodideInstance.loadPackagesFromImports).toHaveBeenCalledWith(
+        'import numpy',
+        expect.anything()
+      )
+      mockPyodideInstance.runPython.mockReset()
+    })
+
+    it('should point tracebacks at the project file that failed', async () => {
+      // Arrange
+      mockPyodideInstance.runPythonAsync.mockRejectedValue(
+        new Error(
+          'Traceback (most recent call last):\n  File "<exec>", line 1, in <module>\n  File "/home/pyodide/project/helpers.py", line 1, in <module>\nModuleNotFoundError: No module named \'numpy\''
+        )
+      )
+
+      // Act
+      const result = await runCode(pyodide, 'import helpers', { project })
+
+      // Assert
+      expect(result.error).toMatchObject({
+        file: 'helpers.py',
+        line: 1,
+        frames: [
+          { file: 'main.py', line: 1 },
+          { file: 'helpers.py', line: 1 }
+        ]
+      })
+    })
+  })
+
+  describe('checkCode', () => {
+    const tests = [
+      {
+        name: 'add(2, 3) is 5',
+        kind: 'assertion' as const,
+        code: 'assert add(2, 3) == 5'
+      },
+      {
+        name: 'greets the student',
+        kind: 'output' as const,
+        stdin: ['Ada'],
+        expectedOutput: 'Hi Ada'
+      }
+    ]
+
+    // What run_test returns for each test, by name
+    const mockTestResults = (results: Record<string, string | null>) => {
+      mockPyodideInstance.runPython.mockImplementation(
+        (source: string, options: { globals: { set: Mock } }) => {
+          if (!source.includes('playdo_checker.run_test')) {
+            return []
+          }
+          const test = options.globals.set.mock.calls.find(
+            ([name]) => name === 'test'
+          )![1]
+          const { name } = JSON.parse(test)
+          return JSON.stringify({
+            name,
+            passed: results[name] === null,
+            message: results[name]
+          })
+        }
+      )
+    }
+
+    afterEach(() => {
+      mockPyodideInstance.runPython.mockReset()
+    })
+
+    it('should install the checker module when loading Pyodide', async () => {
+      // Act
+      await loadRuntime(['/pyodide/'])
+
+      // Assert
+      expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+        '/lib/playdo/playdo_checker.py',
+        expect.stringContaining('def run_test')
+      )
+    })
+
+    it('should run each test against the code and return the results', async () => {
+      // Arrange
+      mockTestResults({
+        'add(2, 3) is 5': null,
+        'greets the student': 'Expected the output:\nHi Ada\nbut got:\nHello'
+      })
+
+      // Act
+      const results = await checkCode(pyodide, 'def add(a, b): ...', tests)
+
+      // Assert
+      expect(results).toEqual([
+        { name: 'add(2, 3) is 5', passed: true, message: null },
+        {
+          name: 'greets the student',
+          passed: false,
+          message: 'Expected the output:\nHi Ada\nbut got:\nHello'
+        }
+      ])
+      expect(mockPyodideInstance.runPythonAsync).not.toHaveBeenCalled()
+    })
+
+    it('should write the project files again before each test', async () => {
+      // Arrange
+      mockTestResults({ 'add(2, 3) is 5': null, 'greets the student': null })
+      const project = {
+        files: [
+          { name: 'main.py', content: 'import helpers' },
+          { name: 'helpers.py', content: 'def add(a, b): ...' }
+        ],
+        entryPoint: 'main.py'
+      }
+
+      // Act
+      await checkCode(pyodide, 'import helpers', tests, { project })
+
+      // Assert
+      const helperWrites = mockPyodideInstance.FS.writeFile.mock.calls.filter(
+        ([path]) => path === '/home/pyodide/project/helpers.py'
+      )
+      expect(helperWrites).toHaveLength(3)
+    })
+
+    it('should fail a test the checker could not run, and go on with the rest', async () => {
+      // Arrange
+      mockTestResults({ 'add(2, 3) is 5': null, 'greets the student': null })
+      const runTest = mockPyodideInstance.runPython.getMockImplementation()!
+      mockPyodideInstance.runPython.mockImplementationOnce(() => {
+        throw new Error('PythonError: the checker broke')
+      })
+      mockPyodideInstance.runPython.mockImplementation(runTest)
+
+      // Act
+      const results = await checkCode(pyodide, 'def add(a, b): ...', tests)
+
+      // Assert
+      expect(results).toEqual([
+        {
+          name: 'add(2, 3) is 5',
+          passed: false,
+          message: 'PythonError: the checker broke'
+        },
+        { name: 'greets the student', passed: true, message: null }
+      ])
+    })
+
+    it('should fail every test when the code imports a package that is not allowed', async () => {
+      // Arrange
+      mockPyodideInstance.runPython.mockReturnValue({
+        stdlib: [],
+        packages: ['requests']
+      })
+
+      // Act
+      const results = await checkCode(pyodide, 'import requests', tests, {
+        allowedPackages: []
+      })
+
+      // Assert
+      expect(results).toHaveLength(2)
+      for (const result of results) {
+        expect(result.passed).toBe(false)
+        expect(result.message).toContain("ModuleNotFoundError: 'requests'")
+      }
+    })
+  })
+
+  describe('lintCode', () => {
+    afterEach(() => {
+      mockPyodideInstance.runPython.mockReset()
+    })
+
+    it('should install the linter module when loading Pyodide', async () => {
+      // Act
+      await loadRuntime(['/pyodide/'])
+
+      // Assert
+      expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+        '/lib/playdo/playdo_linter.py',
+        expect.stringContaining('def lint')
+      )
+    })
+
+    it('should return the problems the linter found', () => {
+      // Arrange
+      const problem = {
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: 6,
+        severity: 'error',
+        message: "'pritn' is not defined. Did you mean 'print'?"
+      }
+      mockPyodideInstance.runPython.mockReturnValue(JSON.stringify([problem]))
+
+      // Act
+      const problems = lintCode(pyodide, "pritn('hi')")
+
+      // Assert
+      expect(problems).toEqual([problem])
+      expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+        expect.stringContaining('playdo_linter.lint(code)'),
+        expect.anything()
+      )
+      expect(mockPyodideInstance.runPythonAsync).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resetNamespace', () => {
+    afterEach(() => {
+      mockPyodideInstance.runPython.mockReset()
+    })
+
+    it('should delete the names earlier runs defined', () => {
+      // Act
+      resetNamespace(pyodide)
+
+      // Assert
+      expect(mockPyodideInstance.runPython).toHaveBeenCalledWith(
+        expect.stringContaining('delattr(__main__, name)'),
+        expect.anything()
+      )
+    })
+  })
+
+  describe('code intelligence', () => {
+    const position = {
+      code: 'import math\nmath.sq',
+      file: 'main.py',
+      line: 2,
+      column: 8
+    }
+
+    // What Jedi answers, by query; HAS_JEDI is answered with true
+    const mockAnswers = (answers: Record<string, unknown>) => {
+      mockPyodideInstance.loadPackage.mockResolvedValue([])
+      mockPyodideInstance.runPython.mockImplementation(
+        (source: string, options: { globals: { set: Mock } }) => {
+          if (source.includes("find_spec('jedi')")) {
+            return true
+          }
+          if (!source.includes('playdo_assistant')) {
+            return undefined
+          }
+          const query = options.globals.set.mock.calls.find(
+            ([name]) => name === 'query'
+          )![1]
+          const answer = answers[query]
+          if (answer instanceof Error) {
+            throw answer
+          }
+          return JSON.stringify(answer)
+        }
+      )
+    }
+
+    afterEach(() => {
+      mockPyodideInstance.runPython.mockReset()
+    })
+
+    it('should install jedi once and return its completions', async () => {
+      // Arrange
+      const sqrt = {
+        name: 'sqrt',
+        type: 'function',
+        signature: 'sqrt(x, /)',
+        doc: 'Return the square root of x.'
+      }
+      mockAnswers({ complete: [sqrt] })
+
+      // Act
+      const first = await completeCode(pyodide, position)
+      const second = await completeCode(pyodide, position)
+
+      // Assert
+      expect(first).toEqual([sqrt])
+      expect(second).toEqual([sqrt])
+      expect(mockPyodideInstance.loadPackage).toHaveBeenCalledTimes(1)
+      expect(mockPyodideInstance.loadPackage).toHaveBeenCalledWith(
+        'jedi',
+        expect.anything()
+      )
+    })
+
+    it('should write the project files before asking about the code', async () => {
+      // Arrange
+      mockAnswers({ signature: null })
+      const project = {
+        files: [
+          { name: 'main.py', content: position.code },
+          { name: 'helpers.py', content: 'def greet(name): ...' }
+        ],
+        entryPoint: 'main.py'
+      }
+
+      // Act
+      const signature = await signatureAt(pyodide, position, project)
+
+      // Assert
+      expect(signature).toBeNull()
+      expect(mockPyodideInstance.FS.writeFile).toHaveBeenCalledWith(
+        '/home/pyodide/project/helpers.py',
+        'def greet(name): ...'
+      )
+    })
+
+    it('should answer with nothing when jedi fails on the code', async () => {
+      // Arrange
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      mockAnswers({ hover: new Error('jedi fell over') })
+
+      // Act
+      const hover = await describeName(pyodide, position)
+
+      // Assert
+      expect(hover).toBeNull()
+      vi.mocked(console.warn).mockRestore()
+    })
+  })
+
+  it('should convert PyProxy results to plain JS and release them', () => {
+    // Arrange
+    const proxy = {
+      toJs: vi.fn().mockReturnValue({ name: 'John' }),
+      destroy: vi.fn()
+    }
+
+    // Act
+    const converted = toTransferable(proxy)
+
+    // Assert
+    expect(converted).toEqual({ name: 'John' })
+    expect(proxy.toJs).toHaveBeenCalledWith({
+      dict_converter: Object.fromEntries
+    })
+    expect(proxy.destroy).toHaveBeenCalled()
+  })
+
+  it('should pass primitive results through unchanged', () => {
+    expect(toTransferable(42)).toBe(42)
+    expect(toTransferable('text')).toBe('text')
+    expect(toTransferable(null)).toBeNull()
+  })
+
+  it('should handle initialization errors', async () => {
+    // Arrange
+    const { loadPyodide } = await import('pyodide')
+    vi.mocked(loadPyodide).mockRejectedValueOnce(new Error('Failed to load'))
+    const consoleWarnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => {})
+
+    // Act & Assert
+    await expect(loadRuntime(['/pyodide/'])).rejects.toThrow('Failed to load')
+
+    consoleWarnSpy.mockRestore()
+  })
+})
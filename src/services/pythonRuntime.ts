@@ -0,0 +1,818 @@
+import { loadPyodide, type PyodideInterface } from 'pyodide'
+import type { PyProxy } from 'pyodide/ffi'
+import { pushChunk } from './outputStream'
+import { PROJECT_DIR, parseTraceback, studentFile } from './traceback'
+import type { ExerciseTest, Project, TestResult } from '../types'
+import type {
+  CodePosition,
+  Completion,
+  DebugCommand,
+  DebugStep,
+  DisplayMimeType,
+  ExecutionResult,
+  HoverInfo,
+  InputRequest,
+  LintProblem,
+  OutputChunk,
+  SignatureHelp,
+  TextChunk,
+  TurtleCommand
+} from './workerProtocol'
+import assistantSource from './python/playdo_assistant.py?raw'
+import checkerSource from './python/playdo_checker.py?raw'
+import debuggerSource from './python/playdo_debugger.py?raw'
+import displaySource from './python/playdo_display.py?raw'
+import linterSource from './python/playdo_linter.py?raw'
+import matplotlibBackendSource from './python/playdo_matplotlib.py?raw'
+import turtleSource from './python/turtle.py?raw'
+
+/**
+ * Code in this module runs inside the Python worker, never on the main thread.
+ * It talks to Pyodide directly; pyodide.worker.ts wires it up to postMessage.
+ */
+
+/**
+ * Supplies a line of input to Python, or null for end of input.
+ * Called synchronously, so the worker blocks until the student has typed something.
+ */
+export type ReadLine = (request: InputRequest) => string | null
+
+/**
+ * Shows where the debugger has paused and says what to do next.
+ * Called synchronously, like ReadLine, so the worker blocks until the student decides.
+ */
+export type Pause = (step: DebugStep) => DebugCommand
+
+export interface RunOptions {
+  readLine?: ReadLine
+  // Called with each line of output, and each figure or rich display, as soon as Python makes it
+  onOutput?: (chunk: OutputChunk) => void
+  // Modules beyond the standard library the code may import. When given, missing
+  // imports on this list are installed before the code runs and other packages are refused.
+  allowedPackages?: string[]
+  // Called with progress messages while packages install, then with null
+  onInstallProgress?: (message: string | null) => void
+  // Called with each turtle drawing step as soon as Python makes it
+  onTurtle?: (command: TurtleCommand) => void
+  // When given, the code runs in the debugger, pausing before each line of the
+  // student's code until told to continue
+  onPause?: Pause
+  // The project the code is the entry point of. Its files are written into
+  // PROJECT_DIR first, so the code can import them and open() them by name.
+  project?: Project
+  // Evaluate the code as a console entry: the turtle and figures are left as earlier
+  // runs left them, and the result is the repr() of the last expression's value
+  // (null for None) instead of being shown in the output
+  interactive?: boolean
+  // Run the code in a namespace of its own that is thrown away afterwards, so the
+  // names the student's runs defined are neither seen nor changed
+  scratch?: boolean
+}
+
+// input() goes through the run that is currently executing; see installInputHandler
+let activeReadInput: ((prompt: string) => string | null) | null = null
+
+// Turtle drawing steps go to the run that is currently executing; see installTurtle
+let activeDraw: ((command: TurtleCommand) => void) | null = null
+
+// Debugger pauses go to the run that is currently executing; see installDebugger
+let activePause: ((json: string) => DebugCommand) | null = null
+
+// Rich output goes to the run that is currently executing; see installDisplay
+let activeDisplay: ((mimeType: DisplayMimeType, data: string) => void) | null =
+  null
+
+// Where Playdo's own Python modules are put, ahead of the standard library on sys.path
+const PLAYDO_MODULE_DIR = '/lib/playdo'
+
+// Playdo's own Python modules (the python/ directory), by file name
+const PLAYDO_MODULES: Record<string, string> = {
+  'turtle.py': turtleSource,
+  'playdo_display.py': displaySource,
+  'playdo_matplotlib.py': matplotlibBackendSource,
+  'playdo_debugger.py': debuggerSource,
+  'playdo_checker.py': checkerSource,
+  'playdo_linter.py': linterSource,
+  'playdo_assistant.py': assistantSource
+}
+
+// Whether Jedi, which code intelligence is built on, could be installed; see loadAssistant
+let assistantPromise: Promise<boolean> | null = null
+
+// Project files written by earlier runs, so that files since deleted can be removed
+let writtenProjectFiles: string[] = []
+
+// A run that draws more than this is almost certainly stuck in a loop; the rest is dropped
+export const MAX_TURTLE_COMMANDS = 100_000
+
+// Replaces builtins.input so that the prompt reaches JS as a separate value instead
+// of being mixed into stdout, where it couldn't be told apart from a printed line
+const INPUT_HANDLER_SETUP = `
+import builtins
+import sys
+import _playdo_io
+
+def input(prompt=''):
+    sys.stdout.flush()
+    line = _playdo_io.read_line(str(prompt))
+    if line is None:
+        raise EOFError('EOF when reading a line')
+    return line
+
+builtins.input = input
+`
+
+// Top-level modules imported by `code` that can't be found, split into those of the
+// standard library and the rest. Pyodide ships parts of the standard library
+// (sqlite3, lzma, ...) as packages of their own, so those can be missing too. A
+// syntax error yields nothing, so that running the code reports it the usual way.
+const FIND_MISSING_IMPORTS = `
+import importlib.util
+import sys
+from pyodide.code import find_imports
+
+def _missing_imports(source):
+    try:
+        names = find_imports(source)
+    except SyntaxError:
+        names = []
+    missing = [name for name in names if importlib.util.find_spec(name) is None]
+    return {
+        'stdlib': [name for name in missing if name in sys.stdlib_module_names],
+        'packages': [name for name in missing if name not in sys.stdlib_module_names],
+    }
+
+_missing_imports(code)
+`
+
+// Make display() a builtin, as in a notebook, and send matplotlib's plt.show() to
+// the output panel. The backend must be chosen before matplotlib is first imported.
+const DISPLAY_SETUP = `
+import builtins
+import os
+
+import playdo_display
+
+builtins.display = playdo_display.display
+os.environ['MPLBACKEND'] = 'module://playdo_matplotlib'
+`
+
+// Start each run with a fresh turtle and no figures left open from earlier runs,
+// even though the modules stay imported
+const RESET_MODULES = `
+import sys
+
+if 'turtle' in sys.modules:
+    sys.modules['turtle']._playdo_reset()
+if 'matplotlib.pyplot' in sys.modules:
+    sys.modules['matplotlib.pyplot'].close('all')
+`
+
+// Forget project modules imported by earlier runs, so that edits to them take
+// effect, and start in the project directory so that open('data.txt') finds its files
+const PREPARE_PROJECT = `
+import importlib
+import os
+import sys
+
+for name, module in list(sys.modules.items()):
+    if (getattr(module, '__file__', None) or '').startswith(project_dir + '/'):
+        del sys.modules[name]
+importlib.invalidate_caches()
+os.chdir(project_dir)
+`
+
+// Trace the student's code from here on; see python/playdo_debugger.py
+const START_DEBUGGER = `
+import playdo_debugger
+
+playdo_debugger.start(project_dir)
+`
+
+const STOP_DEBUGGER = `
+import playdo_debugger
+
+playdo_debugger.stop()
+`
+
+// Run one of an exercise's tests; see python/playdo_checker.py
+const RUN_TEST = `
+import playdo_checker
+
+playdo_checker.run_test(code, test)
+`
+
+// Find problems in code without running it; see python/playdo_linter.py
+const LINT = `
+import playdo_linter
+
+playdo_linter.lint(code)
+`
+
+// Remove every name earlier runs defined in the namespace code runs in. Dunders
+// such as __name__ and __builtins__ stay.
+const RESET_NAMESPACE = `
+import __main__
+
+for name in [name for name in vars(__main__) if not name.startswith('__')]:
+    delattr(__main__, name)
+`
+
+// Ask Jedi about a place in the code; see python/playdo_assistant.py
+const ASSIST = `
+import playdo_assistant
+
+getattr(playdo_assistant, query)(code, path, line, column)
+`
+
+const HAS_JEDI = `
+import importlib.util
+
+importlib.util.find_spec('jedi') is not None
+`
+
+// The text Python's console echoes for a value; like the console, keeps it as _
+const ECHO_RESULT = `
+import builtins
+
+builtins._ = value
+repr(value)
+`
+
+// Show the value of the code's last expression, as a notebook would
+const SHOW_RESULT = `
+import playdo_display
+
+playdo_display.show_result(value)
+`
+
+// Playdo's own code runs under a file name of its own, so that the debugger never
+// takes it for the student's code, which runs as "<exec>"
+const PLAYDO_CODE_FILE = '<playdo>'
+
+/**
+ * Run Python in a namespace of its own, so that helper variables don't leak into
+ * the student's globals. `values` are made available to the code as variables.
+ */
+function runIsolated(
+  pyodide: PyodideInterface,
+  source: string,
+  values: Record<string, unknown> = {}
+): unknown {
+  const namespace = pyodide.globals.get('dict')()
+  for (const [name, value] of Object.entries(values)) {
+    namespace.set(name, value)
+  }
+  const result = pyodide.runPython(source, {
+    globals: namespace,
+    filename: PLAYDO_CODE_FILE
+  })
+  namespace.destroy()
+  return result
+}
+
+function installInputHandler(pyodide: PyodideInterface) {
+  pyodide.registerJsModule('_playdo_io', {
+    read_line: (prompt: string) =>
+      activeReadInput ? activeReadInput(prompt) : null
+  })
+  pyodide.setStdin({
+    stdin: () => (activeReadInput ? activeReadInput('') : null)
+  })
+  runIsolated(pyodide, INPUT_HANDLER_SETUP)
+}
+
+function installPlaydoModules(pyodide: PyodideInterface) {
+  pyodide.FS.mkdirTree(PLAYDO_MODULE_DIR)
+  for (const [file, source] of Object.entries(PLAYDO_MODULES)) {
+    pyodide.FS.writeFile(`${PLAYDO_MODULE_DIR}/${file}`, source)
+  }
+  runIsolated(pyodide, `import sys\nsys.path.insert(0, '${PLAYDO_MODULE_DIR}')`)
+}
+
+// Project files come first on sys.path, as a script's own directory does in CPython
+function installProjectDir(pyodide: PyodideInterface) {
+  pyodide.FS.mkdirTree(PROJECT_DIR)
+  runIsolated(pyodide, `import sys\nsys.path.insert(0, '${PROJECT_DIR}')`)
+}
+
+/**
+ * Write the project's files into PROJECT_DIR, replacing what earlier runs wrote.
+ * Files the code itself created there are left alone.
+ */
+function writeProject(pyodide: PyodideInterface, project: Project) {
+  const names = project.files.map((file) => file.name)
+  for (const name of writtenProjectFiles) {
+    if (!names.includes(name)) {
+      try {
+        pyodide.FS.unlink(`${PROJECT_DIR}/${name}`)
+      } catch {
+        // Already removed by the code
+      }
+    }
+  }
+  for (const file of project.files) {
+    pyodide.FS.writeFile(`${PROJECT_DIR}/${file.name}`, file.content)
+  }
+  writtenProjectFiles = names
+  runIsolated(pyodide, PREPARE_PROJECT, { project_dir: PROJECT_DIR })
+}
+
+// The turtle module (python/turtle.py) sends its drawing steps as JSON through _playdo_turtle
+function installTurtle(pyodide: PyodideInterface) {
+  pyodide.registerJsModule('_playdo_turtle', {
+    emit: (json: string) => activeDraw?.(JSON.parse(json))
+  })
+}
+
+// python/playdo_display.py sends figures and rich reprs through _playdo_display
+function installDisplay(pyodide: PyodideInterface) {
+  pyodide.registerJsModule('_playdo_display', {
+    emit: (mimeType: DisplayMimeType, data: string) =>
+      activeDisplay?.(mimeType, data)
+  })
+  runIsolated(pyodide, DISPLAY_SETUP)
+}
+
+// python/playdo_debugger.py sends each pause as JSON through _playdo_debug, and
+// gets back what to do next
+function installDebugger(pyodide: PyodideInterface) {
+  pyodide.registerJsModule('_playdo_debug', {
+    pause: (json: string): DebugCommand => activePause?.(json) ?? 'continue'
+  })
+}
+
+/**
+ * Load a new Pyodide instance, trying each mirror in order until one works.
+ * Only the core runtime is loaded (no unvendored stdlib modules), because that is
+ * all the self-hosted copy contains.
+ */
+export async function loadRuntime(
+  indexUrls: string[]
+): Promise<PyodideInterface> {
+  const failures: string[] = []
+  for (const indexURL of indexUrls) {
+    try {
+      const pyodide = await loadPyodide({ indexURL })
+      installInputHandler(pyodide)
+      installPlaydoModules(pyodide)
+      installProjectDir(pyodide)
+      installTurtle(pyodide)
+      installDisplay(pyodide)
+      installDebugger(pyodide)
+      return pyodide
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      console.warn(`Failed to load Pyodide from ${indexURL}:`, error)
+      failures.push(`${indexURL} (${reason})`)
+    }
+  }
+  throw new Error(
+    failures.length > 0
+      ? `Python could not be loaded from any location. Tried: ${failures.join(
+          ', '
+        )}`
+      : 'Python could not be loaded: no locations are configured'
+  )
+}
+
+function findMissingImports(
+  pyodide: PyodideInterface,
+  code: string
+): { stdlib: string[]; packages: string[] } {
+  const missing = runIsolated(pyodide, FIND_MISSING_IMPORTS, { code })
+  return toTransferable(missing) as { stdlib: string[]; packages: string[] }
+}
+
+/**
+ * Install the packages the code imports, so that `import numpy` just works.
+ * Throws a ModuleNotFoundError-style error, without installing anything, if the
+ * code imports a package that isn't on the allowlist. The parts of the standard
+ * library that Pyodide ships separately are always installed.
+ */
+export async function installImports(
+  pyodide: PyodideInterface,
+  code: string,
+  allowedPackages: string[],
+  onProgress: (message: string | null) => void = () => {}
+): Promise<void> {
+  const { stdlib, packages } = findMissingImports(pyodide, code)
+  const missing = [...stdlib, ...packages]
+  if (missing.length === 0) {
+    return
+  }
+
+  const allowed = new Set(allowedPackages.map((name) => name.toLowerCase()))
+  const refused = packages.filter((name) => !allowed.has(name.toLowerCase()))
+  if (refused.length > 0) {
+    const names = refused.map((name) => `'${name}'`).join(', ')
+    const hint =
+      allowedPackages.length > 0
+        ? `Besides the standard library, you can import: ${allowedPackages.join(
+            ', '
+          )}`
+        : 'Only the Python standard library is available.'
+    throw new Error(
+      `ModuleNotFoundError: ${names} ${
+        refused.length === 1 ? 'is' : 'are'
+      } not available here. ${hint}`
+    )
+  }
+
+  onProgress(`Installing ${missing.join(', ')}...`)
+  try {
+    await pyodide.loadPackagesFromImports(code, {
+      messageCallback: onProgress,
+      errorCallback: onProgress
+    })
+  } finally {
+    onProgress(null)
+  }
+}
+
+/**
+ * Convert a Python return value into something that can cross postMessage.
+ * PyProxy objects are converted to plain JS (dicts become objects) and released.
+ */
+export function toTransferable(value: unknown): unknown {
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    'toJs' in value &&
+    typeof value.toJs === 'function'
+  ) {
+    const proxy = value as {
+      toJs: (options: object) => unknown
+      destroy?: () => void
+    }
+    const converted = proxy.toJs({ dict_converter: Object.fromEntries })
+    proxy.destroy?.()
+    return converted
+  }
+  return value
+}
+
+// Release a PyProxy returned from Python that isn't needed any more
+function releaseProxy(value: unknown) {
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    'destroy' in value &&
+    typeof value.destroy === 'function'
+  ) {
+    value.destroy()
+  }
+}
+
+// Contents of the project's Python files other than the entry point
+function otherPythonFiles(project: Project | undefined): string[] {
+  return (project?.files ?? [])
+    .filter(
+      (file) => file.name.endsWith('.py') && file.name !== project?.entryPoint
+    )
+    .map((file) => file.content)
+}
+
+/**
+ * Write the project's files and install the packages imported by the code, ahead of
+ * running it. Throws if the code imports a package that isn't allowed.
+ */
+async function prepareRun(
+  pyodide: PyodideInterface,
+  code: string,
+  options: RunOptions
+) {
+  if (options.project) {
+    writeProject(pyodide, options.project)
+  }
+  if (options.allowedPackages) {
+    // The project's other modules may import packages too
+    const sources = [code, ...otherPythonFiles(options.project)]
+    for (const source of sources) {
+      await installImports(
+        pyodide,
+        source,
+        options.allowedPackages,
+        options.onInstallProgress
+      )
+    }
+  }
+}
+
+/**
+ * Execute Python code and return the result
+ * Globals persist between calls for as long as the worker lives
+ */
+export async function runCode(
+  pyodide: PyodideInterface,
+  code: string,
+  options: RunOptions = {}
+): Promise<ExecutionResult> {
+  // Set up output capture
+  const stdoutBuffer: string[] = []
+  const stderrBuffer: string[] = []
+  const stdinLines: string[] = []
+  const output: OutputChunk[] = []
+  const turtle: TurtleCommand[] = []
+
+  const record = (stream: TextChunk['stream'], text: string) => {
+    if (stream === 'stdout') {
+      stdoutBuffer.push(text)
+    } else {
+      stderrBuffer.push(text)
+    }
+    pushChunk(output, { stream, text })
+    options.onOutput?.({ stream, text })
+  }
+
+  // Echo the prompt and the typed line into stdout, the way a terminal would show them
+  activeReadInput = (prompt: string) => {
+    const line = options.readLine ? options.readLine({ prompt }) : null
+    record('stdout', prompt + (line ?? ''))
+    if (line !== null) {
+      stdinLines.push(line)
+    }
+    return line
+  }
+
+  activeDisplay = (mimeType: DisplayMimeType, data: string) => {
+    const chunk: OutputChunk = { stream: 'display', mimeType, data }
+    output.push(chunk)
+    options.onOutput?.(chunk)
+  }
+
+  const onPause = options.onPause
+  if (onPause) {
+    activePause = (json: string) => {
+      const { filename, ...step } = JSON.parse(json)
+      return onPause({
+        ...step,
+        file: studentFile(filename, options.project) ?? null
+      })
+    }
+  }
+
+  // The namespace of a scratch run; see RunOptions
+  let namespace: PyProxy | undefined
+
+  let turtleCutShort = false
+  activeDraw = (command: TurtleCommand) => {
+    if (turtle.length < MAX_TURTLE_COMMANDS) {
+      turtle.push(command)
+      options.onTurtle?.(command)
+    } else if (!turtleCutShort) {
+      turtleCutShort = true
+      record(
+        'stderr',
+        `The turtle drawing was cut short after ${MAX_TURTLE_COMMANDS} steps.`
+      )
+    }
+  }
+
+  // Set up stdout handler
+  pyodide.setStdout({
+    batched: (text: string) => {
+      record('stdout', text)
+    }
+  })
+
+  // Set up stderr handler
+  pyodide.setStderr({
+    batched: (text: string) => {
+      record('stderr', text)
+    }
+  })
+
+  try {
+    await prepareRun(pyodide, code, options)
+    if (!options.interactive) {
+      runIsolated(pyodide, RESET_MODULES)
+    }
+
+    if (options.scratch) {
+      const scratch: PyProxy = pyodide.globals.get('dict')()
+      scratch.set('__name__', '__main__')
+      namespace = scratch
+    }
+
+    // Execute the code
+    if (onPause) {
+      runIsolated(pyodide, START_DEBUGGER, { project_dir: PROJECT_DIR })
+    }
+    let result: unknown
+    try {
+      result = await pyodide.runPythonAsync(code, {
+        globals: namespace ?? pyodide.globals
+      })
+    } finally {
+      if (onPause) {
+        runIsolated(pyodide, STOP_DEBUGGER)
+      }
+    }
+    if (options.interactive) {
+      const echo =
+        result === undefined
+          ? null
+          : runIsolated(pyodide, ECHO_RESULT, { value: result })
+      releaseProxy(result)
+      result = echo
+    } else if (result !== undefined) {
+      runIsolated(pyodide, SHOW_RESULT, { value: result })
+    }
+
+    // Collect output
+    const stdout: string = stdoutBuffer.join('\n')
+    const stderr: string = stderrBuffer.join('\n')
+
+    return {
+      stdout,
+      stderr,
+      stdin: stdinLines,
+      output,
+      turtle,
+      error: null,
+      result: toTransferable(result)
+    }
+  } catch (error) {
+    // Collect output even if execution failed
+    const stdout: string = stdoutBuffer.join('\n')
+    const stderr: string = stderrBuffer.join('\n')
+    const error_str: string =
+      error instanceof Error ? error.message : String(error)
+    // work around what is, in my opinion, a pyodide bug which throws error instead of populating stderr in case of Python error
+    // https://github.com/pyodide/pyodide/issues/3938
+    //
+    // Don't need to worry about semantics of 'null vs empty string' in stderr/stdout here, that's handled in other code on the basis of
+    // other app considerations relating to whether code has been run or changed
+    const combined_stderr = stderr + '\n' + error_str
+    record('stderr', error_str)
+
+    return {
+      stdout,
+      stderr: combined_stderr,
+      stdin: stdinLines,
+      output,
+      turtle,
+      error: parseTraceback(error_str, code, options.project),
+      result: null
+    }
+  } finally {
+    activeReadInput = null
+    activePause = null
+    activeDraw = null
+    activeDisplay = null
+    releaseProxy(namespace)
+  }
+}
+
+/**
+ * Run an exercise's hidden tests against the code, each against a fresh run of it
+ * in a namespace of its own. Nothing the code prints or draws is shown; only the
+ * project's files and installed packages are shared with normal runs.
+ */
+export async function checkCode(
+  pyodide: PyodideInterface,
+  code: string,
+  tests: ExerciseTest[],
+  options: Pick<
+    RunOptions,
+    'allowedPackages' | 'onInstallProgress' | 'project'
+  > = {}
+): Promise<TestResult[]> {
+  // What the checker prints is captured in Python; anything else is dropped
+  pyodide.setStdout({ batched: () => {} })
+  pyodide.setStderr({ batched: () => {} })
+
+  try {
+    await prepareRun(pyodide, code, options)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return tests.map((test) => ({ name: test.name, passed: false, message }))
+  }
+
+  return tests.map((test) => {
+    try {
+      // Undo whatever the previous test did to the project's files and modules
+      if (options.project) {
+        writeProject(pyodide, options.project)
+      }
+      runIsolated(pyodide, RESET_MODULES)
+      const result = runIsolated(pyodide, RUN_TEST, {
+        code,
+        test: JSON.stringify(test)
+      })
+      return JSON.parse(result as string) as TestResult
+    } catch (error) {
+      // The checker itself failed; the test fails rather than the whole check
+      const message = error instanceof Error ? error.message : String(error)
+      return { name: test.name, passed: false, message }
+    }
+  })
+}
+
+/**
+ * Problems in the code that can be found without running it: syntax errors, names
+ * that are never defined and unused imports. Nothing the student's runs defined is
+ * looked at, so the result depends only on the code.
+ */
+export function lintCode(
+  pyodide: PyodideInterface,
+  code: string
+): LintProblem[] {
+  return JSON.parse(runIsolated(pyodide, LINT, { code }) as string)
+}
+
+/**
+ * Install Jedi, the first time code intelligence is asked for, and say whether it
+ * can be imported. It comes from the Pyodide mirror like any other package, so
+ * without it (e.g. a self-hosted copy without its wheel) there are no completions.
+ */
+async function loadAssistant(pyodide: PyodideInterface): Promise<boolean> {
+  try {
+    await pyodide.loadPackage('jedi', { messageCallback: () => {} })
+  } catch (error) {
+    console.warn('Failed to install jedi:', error)
+  }
+  const installed = runIsolated(pyodide, HAS_JEDI) === true
+  if (!installed) {
+    console.warn('jedi is unavailable, so the editor has no completions')
+  }
+  return installed
+}
+
+// Jedi's answer as JSON, or null if Jedi isn't available
+async function askAssistant(
+  pyodide: PyodideInterface,
+  query: 'complete' | 'hover' | 'signature',
+  position: CodePosition,
+  project?: Project
+): Promise<string | null> {
+  assistantPromise ??= loadAssistant(pyodide)
+  if (!(await assistantPromise)) {
+    return null
+  }
+  // So that names imported from the project's other files can be looked up
+  if (project) {
+    writeProject(pyodide, project)
+  }
+  try {
+    return runIsolated(pyodide, ASSIST, {
+      query,
+      code: position.code,
+      path: `${PROJECT_DIR}/${position.file ?? 'main.py'}`,
+      line: position.line,
+      column: position.column
+    }) as string
+  } catch (error) {
+    // Jedi gets confused by some half-typed code; the editor just goes without
+    console.warn(`jedi could not ${query} the code:`, error)
+    return null
+  }
+}
+
+/**
+ * What could be typed at a position: names in scope, attributes after a dot,
+ * keywords, each with its signature and docstring
+ */
+export async function completeCode(
+  pyodide: PyodideInterface,
+  position: CodePosition,
+  project?: Project
+): Promise<Completion[]> {
+  const json = await askAssistant(pyodide, 'complete', position, project)
+  return json === null ? [] : JSON.parse(json)
+}
+
+/**
+ * The signature and docstring of the name at a position, or null if there is
+ * nothing to say about it
+ */
+export async function describeName(
+  pyodide: PyodideInterface,
+  position: CodePosition,
+  project?: Project
+): Promise<HoverInfo | null> {
+  const json = await askAssistant(pyodide, 'hover', position, project)
+  return json === null ? null : JSON.parse(json)
+}
+
+/**
+ * The call whose arguments are being typed at a position, or null if it isn't in one
+ */
+export async function signatureAt(
+  pyodide: PyodideInterface,
+  position: CodePosition,
+  project?: Project
+): Promise<SignatureHelp | null> {
+  const json = await askAssistant(pyodide, 'signature', position, project)
+  return json === null ? null : JSON.parse(json)
+}
+
+/**
+ * Clear the namespace the student's code runs in, as if Python had just started.
+ * Imported modules stay loaded, but are no longer bound to names; project modules
+ * are loaded afresh by the next run anyway.
+ */
+export function resetNamespace(pyodide: PyodideInterface): void {
+  runIsolated(pyodide, RESET_NAMESPACE)
+}
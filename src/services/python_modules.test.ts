@@ -0,0 +1,331 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll } from 'vitest'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import type { PyodideInterface } from 'pyodide'
+import { checkCode, lintCode, loadRuntime, runCode } from './pythonRuntime'
+import type { ExerciseTest } from '../types'
+import type { DebugStep } from './workerProtocol'
+
+/**
+ * Playdo's own Python modules (python/), run in a real Pyodide. Unlike the tests in
+ * pythonRuntime.test.ts, which mock Pyodide, these check what the modules do:
+ * the checker's verdicts, the linter's messages, the debugger's steps and what
+ * display() shows. Pyodide runs in Node straight from node_modules, so no browser
+ * or network is needed.
+ */
+
+const indexUrl =
+  path.dirname(createRequire(import.meta.url).resolve('pyodide/package.json')) +
+  '/'
+
+let pyodide: PyodideInterface
+
+beforeAll(async () => {
+  pyodide = await loadRuntime([indexUrl])
+}, 60000)
+
+describe('playdo_checker', () => {
+  const check = async (code: string, test: ExerciseTest) =>
+    (await checkCode(pyodide, code, [test]))[0]
+
+  it('should pass an assertion that holds', async () => {
+    expect(
+      await check('def add(a, b):\n    return a + b', {
+        name: 'adds',
+        kind: 'assertion',
+        code: 'assert add(2, 3) == 5'
+      })
+    ).toEqual({ name: 'adds', passed: true, message: null })
+  })
+
+  it('should quote the assertion that failed', async () => {
+    expect(
+      await check('def add(a, b):\n    return a - b', {
+        name: 'adds',
+        kind: 'assertion',
+        code: 'assert add(2, 3) == 5'
+      })
+    ).toEqual({
+      name: 'adds',
+      passed: false,
+      message: 'This check failed: assert add(2, 3) == 5'
+    })
+  })
+
+  it('should compare the output, answering input() from the test', async () => {
+    // Arrange
+    const test: ExerciseTest = {
+      name: 'greets',
+      kind: 'output',
+      stdin: ['Ada'],
+      expectedOutput: 'Hi Ada\n'
+    }
+
+    // Act & Assert
+    expect(await check('print("Hi", input())', test)).toMatchObject({
+      passed: true
+    })
+    expect(await check('print("Hello", input())', test)).toEqual({
+      name: 'greets',
+      passed: false,
+      message: 'Expected the output:\nHi Ada\n\nbut got:\nHello Ada\n'
+    })
+  })
+
+  it('should say when the code asks for more input than the test has', async () => {
+    expect(
+      await check('input()\ninput()', {
+        name: 'reads',
+        kind: 'output',
+        stdin: ['1'],
+        expectedOutput: ''
+      })
+    ).toMatchObject({
+      passed: false,
+      message: 'Your code called input() more times than this test expected.'
+    })
+  })
+
+  it('should fail a test on an error, a syntax error or an interrupt in the code', async () => {
+    // Arrange
+    const test: ExerciseTest = { name: 'runs', kind: 'assertion', code: '' }
+
+    // Act & Assert
+    expect(await check('x = 1\n1 / 0', test)).toMatchObject({
+      passed: false,
+      message: 'Your code raised ZeroDivisionError on line 2: division by zero'
+    })
+    expect(await check('print(', test)).toMatchObject({
+      passed: false,
+      message: expect.stringMatching(/^Your code has a syntax error on line 1/)
+    })
+    expect(await check('raise KeyboardInterrupt', test)).toMatchObject({
+      passed: false,
+      message: expect.stringContaining('KeyboardInterrupt')
+    })
+  })
+
+  it('should run the code afresh for every test', async () => {
+    // Arrange
+    const test: ExerciseTest = {
+      name: 'counts once',
+      kind: 'assertion',
+      code: 'assert count == 1'
+    }
+
+    // Act
+    const results = await checkCode(pyodide, 'count = 0\ncount += 1', [
+      test,
+      test
+    ])
+
+    // Assert
+    expect(results.map((result) => result.passed)).toEqual([true, true])
+  })
+})
+
+describe('playdo_linter', () => {
+  it('should suggest the name a misspelt one probably meant', () => {
+    expect(lintCode(pyodide, "pritn('hi')")).toEqual([
+      {
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: 6,
+        severity: 'error',
+        message: "'pritn' is not defined. Did you mean 'print'?"
+      }
+    ])
+  })
+
+  it('should warn about imports that are never used', () => {
+    expect(lintCode(pyodide, 'import os\nimport math\nprint(math.pi)')).toEqual(
+      [
+        expect.objectContaining({
+          line: 1,
+          severity: 'warning',
+          message: "'os' is imported but never used."
+        })
+      ]
+    )
+  })
+
+  it('should put syntax errors plainly', () => {
+    expect(lintCode(pyodide, 'if True\n    pass')).toEqual([
+      expect.objectContaining({
+        line: 1,
+        severity: 'error',
+        message: 'A colon (:) is missing at the end of this line.'
+      })
+    ])
+  })
+
+  it('should count a name defined anywhere in the file as defined', () => {
+    // A function may use a global defined below it, and comprehensions, arguments
+    // and exception names bind names too
+    const code = [
+      'def total(items):',
+      '    return sum(item * rate for item in items)',
+      'rate = 2',
+      'try:',
+      '    total([1])',
+      'except ValueError as error:',
+      '    print(error)'
+    ].join('\n')
+
+    expect(lintCode(pyodide, code)).toEqual([])
+  })
+
+  it('should not report undefined names after a star import', () => {
+    expect(lintCode(pyodide, 'from math import *\nprint(pi)')).toEqual([])
+  })
+
+  it('should report nothing for code nested too deeply to check', () => {
+    expect(
+      lintCode(pyodide, 'x = ' + Array(3000).fill('1').join(' + '))
+    ).toEqual([])
+  })
+})
+
+describe('playdo_debugger', () => {
+  const code = [
+    'def double(n):',
+    '    return n * 2',
+    '',
+    'x = double(3)',
+    'print(x)'
+  ].join('\n')
+
+  it('should pause before every line of the code, with the variables in scope', async () => {
+    // Arrange
+    const steps: DebugStep[] = []
+
+    // Act
+    const result = await runCode(pyodide, code, {
+      onPause: (step) => {
+        steps.push(step)
+        return 'step'
+      }
+    })
+
+    // Assert
+    expect(result.stdout).toBe('6')
+    expect(steps.map((step) => step.line)).toEqual([1, 4, 2, 5])
+    expect(steps[2]).toMatchObject({
+      function: 'double',
+      locals: [{ name: 'n', type: 'int', repr: '3' }]
+    })
+    expect(steps[3]).toMatchObject({
+      function: null,
+      locals: [],
+      globals: expect.arrayContaining([{ name: 'x', type: 'int', repr: '6' }])
+    })
+  })
+
+  it('should pause on a last expression once, even when it is on line 1', async () => {
+    // Arrange
+    const lines = async (code: string) => {
+      const steps: DebugStep[] = []
+      await runCode(pyodide, code, {
+        onPause: (step) => {
+          steps.push(step)
+          return 'step'
+        }
+      })
+      return steps.map((step) => step.line)
+    }
+
+    // Act & Assert
+    expect(await lines('print(1)')).toEqual([1])
+    expect(await lines('x = 1\nx + 1')).toEqual([1, 2])
+  })
+
+  it('should run to the end without pausing once told to continue', async () => {
+    // Arrange
+    const steps: DebugStep[] = []
+
+    // Act
+    const result = await runCode(pyodide, code, {
+      onPause: (step) => {
+        steps.push(step)
+        return 'continue'
+      }
+    })
+
+    // Assert
+    expect(result.stdout).toBe('6')
+    expect(steps).toHaveLength(1)
+  })
+})
+
+describe('playdo_display', () => {
+  it('should show objects the richest way they can be shown, in order', async () => {
+    // Arrange
+    const code = [
+      'class Table:',
+      '    def _repr_html_(self):',
+      "        return '<b>table</b>'",
+      '',
+      'display(Table(), 42)',
+      "print('done')",
+      'Table()'
+    ].join('\n')
+
+    // Act
+    const result = await runCode(pyodide, code)
+
+    // Assert
+    expect(result.output).toEqual([
+      { stream: 'display', mimeType: 'text/html', data: '<b>table</b>' },
+      { stream: 'display', mimeType: 'text/plain', data: '42' },
+      { stream: 'stdout', text: 'done' },
+      { stream: 'display', mimeType: 'text/html', data: '<b>table</b>' }
+    ])
+  })
+
+  it('should fall back to the plain repr when a rich one fails', async () => {
+    // Arrange
+    const code = [
+      'class Broken:',
+      '    def _repr_html_(self):',
+      "        raise ValueError('no')",
+      '    def __repr__(self):',
+      "        return 'Broken()'",
+      '',
+      'display(Broken())'
+    ].join('\n')
+
+    // Act
+    const result = await runCode(pyodide, code)
+
+    // Assert
+    expect(result.output).toEqual([
+      { stream: 'display', mimeType: 'text/plain', data: 'Broken()' }
+    ])
+  })
+})
+
+describe('installImports', () => {
+  it('should not refuse the standard library modules Pyodide ships separately', async () => {
+    // Act - sqlite3's wheel isn't in the npm package, so it can't actually load here
+    const result = await runCode(pyodide, 'import sqlite3', {
+      allowedPackages: []
+    })
+
+    // Assert
+    expect(result.stderr).not.toContain('is not available here')
+  })
+
+  it('should refuse a package that is not on the allowlist', async () => {
+    // Act
+    const result = await runCode(pyodide, 'import requests', {
+      allowedPackages: []
+    })
+
+    // Assert
+    expect(result.stderr).toContain(
+      "ModuleNotFoundError: 'requests' is not available here."
+    )
+  })
+})
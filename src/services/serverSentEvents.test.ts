@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { readServerSentEvents } from './serverSentEvents'
+
+// A response body that arrives in the given pieces
+function bodyOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk))
+      }
+      controller.close()
+    }
+  })
+}
+
+describe('readServerSentEvents', () => {
+  it('should read named and unnamed events', async () => {
+    // Arrange
+    const onEvent = vi.fn()
+
+    // Act
+    await readServerSentEvents(
+      bodyOf('event: token\ndata: {"text":"Hi"}\n\ndata: plain\n\n'),
+      onEvent
+    )
+
+    // Assert
+    expect(onEvent.mock.calls).toEqual([
+      [{ event: 'token', data: '{"text":"Hi"}' }],
+      [{ event: 'message', data: 'plain' }]
+    ])
+  })
+
+  it('should put together events split across pieces of the body', async () => {
+    // Arrange
+    const onEvent = vi.fn()
+
+    // Act
+    await readServerSentEvents(
+      bodyOf('event: tok', 'en\r\ndata: a\r', '\ndata: b\r\n', '\r\n'),
+      onEvent
+    )
+
+    // Assert
+    expect(onEvent).toHaveBeenCalledExactlyOnceWith({
+      event: 'token',
+      data: 'a\nb'
+    })
+  })
+
+  it('should skip comments and drop an event the stream cut off', async () => {
+    // Arrange
+    const onEvent = vi.fn()
+
+    // Act
+    await readServerSentEvents(
+      bodyOf(': keep-alive\n\ndata: whole\n\ndata: cut off'),
+      onEvent
+    )
+
+    // Assert
+    expect(onEvent).toHaveBeenCalledExactlyOnceWith({
+      event: 'message',
+      data: 'whole'
+    })
+  })
+
+  it('should stop reading when an event is refused', async () => {
+    // Arrange
+    const onEvent = vi.fn(() => {
+      throw new Error('bad event')
+    })
+
+    // Act & Assert
+    await expect(
+      readServerSentEvents(bodyOf('data: x\n\n', 'data: y\n\n'), onEvent)
+    ).rejects.toThrow('bad event')
+    expect(onEvent).toHaveBeenCalledTimes(1)
+  })
+})
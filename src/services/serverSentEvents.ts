@@ -0,0 +1,66 @@
+// An event from a text/event-stream response
+export interface ServerSentEvent {
+  // The event's name; 'message' when the server didn't give one
+  event: string
+  // The data lines, joined with newlines
+  data: string
+}
+
+/**
+ * Read a text/event-stream body, calling onEvent with each event as soon as it is
+ * complete. Resolves when the stream ends. If onEvent throws, the stream is
+ * cancelled and the error passed on.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  // The start of a line whose end hasn't arrived yet
+  let partialLine = ''
+  let event = 'message'
+  let data: string[] = []
+
+  const readLine = (line: string) => {
+    if (line === '') {
+      // A blank line ends the event; events without data are ignored
+      if (data.length > 0) {
+        onEvent({ event, data: data.join('\n') })
+      }
+      event = 'message'
+      data = []
+      return
+    }
+    if (line.startsWith(':')) {
+      // A comment, e.g. sent to keep the connection open
+      return
+    }
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+    if (field === 'event') {
+      event = value
+    } else if (field === 'data') {
+      data.push(value)
+    }
+  }
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      const text = partialLine + decoder.decode(value, { stream: !done })
+      const lines = text.split('\n')
+      partialLine = done ? '' : lines.pop() ?? ''
+      for (const line of lines) {
+        readLine(line.endsWith('\r') ? line.slice(0, -1) : line)
+      }
+      if (done) {
+        return
+      }
+    }
+  } catch (error) {
+    reader.cancel().catch(() => {})
+    throw error
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  MAX_STDIN_LINE_BYTES,
+  createStdinBuffer,
+  resetStdin,
+  waitForStdinLine,
+  writeStdinLine
+} from './stdinChannel'
+
+describe('stdinChannel', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  // In these tests the line is always written before waiting, so Atomics.wait returns
+  // immediately instead of blocking the test thread
+
+  it('should deliver a typed line', () => {
+    // Arrange
+    const buffer = createStdinBuffer()!
+    resetStdin(buffer)
+
+    // Act
+    writeStdinLine(buffer, 'Ada')
+
+    // Assert
+    expect(waitForStdinLine(buffer)).toBe('Ada')
+  })
+
+  it('should deliver an empty line as an empty string', () => {
+    const buffer = createStdinBuffer()!
+    resetStdin(buffer)
+
+    writeStdinLine(buffer, '')
+
+    expect(waitForStdinLine(buffer)).toBe('')
+  })
+
+  it('should deliver end of input as null', () => {
+    const buffer = createStdinBuffer()!
+    resetStdin(buffer)
+
+    writeStdinLine(buffer, null)
+
+    expect(waitForStdinLine(buffer)).toBeNull()
+  })
+
+  it('should preserve non-ASCII text', () => {
+    const buffer = createStdinBuffer()!
+    resetStdin(buffer)
+
+    writeStdinLine(buffer, 'héllo 🐍')
+
+    expect(waitForStdinLine(buffer)).toBe('héllo 🐍')
+  })
+
+  it('should not leak a longer previous line into a shorter one', () => {
+    // Arrange
+    const buffer = createStdinBuffer()!
+    resetStdin(buffer)
+    writeStdinLine(buffer, 'a much longer line')
+    waitForStdinLine(buffer)
+
+    // Act
+    resetStdin(buffer)
+    writeStdinLine(buffer, 'short')
+
+    // Assert
+    expect(waitForStdinLine(buffer)).toBe('short')
+  })
+
+  it('should truncate lines longer than the buffer', () => {
+    const buffer = createStdinBuffer()!
+    resetStdin(buffer)
+
+    writeStdinLine(buffer, 'x'.repeat(MAX_STDIN_LINE_BYTES + 10))
+
+    expect(waitForStdinLine(buffer)).toHaveLength(MAX_STDIN_LINE_BYTES)
+  })
+
+  it('should return null when shared memory is unavailable', () => {
+    vi.stubGlobal('SharedArrayBuffer', undefined)
+
+    expect(createStdinBuffer()).toBeNull()
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * A one-line mailbox in shared memory, used to hand lines typed by the student to the
+ * Python worker. The worker blocks on it with Atomics.wait while Python is inside
+ * input(), and the main thread fills it and wakes the worker.
+ *
+ * SharedArrayBuffer is only available when the page is cross-origin isolated
+ * (COOP/COEP headers), so callers must handle createStdinBuffer returning null.
+ */
+
+// Layout of the Int32 header at the start of the buffer
+const STATE_INDEX = 0
+const LENGTH_INDEX = 1
+const HEADER_BYTES = 2 * Int32Array.BYTES_PER_ELEMENT
+
+// Values of the state slot
+const STATE_WAITING = 0
+const STATE_LINE = 1
+const STATE_EOF = 2
+
+// Longest line (in UTF-8 bytes) that can be typed into input()
+export const MAX_STDIN_LINE_BYTES = 64 * 1024
+
+export function createStdinBuffer(): SharedArrayBuffer | null {
+  if (typeof SharedArrayBuffer === 'undefined') {
+    return null
+  }
+  return new SharedArrayBuffer(HEADER_BYTES + MAX_STDIN_LINE_BYTES)
+}
+
+/**
+ * Main thread side: deliver a line (or end-of-input, as null) and wake the worker
+ */
+export function writeStdinLine(buffer: SharedArrayBuffer, line: string | null) {
+  const header = new Int32Array(buffer, 0, 2)
+  if (line === null) {
+    Atomics.store(header, LENGTH_INDEX, 0)
+    Atomics.store(header, STATE_INDEX, STATE_EOF)
+  } else {
+    const encoded = new TextEncoder().encode(line)
+    const length = Math.min(encoded.length, MAX_STDIN_LINE_BYTES)
+    new Uint8Array(buffer, HEADER_BYTES).set(encoded.subarray(0, length))
+    Atomics.store(header, LENGTH_INDEX, length)
+    Atomics.store(header, STATE_INDEX, STATE_LINE)
+  }
+  Atomics.notify(header, STATE_INDEX)
+}
+
+/**
+ * Worker side: mark the mailbox empty before asking the main thread for a line
+ */
+export function resetStdin(buffer: SharedArrayBuffer) {
+  Atomics.store(new Int32Array(buffer, 0, 2), STATE_INDEX, STATE_WAITING)
+}
+
+/**
+ * Worker side: block until the main thread delivers a line, then return it
+ * (null means end of input). Must not be called on the main thread.
+ */
+export function waitForStdinLine(buffer: SharedArrayBuffer): string | null {
+  const header = new Int32Array(buffer, 0, 2)
+  Atomics.wait(header, STATE_INDEX, STATE_WAITING)
+  if (Atomics.load(header, STATE_INDEX) === STATE_EOF) {
+    return null
+  }
+  const length = Atomics.load(header, LENGTH_INDEX)
+  // slice() copies out of shared memory, which TextDecoder requires
+  const bytes = new Uint8Array(buffer, HEADER_BYTES, length).slice()
+  return new TextDecoder().decode(bytes)
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import { PROJECT_DIR, parseTraceback } from './traceback'
+
+// Frames Pyodide adds above the student's code
+const PYODIDE_FRAMES = `Traceback (most recent call last):
+  File "/lib/python312.zip/_pyodide/_base.py", line 597, in eval_code_async
+    await CodeRunner(
+  File "/lib/python312.zip/_pyodide/_base.py", line 411, in run_async
+    coroutine = eval(self.code, globals, locals)
+                ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^`
+
+describe('parseTraceback', () => {
+  it('should parse the exception and keep only frames in the student code', () => {
+    // Arrange
+    const traceback = `${PYODIDE_FRAMES}
+  File "<exec>", line 4, in <module>
+  File "<exec>", line 2, in divide
+ZeroDivisionError: division by zero`
+
+    // Act
+    const error = parseTraceback(traceback)
+
+    // Assert
+    expect(error).toEqual({
+      type: 'ZeroDivisionError',
+      message: 'division by zero',
+      file: null,
+      line: 2,
+      column: null,
+      frames: [
+        { file: null, line: 4, name: '<module>' },
+        { file: null, line: 2, name: 'divide' }
+      ]
+    })
+  })
+
+  it('should find the column of a syntax error in indented code', () => {
+    // Arrange
+    const code = 'if True:\n    print("hi"'
+    const traceback = `${PYODIDE_FRAMES}
+  File "<exec>", line 2
+    print("hi"
+         ^
+SyntaxError: '(' was never closed`
+
+    // Act
+    const error = parseTraceback(traceback, code)
+
+    // Assert
+    expect(error).toMatchObject({
+      type: 'SyntaxError',
+      message: "'(' was never closed",
+      line: 2,
+      column: 10,
+      frames: [{ file: null, line: 2, name: null }]
+    })
+  })
+
+  it('should use the start of the marked range as the column', () => {
+    // Arrange
+    const traceback = `Traceback (most recent call last):
+  File "<exec>", line 1, in <module>
+    total = 1 + "2"
+            ~~^~~~~
+TypeError: unsupported operand type(s) for +: 'int' and 'str'`
+
+    // Act
+    const error = parseTraceback(traceback, 'total = 1 + "2"')
+
+    // Assert
+    expect(error?.column).toBe(9)
+  })
+
+  it('should use only the last traceback of chained exceptions', () => {
+    // Arrange
+    const traceback = `Traceback (most recent call last):
+  File "<exec>", line 2, in <module>
+KeyError: 'name'
+
+During handling of the above exception, another exception occurred:
+
+Traceback (most recent call last):
+  File "<exec>", line 4, in <module>
+ValueError: missing name`
+
+    // Act
+    const error = parseTraceback(traceback)
+
+    // Assert
+    expect(error).toMatchObject({
+      type: 'ValueError',
+      message: 'missing name',
+      line: 4,
+      frames: [{ file: null, line: 4, name: '<module>' }]
+    })
+  })
+
+  it('should keep messages that span several lines', () => {
+    // Arrange
+    const traceback = `Traceback (most recent call last):
+  File "<exec>", line 1, in <module>
+ValueError: first line
+second line`
+
+    // Act & Assert
+    expect(parseTraceback(traceback)?.message).toBe('first line\nsecond line')
+  })
+
+  it('should have no line when the error was not raised in the student code', () => {
+    // Arrange
+    const traceback = `${PYODIDE_FRAMES}
+ModuleNotFoundError: No module named 'requests'`
+
+    // Act
+    const error = parseTraceback(traceback)
+
+    // Assert
+    expect(error).toMatchObject({
+      type: 'ModuleNotFoundError',
+      line: null,
+      column: null,
+      frames: []
+    })
+  })
+
+  it('should name the project files the frames are in', () => {
+    // Arrange
+    const project = {
+      files: [
+        { name: 'main.py', content: 'import helpers\nhelpers.greet()' },
+        { name: 'helpers.py', content: 'def greet():\n    print(nme)' }
+      ],
+      entryPoint: 'main.py'
+    }
+    const traceback = `${PYODIDE_FRAMES}
+  File "<exec>", line 2, in <module>
+  File "${PROJECT_DIR}/helpers.py", line 2, in greet
+    print(nme)
+          ^^^
+NameError: name 'nme' is not defined`
+
+    // Act
+    const error = parseTraceback(traceback, project.files[0].content, project)
+
+    // Assert
+    expect(error).toMatchObject({
+      file: 'helpers.py',
+      line: 2,
+      column: 11,
+      frames: [
+        { file: 'main.py', line: 2, name: '<module>' },
+        { file: 'helpers.py', line: 2, name: 'greet' }
+      ]
+    })
+  })
+
+  it('should return null for text that is not a traceback', () => {
+    expect(parseTraceback('Execution stopped.')).toBeNull()
+    expect(parseTraceback('')).toBeNull()
+  })
+})
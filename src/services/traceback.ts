@@ -0,0 +1,129 @@
+import type { Project } from '../types'
+import type { PythonError, TracebackFrame } from './workerProtocol'
+
+/**
+ * Turns the text of a Python traceback into a structured error, so the editor can
+ * point at the line that failed. Runs inside the worker, next to pythonRuntime.ts.
+ */
+
+// Pyodide compiles student code under this file name
+export const STUDENT_CODE_FILE = '<exec>'
+
+// The student's project files are written here, so they show up in tracebacks under this path
+export const PROJECT_DIR = '/home/pyodide/project'
+
+// e.g.   File "<exec>", line 3, in greet
+const FRAME_PATTERN = /^\s*File "(.+)", line (\d+)(?:, in (.+))?$/
+
+// e.g. ZeroDivisionError: division by zero (or just KeyboardInterrupt)
+const EXCEPTION_PATTERN = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/
+
+// e.g.     ^ or   ~~~^^^ under the quoted source line
+const CARET_LINE_PATTERN = /^\s+[~^]+\s*$/
+
+const TRACEBACK_HEADER = 'Traceback (most recent call last):'
+
+// Python indents the source line it quotes under a frame by four spaces
+const QUOTED_SOURCE_INDENT = 4
+
+/**
+ * Find the column of a caret line (`    ^` or `  ~~~^^^`) under a quoted source
+ * line, as a 1-based column in the original source.
+ */
+function caretColumn(
+  caretLine: string,
+  sourceLine: string | undefined
+): number | null {
+  const offset = caretLine.search(/[~^]/)
+  if (offset < QUOTED_SOURCE_INDENT) {
+    return null
+  }
+  // The quoted line has its own indentation stripped, so add it back
+  const indentation = sourceLine?.match(/^\s*/)?.[0].length ?? 0
+  return offset - QUOTED_SOURCE_INDENT + indentation + 1
+}
+
+/**
+ * Which of the student's files a traceback's file name is, or undefined if it is
+ * someone else's (the standard library, a package). The run code itself is the
+ * project's entry point, or no file (null) when there is no project.
+ */
+export function studentFile(
+  fileName: string,
+  project: Project | undefined
+): string | null | undefined {
+  if (fileName === STUDENT_CODE_FILE) {
+    return project?.entryPoint ?? null
+  }
+  const name = fileName.startsWith(`${PROJECT_DIR}/`)
+    ? fileName.slice(PROJECT_DIR.length + 1)
+    : undefined
+  return project?.files.some((file) => file.name === name) ? name : undefined
+}
+
+/**
+ * Parse a traceback. Only frames in the student's code (the code that was run and
+ * the project's files) are kept; the innermost one gives the line that failed. For
+ * chained exceptions ("During handling of the above exception...") only the last
+ * traceback is used. Returns null if the text isn't a traceback.
+ */
+export function parseTraceback(
+  traceback: string,
+  code?: string,
+  project?: Project
+): PythonError | null {
+  const lines = traceback.replace(/\s+$/, '').split('\n')
+  const sourceLines = (file: string | null) =>
+    (file === null || file === project?.entryPoint
+      ? code
+      : project?.files.find((projectFile) => projectFile.name === file)?.content
+    )?.split('\n') ?? []
+
+  const start = Math.max(lines.lastIndexOf(TRACEBACK_HEADER), 0)
+  const frames: TracebackFrame[] = []
+  let column: number | null = null
+  let lastFrameIndex = start - 1
+  for (let index = start; index < lines.length; index++) {
+    const frame = lines[index].match(FRAME_PATTERN)
+    if (!frame) {
+      continue
+    }
+    lastFrameIndex = index
+    const file = studentFile(frame[1], project)
+    if (file === undefined) {
+      continue
+    }
+    const line = Number(frame[2])
+    frames.push({ file, line, name: frame[3] ?? null })
+
+    // A caret line right after the quoted source marks the column
+    const caretLine = lines[index + 2]
+    column =
+      caretLine !== undefined && CARET_LINE_PATTERN.test(caretLine)
+        ? caretColumn(caretLine, sourceLines(file)[line - 1])
+        : null
+  }
+
+  // The exception is the first unindented line after the frames; its message
+  // may continue over the following lines
+  const exceptionIndex = lines.findIndex(
+    (line, index) => index > lastFrameIndex && EXCEPTION_PATTERN.test(line)
+  )
+  const exception = lines[exceptionIndex]?.match(EXCEPTION_PATTERN)
+  if (!exception) {
+    return null
+  }
+  const message = [exception[2] ?? '', ...lines.slice(exceptionIndex + 1)]
+    .join('\n')
+    .trim()
+
+  const innermost = frames[frames.length - 1]
+  return {
+    type: exception[1],
+    message,
+    file: innermost?.file ?? null,
+    line: innermost?.line ?? null,
+    column: innermost ? column : null,
+    frames
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Message types exchanged between the main thread (PyodideRunner) and the
+ * Python worker (pyodide.worker.ts). Everything here must be structured-cloneable.
+ */
+
+import type { ExerciseTest, Project, TestResult } from '../types'
+
+/**
+ * One or more lines written to a single stream, newline-separated without a trailing newline
+ */
+export interface TextChunk {
+  stream: 'stdout' | 'stderr'
+  text: string
+}
+
+/**
+ * Kinds of rich output, in the order they are preferred. text/plain is used for the
+ * value of the last expression when it has no richer form.
+ */
+export type DisplayMimeType =
+  | 'image/png'
+  | 'image/svg+xml'
+  | 'text/html'
+  | 'text/plain'
+
+/**
+ * Something the code displayed rather than printed: a matplotlib figure from
+ * plt.show(), or an object with a _repr_png_, _repr_svg_ or _repr_html_ method.
+ * PNG data is base64-encoded; the other types are text.
+ */
+export interface DisplayChunk {
+  stream: 'display'
+  mimeType: DisplayMimeType
+  data: string
+}
+
+/**
+ * Output in the order it was produced
+ */
+export type OutputChunk = TextChunk | DisplayChunk
+
+/**
+ * Pen a turtle draws with; null on a move means the pen is up
+ */
+export interface TurtlePen {
+  color: string
+  width: number
+}
+
+/**
+ * One drawing step sent by the turtle module (src/services/python/turtle.py).
+ * Coordinates are turtle coordinates: origin in the middle, y pointing up.
+ */
+export type TurtleCommand =
+  // Move and/or turn a turtle, drawing a line if its pen is down. Speed is the
+  // turtle's speed() (1 slowest to 10 fastest, 0 for no animation)
+  | {
+      type: 'move'
+      turtle: number
+      x: number
+      y: number
+      heading: number
+      pen: TurtlePen | null
+      speed: number
+    }
+  | { type: 'show'; turtle: number; visible: boolean }
+  | {
+      type: 'fill'
+      turtle: number
+      points: [number, number][]
+      color: string
+    }
+  | {
+      type: 'dot'
+      turtle: number
+      x: number
+      y: number
+      size: number
+      color: string
+    }
+  | {
+      type: 'write'
+      turtle: number
+      x: number
+      y: number
+      text: string
+      color: string
+      align: 'left' | 'center' | 'right'
+      // CSS font, e.g. 'bold 12pt Arial'
+      font: string
+    }
+  // Erase what one turtle drew, or everything when turtle is null
+  | { type: 'clear'; turtle: number | null }
+  | { type: 'background'; color: string }
+
+/**
+ * One call in a traceback, in the student's code
+ */
+export interface TracebackFrame {
+  // Project file the call is in, null when the code wasn't run as part of a project
+  file: string | null
+  // 1-based line in that file
+  line: number
+  // Function the line is in, '<module>' for top-level code, null if Python didn't say
+  name: string | null
+}
+
+/**
+ * An exception that stopped the code, parsed from its traceback
+ */
+export interface PythonError {
+  // e.g. 'ZeroDivisionError'
+  type: string
+  message: string
+  // Project file it was raised in, null if not in a project file
+  file: string | null
+  // Where it was raised in the student's code (1-based), null if not in their code
+  line: number | null
+  column: number | null
+  // Outermost call first, as in the traceback
+  frames: TracebackFrame[]
+}
+
+/**
+ * Something wrong with the code, found by reading it rather than running it
+ */
+export interface LintProblem {
+  // 1-based; the end is just past the problem
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  severity: 'error' | 'warning'
+  // Written for a beginner, e.g. "'pritn' is not defined. Did you mean 'print'?"
+  message: string
+}
+
+/**
+ * A place in a file the editor asks about, for completions, hover documentation and
+ * signature help
+ */
+export interface CodePosition {
+  code: string
+  // Project file the code is, null when it isn't part of a project
+  file: string | null
+  // 1-based
+  line: number
+  column: number
+}
+
+/**
+ * Something that could be typed at a position: a name, an attribute or a keyword
+ */
+export interface Completion {
+  name: string
+  // Jedi's kind of name, e.g. 'function', 'class', 'module', 'instance', 'keyword'
+  type: string
+  // e.g. 'sqrt(x: SupportsFloat, /) -> float', null if it isn't callable
+  signature: string | null
+  // Docstring, cut short when it is long; empty if there is none
+  doc: string
+}
+
+/**
+ * What the name under the mouse is
+ */
+export interface HoverInfo {
+  name: string
+  type: string
+  signature: string | null
+  doc: string
+}
+
+/**
+ * The call whose arguments are being typed
+ */
+export interface SignatureHelp {
+  // The function being called
+  name: string
+  // Each parameter as written in the signature, e.g. 'sep: Optional[str]=...'
+  params: string[]
+  // The parameter being typed, null when past the last one
+  activeParameter: number | null
+  doc: string
+}
+
+/**
+ * A variable in scope while the debugger is paused
+ */
+export interface DebugVariable {
+  name: string
+  // e.g. 'int', 'list', 'function'
+  type: string
+  // repr() of the value, cut short when it is long
+  repr: string
+}
+
+/**
+ * Where the debugger is paused: the line about to run, and the variables in scope
+ */
+export interface DebugStep {
+  // Project file the line is in, null when the code wasn't run as part of a project
+  file: string | null
+  // 1-based line in that file
+  line: number
+  // Function the line is in, null at the top level of the file
+  function: string | null
+  // Empty at the top level, where the locals are the globals
+  locals: DebugVariable[]
+  globals: DebugVariable[]
+}
+
+/**
+ * What to do after a pause: run the next line, or run to the end without pausing
+ */
+export type DebugCommand = 'step' | 'continue'
+
+/**
+ * Type for the execution result
+ */
+export interface ExecutionResult {
+  stdout: string
+  stderr: string
+  // Lines typed into input() during the run, in order
+  stdin: string[]
+  // stdout and stderr interleaved in the order they were written
+  output: OutputChunk[]
+  // Turtle graphics drawn during the run, in order
+  turtle: TurtleCommand[]
+  // The exception that stopped the code, null if it ran to the end
+  error: PythonError | null
+  result: unknown
+}
+
+/**
+ * Sent when Python is blocked in input()
+ */
+export interface InputRequest {
+  prompt: string
+}
+
+/**
+ * Messages sent from the main thread to the worker
+ */
+export type WorkerRequest =
+  | {
+      type: 'init'
+      // Pyodide mirrors, as absolute URLs, in the order to try them
+      indexUrls: string[]
+      // Modules beyond the standard library that code may import
+      allowedPackages: string[]
+      stdinBuffer: SharedArrayBuffer | null
+    }
+  | {
+      type: 'execute'
+      id: number
+      code: string
+      // Files to write into the virtual filesystem first; code is the entry point's content
+      project: Project | null
+      // Pause before each line of the student's code, until told to continue
+      debug: boolean
+      // A console entry: the result is the repr() of its value; see RunOptions
+      interactive: boolean
+      // A snippet run in a namespace of its own; see RunOptions
+      scratch: boolean
+    }
+  | {
+      type: 'check'
+      id: number
+      code: string
+      project: Project | null
+      // An exercise's hidden tests, each run against a fresh run of the code
+      tests: ExerciseTest[]
+    }
+  | { type: 'lint'; id: number; code: string }
+  // Forget everything earlier runs defined
+  | { type: 'reset'; id: number }
+  // Code intelligence for the editor; the project's files are written first, so
+  // names imported from them can be looked up
+  | {
+      type: 'complete' | 'hover' | 'signature'
+      id: number
+      position: CodePosition
+      project: Project | null
+    }
+
+/**
+ * Messages sent from the worker back to the main thread
+ */
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'init-error'; message: string }
+  // The worker has begun a run or a check, which may have waited behind other requests
+  | { type: 'started'; id: number }
+  | { type: 'output'; id: number; chunks: OutputChunk[] }
+  | { type: 'turtle'; id: number; commands: TurtleCommand[] }
+  | { type: 'stdin-request'; id: number; request: InputRequest }
+  // Paused in the debugger; answered with a DebugCommand through the stdin mailbox
+  | { type: 'debug-pause'; id: number; step: DebugStep }
+  // Progress while packages imported by the code are installed; null once done
+  | { type: 'install-progress'; id: number; message: string | null }
+  | { type: 'result'; id: number; result: ExecutionResult }
+  | { type: 'check-result'; id: number; results: TestResult[] }
+  | { type: 'lint-result'; id: number; problems: LintProblem[] }
+  | { type: 'reset-result'; id: number }
+  | { type: 'complete-result'; id: number; completions: Completion[] }
+  | { type: 'hover-result'; id: number; hover: HoverInfo | null }
+  | { type: 'signature-result'; id: number; signature: SignatureHelp | null }
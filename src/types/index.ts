@@ -4,13 +4,70 @@ type ContentItem = {
   type: string // Currently only "text", but could have other types in the future
 }
 
+// Image attached to a message, e.g. a plot from the code's output
+export type MessageImage = {
+  media_type: 'image/png'
+  data: string // base64
+}
+
+// A file in the student's project. Names are flat (no directories), e.g. 'helpers.py'
+export type ProjectFile = {
+  name: string
+  content: string
+}
+
+// The student's files, and the one that runs when they press Run
+export type Project = {
+  files: ProjectFile[]
+  entryPoint: string // Name of one of the files
+}
+
+// A hidden test of an exercise. Assertion tests run `code` after the student's code,
+// in its namespace; output tests compare what the student's code printed with
+// `expectedOutput`, ignoring trailing whitespace.
+export type ExerciseTest = {
+  name: string // Shown to the student, e.g. 'add(2, 3) is 5'
+  stdin?: string[] // Lines input() returns, in order
+} & (
+  | { kind: 'assertion'; code: string }
+  | { kind: 'output'; expectedOutput: string }
+)
+
+// A problem for the student to solve, checked by its hidden tests
+export type Exercise = {
+  id: string
+  title: string
+  prompt: string
+  starterCode: string // Content of main.py when the student starts the exercise
+  tests: ExerciseTest[]
+}
+
+// How the student's code did on one test
+export type TestResult = {
+  name: string
+  passed: boolean
+  message: string | null // Why it failed, null if it passed
+}
+
+// The results of checking the student's code, sent to the tutor with the next message
+export type ExerciseCheck = {
+  exercise_id: string
+  prompt: string
+  results: TestResult[]
+}
+
 // Message structure
 export type Message = {
   content: ContentItem[]
   role: 'user' | 'assistant'
   editor_code?: string | null // New field for the code in the editor
+  files?: ProjectFile[] | null // Every file in the project; editor_code is the entry point's content
+  entry_point?: string | null // Name of the file that was run
   stdout?: string | null // New field for standard output
   stderr?: string | null // New field for standard error
+  stdin?: string | null // Lines typed into input() during the run, newline-separated
+  images?: MessageImage[] | null // Figures the code displayed during the run
+  exercise_check?: ExerciseCheck | null // Results of checking the code against an exercise
 }
 
 // Conversation structure
@@ -19,8 +76,43 @@ export type Conversation = {
   id: number
   messages: Message[]
   updated_at: string
+  title?: string | null // Null until the student or their first message names it
+  archived?: boolean
+}
+
+// A conversation as it is listed, without its messages
+export type ConversationSummary = {
+  id: number
+  title: string | null
+  archived: boolean
+  preview: string | null // The start of the last message, null when there are none
+  updated_at: string | null // When the conversation last changed; null if unknown
+  message_count: number
 }
 
 export type ConversationListResponse = {
   conversation_ids: number[]
+  conversations?: ConversationSummary[] // Sent by a backend that keeps titles
+  next_cursor?: string | null // Where the next page starts, null on the last page
+}
+
+// One page of conversations, most recently active first
+export type ConversationPage = {
+  conversations: ConversationSummary[]
+  nextCursor: string | null
+}
+
+// A message that matches a search across the student's conversations
+export type MessageSearchHit = {
+  conversation_id: number
+  conversation_title: string | null
+  message_index: number // Position of the message in its conversation
+  role: 'user' | 'assistant'
+  // Whether the match is in what was written or in the code sent with the message
+  field: 'text' | 'code'
+  snippet: string // The text around the match, as plain text
+}
+
+export type MessageSearchResponse = {
+  results: MessageSearchHit[]
 }
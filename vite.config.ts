@@ -3,6 +3,82 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import tsconfigPaths from 'vite-tsconfig-paths'
 import { Plugin } from 'vite'
+import fs from 'node:fs'
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import { fileURLToPath } from 'node:url'
+
+// Pyodide runtime files served from our own origin under /pyodide/, so the app
+// doesn't depend on a CDN being reachable (school networks often block them).
+// Packages beyond the standard library are served from the same place: put their
+// wheels (from the Pyodide release matching the npm package) in pyodide-packages/.
+const PYODIDE_ASSET_DIR = 'pyodide'
+const PYODIDE_ASSETS = [
+  'pyodide.asm.js',
+  'pyodide.asm.wasm',
+  'python_stdlib.zip',
+  'pyodide-lock.json'
+]
+const pyodideSourceDir = path.dirname(
+  createRequire(import.meta.url).resolve('pyodide/package.json')
+)
+const pyodidePackageDir = fileURLToPath(
+  new URL('./pyodide-packages', import.meta.url)
+)
+
+// The parts of the standard library that Pyodide ships as packages of their own
+// (sqlite3, lzma, ...), with what they depend on. They aren't in the npm package, so
+// their files are taken from pyodide-packages/ when they're not next to the runtime.
+function listPyodideStdlibFiles(): string[] {
+  const lock = JSON.parse(
+    fs.readFileSync(path.join(pyodideSourceDir, 'pyodide-lock.json'), 'utf8')
+  ) as {
+    packages: Record<
+      string,
+      { file_name: string; package_type: string; depends: string[] }
+    >
+  }
+  const names = Object.keys(lock.packages).filter(
+    (name) =>
+      lock.packages[name].package_type === 'cpython_module' && name !== 'test'
+  )
+  const files = new Set<string>()
+  while (names.length > 0) {
+    const entry = lock.packages[names.pop() as string]
+    if (!files.has(entry.file_name)) {
+      files.add(entry.file_name)
+      names.push(...entry.depends)
+    }
+  }
+  return [...files]
+}
+
+// Wheels (and zipped stdlib modules) that have been put in pyodide-packages/
+function listPyodidePackages(): string[] {
+  if (!fs.existsSync(pyodidePackageDir)) {
+    return []
+  }
+  return fs
+    .readdirSync(pyodidePackageDir)
+    .filter((file) => file.endsWith('.whl') || file.endsWith('.zip'))
+}
+
+// Where a file served under /pyodide/ lives on disk, or null if it isn't one of ours
+function resolvePyodideFile(file: string): string | null {
+  if (PYODIDE_ASSETS.includes(file)) {
+    return path.join(pyodideSourceDir, file)
+  }
+  if (listPyodidePackages().includes(file)) {
+    return path.join(pyodidePackageDir, file)
+  }
+  if (
+    listPyodideStdlibFiles().includes(file) &&
+    fs.existsSync(path.join(pyodideSourceDir, file))
+  ) {
+    return path.join(pyodideSourceDir, file)
+  }
+  return null
+}
 
 // Custom plugin to handle Pyodide files
 function pyodidePlugin(): Plugin {
@@ -18,10 +94,57 @@ function pyodidePlugin(): Plugin {
         }
         next()
       })
+      // Serve the runtime straight out of node_modules in development
+      server.middlewares.use(`/${PYODIDE_ASSET_DIR}`, (req, res, next) => {
+        const file = req.url?.split('?')[0].replace(/^\//, '')
+        const source = file ? resolvePyodideFile(file) : null
+        if (!source) {
+          next()
+          return
+        }
+        fs.createReadStream(source).pipe(res)
+      })
+    },
+    generateBundle() {
+      // Copy the runtime into the build output next to the app
+      const files = new Set([
+        ...PYODIDE_ASSETS,
+        ...listPyodidePackages(),
+        ...listPyodideStdlibFiles()
+      ])
+      const missing: string[] = []
+      for (const file of files) {
+        const source = resolvePyodideFile(file)
+        if (source) {
+          this.emitFile({
+            type: 'asset',
+            fileName: `${PYODIDE_ASSET_DIR}/${file}`,
+            source: fs.readFileSync(source)
+          })
+        } else {
+          missing.push(file)
+        }
+      }
+      if (missing.length > 0) {
+        this.warn(
+          `Standard library modules Pyodide ships separately are missing, so importing them will fail: ${missing.join(
+            ', '
+          )}. Copy them into pyodide-packages/ (see its README.md).`
+        )
+      }
     }
   }
 }
 
+// The Python worker needs SharedArrayBuffer to block on input(), which browsers only
+// allow on cross-origin isolated pages. 'credentialless' (rather than 'require-corp')
+// keeps third party resources like Google Fonts loading without CORP headers.
+// Keep in sync with nginx.conf.
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless'
+}
+
 // https://vitejs.dev/config https://vitest.dev/config
 export default defineConfig({
   plugins: [react(), tsconfigPaths(), pyodidePlugin()],
@@ -44,9 +167,17 @@ export default defineConfig({
     },
     headers: {
       // Set MIME types for WebAssembly files
-      'cache-control': 'no-store'
+      'cache-control': 'no-store',
+      ...crossOriginIsolationHeaders
     }
   },
+  preview: {
+    headers: crossOriginIsolationHeaders
+  },
+  // The Python worker imports Pyodide as an ES module, so it must be bundled as one
+  worker: {
+    format: 'es'
+  },
   // Add optimizeDeps configuration to handle Pyodide properly
   optimizeDeps: {
     // Tell Vite not to process Pyodide, we'll handle it ourselves
@@ -59,14 +190,8 @@ export default defineConfig({
       transformMixedEsModules: true
     },
     // Increase chunk size limit for WebAssembly files
-    chunkSizeWarningLimit: 5000,
-    rollupOptions: {
-      output: {
-        manualChunks: {
-          pyodide: ['pyodide']
-        }
-      }
-    }
+    // Pyodide is only imported by the Python worker, which is bundled as its own chunk
+    chunkSizeWarningLimit: 5000
   },
   // Make sure Vite recognizes WebAssembly files as assets
   assetsInclude: ['**/*.wasm'],